@@ -0,0 +1,14 @@
+// Copies the prompt templates next to the compiled agents, where `DEFAULT_PROMPTS_DIR` looks for them
+
+import fs from 'fs';
+import path from 'path';
+
+const root = path.join(path.dirname(new URL(import.meta.url).pathname), '..');
+const source = path.join(root, 'src', 'ai-agents', 'prompts');
+const target = path.join(root, 'dist', 'ai-agents', 'prompts');
+
+fs.mkdirSync(target, { recursive: true });
+for (const file of fs.readdirSync(source)) {
+  fs.copyFileSync(path.join(source, file), path.join(target, file));
+}
+console.log(`Copied prompt templates to ${path.relative(root, target)}`);
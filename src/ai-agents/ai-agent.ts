@@ -1,6 +1,20 @@
 import { WorkflowPlan, NodeSpecification, FlowConnection } from '../types/n8n-workflow.js';
 import { N8nWorkflow, N8nNode } from '../types/n8n-workflow.js';
-import { ollamaCacheManager } from '../performance/ollama-cache-manager.js';
+import { OllamaCacheManager, ollamaCacheManager, CacheLookupOptions } from '../performance/ollama-cache-manager.js';
+import { LLMTask, GenerationOptions } from './providers/llm-provider.js';
+import { LLMProviderRegistry, ProviderSelection } from './providers/provider-registry.js';
+import {
+  JsonSchema,
+  ResponseDiagnostics,
+  StructuredOutputError,
+  REQUIREMENT_ANALYSIS_SCHEMA,
+  WORKFLOW_PLAN_SCHEMA,
+  parseStructuredResponse
+} from './structured-output.js';
+import { FewShotRetriever, FewShotOptions } from './few-shot-retriever.js';
+import { WorkflowExplainer, WorkflowExplanation } from '../parsers/workflow-explainer.js';
+import { PromptRegistry, getDefaultPromptRegistry, formatPromptValue } from './prompt-registry.js';
+import { ContextPacker } from './context-packer.js';
 
 export interface WorkflowRequirements {
   description: string;
@@ -12,6 +26,37 @@ export interface WorkflowRequirements {
   tags?: string[];
 }
 
+export interface AIAgentOptions {
+  /** Throw `StructuredOutputError` for unusable analysis/planning responses instead of using the fallback */
+  strictStructuredOutput?: boolean;
+  /** Inline similar stored workflows into planning prompts */
+  fewShot?: FewShotOptions & { retriever: FewShotRetriever };
+  /** Prompt templates; defaults to the bundled `prompts` directory next to the agents */
+  prompts?: PromptRegistry;
+  /** Shrinks workflows inlined into prompts to a token budget */
+  contextPacker?: ContextPacker;
+  /** Response cache; defaults to the shared `ollamaCacheManager` */
+  cache?: OllamaCacheManager;
+}
+
+/**
+ * A model response that was rejected, and why
+ */
+export interface RejectedResponse extends ResponseDiagnostics {
+  task: LLMTask;
+  model: string;
+  timestamp: number;
+}
+
+/**
+ * Step-by-step explanation of a workflow; `text` is the model's rewrite when `polished` is true
+ */
+export interface ExplainedWorkflow {
+  explanation: WorkflowExplanation;
+  text: string;
+  polished: boolean;
+}
+
 export interface SimplificationSuggestion {
   type: 'split-node' | 'merge-nodes' | 'simplify-parameters' | 'replace-node';
   nodeId: string;
@@ -21,51 +66,78 @@ export interface SimplificationSuggestion {
 }
 
 /**
- * AI Agent that uses Ollama to analyze requirements and plan workflows
+ * AI Agent that uses a local model (Ollama by default) to analyze requirements and plan workflows
  */
 export class AIAgent {
   private readonly ollamaBaseUrl: string;
   private readonly modelName: string;
   private readonly enableCaching: boolean;
+  private readonly providers: LLMProviderRegistry;
+  private readonly options: AIAgentOptions;
+  private readonly contextPacker: ContextPacker;
+  private readonly cache: OllamaCacheManager;
+  private rejectedResponses: RejectedResponse[] = [];
 
   constructor(
     ollamaBaseUrl = 'http://localhost:11434', 
     modelName = 'deepseek-r1:14b',
-    enableCaching = true
+    enableCaching = true,
+    providers?: ProviderSelection | LLMProviderRegistry,
+    options: AIAgentOptions = {}
   ) {
     this.ollamaBaseUrl = ollamaBaseUrl;
     this.modelName = modelName;
     this.enableCaching = enableCaching;
+    this.options = options;
+    this.contextPacker = options.contextPacker || new ContextPacker();
+    this.cache = options.cache || ollamaCacheManager;
+    this.providers = providers instanceof LLMProviderRegistry
+      ? providers
+      : new LLMProviderRegistry({ default: { type: 'ollama', baseUrl: ollamaBaseUrl, model: modelName }, ...providers });
+  }
+
+  /**
+   * Prompt templates, loaded on first use so that a missing template directory fails the
+   * request that needs it rather than the constructor
+   */
+  private get prompts(): PromptRegistry {
+    return this.options.prompts || getDefaultPromptRegistry();
   }
 
   /**
    * Analyze user requirements to understand what kind of workflow is needed
    */
   async analyzeRequirements(requirements: WorkflowRequirements): Promise<RequirementAnalysis> {
-    const prompt = this.buildAnalysisPrompt(requirements);
+    const variables = this.getAnalysisPromptVariables(requirements);
+    const prompt = this.prompts.render('analysis', variables);
+    let response: string;
     
     try {
-      const response = await this.callOllama(prompt);
-      return this.parseAnalysisResponse(response, requirements);
+      response = await this.callModel(prompt, 'analysis', {}, REQUIREMENT_ANALYSIS_SCHEMA, this.getCacheLookup('analysis', variables));
     } catch (error) {
       console.warn('AI analysis failed, using fallback analysis:', error);
       return this.createFallbackAnalysis(requirements);
     }
+
+    return this.parseAnalysisResponse(response, requirements);
   }
 
   /**
    * Plan the workflow structure based on the analysis
    */
   async planWorkflow(analysis: RequirementAnalysis): Promise<WorkflowPlan> {
-    const prompt = this.buildPlanningPrompt(analysis);
+    const variables = this.getPlanningPromptVariables(analysis);
+    const prompt = this.prompts.render('planning', variables);
+    let response: string;
     
     try {
-      const response = await this.callOllama(prompt);
-      return this.parsePlanningResponse(response, analysis);
+      response = await this.callModel(prompt, 'planning', {}, WORKFLOW_PLAN_SCHEMA, this.getCacheLookup('planning', variables));
     } catch (error) {
       console.warn('AI planning failed, using fallback plan:', error);
       return this.createFallbackPlan(analysis);
     }
+
+    return this.parsePlanningResponse(response, analysis);
   }
 
   /**
@@ -76,10 +148,11 @@ export class AIAgent {
     complexNodes: N8nNode[], 
     requirements: WorkflowRequirements
   ): Promise<SimplificationSuggestion[]> {
-    const prompt = this.buildSimplificationPrompt(workflow, complexNodes, requirements);
+    const variables = this.getSimplificationPromptVariables(workflow, complexNodes, requirements);
+    const prompt = this.prompts.render('simplification', variables);
     
     try {
-      const response = await this.callOllama(prompt);
+      const response = await this.callModel(prompt, 'simplification', {}, undefined, this.getCacheLookup('simplification', variables));
       return this.parseSimplificationResponse(response, complexNodes);
     } catch (error) {
       console.warn('AI simplification failed, using fallback suggestions:', error);
@@ -87,6 +160,97 @@ export class AIAgent {
     }
   }
 
+  /**
+   * Explain a workflow step by step. The template-based narrative is rewritten by the model
+   * into plain prose; if the model fails, the template-based text is returned as is.
+   */
+  async explainWorkflow(workflow: N8nWorkflow, explainer = new WorkflowExplainer()): Promise<ExplainedWorkflow> {
+    const explanation = explainer.explain(workflow);
+    const narrative = explainer.toText(explanation);
+
+    try {
+      const response = await this.callModel(this.buildExplanationPrompt(narrative), 'explanation', { temperature: 0.2 });
+      const text = response.replace(/<think>[\s\S]*?<\/think>/g, '').trim();
+      if (text) {
+        return { explanation, text, polished: true };
+      }
+    } catch (error) {
+      console.warn('AI explanation failed, using template explanation:', error);
+    }
+
+    return { explanation, text: narrative, polished: false };
+  }
+
+  /**
+   * Send a prompt built by the caller to the model and return the raw response
+   */
+  async complete(prompt: string, task: LLMTask = 'default', options?: GenerationOptions): Promise<string> {
+    return this.callModel(prompt, task, options);
+  }
+
+  /**
+   * Providers used for each task
+   */
+  getProviders(): LLMProviderRegistry {
+    return this.providers;
+  }
+
+  /**
+   * Few-shot section for the planning prompt: stored workflows closest to the analysis, within the token budget
+   */
+  getPlanningExamples(analysis: RequirementAnalysis): string {
+    if (!this.options.fewShot) {
+      return '';
+    }
+
+    const { retriever, ...fewShotOptions } = this.options.fewShot;
+    const query = [...analysis.keyComponents, ...analysis.suggestedNodeTypes, analysis.dataFlow].join(' ');
+    return retriever.buildPromptSection(query, fewShotOptions);
+  }
+
+  /**
+   * Variables for the `analysis` prompt template
+   */
+  getAnalysisPromptVariables(requirements: WorkflowRequirements): Record<string, any> {
+    return {
+      description: requirements.description,
+      type: requirements.type,
+      inputs: requirements.inputs?.map(i => `${i.name} (${i.type}): ${i.description}`).join(', ') || 'None specified',
+      outputs: requirements.outputs?.map(o => `${o.name} (${o.type}): ${o.description}`).join(', ') || 'None specified',
+      steps: requirements.steps?.join(', ') || 'None specified',
+      constraints: JSON.stringify(requirements.constraints || {})
+    };
+  }
+
+  /**
+   * Variables for the `planning` prompt template, including the few-shot examples
+   */
+  getPlanningPromptVariables(analysis: RequirementAnalysis): Record<string, any> {
+    const examples = this.getPlanningExamples(analysis);
+    return {
+      workflowType: analysis.workflowType,
+      estimatedComplexity: analysis.estimatedComplexity,
+      keyComponents: analysis.keyComponents,
+      suggestedNodeTypes: analysis.suggestedNodeTypes,
+      dataFlow: analysis.dataFlow,
+      examples: examples ? `${examples}\n\n` : ''
+    };
+  }
+
+  /**
+   * Prompt templates used by this agent
+   */
+  getPrompts(): PromptRegistry {
+    return this.prompts;
+  }
+
+  /**
+   * Recent analysis/planning responses that were replaced by a fallback or raised an error, newest last
+   */
+  getRejectedResponses(): RejectedResponse[] {
+    return [...this.rejectedResponses];
+  }
+
   /**
    * Get cache statistics for performance monitoring
    */
@@ -94,7 +258,7 @@ export class AIAgent {
     if (!this.enableCaching) {
       return null;
     }
-    return ollamaCacheManager.getCacheStats();
+    return this.cache.getCacheStats();
   }
 
   /**
@@ -102,7 +266,7 @@ export class AIAgent {
    */
   clearCache(): void {
     if (this.enableCaching) {
-      ollamaCacheManager.clearCache();
+      this.cache.clearCache();
     }
   }
 
@@ -139,136 +303,74 @@ export class AIAgent {
       }
     ];
 
-    await ollamaCacheManager.preloadCommonPrompts(commonPrompts);
+    await this.cache.preloadCommonPrompts(commonPrompts);
   }
 
   /**
-   * Build the analysis prompt for Ollama
+   * Variables for the `simplification` template. Versions that take the workflow get it packed
+   * around the complex nodes.
    */
-  private buildAnalysisPrompt(requirements: WorkflowRequirements): string {
-    return `You are an expert n8n workflow designer. Analyze the following requirements and provide a structured analysis.
-
-Requirements:
-- Description: ${requirements.description}
-- Type: ${requirements.type}
-- Inputs: ${requirements.inputs?.map(i => `${i.name} (${i.type}): ${i.description}`).join(', ') || 'None specified'}
-- Outputs: ${requirements.outputs?.map(o => `${o.name} (${o.type}): ${o.description}`).join(', ') || 'None specified'}
-- Steps: ${requirements.steps?.join(', ') || 'None specified'}
-- Constraints: ${JSON.stringify(requirements.constraints || {})}
-
-Please analyze and respond with a JSON object containing:
-{
-  "workflowType": "linear|parallel|conditional|complex",
-  "estimatedComplexity": 1-10,
-  "keyComponents": ["component1", "component2", ...],
-  "suggestedNodeTypes": ["node-type-1", "node-type-2", ...],
-  "dataFlow": "description of how data flows through the workflow",
-  "potentialChallenges": ["challenge1", "challenge2", ...],
-  "recommendations": ["recommendation1", "recommendation2", ...]
-}
-
-Focus on practical n8n implementation and keep complexity reasonable.`;
+  private getSimplificationPromptVariables(
+    workflow: N8nWorkflow, 
+    complexNodes: N8nNode[], 
+    requirements: WorkflowRequirements
+  ): Record<string, any> {
+    const template = this.prompts.get('simplification');
+    return {
+      workflowName: workflow.name,
+      nodeCount: workflow.nodes.length,
+      complexNodes: complexNodes.map(node => `${node.name} (${node.type}): ${Object.keys(node.parameters).length} parameters`).join('\n'),
+      description: requirements.description,
+      ...(template.variables.workflow && { workflow: this.contextPacker.packWorkflow(workflow, complexNodes.map(node => node.name)).text })
+    };
   }
 
   /**
-   * Build the planning prompt for Ollama
+   * Cache hint for a templated prompt. Only the required variables are compared for similarity:
+   * the template text is the same for every prompt, and optional ones such as few-shot examples
+   * are supporting context rather than the request itself.
    */
-  private buildPlanningPrompt(analysis: RequirementAnalysis): string {
-    return `Based on the analysis, create a detailed workflow plan for n8n.
-
-Analysis:
-- Workflow Type: ${analysis.workflowType}
-- Complexity: ${analysis.estimatedComplexity}/10
-- Key Components: ${analysis.keyComponents.join(', ')}
-- Suggested Node Types: ${analysis.suggestedNodeTypes.join(', ')}
-- Data Flow: ${analysis.dataFlow}
-
-Available n8n node types:
-- Triggers: n8n-nodes-base.start, n8n-nodes-base.webhook, n8n-nodes-base.cron
-- HTTP: n8n-nodes-base.httpRequest
-- Logic: n8n-nodes-base.code, n8n-nodes-base.function, n8n-nodes-base.if
-- Data: n8n-nodes-base.set, n8n-nodes-base.itemLists, n8n-nodes-base.merge
-- Files: n8n-nodes-base.readBinaryFile, n8n-nodes-base.writeBinaryFile
-- Utilities: n8n-nodes-base.wait, n8n-nodes-base.htmlExtract
-
-Create a JSON response with:
-{
-  "nodes": [
-    {
-      "id": "unique-id",
-      "name": "Node Name",
-      "type": "n8n-nodes-base.nodeType",
-      "parameters": { /* node-specific parameters */ },
-      "description": "what this node does"
-    }
-  ],
-  "flow": [
-    {
-      "from": "node-id-1",
-      "to": "node-id-2",
-      "type": "main|success|error",
-      "condition": "optional condition for conditional flows"
-    }
-  ],
-  "estimatedComplexity": 1-10,
-  "rationale": "explanation of the design decisions"
-}
-
-Keep the workflow practical and implementable.`;
+  private getCacheLookup(name: string, variables: Record<string, any>): CacheLookupOptions {
+    const template = this.prompts.get(name);
+    const semanticText = Object.entries(template.variables)
+      .filter(([, variable]) => variable.required)
+      .map(([variable]) => `${variable}: ${formatPromptValue(variables[variable])}`)
+      .join('\n');
+
+    return { template: template.name, templateVersion: template.version, semanticText };
   }
 
   /**
-   * Build the simplification prompt for Ollama
+   * Build the prompt that turns the template-based narrative into readable prose
    */
-  private buildSimplificationPrompt(
-    workflow: N8nWorkflow, 
-    complexNodes: N8nNode[], 
-    requirements: WorkflowRequirements
-  ): string {
-    const nodeDescriptions = complexNodes.map(node => 
-      `${node.name} (${node.type}): ${Object.keys(node.parameters).length} parameters`
-    ).join('\n');
-
-    return `Analyze this n8n workflow and suggest simplifications for complex nodes.
-
-Workflow: ${workflow.name}
-Total Nodes: ${workflow.nodes.length}
-Complex Nodes:
-${nodeDescriptions}
-
-Original Requirements: ${requirements.description}
-
-Please suggest simplifications as JSON:
-{
-  "suggestions": [
-    {
-      "type": "split-node|merge-nodes|simplify-parameters",
-      "nodeId": "target-node-id",
-      "description": "explanation of the simplification",
-      "parameters": { /* any specific parameters for the simplification */ }
-    }
-  ]
-}
-
-Focus on maintaining functionality while reducing complexity.`;
+  private buildExplanationPrompt(narrative: string): string {
+    return this.prompts.render('explanation', { narrative });
   }
 
   /**
-   * Call Ollama API with caching support
+   * Call the task's model provider with caching support
    */
-  private async callOllama(prompt: string): Promise<string> {
-    const temperature = 0.3;
-    const topP = 0.9;
-    const numPredict = 2000;
+  private async callModel(
+    prompt: string,
+    task: LLMTask,
+    options: GenerationOptions = {},
+    schema?: JsonSchema,
+    cacheLookup?: CacheLookupOptions
+  ): Promise<string> {
+    const provider = this.providers.forTask(task);
+    const temperature = options.temperature ?? 0.3;
+    const topP = options.topP ?? 0.9;
+    const numPredict = options.maxTokens ?? 2000;
 
     // Check cache first if caching is enabled
     if (this.enableCaching) {
-      const cachedResponse = await ollamaCacheManager.getCachedResponse(
+      const cachedResponse = await this.cache.getCachedResponse(
         prompt,
-        this.modelName,
+        provider.model,
         temperature,
         topP,
-        numPredict
+        numPredict,
+        cacheLookup
       );
       
       if (cachedResponse) {
@@ -280,52 +382,37 @@ Focus on maintaining functionality while reducing complexity.`;
     const startTime = Date.now();
     
     try {
-      const response = await fetch(`${this.ollamaBaseUrl}/api/generate`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: this.modelName,
-          prompt,
-          stream: false,
-          options: {
-            temperature,
-            top_p: topP,
-            num_predict: numPredict
-          }
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json() as { response: string };
+      const request = { prompt, options: { ...options, temperature, topP, maxTokens: numPredict }, schema };
+      // A router may have handed the request to another model; cache the answer under the one that gave it
+      const { response, model } = provider.completeWithModel
+        ? await provider.completeWithModel(request)
+        : { response: await provider.complete(request), model: provider.model };
       const responseTime = Date.now() - startTime;
 
       // Record performance metrics
       if (this.enableCaching) {
-        ollamaCacheManager.recordResponseTime(responseTime);
+        this.cache.recordResponseTime(responseTime);
         
         // Cache the response
-        await ollamaCacheManager.setCachedResponse(
+        await this.cache.setCachedResponse(
           prompt,
-          data.response,
-          this.modelName,
+          response,
+          model,
           temperature,
           topP,
-          numPredict
+          numPredict,
+          undefined,
+          cacheLookup
         );
       }
 
-      return data.response;
+      return response;
     } catch (error) {
       const responseTime = Date.now() - startTime;
       
       // Still record response time for failed requests
       if (this.enableCaching) {
-        ollamaCacheManager.recordResponseTime(responseTime);
+        this.cache.recordResponseTime(responseTime);
       }
       
       throw error;
@@ -333,80 +420,67 @@ Focus on maintaining functionality while reducing complexity.`;
   }
 
   /**
-   * Parse the analysis response from Ollama
+   * Parse the analysis response against `REQUIREMENT_ANALYSIS_SCHEMA`
    */
   private parseAnalysisResponse(response: string, requirements: WorkflowRequirements): RequirementAnalysis {
-    try {
-      // Handle DeepSeek's thinking process by looking for JSON after </think>
-      let cleanResponse = response;
-      if (response.includes('</think>')) {
-        cleanResponse = response.split('</think>')[1];
-      }
-      
-      // Try to extract the last valid JSON object from the response
-      const jsonMatches = cleanResponse.match(/\{[^{}]*(?:\{[^{}]*\}[^{}]*)*\}/g);
-      if (jsonMatches && jsonMatches.length > 0) {
-        const lastJsonMatch = jsonMatches[jsonMatches.length - 1];
-        const parsed = JSON.parse(lastJsonMatch);
-        return {
-          workflowType: parsed.workflowType || 'linear',
-          estimatedComplexity: Math.min(10, Math.max(1, parsed.estimatedComplexity || 5)),
-          keyComponents: Array.isArray(parsed.keyComponents) ? parsed.keyComponents : [],
-          suggestedNodeTypes: Array.isArray(parsed.suggestedNodeTypes) ? parsed.suggestedNodeTypes : [],
-          dataFlow: parsed.dataFlow || 'Linear data flow',
-          potentialChallenges: Array.isArray(parsed.potentialChallenges) ? parsed.potentialChallenges : [],
-          recommendations: Array.isArray(parsed.recommendations) ? parsed.recommendations : []
-        };
-      }
-    } catch (error) {
-      console.warn('Failed to parse AI analysis response:', error);
+    const { value: parsed, diagnostics } = parseStructuredResponse<RequirementAnalysis>(response, REQUIREMENT_ANALYSIS_SCHEMA);
+    if (!parsed) {
+      this.rejectResponse('analysis', diagnostics);
+      return this.createFallbackAnalysis(requirements);
     }
-    
-    return this.createFallbackAnalysis(requirements);
+
+    return {
+      workflowType: parsed.workflowType,
+      estimatedComplexity: parsed.estimatedComplexity,
+      keyComponents: parsed.keyComponents,
+      suggestedNodeTypes: parsed.suggestedNodeTypes,
+      dataFlow: parsed.dataFlow,
+      potentialChallenges: parsed.potentialChallenges || [],
+      recommendations: parsed.recommendations || []
+    };
   }
 
   /**
-   * Parse the planning response from Ollama
+   * Parse the planning response against `WORKFLOW_PLAN_SCHEMA`
    */
   private parsePlanningResponse(response: string, analysis: RequirementAnalysis): WorkflowPlan {
-    try {
-      // Handle DeepSeek's thinking process by looking for JSON after </think>
-      let cleanResponse = response;
-      if (response.includes('</think>')) {
-        cleanResponse = response.split('</think>')[1];
-      }
-      
-      // Try to extract the last valid JSON object from the response
-      const jsonMatches = cleanResponse.match(/\{[^{}]*(?:\{[^{}]*\}[^{}]*)*\}/g);
-      if (jsonMatches && jsonMatches.length > 0) {
-        const lastJsonMatch = jsonMatches[jsonMatches.length - 1];
-        const parsed = JSON.parse(lastJsonMatch);
-        
-        if (parsed.nodes && parsed.flow) {
-          return {
-            nodes: parsed.nodes.map((node: any) => ({
-              id: node.id || `node-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-              name: node.name || 'Unnamed Node',
-              type: node.type || 'n8n-nodes-base.start',
-              parameters: node.parameters || {},
-              description: node.description || ''
-            })),
-            flow: parsed.flow.map((connection: any) => ({
-              from: connection.from,
-              to: connection.to,
-              type: connection.type || 'main',
-              condition: connection.condition
-            })),
-            estimatedComplexity: Math.min(10, Math.max(1, parsed.estimatedComplexity || analysis.estimatedComplexity)),
-            rationale: parsed.rationale || 'AI-generated workflow plan'
-          };
-        }
-      }
-    } catch (error) {
-      console.warn('Failed to parse AI planning response:', error);
+    const { value: parsed, diagnostics } = parseStructuredResponse<WorkflowPlan>(response, WORKFLOW_PLAN_SCHEMA);
+    if (!parsed) {
+      this.rejectResponse('planning', diagnostics);
+      return this.createFallbackPlan(analysis);
     }
-    
-    return this.createFallbackPlan(analysis);
+
+    return {
+      nodes: parsed.nodes.map(node => ({
+        id: node.id,
+        name: node.name,
+        type: node.type,
+        parameters: node.parameters || {},
+        description: node.description || '',
+        ...(node.position && { position: node.position })
+      })),
+      flow: parsed.flow.map(connection => ({
+        from: connection.from,
+        to: connection.to,
+        type: connection.type || 'main',
+        condition: connection.condition
+      })),
+      estimatedComplexity: parsed.estimatedComplexity ?? analysis.estimatedComplexity,
+      rationale: parsed.rationale || 'AI-generated workflow plan'
+    };
+  }
+
+  /**
+   * Record why a response was rejected; throws in strict mode, otherwise the caller falls back
+   */
+  private rejectResponse(task: LLMTask, diagnostics: ResponseDiagnostics): void {
+    this.rejectedResponses.push({ ...diagnostics, task, model: this.providers.forTask(task).model, timestamp: Date.now() });
+    if (this.rejectedResponses.length > 20) this.rejectedResponses.shift();
+
+    if (this.options.strictStructuredOutput) {
+      throw new StructuredOutputError(task, diagnostics);
+    }
+    console.warn(`Rejected AI ${task} response (${diagnostics.stage}): ${diagnostics.message}; using fallback`);
   }
 
   /**
@@ -0,0 +1,311 @@
+import { N8nWorkflow, N8nNode } from '../types/n8n-workflow.js';
+import { ConnectionGraph, ConnectionEdge } from '../utils/connection-graph.js';
+
+export interface ContextPackerOptions {
+  /** Token budget for the packed text (default: 1500) */
+  tokenBudget?: number;
+  /** Lines of Code node bodies and other multi-line strings kept before truncating (default: 30) */
+  maxCodeLines?: number;
+  /** Characters of single-line strings kept before truncating (default: 400) */
+  maxStringLength?: number;
+  /** Array items kept when packing arbitrary JSON (default: 20) */
+  maxArrayItems?: number;
+  /** Nodes within this many connections of a focus node stay in full when distant ones are summarized (default: 1) */
+  focusDistance?: number;
+}
+
+/**
+ * Workflow or JSON context reduced to fit a prompt
+ */
+export interface PackedContext {
+  text: string;
+  tokens: number;
+  budget: number;
+  /** False when even the most reduced form is over budget */
+  fits: boolean;
+  /** Reductions applied, in order */
+  reductions: string[];
+  /** Nodes replaced by a one-line summary */
+  summarizedNodes: string[];
+}
+
+interface PackLevel {
+  label: string;
+  indent: boolean;
+  codeLines: number;
+  stringLength: number;
+  arrayItems: number;
+  /** Summarize nodes further than this from the focus; undefined keeps every node */
+  summarizeBeyond?: number;
+  /** Depth below which arbitrary JSON is collapsed */
+  maxDepth?: number;
+}
+
+// Parameters holding code or queries; long ones are cut by lines rather than characters
+const CODE_PARAMETERS = new Set(['jsCode', 'pythonCode', 'functionCode', 'functionItemCode', 'code', 'query', 'html']);
+
+// Editor and execution state that says nothing about what a workflow does
+const STRIPPED_KEYS = new Set(['position', 'pinData', 'staticData']);
+
+/**
+ * Rough token count. Prose averages about four characters per token, while the symbols
+ * that make up JSON and code mostly tokenize on their own, so each counts half a token extra.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const symbols = (text.match(/[^\w\s]/g) || []).length;
+  return Math.ceil((text.length - symbols) / 4 + symbols * 0.5);
+}
+
+/**
+ * Shrinks workflows and other JSON to a token budget for prompts sent to small local models.
+ * Reductions are tried in order until the text fits: strip editor state, drop indentation,
+ * cut long code and strings further, then summarize subgraphs far from the focus nodes.
+ */
+export class ContextPacker {
+  private readonly options: Required<ContextPackerOptions>;
+
+  constructor(options: ContextPackerOptions = {}) {
+    this.options = {
+      tokenBudget: options.tokenBudget ?? 1500,
+      maxCodeLines: options.maxCodeLines ?? 30,
+      maxStringLength: options.maxStringLength ?? 400,
+      maxArrayItems: options.maxArrayItems ?? 20,
+      focusDistance: options.focusDistance ?? 1
+    };
+  }
+
+  /**
+   * Pack a workflow. `focus` names the nodes the prompt is about; they are never summarized.
+   * Without a focus the trigger side of the workflow is kept in full.
+   */
+  packWorkflow(workflow: N8nWorkflow, focus: string[] = []): PackedContext {
+    const graph = new ConnectionGraph(workflow);
+    const distances = this.getDistances(graph, focus);
+    const levels = this.getLevels();
+    const focusDistance = this.options.focusDistance;
+
+    levels.push(
+      { ...levels[levels.length - 1], label: `summarized nodes more than ${focusDistance} step${focusDistance === 1 ? '' : 's'} from the focus`, summarizeBeyond: focusDistance },
+      { ...levels[levels.length - 1], label: 'summarized all nodes outside the focus', summarizeBeyond: 0 }
+    );
+
+    return this.fit(levels, level => {
+      const summarized = level.summarizeBeyond === undefined
+        ? new Set<string>()
+        : new Set(workflow.nodes.filter(node => (distances.get(node.name) ?? Infinity) > level.summarizeBeyond!).map(node => node.name));
+      return { value: this.compactWorkflow(workflow, graph, level, summarized), summarized: [...summarized] };
+    });
+  }
+
+  /**
+   * Pack arbitrary JSON such as an execution error. Embedded workflows are compacted,
+   * long strings and arrays are cut, and deep objects are collapsed when needed.
+   */
+  packJson(value: any): PackedContext {
+    if (isWorkflow(value)) {
+      return this.packWorkflow(value);
+    }
+
+    const levels = this.getLevels();
+    const last = levels[levels.length - 1];
+    levels.push(
+      { ...last, label: 'collapsed objects nested deeper than 4 levels', maxDepth: 4 },
+      { ...last, label: 'collapsed objects nested deeper than 2 levels', maxDepth: 2 }
+    );
+
+    return this.fit(levels, level => ({ value: this.pruneValue(value, level, 0), summarized: [] }));
+  }
+
+  /**
+   * Reduction levels shared by workflows and JSON, from least to most lossy
+   */
+  private getLevels(): PackLevel[] {
+    const { maxCodeLines, maxStringLength, maxArrayItems } = this.options;
+    const base = { codeLines: maxCodeLines, stringLength: maxStringLength, arrayItems: maxArrayItems };
+    return [
+      { ...base, label: 'stripped positions, ids and pinned data', indent: true },
+      { ...base, label: 'removed indentation', indent: false },
+      {
+        label: 'shortened code and strings',
+        indent: false,
+        codeLines: Math.min(maxCodeLines, 8),
+        stringLength: Math.min(maxStringLength, 120),
+        arrayItems: Math.min(maxArrayItems, 5)
+      }
+    ];
+  }
+
+  private fit(levels: PackLevel[], build: (level: PackLevel) => { value: any; summarized: string[] }): PackedContext {
+    const budget = this.options.tokenBudget;
+    let packed: PackedContext | null = null;
+
+    for (let index = 0; index < levels.length; index++) {
+      const level = levels[index];
+      const { value, summarized } = build(level);
+      const text = level.indent ? JSON.stringify(value, null, 2) : JSON.stringify(value);
+      const tokens = estimateTokens(text);
+      packed = {
+        text,
+        tokens,
+        budget,
+        fits: tokens <= budget,
+        reductions: levels.slice(0, index + 1).map(applied => applied.label),
+        summarizedNodes: summarized
+      };
+      if (packed.fits) break;
+    }
+
+    return packed!;
+  }
+
+  /**
+   * Connection distance (ignoring direction) from the focus nodes, or from the root nodes without a focus
+   */
+  private getDistances(graph: ConnectionGraph, focus: string[]): Map<string, number> {
+    const known = focus.filter(name => graph.getNode(name));
+    const start = known.length ? known : graph.getRootNodes().map(node => node.name);
+    const distances = new Map<string, number>(start.map(name => [name, 0]));
+    const queue = [...start];
+
+    while (queue.length) {
+      const name = queue.shift()!;
+      for (const neighbour of [...graph.getParents(name), ...graph.getChildren(name)]) {
+        if (distances.has(neighbour) || !graph.getNode(neighbour)) continue;
+        distances.set(neighbour, distances.get(name)! + 1);
+        queue.push(neighbour);
+      }
+    }
+
+    return distances;
+  }
+
+  private compactWorkflow(workflow: N8nWorkflow, graph: ConnectionGraph, level: PackLevel, summarized: Set<string>): Record<string, any> {
+    const nodes = workflow.nodes.filter(node => !summarized.has(node.name)).map(node => this.compactNode(node, level));
+    const connections = graph.edges
+      .filter(edge => !summarized.has(edge.source) || !summarized.has(edge.target))
+      .map(formatEdge);
+
+    return {
+      name: workflow.name,
+      nodes,
+      connections,
+      ...(summarized.size && { summarized: this.summarizeGroups(workflow, graph, summarized) })
+    };
+  }
+
+  private compactNode(node: N8nNode, level: PackLevel): Record<string, any> {
+    return {
+      name: node.name,
+      type: node.type,
+      ...(node.disabled && { disabled: true }),
+      ...(node.onError && node.onError !== 'stopWorkflow' && { onError: node.onError }),
+      ...(node.continueOnFail && { continueOnFail: true }),
+      ...(node.credentials && { credentials: Object.keys(node.credentials) }),
+      ...(node.notes && { notes: this.truncateString(node.notes, level, false) }),
+      parameters: this.pruneValue(node.parameters || {}, level, 0)
+    };
+  }
+
+  /**
+   * One line per connected group of summarized nodes: their names and a count of node types
+   */
+  private summarizeGroups(workflow: N8nWorkflow, graph: ConnectionGraph, summarized: Set<string>): string[] {
+    const seen = new Set<string>();
+    const lines: string[] = [];
+
+    for (const node of workflow.nodes) {
+      if (!summarized.has(node.name) || seen.has(node.name)) continue;
+
+      const group: N8nNode[] = [];
+      const queue = [node.name];
+      seen.add(node.name);
+      while (queue.length) {
+        const current = graph.getNode(queue.shift()!)!;
+        group.push(current);
+        for (const neighbour of [...graph.getParents(current.name), ...graph.getChildren(current.name)]) {
+          if (summarized.has(neighbour) && !seen.has(neighbour) && graph.getNode(neighbour)) {
+            seen.add(neighbour);
+            queue.push(neighbour);
+          }
+        }
+      }
+
+      const types = new Map<string, number>();
+      for (const member of group) {
+        const type = member.type.split('.').pop()!;
+        types.set(type, (types.get(type) || 0) + 1);
+      }
+      const typeList = [...types].map(([type, count]) => count > 1 ? `${count}× ${type}` : type).join(', ');
+      lines.push(`${group.map(member => member.name).join(', ')} (${group.length} node${group.length === 1 ? '' : 's'}: ${typeList})`);
+    }
+
+    return lines;
+  }
+
+  private pruneValue(value: any, level: PackLevel, depth: number, key?: string): any {
+    if (typeof value === 'string') {
+      return this.truncateString(value, level, key !== undefined && CODE_PARAMETERS.has(key));
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+
+    if (isWorkflow(value)) {
+      const graph = new ConnectionGraph(value);
+      // Once nesting is being collapsed, embedded workflows shrink to their outline
+      return level.maxDepth === undefined
+        ? this.compactWorkflow(value, graph, level, new Set())
+        : { name: value.name, nodes: value.nodes.map(node => `${node.name} (${node.type})`), connections: graph.edges.map(formatEdge) };
+    }
+
+    if (level.maxDepth !== undefined && depth >= level.maxDepth) {
+      const size = Array.isArray(value) ? value.length : Object.keys(value).length;
+      const unit = Array.isArray(value) ? 'item' : 'key';
+      const label = `${size} ${unit}${size === 1 ? '' : 's'}`;
+      return Array.isArray(value) ? `[… ${label}]` : `{… ${label}}`;
+    }
+
+    if (Array.isArray(value)) {
+      const items = value.slice(0, level.arrayItems).map(item => this.pruneValue(item, level, depth + 1));
+      if (value.length > level.arrayItems) items.push(`… ${value.length - level.arrayItems} more items`);
+      return items;
+    }
+
+    const result: Record<string, any> = {};
+    for (const [entryKey, entry] of Object.entries(value)) {
+      if (STRIPPED_KEYS.has(entryKey) || entry === undefined) continue;
+      result[entryKey] = this.pruneValue(entry, level, depth + 1, entryKey);
+    }
+    return result;
+  }
+
+  /**
+   * Cut code and other multi-line text by lines, everything else by characters
+   */
+  private truncateString(value: string, level: PackLevel, isCode: boolean): string {
+    const lines = value.split('\n');
+    if (isCode || lines.length > 1) {
+      if (lines.length > level.codeLines) {
+        return `${lines.slice(0, level.codeLines).join('\n')}\n… ${lines.length - level.codeLines} more lines`;
+      }
+      if (isCode) return value;
+    }
+
+    if (value.length > level.stringLength) {
+      return `${value.slice(0, level.stringLength)}… (${value.length - level.stringLength} more characters)`;
+    }
+    return value;
+  }
+}
+
+function isWorkflow(value: any): value is N8nWorkflow {
+  return Boolean(value) && Array.isArray(value.nodes) && typeof value.connections === 'object' && value.connections !== null;
+}
+
+function formatEdge(edge: ConnectionEdge): string {
+  const output = edge.outputType === 'main'
+    ? (edge.outputIndex ? `[${edge.outputIndex}]` : '')
+    : ` (${edge.outputType})`;
+  return `${edge.source}${output} -> ${edge.target}`;
+}
@@ -0,0 +1,272 @@
+import { N8nWorkflow } from '../types/n8n-workflow.js';
+import { KnowledgeType, WorkflowPatternKnowledge } from '../integration/knowledge-management-system.js';
+import { getConnectionEdges } from '../utils/connection-graph.js';
+import { estimateTokens } from './context-packer.js';
+
+export { estimateTokens };
+
+/**
+ * Condensed workflow used as a few-shot example in planning prompts
+ */
+export interface FewShotExample {
+  id: string;
+  title: string;
+  description: string;
+  source: 'workflow' | 'template' | 'pattern';
+  nodes: Array<{ name: string; type: string }>;
+  /** `from -> to` pairs, by node name */
+  connections: string[];
+  tags: string[];
+}
+
+export interface RetrievedExample {
+  example: FewShotExample;
+  score: number;
+}
+
+export interface FewShotOptions {
+  /** Maximum number of examples to inline */
+  topK?: number;
+  /** Approximate token budget for the whole examples section */
+  tokenBudget?: number;
+  /** Examples scoring below this are never used */
+  minScore?: number;
+}
+
+/**
+ * Anything that can list stored workflow patterns, e.g. `KnowledgeDataAccessLayer` or `KnowledgeStorageManager`
+ */
+export interface PatternSource {
+  read(query: { type?: KnowledgeType; limit?: number }): Promise<{ data: any[] }>;
+}
+
+/**
+ * Anything that can list and load saved templates, e.g. `TemplateService`
+ */
+export interface TemplateSource {
+  listTemplates(): Promise<Array<{ name: string }>>;
+  getTemplate(name: string): Promise<(N8nWorkflow & { templateName: string; templateDescription?: string }) | null>;
+}
+
+interface IndexedExample {
+  example: FewShotExample;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+const DEFAULT_OPTIONS: Required<FewShotOptions> = { topK: 3, tokenBudget: 800, minScore: 0.05 };
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into', 'is', 'it', 'of', 'on', 'or',
+  'that', 'the', 'then', 'this', 'to', 'with', 'n8n', 'nodes', 'base', 'node', 'workflow', 'data'
+]);
+
+/**
+ * Keyword index over stored workflows, templates and workflow patterns that picks
+ * the closest ones to a request as few-shot examples for planning prompts
+ */
+export class FewShotRetriever {
+  private examples = new Map<string, IndexedExample>();
+  private documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.examples.size;
+  }
+
+  /**
+   * Index a workflow; re-adding an id replaces the earlier entry
+   */
+  addWorkflow(workflow: N8nWorkflow, details: { description?: string; tags?: string[]; source?: FewShotExample['source'] } = {}): FewShotExample {
+    const edges = getConnectionEdges(workflow.connections);
+    return this.addExample({
+      id: workflow.id || workflow.name,
+      title: workflow.name,
+      description: details.description || '',
+      source: details.source || 'workflow',
+      nodes: workflow.nodes.map(node => ({ name: node.name, type: node.type })),
+      connections: edges.map(edge => `${edge.source} -> ${edge.target}`),
+      tags: details.tags || (workflow.tags || []).map(tag => tag.name)
+    });
+  }
+
+  /**
+   * Index a stored workflow pattern from the knowledge base
+   */
+  addPattern(pattern: WorkflowPatternKnowledge): FewShotExample {
+    return this.addExample({
+      id: pattern.id,
+      title: pattern.title,
+      description: [pattern.description, ...(pattern.pattern.commonUses || [])].filter(Boolean).join('. '),
+      source: 'pattern',
+      nodes: pattern.pattern.nodes.map(type => ({ name: shortType(type), type })),
+      connections: pattern.pattern.connections.map(connection => `${connection.from} -> ${connection.to}`),
+      tags: pattern.tags || []
+    });
+  }
+
+  addExample(example: FewShotExample): FewShotExample {
+    this.remove(example.id);
+
+    const terms = tokenize([
+      example.title,
+      example.description,
+      example.tags.join(' '),
+      example.nodes.map(node => `${node.name} ${shortType(node.type)}`).join(' ')
+    ].join(' '));
+
+    const termFrequencies = new Map<string, number>();
+    for (const term of terms) termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1);
+    for (const term of termFrequencies.keys()) {
+      this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+    }
+
+    this.examples.set(example.id, { example, termFrequencies, length: terms.length });
+    this.totalLength += terms.length;
+    return example;
+  }
+
+  remove(id: string): boolean {
+    const indexed = this.examples.get(id);
+    if (!indexed) return false;
+
+    for (const term of indexed.termFrequencies.keys()) {
+      const count = (this.documentFrequencies.get(term) || 1) - 1;
+      if (count > 0) this.documentFrequencies.set(term, count);
+      else this.documentFrequencies.delete(term);
+    }
+    this.totalLength -= indexed.length;
+    this.examples.delete(id);
+    return true;
+  }
+
+  /**
+   * Index every workflow pattern stored in the knowledge base
+   */
+  async loadPatterns(source: PatternSource, limit = 500): Promise<number> {
+    const result = await source.read({ type: KnowledgeType.WORKFLOW_PATTERN, limit });
+    const patterns = result.data.filter(entry => entry.type === KnowledgeType.WORKFLOW_PATTERN && entry.pattern);
+    patterns.forEach(pattern => this.addPattern(pattern));
+    return patterns.length;
+  }
+
+  /**
+   * Index the latest version of every saved template
+   */
+  async loadTemplates(source: TemplateSource): Promise<number> {
+    let loaded = 0;
+    for (const { name } of await source.listTemplates()) {
+      const template = await source.getTemplate(name);
+      if (!template) continue;
+
+      this.addWorkflow(template, { description: template.templateDescription, source: 'template' });
+      loaded++;
+    }
+    return loaded;
+  }
+
+  /**
+   * Rank indexed examples against a request with BM25; scores are normalized to 0-1
+   */
+  retrieve(query: string, topK = DEFAULT_OPTIONS.topK, minScore = DEFAULT_OPTIONS.minScore): RetrievedExample[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || this.examples.size === 0) return [];
+
+    const averageLength = this.totalLength / this.examples.size;
+    const idf = (term: string) => {
+      const documentFrequency = this.documentFrequencies.get(term) || 0;
+      return Math.log(1 + (this.examples.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+    };
+
+    // Upper bound of the BM25 sum over the query terms the index knows, used to normalize scores
+    const ceiling = queryTerms
+      .filter(term => this.documentFrequencies.has(term))
+      .reduce((sum, term) => sum + idf(term) * (K1 + 1), 0);
+    const scored: RetrievedExample[] = [];
+
+    for (const indexed of this.examples.values()) {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = indexed.termFrequencies.get(term);
+        if (!frequency) continue;
+        score += idf(term) * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * indexed.length / averageLength));
+      }
+
+      if (score > 0) scored.push({ example: indexed.example, score: score / ceiling });
+    }
+
+    return scored
+      .filter(result => result.score >= minScore)
+      .sort((a, b) => b.score - a.score || a.example.title.localeCompare(b.example.title))
+      .slice(0, topK);
+  }
+
+  /**
+   * Prompt section with the closest examples that fit in the token budget; empty when nothing matches
+   */
+  buildPromptSection(query: string, options: FewShotOptions = {}): string {
+    const { topK, tokenBudget, minScore } = { ...DEFAULT_OPTIONS, ...options };
+    const header = 'Proven workflows similar to this request (adapt them, do not copy blindly):';
+    let remaining = tokenBudget - estimateTokens(header);
+    const sections: string[] = [];
+
+    for (const { example } of this.retrieve(query, topK, minScore)) {
+      const summary = summarizeExample(example, sections.length + 1);
+      const cost = estimateTokens(summary) + 1;
+      if (cost > remaining) continue;
+
+      sections.push(summary);
+      remaining -= cost;
+    }
+
+    return sections.length ? [header, ...sections].join('\n\n') : '';
+  }
+}
+
+/**
+ * Compact text form of an example: title, description, node list and flow
+ */
+export function summarizeExample(example: FewShotExample, index: number): string {
+  const lines = [`Example ${index}: ${example.title}${example.description ? ` - ${truncate(example.description, 160)}` : ''}`];
+  lines.push(`Nodes: ${example.nodes.map(node => `${node.name} (${node.type})`).join(', ')}`);
+  if (example.connections.length) {
+    lines.push(`Flow: ${example.connections.join('; ')}`);
+  }
+  return lines.join('\n');
+}
+
+function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.split(/[^A-Za-z0-9]+/)) {
+    // Keep camelCase words whole and split, so "httpRequest" and "HubSpot" match "http request" and "hubspot"
+    const parts = word.replace(/([a-z])([A-Z])/g, '$1 $2').split(' ');
+    terms.push(word, ...(parts.length > 1 ? parts : []));
+  }
+
+  return terms
+    .map(term => term.toLowerCase())
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term))
+    .map(stem);
+}
+
+/**
+ * Minimal plural/verb-form folding so "contacts" matches "contact" and "syncing" matches "sync"
+ */
+function stem(term: string): string {
+  if (term.length > 5 && term.endsWith('ing')) return term.slice(0, -3);
+  if (term.length > 4 && term.endsWith('ies')) return `${term.slice(0, -3)}y`;
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+  return term;
+}
+
+function shortType(type: string): string {
+  return type.split('.').pop() || type;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text;
+}
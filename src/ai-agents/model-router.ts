@@ -0,0 +1,280 @@
+import { LLMProvider, LLMTask, CompletionRequest, CompletionChunk } from './providers/llm-provider.js';
+import { LLMProviderRegistry, ProviderSpec, createProvider } from './providers/provider-registry.js';
+import { parseStructuredResponse } from './structured-output.js';
+import { estimateTokens } from './context-packer.js';
+import { AIPerformanceMonitorClass, defaultAIIntegrationConfig } from '../integration/ai-integration-patterns.js';
+
+export type ModelCapability = 'reasoning' | 'structured-output' | 'code' | 'summarization' | 'long-context';
+
+/**
+ * A model the router can choose from, with what it is good at and how fast it usually answers
+ */
+export interface RoutedModelConfig {
+  provider: ProviderSpec;
+  capabilities: ModelCapability[];
+  /** Typical time for one completion; replaced by the measured average once enough calls are tracked */
+  expectedLatencyMs: number;
+  /** Relative strength, e.g. parameter count in billions (default: 1) */
+  quality?: number;
+}
+
+/**
+ * What a task needs from its model
+ */
+export interface TaskRoute {
+  requires?: ModelCapability[];
+  /** Models expected to take longer are only used once faster ones have failed */
+  latencyBudgetMs?: number;
+  /** Among suitable models within budget, try the fastest or the strongest first */
+  prefer: 'fastest' | 'strongest';
+}
+
+export interface ModelRouterOptions {
+  models: RoutedModelConfig[];
+  /** Per-task overrides of `DEFAULT_TASK_ROUTES` */
+  routes?: Partial<Record<LLMTask, TaskRoute>>;
+  /** Models tried per request, the primary included (default: 2) */
+  maxAttempts?: number;
+  /** Where per-model calls, latency and failures are recorded */
+  monitor?: AIPerformanceMonitorClass;
+  /** Calls tracked before measured latency and error rate affect routing (default: 5) */
+  minTrackedCalls?: number;
+  /** Models failing more often than this are tried after healthier ones (default: 0.5) */
+  maxErrorRate?: number;
+}
+
+export interface RouteAttempt {
+  model: string;
+  success: boolean;
+  latencyMs: number;
+  /** Why the attempt failed: the provider error or the reason its output was rejected */
+  error?: string;
+}
+
+export interface RoutedCompletion {
+  response: string;
+  model: string;
+  attempts: RouteAttempt[];
+}
+
+export interface RoutedModelStats {
+  model: string;
+  type: string;
+  calls: number;
+  successRate: number;
+  averageLatency: number;
+}
+
+/**
+ * Small models answer summaries and explanations quickly; planning and structured answers go to the strongest model
+ */
+export const DEFAULT_TASK_ROUTES: Record<LLMTask, TaskRoute> = {
+  analysis: { requires: ['structured-output'], prefer: 'strongest' },
+  planning: { requires: ['reasoning', 'structured-output'], prefer: 'strongest' },
+  simplification: { requires: ['reasoning'], prefer: 'strongest' },
+  repair: { requires: ['structured-output'], prefer: 'strongest' },
+  editing: { requires: ['structured-output'], prefer: 'strongest' },
+  explanation: { requires: ['summarization'], latencyBudgetMs: 20000, prefer: 'fastest' },
+  errorSummary: { requires: ['summarization'], latencyBudgetMs: 10000, prefer: 'fastest' },
+  default: { prefer: 'strongest' }
+};
+
+const TASKS = Object.keys(DEFAULT_TASK_ROUTES) as LLMTask[];
+
+/**
+ * Thrown when every model tried for a request failed or returned unusable output
+ */
+export class ModelRoutingError extends Error {
+  constructor(readonly task: LLMTask, readonly attempts: RouteAttempt[]) {
+    super(`All models failed for ${task}: ${attempts.map(attempt => `${attempt.model} (${attempt.error})`).join('; ')}`);
+    this.name = 'ModelRoutingError';
+  }
+}
+
+/**
+ * Picks a model per task by declared capability and latency budget, and retries on the next
+ * model when one fails or returns output that can't be parsed
+ */
+export class ModelRouter {
+  private readonly models: Array<RoutedModelConfig & { instance: LLMProvider }>;
+  private readonly routes: Record<LLMTask, TaskRoute>;
+  private readonly monitor: AIPerformanceMonitorClass;
+  private readonly maxAttempts: number;
+  private readonly minTrackedCalls: number;
+  private readonly maxErrorRate: number;
+
+  constructor(options: ModelRouterOptions) {
+    if (!options.models.length) {
+      throw new Error('ModelRouter needs at least one model');
+    }
+
+    this.models = options.models.map(model => ({ ...model, instance: createProvider(model.provider) }));
+    this.routes = { ...DEFAULT_TASK_ROUTES, ...options.routes };
+    this.monitor = options.monitor || new AIPerformanceMonitorClass({ ...defaultAIIntegrationConfig, enableAILogging: false });
+    this.maxAttempts = options.maxAttempts ?? 2;
+    this.minTrackedCalls = options.minTrackedCalls ?? 5;
+    this.maxErrorRate = options.maxErrorRate ?? 0.5;
+  }
+
+  /**
+   * Providers to try for a task, in order: healthy before failing models, then those with every
+   * required capability, then those within the latency budget, then by the task's preference
+   */
+  route(task: LLMTask = 'default'): LLMProvider[] {
+    const route = this.routes[task] || this.routes.default;
+    const candidates = this.models.map(model => ({
+      model,
+      latency: this.getLatency(model),
+      healthy: this.isHealthy(model),
+      capable: (route.requires || []).every(capability => model.capabilities.includes(capability))
+    }));
+
+    return candidates
+      .sort((a, b) => {
+        if (a.healthy !== b.healthy) return a.healthy ? -1 : 1;
+        if (a.capable !== b.capable) return a.capable ? -1 : 1;
+
+        if (route.latencyBudgetMs !== undefined) {
+          const aFits = a.latency <= route.latencyBudgetMs;
+          const bFits = b.latency <= route.latencyBudgetMs;
+          if (aFits !== bFits) return aFits ? -1 : 1;
+        }
+
+        const quality = (b.model.quality ?? 1) - (a.model.quality ?? 1);
+        return route.prefer === 'strongest' && quality !== 0 ? quality : a.latency - b.latency;
+      })
+      .map(candidate => candidate.model.instance);
+  }
+
+  /**
+   * Complete a request, moving to the next model in the route when one fails. With a schema,
+   * responses that don't parse against it count as failures; otherwise empty ones do.
+   */
+  async complete(task: LLMTask, request: CompletionRequest): Promise<RoutedCompletion> {
+    const attempts: RouteAttempt[] = [];
+
+    for (const provider of this.route(task).slice(0, this.maxAttempts)) {
+      if (request.signal?.aborted) break;
+
+      const startTime = Date.now();
+      let response = '';
+      let error: string | undefined;
+      try {
+        response = await provider.complete(request);
+        error = this.checkResponse(response, request);
+      } catch (caught) {
+        error = caught.message;
+      }
+
+      attempts.push(this.track(provider, request.prompt, response, startTime, error));
+      if (!error) {
+        return { response, model: provider.model, attempts };
+      }
+      console.warn(`Model ${provider.model} failed for ${task} (${error})${attempts.length < this.maxAttempts ? ', trying the next model' : ''}`);
+    }
+
+    throw new ModelRoutingError(task, attempts);
+  }
+
+  /**
+   * Stream a request. A model that fails before producing output is replaced by the next one;
+   * once chunks have been passed on, errors are thrown to the caller.
+   */
+  async* stream(task: LLMTask, request: CompletionRequest): AsyncGenerator<CompletionChunk, void, unknown> {
+    const attempts: RouteAttempt[] = [];
+
+    for (const provider of this.route(task).slice(0, this.maxAttempts)) {
+      if (request.signal?.aborted) break;
+
+      const startTime = Date.now();
+      let response = '';
+      try {
+        for await (const chunk of provider.stream(request)) {
+          response += chunk.content;
+          yield chunk;
+        }
+      } catch (error) {
+        attempts.push(this.track(provider, request.prompt, response, startTime, error.message));
+        if (response) throw error;
+        continue;
+      }
+
+      this.track(provider, request.prompt, response, startTime);
+      return;
+    }
+
+    throw new ModelRoutingError(task, attempts);
+  }
+
+  /**
+   * Provider that routes every request for `task` through this router
+   */
+  providerFor(task: LLMTask): LLMProvider {
+    const router = this;
+    return {
+      type: 'router',
+      get model() {
+        return router.route(task)[0].model;
+      },
+      complete: async request => (await router.complete(task, request)).response,
+      completeWithModel: request => router.complete(task, request),
+      stream: request => router.stream(task, request)
+    };
+  }
+
+  /**
+   * Registry with every task routed, for `AIAgent` and `OptimizedAIAgent`
+   */
+  toRegistry(): LLMProviderRegistry {
+    const tasks: Partial<Record<LLMTask, LLMProvider>> = {};
+    for (const task of TASKS) {
+      if (task !== 'default') tasks[task] = this.providerFor(task);
+    }
+    return new LLMProviderRegistry({ default: this.providerFor('default'), tasks });
+  }
+
+  /**
+   * Calls, success rate and average latency recorded for each model
+   */
+  getModelStats(): RoutedModelStats[] {
+    return this.models.map(({ instance }) => {
+      const metrics = this.monitor.getAIMetrics(instance.type, instance.model);
+      return {
+        model: instance.model,
+        type: instance.type,
+        calls: metrics.calls,
+        successRate: metrics.calls ? 1 - metrics.errorRate : 0,
+        averageLatency: Math.round(metrics.averageLatency)
+      };
+    });
+  }
+
+  getMonitor(): AIPerformanceMonitorClass {
+    return this.monitor;
+  }
+
+  private checkResponse(response: string, request: CompletionRequest): string | undefined {
+    if (request.schema) {
+      const { value, diagnostics } = parseStructuredResponse(response, request.schema);
+      return value ? undefined : `unusable output (${diagnostics.stage}): ${diagnostics.message}`;
+    }
+    return response.replace(/<think>[\s\S]*?<\/think>/g, '').trim() ? undefined : 'empty response';
+  }
+
+  private track(provider: LLMProvider, prompt: string, response: string, startTime: number, error?: string): RouteAttempt {
+    const latencyMs = Date.now() - startTime;
+    // Local models cost nothing per token
+    this.monitor.trackAIOperation(provider.type, provider.model, estimateTokens(prompt) + estimateTokens(response), 0, latencyMs, !error);
+    return { model: provider.model, success: !error, latencyMs, ...(error && { error }) };
+  }
+
+  private getLatency(model: RoutedModelConfig & { instance: LLMProvider }): number {
+    const metrics = this.monitor.getAIMetrics(model.instance.type, model.instance.model);
+    return metrics.calls >= this.minTrackedCalls ? metrics.averageLatency : model.expectedLatencyMs;
+  }
+
+  private isHealthy(model: RoutedModelConfig & { instance: LLMProvider }): boolean {
+    const metrics = this.monitor.getAIMetrics(model.instance.type, model.instance.model);
+    return metrics.calls < this.minTrackedCalls || metrics.errorRate <= this.maxErrorRate;
+  }
+}
@@ -1,9 +1,19 @@
-import { AIAgent, RequirementAnalysis, WorkflowRequirements } from './ai-agent.js';
+import { AIAgent, RequirementAnalysis, WorkflowRequirements, ExplainedWorkflow } from './ai-agent.js';
 import { StreamingOllamaClient, StreamingConfig, StreamingRequest } from './streaming-ollama-client.js';
 import { WorkflowPlan, NodeSpecification } from '../types/n8n-workflow.js';
 import { N8nWorkflow, N8nNode } from '../types/n8n-workflow.js';
 import { EventEmitter } from 'events';
 import { feedbackBus } from '../dashboard/interactions/feedback-bus.js';
+import { WorkflowRepairLoop, WorkflowRepairResult, RepairErrorTypeStats } from './workflow-repair-loop.js';
+import { WorkflowEditingSession, EditingSessionOptions } from './workflow-editing-session.js';
+import { LLMTask, GenerationOptions } from './providers/llm-provider.js';
+import { LLMProviderRegistry, ProviderSelection } from './providers/provider-registry.js';
+import { Cassette, CassetteMode, attachCassette } from './providers/cassette-provider.js';
+import { ModelRouter } from './model-router.js';
+import { FewShotRetriever, FewShotOptions } from './few-shot-retriever.js';
+import { PromptRegistry } from './prompt-registry.js';
+import { OllamaCacheManager } from '../performance/ollama-cache-manager.js';
+import { IncrementalJsonParser, REQUIREMENT_ANALYSIS_SCHEMA, WORKFLOW_PLAN_SCHEMA } from './structured-output.js';
 
 export interface OptimizedAIConfig {
   ollamaBaseUrl?: string;
@@ -15,6 +25,22 @@ export interface OptimizedAIConfig {
   streamingConfig?: Partial<StreamingConfig>;
   promptOptimization?: boolean;
   enableMetrics?: boolean;
+  /** Model round-trips allowed when repairing a plan that fails validation */
+  maxRepairRounds?: number;
+  /** Model providers per task; tasks without one use Ollama at `ollamaBaseUrl` */
+  providers?: ProviderSelection;
+  /** Choose a model per task and retry on another when one fails; takes the place of `providers` */
+  router?: ModelRouter;
+  /** Record model responses to (or replay them from) a cassette file */
+  cassette?: { path: string; mode?: CassetteMode; realtime?: boolean };
+  /** Throw on unusable analysis/planning responses instead of using fallbacks */
+  strictStructuredOutput?: boolean;
+  /** Inline similar stored workflows into planning prompts */
+  fewShot?: FewShotOptions & { retriever: FewShotRetriever };
+  /** Prompt templates; defaults to the bundled `prompts` directory next to the agents */
+  prompts?: PromptRegistry;
+  /** Response cache; defaults to the shared `ollamaCacheManager` */
+  cache?: OllamaCacheManager;
 }
 
 export interface ConcurrentAnalysisRequest {
@@ -47,7 +73,9 @@ export class OptimizedAIAgent extends EventEmitter {
   private baseAgent: AIAgent;
   private streamingClient: StreamingOllamaClient;
   private config: OptimizedAIConfig;
-  private promptTemplates: Map<string, string> = new Map();
+  private providers: LLMProviderRegistry;
+  private repairLoop: WorkflowRepairLoop;
+  private repairStats: Record<string, RepairErrorTypeStats> = {};
   private metrics: OptimizedMetrics = {
     totalRequests: 0,
     streamingRequests: 0,
@@ -71,14 +99,28 @@ export class OptimizedAIAgent extends EventEmitter {
       maxConcurrentRequests: 3,
       promptOptimization: true,
       enableMetrics: true,
+      maxRepairRounds: 3,
       ...config
     };
 
+    this.providers = this.config.router
+      ? this.config.router.toRegistry()
+      : new LLMProviderRegistry({
+        default: { type: 'ollama', baseUrl: this.config.ollamaBaseUrl, model: this.config.modelName },
+        ...this.config.providers
+      });
+    if (this.config.cassette) {
+      const { path, ...cassetteOptions } = this.config.cassette;
+      this.providers = attachCassette(this.providers, new Cassette(path), cassetteOptions);
+    }
+
     // Initialize base agent for fallback
     this.baseAgent = new AIAgent(
       this.config.ollamaBaseUrl,
       this.config.modelName,
-      this.config.enableCaching
+      this.config.enableCaching,
+      this.providers,
+      { strictStructuredOutput: this.config.strictStructuredOutput, fewShot: this.config.fewShot, prompts: this.config.prompts, cache: this.config.cache }
     );
 
     // Initialize streaming client
@@ -86,12 +128,14 @@ export class OptimizedAIAgent extends EventEmitter {
       baseUrl: this.config.ollamaBaseUrl!,
       model: this.config.modelName!,
       maxConnections: this.config.maxConcurrentRequests! * 2,
+      maxConcurrentRequests: this.config.maxConcurrentRequests,
       enableBatching: this.config.enableBatching,
+      providers: this.providers,
       ...this.config.streamingConfig
     };
 
     this.streamingClient = new StreamingOllamaClient(streamingConfig);
-    this.initializePromptTemplates();
+    this.repairLoop = new WorkflowRepairLoop(prompt => this.baseAgent.complete(prompt, 'repair'));
     this.setupEventHandlers();
     this.setupFeedbackListener();
   }
@@ -119,16 +163,90 @@ export class OptimizedAIAgent extends EventEmitter {
     }
   }
 
+  /**
+   * Generate a workflow plan and feed validation errors back to the model until it passes
+   * or `maxRepairRounds` is reached. Emits `repairAttempt` after every round.
+   */
+  public async generateWorkflowWithRepair(description: string): Promise<WorkflowRepairResult | null> {
+    const plan = await this.generateWorkflow(description);
+    if (!plan) {
+      return null;
+    }
+
+    try {
+      return await this.repairWorkflowPlan(plan);
+    } catch (error) {
+      console.error('Error while repairing workflow plan:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Validate an existing plan and repair it with the model
+   */
+  async repairWorkflowPlan(plan: WorkflowPlan, maxRounds = this.config.maxRepairRounds): Promise<WorkflowRepairResult> {
+    const result = await this.repairLoop.repair(plan, {
+      maxRounds,
+      onAttempt: attempt => this.emit('repairAttempt', attempt)
+    });
+
+    for (const [type, stats] of Object.entries(result.errorTypeStats)) {
+      const total = this.repairStats[type] || (this.repairStats[type] = { seen: 0, fixed: 0 });
+      total.seen += stats.seen;
+      total.fixed += stats.fixed;
+    }
+
+    this.emit('repairComplete', result);
+    return result;
+  }
+
+  /**
+   * Start a conversational editing session on an existing workflow; turns use the `editing` task
+   */
+  startEditingSession(workflow: N8nWorkflow, options?: EditingSessionOptions): WorkflowEditingSession {
+    return new WorkflowEditingSession(prompt => this.baseAgent.complete(prompt, 'editing'), workflow, options);
+  }
+
+  /**
+   * Step-by-step explanation of an existing workflow, polished by the `explanation` task's model
+   */
+  async explainWorkflow(workflow: N8nWorkflow): Promise<ExplainedWorkflow> {
+    return this.baseAgent.explainWorkflow(workflow);
+  }
+
+  /**
+   * Send a free-form prompt to the provider configured for `task`
+   */
+  async complete(prompt: string, task: LLMTask = 'default', options?: GenerationOptions): Promise<string> {
+    return this.baseAgent.complete(prompt, task, options);
+  }
+
+  /**
+   * Providers used for each task
+   */
+  getProviders(): LLMProviderRegistry {
+    return this.providers;
+  }
+
+  /**
+   * Error types sent for repair across all calls, and how often the model fixed them
+   */
+  getRepairStats(): Record<string, RepairErrorTypeStats> {
+    return JSON.parse(JSON.stringify(this.repairStats));
+  }
+
   /**
    * Analyze requirements with streaming response
    */
   async analyzeRequirementsStreaming(requirements: WorkflowRequirements): Promise<AsyncGenerator<Partial<RequirementAnalysis>, RequirementAnalysis, unknown>> {
     const requestId = `analysis_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const prompt = this.getOptimizedPrompt('analysis', { requirements });
+    const prompt = this.getOptimizedPrompt('analysis', this.baseAgent.getAnalysisPromptVariables(requirements));
 
     const request: StreamingRequest = {
       id: requestId,
       prompt,
+      task: 'analysis',
+      schema: REQUIREMENT_ANALYSIS_SCHEMA,
       options: {
         temperature: 0.3,
         top_p: 0.9,
@@ -155,11 +273,13 @@ export class OptimizedAIAgent extends EventEmitter {
    */
   async planWorkflowStreaming(analysis: RequirementAnalysis): Promise<AsyncGenerator<Partial<WorkflowPlan>, WorkflowPlan, unknown>> {
     const requestId = `planning_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const prompt = this.getOptimizedPrompt('planning', { analysis });
+    const prompt = this.getOptimizedPrompt('planning', this.baseAgent.getPlanningPromptVariables(analysis));
 
     const request: StreamingRequest = {
       id: requestId,
       prompt,
+      task: 'planning',
+      schema: WORKFLOW_PLAN_SCHEMA,
       options: {
         temperature: 0.3,
         top_p: 0.9,
@@ -191,8 +311,10 @@ export class OptimizedAIAgent extends EventEmitter {
 
     const streamingRequests: StreamingRequest[] = requests.map(req => ({
       id: req.id,
-      prompt: this.getOptimizedPrompt('analysis', { requirements: req.requirements }),
+      prompt: this.getOptimizedPrompt('analysis', this.baseAgent.getAnalysisPromptVariables(req.requirements)),
       priority: req.priority || 1,
+      task: 'analysis',
+      schema: REQUIREMENT_ANALYSIS_SCHEMA,
       options: {
         temperature: 0.3,
         top_p: 0.9,
@@ -201,10 +323,7 @@ export class OptimizedAIAgent extends EventEmitter {
     }));
 
     try {
-      const responses = await this.streamingClient.executeConcurrent(
-        streamingRequests, 
-        this.config.maxConcurrentRequests
-      );
+      const responses = await this.streamingClient.executeConcurrent(streamingRequests);
 
       for (const [id, response] of responses) {
         const originalRequest = requests.find(r => r.id === id);
@@ -237,8 +356,10 @@ export class OptimizedAIAgent extends EventEmitter {
 
     const streamingRequests: StreamingRequest[] = requests.map(req => ({
       id: req.id,
-      prompt: this.getOptimizedPrompt('planning', { analysis: req.analysis }),
+      prompt: this.getOptimizedPrompt('planning', this.baseAgent.getPlanningPromptVariables(req.analysis)),
       priority: req.priority || 1,
+      task: 'planning',
+      schema: WORKFLOW_PLAN_SCHEMA,
       options: {
         temperature: 0.3,
         top_p: 0.9,
@@ -247,10 +368,7 @@ export class OptimizedAIAgent extends EventEmitter {
     }));
 
     try {
-      const responses = await this.streamingClient.executeConcurrent(
-        streamingRequests, 
-        this.config.maxConcurrentRequests
-      );
+      const responses = await this.streamingClient.executeConcurrent(streamingRequests);
 
       for (const [id, response] of responses) {
         const originalRequest = requests.find(r => r.id === id);
@@ -284,14 +402,16 @@ export class OptimizedAIAgent extends EventEmitter {
     const streamingRequests: StreamingRequest[] = requests.map(req => {
       let prompt: string;
       if (req.type === 'analysis') {
-        prompt = this.getOptimizedPrompt('analysis', { requirements: req.data });
+        prompt = this.getOptimizedPrompt('analysis', this.baseAgent.getAnalysisPromptVariables(req.data));
       } else {
-        prompt = this.getOptimizedPrompt('planning', { analysis: req.data });
+        prompt = this.getOptimizedPrompt('planning', this.baseAgent.getPlanningPromptVariables(req.data));
       }
 
       return {
         id: req.id,
         prompt,
+        task: req.type,
+        schema: req.type === 'analysis' ? REQUIREMENT_ANALYSIS_SCHEMA : WORKFLOW_PLAN_SCHEMA,
         options: {
           temperature: 0.3,
           top_p: 0.9,
@@ -387,111 +507,17 @@ export class OptimizedAIAgent extends EventEmitter {
   }
 
   /**
-   * Initialize optimized prompt templates
-   */
-  private initializePromptTemplates(): void {
-    this.promptTemplates.set('analysis', `You are an expert n8n workflow designer. Analyze the following requirements and provide a structured analysis.
-
-Requirements:
-- Description: {{description}}
-- Type: {{type}}
-- Inputs: {{inputs}}
-- Outputs: {{outputs}}
-- Steps: {{steps}}
-- Constraints: {{constraints}}
-
-Respond with a JSON object containing:
-{
-  "workflowType": "linear|parallel|conditional|complex",
-  "estimatedComplexity": 1-10,
-  "keyComponents": ["component1", "component2"],
-  "suggestedNodeTypes": ["node-type-1", "node-type-2"],
-  "dataFlow": "description of data flow",
-  "potentialChallenges": ["challenge1", "challenge2"],
-  "recommendations": ["recommendation1", "recommendation2"]
-}
-
-Focus on practical n8n implementation.`);
-
-    this.promptTemplates.set('planning', `Based on the analysis, create a detailed workflow plan for n8n.
-
-Analysis:
-- Workflow Type: {{workflowType}}
-- Complexity: {{estimatedComplexity}}/10
-- Key Components: {{keyComponents}}
-- Suggested Node Types: {{suggestedNodeTypes}}
-- Data Flow: {{dataFlow}}
-
-Available n8n node types:
-- Triggers: n8n-nodes-base.start, n8n-nodes-base.webhook, n8n-nodes-base.cron
-- HTTP: n8n-nodes-base.httpRequest
-- Logic: n8n-nodes-base.code, n8n-nodes-base.function, n8n-nodes-base.if
-- Data: n8n-nodes-base.set, n8n-nodes-base.itemLists, n8n-nodes-base.merge
-- Files: n8n-nodes-base.readBinaryFile, n8n-nodes-base.writeBinaryFile
-- Utilities: n8n-nodes-base.wait, n8n-nodes-base.htmlExtract
-
-Create a JSON response with:
-{
-  "nodes": [
-    {
-      "id": "unique-id",
-      "name": "Node Name",
-      "type": "n8n-nodes-base.nodeType",
-      "parameters": {},
-      "description": "what this node does"
-    }
-  ],
-  "flow": [
-    {
-      "from": "node-id-1",
-      "to": "node-id-2",
-      "type": "main|success|error",
-      "condition": "optional condition"
-    }
-  ],
-  "estimatedComplexity": 1-10,
-  "rationale": "explanation of design decisions"
-}
-
-Keep the workflow practical and implementable.`);
-  }
-
-  /**
-   * Get optimized prompt with variable substitution
+   * Render a registered prompt template; variables are checked against the template's declaration
    */
   private getOptimizedPrompt(template: string, variables: Record<string, any>): string {
-    const baseTemplate = this.promptTemplates.get(template);
-    if (!baseTemplate) {
-      throw new Error(`Template '${template}' not found`);
-    }
+    const prompt = this.baseAgent.getPrompts().render(template, variables);
 
     if (this.config.promptOptimization) {
       this.metrics.promptOptimizations++;
-      return this.streamingClient.getOptimizedPrompt(baseTemplate, this.flattenVariables(variables));
+      return this.streamingClient.getOptimizedPrompt(prompt, {});
     }
 
-    return baseTemplate;
-  }
-
-  /**
-   * Flatten nested variables for template substitution
-   */
-  private flattenVariables(variables: Record<string, any>, prefix = ''): Record<string, any> {
-    const flattened: Record<string, any> = {};
-    
-    for (const [key, value] of Object.entries(variables)) {
-      const newKey = prefix ? `${prefix}.${key}` : key;
-      
-      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-        Object.assign(flattened, this.flattenVariables(value, newKey));
-      } else if (Array.isArray(value)) {
-        flattened[newKey] = value.join(', ');
-      } else {
-        flattened[newKey] = String(value || '');
-      }
-    }
-    
-    return flattened;
+    return prompt;
   }
 
   /**
@@ -501,32 +527,22 @@ Keep the workflow practical and implementable.`);
     generator: AsyncGenerator<any, void, unknown>, 
     requirements: WorkflowRequirements
   ): AsyncGenerator<Partial<RequirementAnalysis>, RequirementAnalysis, unknown> {
-    let accumulatedResponse = '';
-    let partialAnalysis: Partial<RequirementAnalysis> = {};
+    const parser = new IncrementalJsonParser();
 
     try {
       for await (const chunk of generator) {
-        accumulatedResponse += chunk.content;
-        
-        // Try to parse partial JSON as we receive it
-        try {
-          const jsonMatch = accumulatedResponse.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            const parsed = JSON.parse(jsonMatch[0]);
-            partialAnalysis = {
-              workflowType: parsed.workflowType,
-              estimatedComplexity: parsed.estimatedComplexity,
-              keyComponents: parsed.keyComponents,
-              suggestedNodeTypes: parsed.suggestedNodeTypes,
-              dataFlow: parsed.dataFlow,
-              potentialChallenges: parsed.potentialChallenges,
-              recommendations: parsed.recommendations
-            };
-            
-            yield partialAnalysis;
-          }
-        } catch {
-          // Continue accumulating if JSON is incomplete
+        // Yield the partial analysis parsed so far
+        const partial = parser.push(chunk.content);
+        if (partial?.value && typeof partial.value === 'object') {
+          yield {
+            workflowType: partial.value.workflowType,
+            estimatedComplexity: partial.value.estimatedComplexity,
+            keyComponents: partial.value.keyComponents,
+            suggestedNodeTypes: partial.value.suggestedNodeTypes,
+            dataFlow: partial.value.dataFlow,
+            potentialChallenges: partial.value.potentialChallenges,
+            recommendations: partial.value.recommendations
+          };
         }
 
         if (chunk.done) {
@@ -535,7 +551,7 @@ Keep the workflow practical and implementable.`);
       }
 
       // Return final parsed analysis
-      return this.parseAnalysisResponse(accumulatedResponse, requirements);
+      return this.parseAnalysisResponse(parser.text, requirements);
     } catch (error) {
       throw error;
     }
@@ -548,29 +564,19 @@ Keep the workflow practical and implementable.`);
     generator: AsyncGenerator<any, void, unknown>, 
     analysis: RequirementAnalysis
   ): AsyncGenerator<Partial<WorkflowPlan>, WorkflowPlan, unknown> {
-    let accumulatedResponse = '';
-    let partialPlan: Partial<WorkflowPlan> = {};
+    const parser = new IncrementalJsonParser();
 
     try {
       for await (const chunk of generator) {
-        accumulatedResponse += chunk.content;
-        
-        // Try to parse partial JSON as we receive it
-        try {
-          const jsonMatch = accumulatedResponse.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            const parsed = JSON.parse(jsonMatch[0]);
-            partialPlan = {
-              nodes: parsed.nodes,
-              flow: parsed.flow,
-              estimatedComplexity: parsed.estimatedComplexity,
-              rationale: parsed.rationale
-            };
-            
-            yield partialPlan;
-          }
-        } catch {
-          // Continue accumulating if JSON is incomplete
+        // Yield the partial plan parsed so far
+        const partial = parser.push(chunk.content);
+        if (partial?.value && typeof partial.value === 'object') {
+          yield {
+            nodes: partial.value.nodes,
+            flow: partial.value.flow,
+            estimatedComplexity: partial.value.estimatedComplexity,
+            rationale: partial.value.rationale
+          };
         }
 
         if (chunk.done) {
@@ -579,7 +585,7 @@ Keep the workflow practical and implementable.`);
       }
 
       // Return final parsed plan
-      return this.parsePlanningResponse(accumulatedResponse, analysis);
+      return this.parsePlanningResponse(parser.text, analysis);
     } catch (error) {
       throw error;
     }
@@ -613,6 +619,11 @@ Keep the workflow practical and implementable.`);
    * Setup event handlers for monitoring
    */
   private setupEventHandlers(): void {
+    // Queue state for the UI
+    for (const event of ['requestQueued', 'queuePosition', 'requestStarted', 'backpressure', 'drain']) {
+      this.streamingClient.on(event, payload => this.emit(event, payload));
+    }
+
     if (this.config.enableMetrics) {
       this.streamingClient.on('shutdown', () => {
         this.emit('streamingClientShutdown');
@@ -0,0 +1,248 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { AIAgent, WorkflowRequirements } from './ai-agent.js';
+import { PromptRegistry } from './prompt-registry.js';
+import { LLMProvider, CompletionRequest, CompletionChunk } from './providers/llm-provider.js';
+import { LLMProviderRegistry, ProviderSelection } from './providers/provider-registry.js';
+import { WorkflowRepairLoop } from './workflow-repair-loop.js';
+
+export const DEFAULT_EVAL_SUITE_PATH = path.join(process.cwd(), 'src', 'ai-agents', 'prompts', 'eval-suite.json');
+
+export interface PromptEvalCase {
+  id: string;
+  requirements: WorkflowRequirements;
+}
+
+/**
+ * Fixed set of workflow descriptions used to compare prompt versions
+ */
+export interface PromptEvalSuite {
+  name: string;
+  cases: PromptEvalCase[];
+}
+
+/**
+ * Result of running one suite case through analysis and planning with one template version
+ */
+export interface PromptCaseResult {
+  caseId: string;
+  version: number;
+  /** False when a response was rejected, the provider failed or the plan could not be assembled */
+  accepted: boolean;
+  failure?: string;
+  nodeCount: number;
+  errors: number;
+  warnings: number;
+  /** Validation error counts by type */
+  errorTypes: Record<string, number>;
+  score: number;
+  durationMs: number;
+}
+
+export interface PromptVersionSummary {
+  version: number;
+  cases: number;
+  accepted: number;
+  /** Accepted cases whose plan has no validation errors */
+  valid: number;
+  meanScore: number;
+  totalErrors: number;
+  totalWarnings: number;
+}
+
+export interface PromptComparison {
+  suite: string;
+  template: string;
+  baseline: PromptVersionSummary;
+  candidate: PromptVersionSummary;
+  cases: Array<{ caseId: string; baseline: PromptCaseResult; candidate: PromptCaseResult; delta: number }>;
+  winner: 'baseline' | 'candidate' | 'tie';
+}
+
+export interface PromptEvaluatorOptions {
+  providers: ProviderSelection | LLMProviderRegistry;
+  prompts: PromptRegistry;
+  /** Called after every case, e.g. to print progress */
+  onCase?: (result: PromptCaseResult) => void;
+}
+
+// Score deductions per validation finding
+const ERROR_PENALTY = 15;
+const WARNING_PENALTY = 3;
+
+/**
+ * Load an evaluation suite from a JSON file
+ */
+export function loadEvalSuite(filePath = DEFAULT_EVAL_SUITE_PATH): PromptEvalSuite {
+  const suite = JSON.parse(readFileSync(filePath, 'utf-8')) as PromptEvalSuite;
+  if (!Array.isArray(suite.cases) || suite.cases.length === 0) {
+    throw new Error(`Evaluation suite ${filePath} has no cases`);
+  }
+  return { name: suite.name || path.basename(filePath, '.json'), cases: suite.cases };
+}
+
+/**
+ * Score out of 100: rejected or unassemblable output scores 0, otherwise every validation
+ * error and warning on the assembled plan is deducted
+ */
+export function scoreCase(result: Pick<PromptCaseResult, 'accepted' | 'errors' | 'warnings'>): number {
+  if (!result.accepted) return 0;
+  return Math.max(0, 100 - result.errors * ERROR_PENALTY - result.warnings * WARNING_PENALTY);
+}
+
+/**
+ * Runs an evaluation suite through the analysis and planning pipeline with a chosen template
+ * version and scores the resulting plans with the workflow validators
+ */
+export class PromptEvaluator {
+  private readonly providers: LLMProviderRegistry;
+  private readonly failures: string[] = [];
+
+  constructor(private options: PromptEvaluatorOptions) {
+    const registry = options.providers instanceof LLMProviderRegistry ? options.providers : new LLMProviderRegistry(options.providers);
+    // AIAgent falls back silently when a provider fails; record those failures so they count against the version
+    this.providers = registry.map(provider => trackFailures(provider, this.failures));
+  }
+
+  async evaluateVersion(template: string, version: number, suite: PromptEvalSuite): Promise<PromptCaseResult[]> {
+    const prompts = this.options.prompts.clone();
+    prompts.setActiveVersion(template, version);
+    // Caching is off so both versions reach the model
+    const agent = new AIAgent(undefined, undefined, false, this.providers, { strictStructuredOutput: true, prompts });
+    const validator = new WorkflowRepairLoop(prompt => agent.complete(prompt, 'repair'));
+    const results: PromptCaseResult[] = [];
+
+    for (const testCase of suite.cases) {
+      const startTime = Date.now();
+      const result: PromptCaseResult = {
+        caseId: testCase.id,
+        version,
+        accepted: false,
+        nodeCount: 0,
+        errors: 0,
+        warnings: 0,
+        errorTypes: {},
+        score: 0,
+        durationMs: 0
+      };
+      this.failures.length = 0;
+
+      try {
+        const analysis = await agent.analyzeRequirements(testCase.requirements);
+        const plan = await agent.planWorkflow(analysis);
+        if (this.failures.length) {
+          throw new Error(`provider failed: ${this.failures[0]}`);
+        }
+
+        const validation = await validator.validatePlan(plan);
+        result.accepted = true;
+        result.nodeCount = plan.nodes.length;
+        result.errors = validation.errors.length;
+        result.warnings = validation.warnings.length;
+        for (const error of validation.errors) {
+          result.errorTypes[error.type] = (result.errorTypes[error.type] || 0) + 1;
+        }
+      } catch (error) {
+        result.failure = error instanceof Error ? error.message : String(error);
+      }
+
+      result.score = scoreCase(result);
+      result.durationMs = Date.now() - startTime;
+      results.push(result);
+      this.options.onCase?.(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * Run the suite against two versions of a template; all other templates use their active version
+   */
+  async compare(template: string, baselineVersion: number, candidateVersion: number, suite: PromptEvalSuite): Promise<PromptComparison> {
+    // Fail fast on unknown versions before spending model calls
+    this.options.prompts.get(template, baselineVersion);
+    this.options.prompts.get(template, candidateVersion);
+
+    const baseline = await this.evaluateVersion(template, baselineVersion, suite);
+    const candidate = await this.evaluateVersion(template, candidateVersion, suite);
+    const baselineSummary = summarize(baselineVersion, baseline);
+    const candidateSummary = summarize(candidateVersion, candidate);
+    const difference = candidateSummary.meanScore - baselineSummary.meanScore;
+
+    return {
+      suite: suite.name,
+      template,
+      baseline: baselineSummary,
+      candidate: candidateSummary,
+      cases: suite.cases.map((testCase, index) => ({
+        caseId: testCase.id,
+        baseline: baseline[index],
+        candidate: candidate[index],
+        delta: candidate[index].score - baseline[index].score
+      })),
+      winner: Math.abs(difference) < 0.5 ? 'tie' : difference > 0 ? 'candidate' : 'baseline'
+    };
+  }
+}
+
+/**
+ * Plain-text report of a comparison
+ */
+export function formatComparison(comparison: PromptComparison): string {
+  const { baseline, candidate } = comparison;
+  const row = (label: string, summary: PromptVersionSummary) =>
+    `${label.padEnd(12)} v${String(summary.version).padEnd(4)} score ${summary.meanScore.toFixed(1).padStart(5)}  ` +
+    `accepted ${summary.accepted}/${summary.cases}  valid ${summary.valid}/${summary.cases}  ` +
+    `errors ${summary.totalErrors}  warnings ${summary.totalWarnings}`;
+
+  const lines = [
+    `Prompt "${comparison.template}" on suite "${comparison.suite}"`,
+    row('baseline', baseline),
+    row('candidate', candidate),
+    '',
+    'Per case (baseline → candidate):'
+  ];
+
+  for (const entry of comparison.cases) {
+    const sign = entry.delta > 0 ? '+' : '';
+    const failure = entry.candidate.failure || entry.baseline.failure;
+    lines.push(`  ${entry.caseId.padEnd(24)} ${String(entry.baseline.score).padStart(3)} → ${String(entry.candidate.score).padStart(3)} (${sign}${entry.delta})${failure ? `  ${failure}` : ''}`);
+  }
+
+  lines.push('', comparison.winner === 'tie'
+    ? 'Result: no meaningful difference'
+    : `Result: ${comparison.winner} (v${comparison[comparison.winner].version}) scores higher`);
+  return lines.join('\n');
+}
+
+function summarize(version: number, results: PromptCaseResult[]): PromptVersionSummary {
+  return {
+    version,
+    cases: results.length,
+    accepted: results.filter(result => result.accepted).length,
+    valid: results.filter(result => result.accepted && result.errors === 0).length,
+    meanScore: results.length ? results.reduce((sum, result) => sum + result.score, 0) / results.length : 0,
+    totalErrors: results.reduce((sum, result) => sum + result.errors, 0),
+    totalWarnings: results.reduce((sum, result) => sum + result.warnings, 0)
+  };
+}
+
+function trackFailures(provider: LLMProvider, failures: string[]): LLMProvider {
+  const record = (error: unknown) => {
+    failures.push(error instanceof Error ? error.message : String(error));
+    return error;
+  };
+
+  return {
+    type: provider.type,
+    model: provider.model,
+    complete: (request: CompletionRequest) => provider.complete(request).catch(error => { throw record(error); }),
+    async* stream(request: CompletionRequest): AsyncGenerator<CompletionChunk, void, unknown> {
+      try {
+        yield* provider.stream(request);
+      } catch (error) {
+        throw record(error);
+      }
+    }
+  };
+}
@@ -0,0 +1,279 @@
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { LLMTask } from './providers/llm-provider.js';
+
+/** Prompt files next to this module; the build copies them into `dist/ai-agents/prompts` */
+export const DEFAULT_PROMPTS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'prompts');
+
+export type PromptVariableType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+export interface PromptVariable {
+  type: PromptVariableType;
+  required: boolean;
+  description?: string;
+}
+
+/**
+ * A named, versioned prompt with the variables it expects
+ */
+export interface PromptTemplate {
+  name: string;
+  version: number;
+  task?: LLMTask;
+  description?: string;
+  variables: Record<string, PromptVariable>;
+  template: string;
+  /** File the template was loaded from */
+  source?: string;
+}
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w.]*)\s*\}\}/g;
+const VARIABLE_TYPES: PromptVariableType[] = ['string', 'number', 'boolean', 'array', 'object'];
+
+/**
+ * Parse a `.prompt` file: a `---` delimited header of `key: value` lines (with an indented
+ * `variables:` block of `name: type - description` entries, `name?` for optional ones) followed by the template
+ *
+ * ```
+ * ---
+ * name: analysis
+ * version: 2
+ * task: analysis
+ * variables:
+ *   description: string - What the workflow should do
+ *   examples?: string
+ * ---
+ * Analyze {{description}} ...
+ * ```
+ */
+export function parsePromptFile(content: string, source?: string): PromptTemplate {
+  const label = source || 'prompt';
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n([\s\S]*)$/.exec(content);
+  if (!match) {
+    throw new Error(`${label}: missing --- header`);
+  }
+
+  const header: Record<string, string> = {};
+  const variables: Record<string, PromptVariable> = {};
+  let inVariables = false;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    if (inVariables && /^\s+/.test(line)) {
+      const entry = /^\s+([A-Za-z_][\w.]*)(\?)?\s*:\s*(\w+)\s*(?:-\s*(.*))?$/.exec(line);
+      if (!entry || !VARIABLE_TYPES.includes(entry[3] as PromptVariableType)) {
+        throw new Error(`${label}: invalid variable declaration "${line.trim()}"`);
+      }
+      variables[entry[1]] = {
+        type: entry[3] as PromptVariableType,
+        required: !entry[2],
+        ...(entry[4] && { description: entry[4].trim() })
+      };
+      continue;
+    }
+
+    const pair = /^([\w-]+)\s*:\s*(.*)$/.exec(line);
+    if (!pair) {
+      throw new Error(`${label}: invalid header line "${line}"`);
+    }
+    inVariables = pair[1] === 'variables';
+    if (!inVariables) header[pair[1]] = pair[2].trim();
+  }
+
+  const version = Number(header.version);
+  if (!header.name || !Number.isInteger(version) || version < 1) {
+    throw new Error(`${label}: header needs a name and a positive integer version`);
+  }
+
+  return {
+    name: header.name,
+    version,
+    ...(header.task && { task: header.task as LLMTask }),
+    ...(header.description && { description: header.description }),
+    variables,
+    // The newline that ends the file is not part of the prompt
+    template: match[2].replace(/\r?\n$/, ''),
+    ...(source && { source })
+  };
+}
+
+/**
+ * Text substituted for a variable value: arrays are comma separated, objects are JSON
+ */
+export function formatPromptValue(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Named, versioned prompt templates. Each name has an active version (the latest unless pinned)
+ * that `render` uses when no version is given.
+ */
+export class PromptRegistry {
+  private templates = new Map<string, Map<number, PromptTemplate>>();
+  private pinned = new Map<string, number>();
+
+  /**
+   * Registry with every `*.prompt` file in a directory
+   */
+  static load(directory = DEFAULT_PROMPTS_DIR): PromptRegistry {
+    const registry = new PromptRegistry();
+    registry.loadDirectory(directory);
+    return registry;
+  }
+
+  loadDirectory(directory: string): number {
+    if (!existsSync(directory)) {
+      throw new Error(`Prompt directory not found: ${directory}`);
+    }
+
+    const files = readdirSync(directory).filter(file => file.endsWith('.prompt')).sort();
+    for (const file of files) {
+      const source = path.join(directory, file);
+      this.register(parsePromptFile(readFileSync(source, 'utf-8'), source));
+    }
+    return files.length;
+  }
+
+  /**
+   * Add a template; placeholders and declared variables must match exactly
+   */
+  register(template: PromptTemplate): PromptTemplate {
+    const placeholders = getPlaceholders(template.template);
+    const undeclared = placeholders.filter(name => !template.variables[name]);
+    const unused = Object.keys(template.variables).filter(name => !placeholders.includes(name));
+    if (undeclared.length || unused.length) {
+      throw new Error([
+        `Prompt ${template.name} v${template.version} is inconsistent`,
+        ...(undeclared.length ? [`undeclared placeholders: ${undeclared.join(', ')}`] : []),
+        ...(unused.length ? [`unused variables: ${unused.join(', ')}`] : [])
+      ].join('; '));
+    }
+
+    const versions = this.templates.get(template.name) || new Map<number, PromptTemplate>();
+    if (versions.has(template.version)) {
+      throw new Error(`Prompt ${template.name} v${template.version} is already registered`);
+    }
+    versions.set(template.version, template);
+    this.templates.set(template.name, versions);
+    return template;
+  }
+
+  has(name: string, version?: number): boolean {
+    const versions = this.templates.get(name);
+    return Boolean(versions && (version === undefined || versions.has(version)));
+  }
+
+  /**
+   * A template version, or the active version when none is given
+   */
+  get(name: string, version?: number): PromptTemplate {
+    const versions = this.templates.get(name);
+    if (!versions) {
+      throw new Error(`Template '${name}' not found`);
+    }
+
+    const resolved = version ?? this.getActiveVersion(name);
+    const template = versions.get(resolved);
+    if (!template) {
+      throw new Error(`Template '${name}' has no version ${resolved} (available: ${this.versions(name).join(', ')})`);
+    }
+    return template;
+  }
+
+  versions(name: string): number[] {
+    return [...(this.templates.get(name)?.keys() || [])].sort((a, b) => a - b);
+  }
+
+  /**
+   * Active version of every template
+   */
+  list(): PromptTemplate[] {
+    return [...this.templates.keys()].sort().map(name => this.get(name));
+  }
+
+  getActiveVersion(name: string): number {
+    return this.pinned.get(name) ?? Math.max(...this.versions(name));
+  }
+
+  /**
+   * Make `render` use a specific version of a template
+   */
+  setActiveVersion(name: string, version: number): void {
+    this.get(name, version);
+    this.pinned.set(name, version);
+  }
+
+  /**
+   * Copy sharing the same templates, with its own active versions
+   */
+  clone(): PromptRegistry {
+    const copy = new PromptRegistry();
+    for (const [name, versions] of this.templates) copy.templates.set(name, new Map(versions));
+    for (const [name, version] of this.pinned) copy.pinned.set(name, version);
+    return copy;
+  }
+
+  /**
+   * Problems with a set of variables: missing required ones, unknown names and wrong types
+   */
+  checkVariables(template: PromptTemplate, variables: Record<string, any>): string[] {
+    const problems: string[] = [];
+
+    for (const [name, spec] of Object.entries(template.variables)) {
+      const value = variables[name];
+      if (value === undefined || value === null) {
+        if (spec.required) problems.push(`missing required variable "${name}"`);
+        continue;
+      }
+
+      const actual = Array.isArray(value) ? 'array' : typeof value;
+      if (actual !== spec.type) {
+        problems.push(`variable "${name}" should be ${spec.type} but is ${actual}`);
+      }
+    }
+
+    for (const name of Object.keys(variables)) {
+      if (!template.variables[name]) problems.push(`unknown variable "${name}"`);
+    }
+
+    return problems;
+  }
+
+  /**
+   * Fill in a template after checking the variables against its declaration
+   */
+  render(name: string, variables: Record<string, any>, version?: number): string {
+    const template = this.get(name, version);
+    const problems = this.checkVariables(template, variables);
+    if (problems.length) {
+      throw new Error(`Invalid variables for prompt ${name} v${template.version}: ${problems.join('; ')}`);
+    }
+
+    return template.template.replace(PLACEHOLDER, (_, key: string) => formatPromptValue(variables[key]));
+  }
+}
+
+let defaultRegistry: PromptRegistry | null = null;
+
+/**
+ * Registry loaded from the bundled prompt directory, shared by agents that are not given one
+ */
+export function getDefaultPromptRegistry(): PromptRegistry {
+  if (!defaultRegistry) {
+    try {
+      defaultRegistry = PromptRegistry.load();
+    } catch (error) {
+      throw new Error(`Could not load the bundled prompt templates: ${error.message}. Pass a PromptRegistry in the agent options instead.`);
+    }
+  }
+  return defaultRegistry;
+}
+
+function getPlaceholders(template: string): string[] {
+  return [...new Set([...template.matchAll(PLACEHOLDER)].map(match => match[1]))];
+}
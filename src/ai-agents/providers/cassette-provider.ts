@@ -0,0 +1,224 @@
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { LLMProvider, LLMTask, CompletionRequest, CompletionChunk, GenerationOptions, chunkResponse } from './llm-provider.js';
+import { LLMProviderRegistry } from './provider-registry.js';
+
+/**
+ * - `record`: always call the live provider and store (or overwrite) the interaction
+ * - `replay`: serve recorded interactions, calling and recording the live provider for new prompts
+ * - `strict`: serve recorded interactions and fail on prompts that were never recorded
+ */
+export type CassetteMode = 'record' | 'replay' | 'strict';
+
+export interface RecordedChunk {
+  content: string;
+  done: boolean;
+  tokens?: number;
+  /** Milliseconds since the request started */
+  offsetMs: number;
+}
+
+export interface CassetteInteraction {
+  key: string;
+  task?: LLMTask;
+  model: string;
+  prompt: string;
+  system?: string;
+  options?: GenerationOptions;
+  response: string;
+  /** Chunks as they arrived when the interaction was recorded from a stream */
+  chunks?: RecordedChunk[];
+  durationMs: number;
+  recordedAt: string;
+}
+
+export interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+export interface CassetteProviderOptions {
+  mode?: CassetteMode;
+  /** Live provider to record from; its model is part of every recording key */
+  provider: LLMProvider;
+  /** Task the provider serves, stored with each interaction */
+  task?: LLMTask;
+  /** Reproduce the recorded chunk timing when replaying streams instead of yielding immediately */
+  realtime?: boolean;
+}
+
+/**
+ * Prompt → response recordings kept in a JSON file
+ */
+export class Cassette {
+  private interactions = new Map<string, CassetteInteraction>();
+  private used = new Set<string>();
+
+  constructor(private readonly path?: string) {
+    if (path && existsSync(path)) {
+      const file = JSON.parse(readFileSync(path, 'utf-8')) as CassetteFile;
+      for (const interaction of file.interactions || []) {
+        this.interactions.set(interaction.key, interaction);
+      }
+    }
+  }
+
+  /**
+   * Key identifying a request: model, prompt, system message, sampling options and output schema
+   */
+  static keyFor(model: string, request: CompletionRequest): string {
+    const options = request.options || {};
+    const normalized = JSON.stringify({
+      model,
+      prompt: request.prompt,
+      system: request.system || null,
+      temperature: options.temperature ?? null,
+      topP: options.topP ?? null,
+      maxTokens: options.maxTokens ?? null,
+      stop: options.stop || null,
+      schema: request.schema || null
+    });
+    return createHash('sha256').update(normalized).digest('hex').slice(0, 24);
+  }
+
+  get(key: string): CassetteInteraction | undefined {
+    const interaction = this.interactions.get(key);
+    if (interaction) this.used.add(key);
+    return interaction;
+  }
+
+  /**
+   * Store an interaction and write the cassette to disk
+   */
+  put(interaction: CassetteInteraction): void {
+    this.interactions.set(interaction.key, interaction);
+    this.used.add(interaction.key);
+    this.save();
+  }
+
+  save(): void {
+    if (!this.path) return;
+
+    const file: CassetteFile = { version: 1, interactions: [...this.interactions.values()] };
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, JSON.stringify(file, null, 2) + '\n');
+  }
+
+  getInteractions(): CassetteInteraction[] {
+    return [...this.interactions.values()];
+  }
+
+  /**
+   * Recorded interactions no request has asked for since the cassette was loaded
+   */
+  getUnusedInteractions(): CassetteInteraction[] {
+    return this.getInteractions().filter(interaction => !this.used.has(interaction.key));
+  }
+}
+
+/**
+ * Provider that records a live provider's responses to a cassette and replays them deterministically
+ */
+export class CassetteProvider implements LLMProvider {
+  readonly type = 'cassette';
+  readonly model: string;
+  private readonly mode: CassetteMode;
+
+  constructor(private readonly cassette: Cassette, private readonly options: CassetteProviderOptions) {
+    this.mode = options.mode || 'replay';
+    this.model = options.provider.model;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const key = Cassette.keyFor(this.model, request);
+    const recorded = this.lookup(key, request);
+    if (recorded) {
+      return recorded.response;
+    }
+
+    const startTime = Date.now();
+    const response = await this.options.provider.complete(request);
+    this.cassette.put(this.createInteraction(key, request, response, Date.now() - startTime));
+    return response;
+  }
+
+  async* stream(request: CompletionRequest): AsyncGenerator<CompletionChunk, void, unknown> {
+    const key = Cassette.keyFor(this.model, request);
+    const recorded = this.lookup(key, request);
+    if (recorded) {
+      yield* this.replayStream(recorded);
+      return;
+    }
+
+    const startTime = Date.now();
+    const chunks: RecordedChunk[] = [];
+    const record = () => {
+      const response = chunks.map(chunk => chunk.content).join('');
+      this.cassette.put({ ...this.createInteraction(key, request, response, Date.now() - startTime), chunks });
+    };
+
+    for await (const chunk of this.options.provider.stream(request)) {
+      chunks.push({ ...chunk, offsetMs: Date.now() - startTime });
+      if (chunk.done) {
+        // Record before yielding: consumers usually stop iterating at the final chunk
+        record();
+        yield chunk;
+        return;
+      }
+      yield chunk;
+    }
+
+    record();
+  }
+
+  private lookup(key: string, request: CompletionRequest): CassetteInteraction | undefined {
+    if (this.mode === 'record') {
+      return undefined;
+    }
+
+    const recorded = this.cassette.get(key);
+    if (!recorded && this.mode === 'strict') {
+      throw new Error(`Cassette has no recording for ${this.options.task || 'default'} prompt ${key}: ${request.prompt.slice(0, 80)}`);
+    }
+    return recorded;
+  }
+
+  private async* replayStream(recorded: CassetteInteraction): AsyncGenerator<CompletionChunk, void, unknown> {
+    // Interactions recorded through complete() have no chunks; split the response instead
+    if (!recorded.chunks?.length) {
+      yield* chunkResponse(recorded.response);
+      return;
+    }
+
+    const startTime = Date.now();
+    for (const { offsetMs, ...chunk } of recorded.chunks) {
+      const wait = offsetMs - (Date.now() - startTime);
+      if (this.options.realtime && wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+      yield chunk;
+    }
+  }
+
+  private createInteraction(key: string, request: CompletionRequest, response: string, durationMs: number): CassetteInteraction {
+    return {
+      key,
+      ...(this.options.task && { task: this.options.task }),
+      model: this.model,
+      prompt: request.prompt,
+      ...(request.system && { system: request.system }),
+      ...(request.options && { options: request.options }),
+      response,
+      durationMs,
+      recordedAt: new Date().toISOString()
+    };
+  }
+}
+
+/**
+ * Route every task of a registry through one cassette
+ */
+export function attachCassette(registry: LLMProviderRegistry, cassette: Cassette, options: Omit<CassetteProviderOptions, 'provider' | 'task'> = {}): LLMProviderRegistry {
+  return registry.map((provider, task) => new CassetteProvider(cassette, { ...options, provider, task }));
+}
@@ -0,0 +1,150 @@
+import { JsonSchema } from '../structured-output.js';
+
+/**
+ * Pipeline steps that can be routed to different model providers
+ */
+export type LLMTask = 'analysis' | 'planning' | 'simplification' | 'repair' | 'editing' | 'explanation' | 'errorSummary' | 'default';
+
+/**
+ * Provider-neutral sampling options
+ */
+export interface GenerationOptions {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  stop?: string[];
+}
+
+export interface CompletionRequest {
+  prompt: string;
+  /** Optional system message; providers without a system role prepend it to the prompt */
+  system?: string;
+  options?: GenerationOptions;
+  /** Constrain the response to JSON matching this schema where the server supports it */
+  schema?: JsonSchema;
+  signal?: AbortSignal;
+}
+
+export interface CompletionChunk {
+  content: string;
+  done: boolean;
+  tokens?: number;
+}
+
+/**
+ * A model server that can complete prompts, either in one response or as a stream of chunks
+ */
+export interface LLMProvider {
+  /** Provider kind, e.g. `ollama` or `openai-compatible` */
+  readonly type: string;
+  readonly model: string;
+  complete(request: CompletionRequest): Promise<string>;
+  /** Like `complete`, also naming the model that answered, for providers that may hand a request to another model */
+  completeWithModel?(request: CompletionRequest): Promise<{ response: string; model: string }>;
+  stream(request: CompletionRequest): AsyncGenerator<CompletionChunk, void, unknown>;
+  /** Embedding vector for the text, for providers whose server exposes one */
+  embed?(text: string): Promise<number[]>;
+}
+
+export interface OllamaProviderConfig {
+  type: 'ollama';
+  baseUrl?: string;
+  model?: string;
+  timeoutMs?: number;
+  /** Fetch implementation, defaults to the global one */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Any server exposing `/v1/chat/completions` (llama.cpp server, vLLM, LM Studio, OpenAI)
+ */
+export interface OpenAICompatibleProviderConfig {
+  type: 'openai-compatible';
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+export interface ReplayEntry {
+  /** Exact prompt, or a regular expression source when `match` is `pattern` */
+  prompt: string;
+  response: string;
+  match?: 'exact' | 'pattern';
+}
+
+export interface ReplayProviderConfig {
+  type: 'replay';
+  model?: string;
+  entries?: ReplayEntry[];
+  /** Returned for prompts without a recorded entry; without it such prompts throw */
+  fallbackResponse?: string;
+}
+
+export type ProviderConfig = OllamaProviderConfig | OpenAICompatibleProviderConfig | ReplayProviderConfig;
+
+/**
+ * Split a response into evenly sized chunks for providers that cannot stream natively
+ */
+export async function* chunkResponse(content: string, chunkSize = 64): AsyncGenerator<CompletionChunk, void, unknown> {
+  for (let offset = 0; offset < content.length; offset += chunkSize) {
+    yield { content: content.slice(offset, offset + chunkSize), done: false };
+  }
+  yield { content: '', done: true };
+}
+
+/**
+ * Parse newline-delimited records from a streamed fetch response body
+ */
+export async function* readLines(response: Response): AsyncGenerator<string, void, unknown> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No response body reader available');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.trim()) yield line.trim();
+      }
+    }
+
+    if (buffer.trim()) yield buffer.trim();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Combine the caller's abort signal with a request timeout
+ */
+export function withTimeout(signal: AbortSignal | undefined, timeoutMs: number | undefined): { signal?: AbortSignal; clear: () => void } {
+  if (!timeoutMs) {
+    return { signal, clear: () => undefined };
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+}
@@ -0,0 +1,109 @@
+import { LLMProvider, CompletionRequest, CompletionChunk, GenerationOptions, OllamaProviderConfig, readLines, withTimeout } from './llm-provider.js';
+
+/**
+ * Provider for Ollama's native `/api/generate` endpoint
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly type = 'ollama';
+  readonly model: string;
+  private readonly baseUrl: string;
+  private readonly timeoutMs?: number;
+  private readonly fetchImpl?: typeof fetch;
+
+  constructor(config: Omit<OllamaProviderConfig, 'type'> = {}) {
+    this.baseUrl = (config.baseUrl || 'http://localhost:11434').replace(/\/+$/, '');
+    this.model = config.model || 'deepseek-r1:14b';
+    this.timeoutMs = config.timeoutMs;
+    this.fetchImpl = config.fetch;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await this.post(request, false);
+    const data = await response.json() as { response: string };
+    return data.response;
+  }
+
+  async* stream(request: CompletionRequest): AsyncGenerator<CompletionChunk, void, unknown> {
+    const response = await this.post(request, true);
+
+    for await (const line of readLines(response)) {
+      let chunk: any;
+      try {
+        chunk = JSON.parse(line);
+      } catch {
+        // Skip invalid JSON lines
+        continue;
+      }
+
+      yield { content: chunk.response || '', done: Boolean(chunk.done), tokens: chunk.eval_count };
+      if (chunk.done) return;
+    }
+  }
+
+  /**
+   * Embedding from `/api/embeddings`; the model must support embeddings (e.g. `nomic-embed-text`)
+   */
+  async embed(text: string): Promise<number[]> {
+    const { signal, clear } = withTimeout(undefined, this.timeoutMs);
+    const fetchImpl = this.fetchImpl || fetch;
+
+    try {
+      const response = await fetchImpl(`${this.baseUrl}/api/embeddings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: this.model, prompt: text }),
+        signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json() as { embedding: number[] };
+      return data.embedding;
+    } finally {
+      clear();
+    }
+  }
+
+  private async post(request: CompletionRequest, stream: boolean): Promise<Response> {
+    const { signal, clear } = withTimeout(request.signal, this.timeoutMs);
+    const fetchImpl = this.fetchImpl || fetch;
+
+    try {
+      const response = await fetchImpl(`${this.baseUrl}/api/generate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(stream && { 'Accept': 'application/x-ndjson' })
+        },
+        body: JSON.stringify({
+          model: this.model,
+          prompt: request.prompt,
+          ...(request.system && { system: request.system }),
+          stream,
+          ...(request.schema && { format: request.schema }),
+          options: toOllamaOptions(request.options)
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+      }
+
+      return response;
+    } finally {
+      clear();
+    }
+  }
+}
+
+function toOllamaOptions(options: GenerationOptions = {}): Record<string, any> {
+  const result: Record<string, any> = {};
+  if (options.temperature !== undefined) result.temperature = options.temperature;
+  if (options.topP !== undefined) result.top_p = options.topP;
+  if (options.maxTokens !== undefined) result.num_predict = options.maxTokens;
+  if (options.stop?.length) result.stop = options.stop;
+  return result;
+}
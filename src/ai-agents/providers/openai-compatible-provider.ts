@@ -0,0 +1,108 @@
+import { LLMProvider, CompletionRequest, CompletionChunk, OpenAICompatibleProviderConfig, readLines, withTimeout } from './llm-provider.js';
+
+/**
+ * Provider for OpenAI-style `/v1/chat/completions` servers such as llama.cpp server, vLLM and LM Studio
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly type = 'openai-compatible';
+  readonly model: string;
+  private readonly endpoint: string;
+  private readonly config: Omit<OpenAICompatibleProviderConfig, 'type'>;
+
+  constructor(config: Omit<OpenAICompatibleProviderConfig, 'type'>) {
+    if (!config.baseUrl) {
+      throw new Error('OpenAI-compatible provider requires a baseUrl');
+    }
+
+    // Accept both `http://host:8080` and `http://host:8080/v1`
+    const baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.endpoint = /\/v\d+$/.test(baseUrl) ? `${baseUrl}/chat/completions` : `${baseUrl}/v1/chat/completions`;
+    this.model = config.model;
+    this.config = config;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await this.post(request, false);
+    const data = await response.json() as { choices?: Array<{ message?: { content?: string }; text?: string }> };
+    const choice = data.choices?.[0];
+
+    if (!choice) {
+      throw new Error('OpenAI-compatible API returned no choices');
+    }
+
+    return choice.message?.content ?? choice.text ?? '';
+  }
+
+  async* stream(request: CompletionRequest): AsyncGenerator<CompletionChunk, void, unknown> {
+    const response = await this.post(request, true);
+
+    // Server-sent events: `data: {...}` lines terminated by `data: [DONE]`
+    for await (const line of readLines(response)) {
+      if (!line.startsWith('data:')) continue;
+
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') {
+        yield { content: '', done: true };
+        return;
+      }
+
+      let chunk: any;
+      try {
+        chunk = JSON.parse(payload);
+      } catch {
+        continue;
+      }
+
+      const choice = chunk.choices?.[0];
+      const content = choice?.delta?.content ?? choice?.text ?? '';
+      if (content) {
+        yield { content, done: false, tokens: chunk.usage?.completion_tokens };
+      }
+    }
+
+    // Some servers close the stream without sending [DONE]
+    yield { content: '', done: true };
+  }
+
+  private async post(request: CompletionRequest, stream: boolean): Promise<Response> {
+    const { signal, clear } = withTimeout(request.signal, this.config.timeoutMs);
+    const fetchImpl = this.config.fetch || fetch;
+    const options = request.options || {};
+
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt }
+    ];
+
+    try {
+      const response = await fetchImpl(this.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(stream && { 'Accept': 'text/event-stream' }),
+          ...(this.config.apiKey && { 'Authorization': `Bearer ${this.config.apiKey}` }),
+          ...this.config.headers
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages,
+          stream,
+          ...(options.temperature !== undefined && { temperature: options.temperature }),
+          ...(options.topP !== undefined && { top_p: options.topP }),
+          ...(options.maxTokens !== undefined && { max_tokens: options.maxTokens }),
+          ...(options.stop?.length && { stop: options.stop }),
+          ...(request.schema && { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: request.schema } } })
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`OpenAI-compatible API error: ${response.status} ${response.statusText}`);
+      }
+
+      return response;
+    } finally {
+      clear();
+    }
+  }
+}
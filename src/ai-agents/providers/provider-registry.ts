@@ -0,0 +1,100 @@
+import { LLMProvider, LLMTask, ProviderConfig } from './llm-provider.js';
+import { OllamaProvider } from './ollama-provider.js';
+import { OpenAICompatibleProvider } from './openai-compatible-provider.js';
+import { ReplayProvider } from './replay-provider.js';
+
+/**
+ * A provider instance or the configuration to create one
+ */
+export type ProviderSpec = ProviderConfig | LLMProvider;
+
+/**
+ * Which provider serves which task; tasks without an entry use `default`
+ */
+export interface ProviderSelection {
+  default?: ProviderSpec;
+  tasks?: Partial<Record<LLMTask, ProviderSpec>>;
+}
+
+/**
+ * Create a provider from its configuration, passing provider instances through unchanged
+ */
+export function createProvider(spec: ProviderSpec): LLMProvider {
+  if (isProvider(spec)) {
+    return spec;
+  }
+
+  switch (spec.type) {
+    case 'ollama':
+      return new OllamaProvider(spec);
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(spec);
+    case 'replay':
+      return new ReplayProvider(spec);
+    default:
+      throw new Error(`Unknown LLM provider type: ${(spec as any).type}`);
+  }
+}
+
+/**
+ * Resolves the provider to use for each pipeline task
+ */
+export class LLMProviderRegistry {
+  private defaultProvider: LLMProvider;
+  private taskProviders = new Map<LLMTask, LLMProvider>();
+
+  constructor(selection: ProviderSelection = {}) {
+    this.defaultProvider = createProvider(selection.default || { type: 'ollama' });
+    for (const [task, spec] of Object.entries(selection.tasks || {})) {
+      if (spec) this.setProvider(task as LLMTask, spec);
+    }
+  }
+
+  /**
+   * Provider for a task, falling back to the default provider
+   */
+  forTask(task: LLMTask = 'default'): LLMProvider {
+    return this.taskProviders.get(task) || this.defaultProvider;
+  }
+
+  /**
+   * Route a task to another provider; the `default` task replaces the default provider
+   */
+  setProvider(task: LLMTask, spec: ProviderSpec): LLMProvider {
+    const provider = createProvider(spec);
+    if (task === 'default') {
+      this.defaultProvider = provider;
+    } else {
+      this.taskProviders.set(task, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * New registry with every provider replaced by `fn(provider, task)`, e.g. to wrap them for recording
+   */
+  map(fn: (provider: LLMProvider, task: LLMTask) => LLMProvider): LLMProviderRegistry {
+    const tasks: Partial<Record<LLMTask, LLMProvider>> = {};
+    for (const [task, provider] of this.taskProviders) {
+      tasks[task] = fn(provider, task);
+    }
+    return new LLMProviderRegistry({ default: fn(this.defaultProvider, 'default'), tasks });
+  }
+
+  /**
+   * Provider type and model for every task with its own provider, plus the default
+   */
+  describe(): Partial<Record<LLMTask, { type: string; model: string }>> {
+    const result: Partial<Record<LLMTask, { type: string; model: string }>> = {
+      default: { type: this.defaultProvider.type, model: this.defaultProvider.model }
+    };
+    for (const [task, provider] of this.taskProviders) {
+      result[task] = { type: provider.type, model: provider.model };
+    }
+    return result;
+  }
+}
+
+function isProvider(spec: ProviderSpec): spec is LLMProvider {
+  return typeof (spec as LLMProvider).complete === 'function' && typeof (spec as LLMProvider).stream === 'function';
+}
@@ -0,0 +1,60 @@
+import { LLMProvider, CompletionRequest, CompletionChunk, ReplayEntry, ReplayProviderConfig, chunkResponse } from './llm-provider.js';
+
+/**
+ * Deterministic provider that answers from recorded prompt/response pairs.
+ * Exact prompts are matched first, then patterns in the order they were added.
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly type = 'replay';
+  readonly model: string;
+  private readonly exact = new Map<string, string>();
+  private readonly patterns: Array<{ pattern: RegExp; response: string }> = [];
+  private readonly fallbackResponse?: string;
+  private readonly prompts: string[] = [];
+
+  constructor(config: Omit<ReplayProviderConfig, 'type'> = {}) {
+    this.model = config.model || 'replay';
+    this.fallbackResponse = config.fallbackResponse;
+    for (const entry of config.entries || []) this.add(entry);
+  }
+
+  /**
+   * Record a response for a prompt
+   */
+  add(entry: ReplayEntry): void {
+    if (entry.match === 'pattern') {
+      this.patterns.push({ pattern: new RegExp(entry.prompt), response: entry.response });
+    } else {
+      this.exact.set(entry.prompt, entry.response);
+    }
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    this.prompts.push(request.prompt);
+    return this.lookup(request.prompt);
+  }
+
+  async* stream(request: CompletionRequest): AsyncGenerator<CompletionChunk, void, unknown> {
+    this.prompts.push(request.prompt);
+    yield* chunkResponse(this.lookup(request.prompt));
+  }
+
+  /**
+   * Prompts received so far, in order
+   */
+  getPrompts(): string[] {
+    return [...this.prompts];
+  }
+
+  private lookup(prompt: string): string {
+    const exact = this.exact.get(prompt);
+    if (exact !== undefined) return exact;
+
+    const match = this.patterns.find(entry => entry.pattern.test(prompt));
+    if (match) return match.response;
+
+    if (this.fallbackResponse !== undefined) return this.fallbackResponse;
+
+    throw new Error(`No recorded response for prompt: ${prompt.slice(0, 80)}${prompt.length > 80 ? '...' : ''}`);
+  }
+}
@@ -0,0 +1,371 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Caller class a request is queued under: dashboard requests are `interactive`,
+ * bulk work such as `batchRequests` is `batch`
+ */
+export type RequestLane = 'interactive' | 'batch';
+
+export type CancelReason = 'cancelled' | 'deadline' | 'shutdown';
+
+/**
+ * Rejects a request that was cancelled, ran past its deadline or was dropped by shutdown
+ */
+export class RequestCancelledError extends Error {
+  constructor(readonly requestId: string, readonly reason: CancelReason) {
+    super(reason === 'deadline'
+      ? `Request ${requestId} missed its deadline`
+      : `Request ${requestId} was cancelled${reason === 'shutdown' ? ' by shutdown' : ''}`);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export interface RequestSchedulerOptions {
+  /** Requests running at once (default: 3) */
+  maxConcurrent?: number;
+  /** Share of slots each lane gets while both have queued work (default: 3 interactive to 1 batch) */
+  laneWeights?: Partial<Record<RequestLane, number>>;
+  /** Queued requests at which `backpressure` is emitted (default: 10) */
+  highWaterMark?: number;
+}
+
+export interface ScheduleOptions {
+  id: string;
+  lane?: RequestLane;
+  /** Higher runs first within a lane (default: 0) */
+  priority?: number;
+  /** Milliseconds from scheduling until the request is cancelled, whether queued or running */
+  timeoutMs?: number;
+}
+
+/**
+ * A granted slot. The holder must call `release` when the request finishes.
+ */
+export interface RequestLease {
+  id: string;
+  lane: RequestLane;
+  /** Aborted when the running request is cancelled or misses its deadline */
+  signal: AbortSignal;
+  waitedMs: number;
+  /** Set when the running request was stopped */
+  cancelReason: CancelReason | null;
+  release(): void;
+}
+
+/**
+ * Where a queued request stands; `position` is 1-based across both lanes
+ */
+export interface QueuePosition {
+  id: string;
+  lane: RequestLane;
+  position: number;
+  queued: number;
+  active: number;
+}
+
+export interface SchedulerStats {
+  active: number;
+  queued: Record<RequestLane, number>;
+  dispatched: Record<RequestLane, number>;
+  cancelled: number;
+  expired: number;
+  avgWaitMs: number;
+}
+
+interface QueueEntry {
+  id: string;
+  lane: RequestLane;
+  priority: number;
+  deadline: number;
+  sequence: number;
+  enqueuedAt: number;
+  timer: NodeJS.Timeout | null;
+  lastPosition: number;
+  resolve: (lease: RequestLease) => void;
+  reject: (error: Error) => void;
+}
+
+interface ActiveEntry {
+  entry: QueueEntry;
+  controller: AbortController;
+  lease: RequestLease;
+  startedAt: number;
+}
+
+const LANES: RequestLane[] = ['interactive', 'batch'];
+
+/**
+ * Grants model request slots by priority and deadline, shares them between lanes by weight
+ * (stride scheduling: each dispatch advances the lane's virtual time by 1/weight and the lane
+ * furthest behind goes next) and reports queue positions and backpressure as events:
+ * `requestQueued`, `queuePosition`, `requestStarted`, `requestFinished`, `requestCancelled`,
+ * `requestExpired`, `backpressure` and `drain`.
+ */
+export class RequestScheduler extends EventEmitter {
+  private readonly maxConcurrent: number;
+  private readonly weights: Record<RequestLane, number>;
+  private readonly highWaterMark: number;
+  private readonly queues: Record<RequestLane, QueueEntry[]> = { interactive: [], batch: [] };
+  private readonly virtualTimes: Record<RequestLane, number> = { interactive: 0, batch: 0 };
+  private readonly active = new Map<string, ActiveEntry>();
+  private virtualTime = 0;
+  private sequence = 0;
+  private backpressured = false;
+  private stats = {
+    dispatched: { interactive: 0, batch: 0 } as Record<RequestLane, number>,
+    cancelled: 0,
+    expired: 0,
+    totalWaitMs: 0
+  };
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    super();
+    this.maxConcurrent = Math.max(1, options.maxConcurrent ?? 3);
+    this.weights = { interactive: 3, batch: 1, ...options.laneWeights };
+    this.highWaterMark = options.highWaterMark ?? 10;
+  }
+
+  /**
+   * Wait for a slot. Rejects with `RequestCancelledError` if the request is cancelled
+   * or its deadline passes while queued.
+   */
+  schedule(options: ScheduleOptions): Promise<RequestLease> {
+    if (this.active.has(options.id) || this.findQueued(options.id)) {
+      return Promise.reject(new Error(`Request ${options.id} is already scheduled`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const now = Date.now();
+      const lane = options.lane || 'interactive';
+      const entry: QueueEntry = {
+        id: options.id,
+        lane,
+        priority: options.priority ?? 0,
+        deadline: options.timeoutMs && options.timeoutMs > 0 ? now + options.timeoutMs : Infinity,
+        sequence: this.sequence++,
+        enqueuedAt: now,
+        timer: null,
+        lastPosition: 0,
+        resolve,
+        reject
+      };
+
+      if (entry.deadline !== Infinity) {
+        entry.timer = setTimeout(() => this.expire(entry.id), options.timeoutMs);
+      }
+
+      const queue = this.queues[lane];
+      if (queue.length === 0) {
+        // A lane coming back from idle does not get credit for the time it had nothing queued
+        this.virtualTimes[lane] = Math.max(this.virtualTimes[lane], this.virtualTime);
+      }
+      const index = queue.findIndex(queued => compareEntries(entry, queued) < 0);
+      queue.splice(index === -1 ? queue.length : index, 0, entry);
+
+      this.dispatch();
+      if (this.findQueued(entry.id)) {
+        this.emit('requestQueued', this.describePosition(entry, this.getQueueOrder().indexOf(entry) + 1));
+      }
+      this.reportQueue();
+    });
+  }
+
+  /**
+   * Cancel a queued or running request
+   */
+  cancel(id: string, reason: CancelReason = 'cancelled'): boolean {
+    const queued = this.findQueued(id);
+    if (queued) {
+      this.removeQueued(queued, reason);
+      return true;
+    }
+
+    const running = this.active.get(id);
+    if (running && !running.lease.cancelReason) {
+      this.abortActive(running, reason);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Position of a queued request, or null when it is running or unknown
+   */
+  getQueuePosition(id: string): QueuePosition | null {
+    const order = this.getQueueOrder();
+    const index = order.findIndex(entry => entry.id === id);
+    return index === -1 ? null : this.describePosition(order[index], index + 1);
+  }
+
+  /**
+   * Queued requests in the order they will start if nothing else arrives
+   */
+  getQueue(): QueuePosition[] {
+    return this.getQueueOrder().map((entry, index) => this.describePosition(entry, index + 1));
+  }
+
+  getStats(): SchedulerStats {
+    const dispatched = this.stats.dispatched.interactive + this.stats.dispatched.batch;
+    return {
+      active: this.active.size,
+      queued: { interactive: this.queues.interactive.length, batch: this.queues.batch.length },
+      dispatched: { ...this.stats.dispatched },
+      cancelled: this.stats.cancelled,
+      expired: this.stats.expired,
+      avgWaitMs: dispatched ? this.stats.totalWaitMs / dispatched : 0
+    };
+  }
+
+  /**
+   * Reject everything queued and abort running requests
+   */
+  shutdown(): void {
+    for (const lane of LANES) {
+      for (const entry of [...this.queues[lane]]) this.removeQueued(entry, 'shutdown');
+    }
+    for (const running of this.active.values()) {
+      if (!running.lease.cancelReason) this.abortActive(running, 'shutdown');
+    }
+  }
+
+  private dispatch(): void {
+    while (this.active.size < this.maxConcurrent) {
+      const lane = this.nextLane(this.virtualTimes, this.queues);
+      if (!lane) break;
+
+      const entry = this.queues[lane].shift()!;
+      this.virtualTime = this.virtualTimes[lane];
+      this.virtualTimes[lane] += 1 / this.weights[lane];
+      this.start(entry);
+    }
+  }
+
+  private start(entry: QueueEntry): void {
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    let released = false;
+
+    const lease: RequestLease = {
+      id: entry.id,
+      lane: entry.lane,
+      signal: controller.signal,
+      waitedMs: startedAt - entry.enqueuedAt,
+      cancelReason: null,
+      release: () => {
+        if (released) return;
+        released = true;
+        if (entry.timer) clearTimeout(entry.timer);
+        this.active.delete(entry.id);
+        this.emit('requestFinished', { id: entry.id, lane: entry.lane, durationMs: Date.now() - startedAt, cancelReason: lease.cancelReason });
+        this.dispatch();
+        this.reportQueue();
+      }
+    };
+
+    this.active.set(entry.id, { entry, controller, lease, startedAt });
+    this.stats.dispatched[entry.lane]++;
+    this.stats.totalWaitMs += lease.waitedMs;
+    this.emit('requestStarted', { id: entry.id, lane: entry.lane, waitedMs: lease.waitedMs });
+    entry.resolve(lease);
+  }
+
+  private expire(id: string): void {
+    const queued = this.findQueued(id);
+    const running = this.active.get(id);
+    if (!queued && !running) return;
+
+    this.stats.expired++;
+    this.emit('requestExpired', { id, lane: (queued || running!.entry).lane, queued: Boolean(queued) });
+    if (queued) {
+      this.removeQueued(queued, 'deadline');
+    } else if (!running!.lease.cancelReason) {
+      this.abortActive(running!, 'deadline');
+    }
+  }
+
+  private removeQueued(entry: QueueEntry, reason: CancelReason): void {
+    const queue = this.queues[entry.lane];
+    queue.splice(queue.indexOf(entry), 1);
+    if (entry.timer) clearTimeout(entry.timer);
+    if (reason !== 'deadline') this.stats.cancelled++;
+
+    this.emit('requestCancelled', { id: entry.id, lane: entry.lane, reason, queued: true });
+    entry.reject(new RequestCancelledError(entry.id, reason));
+    this.reportQueue();
+  }
+
+  private abortActive(running: ActiveEntry, reason: CancelReason): void {
+    running.lease.cancelReason = reason;
+    if (reason !== 'deadline') this.stats.cancelled++;
+    this.emit('requestCancelled', { id: running.entry.id, lane: running.entry.lane, reason, queued: false });
+    running.controller.abort();
+  }
+
+  /**
+   * Lane whose virtual time is furthest behind among lanes with queued work
+   */
+  private nextLane(virtualTimes: Record<RequestLane, number>, queues: Record<RequestLane, QueueEntry[]>): RequestLane | null {
+    let next: RequestLane | null = null;
+    for (const lane of LANES) {
+      if (queues[lane].length && (next === null || virtualTimes[lane] < virtualTimes[next])) next = lane;
+    }
+    return next;
+  }
+
+  /**
+   * Simulate dispatching from the current state to get the start order of queued requests
+   */
+  private getQueueOrder(): QueueEntry[] {
+    const queues = { interactive: [...this.queues.interactive], batch: [...this.queues.batch] };
+    const virtualTimes = { ...this.virtualTimes };
+    const order: QueueEntry[] = [];
+
+    for (let lane = this.nextLane(virtualTimes, queues); lane; lane = this.nextLane(virtualTimes, queues)) {
+      order.push(queues[lane].shift()!);
+      virtualTimes[lane] += 1 / this.weights[lane];
+    }
+    return order;
+  }
+
+  /**
+   * Emit `queuePosition` for requests whose position changed, and backpressure transitions
+   */
+  private reportQueue(): void {
+    const order = this.getQueueOrder();
+    order.forEach((entry, index) => {
+      if (entry.lastPosition !== 0 && entry.lastPosition !== index + 1) {
+        this.emit('queuePosition', this.describePosition(entry, index + 1));
+      }
+      entry.lastPosition = index + 1;
+    });
+
+    if (!this.backpressured && order.length >= this.highWaterMark) {
+      this.backpressured = true;
+      this.emit('backpressure', { queued: order.length, active: this.active.size, highWaterMark: this.highWaterMark });
+    } else if (this.backpressured && order.length < this.highWaterMark) {
+      this.backpressured = false;
+      this.emit('drain', { queued: order.length, active: this.active.size });
+    }
+  }
+
+  private describePosition(entry: QueueEntry, position: number): QueuePosition {
+    return {
+      id: entry.id,
+      lane: entry.lane,
+      position,
+      queued: this.queues.interactive.length + this.queues.batch.length,
+      active: this.active.size
+    };
+  }
+
+  private findQueued(id: string): QueueEntry | undefined {
+    return this.queues.interactive.find(entry => entry.id === id) || this.queues.batch.find(entry => entry.id === id);
+  }
+}
+
+/**
+ * Higher priority first, then earlier deadline, then arrival order
+ */
+function compareEntries(a: QueueEntry, b: QueueEntry): number {
+  return (b.priority - a.priority) || (a.deadline - b.deadline) || (a.sequence - b.sequence);
+}
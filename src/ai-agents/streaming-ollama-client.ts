@@ -1,6 +1,10 @@
 import { EventEmitter } from 'events';
 import { Agent as HttpAgent } from 'http';
 import { Agent as HttpsAgent } from 'https';
+import { LLMTask, CompletionChunk } from './providers/llm-provider.js';
+import { LLMProviderRegistry } from './providers/provider-registry.js';
+import { JsonSchema } from './structured-output.js';
+import { RequestScheduler, RequestLane, RequestLease, RequestCancelledError } from './request-scheduler.js';
 
 export interface StreamingConfig {
   baseUrl: string;
@@ -12,6 +16,14 @@ export interface StreamingConfig {
   batchSize?: number;
   batchTimeout?: number;
   enableCompression?: boolean;
+  /** Model servers to stream from, chosen by request task; defaults to Ollama at `baseUrl` */
+  providers?: LLMProviderRegistry;
+  /** Requests sent to the model at once; the rest wait in the scheduler queue (default: 3) */
+  maxConcurrentRequests?: number;
+  /** Slot share per lane while both have queued requests (default: 3 interactive to 1 batch) */
+  laneWeights?: Partial<Record<RequestLane, number>>;
+  /** Queued requests at which `backpressure` is emitted (default: 10) */
+  queueHighWaterMark?: number;
 }
 
 export interface StreamingRequest {
@@ -23,8 +35,16 @@ export interface StreamingRequest {
     num_predict?: number;
     stop?: string[];
   };
+  /** Higher runs first within its lane */
   priority?: number;
+  /** Milliseconds from submission until the request is cancelled, queued or running */
   timeout?: number;
+  /** Scheduler lane; `batchRequest` defaults to `batch`, everything else to `interactive` */
+  lane?: RequestLane;
+  /** Pipeline step the request belongs to, used to pick its provider */
+  task?: LLMTask;
+  /** JSON schema the response must follow */
+  schema?: JsonSchema;
 }
 
 export interface StreamingResponse {
@@ -43,14 +63,28 @@ export interface BatchRequest {
 }
 
 /**
- * High-performance streaming Ollama client with connection pooling and request optimization
+ * A `batchRequest` waiting for its batch
+ */
+interface QueuedRequest extends StreamingRequest {
+  resolve: (response: string) => void;
+  reject: (error: unknown) => void;
+  timestamp: number;
+}
+
+// Scheduler events re-emitted by the client so the UI can show queue state
+const SCHEDULER_EVENTS = ['requestQueued', 'queuePosition', 'requestStarted', 'requestFinished', 'requestCancelled', 'requestExpired', 'backpressure', 'drain'];
+
+/**
+ * High-performance streaming Ollama client with connection pooling and request optimization.
+ * Requests wait in a `RequestScheduler` queue for one of `maxConcurrentRequests` slots.
  */
 export class StreamingOllamaClient extends EventEmitter {
   private config: StreamingConfig;
+  private providers: LLMProviderRegistry;
   private httpAgent: HttpAgent | HttpsAgent;
-  private requestQueue: StreamingRequest[] = [];
+  private requestQueue: QueuedRequest[] = [];
   private batchQueue: BatchRequest[] = [];
-  private activeRequests: Map<string, AbortController> = new Map();
+  private scheduler: RequestScheduler;
   private batchTimer: NodeJS.Timeout | null = null;
   private connectionPool: Set<any> = new Set();
   private metrics = {
@@ -75,51 +109,66 @@ export class StreamingOllamaClient extends EventEmitter {
       enableCompression: true,
       ...config
     };
+    this.providers = this.config.providers || new LLMProviderRegistry({
+      default: { type: 'ollama', baseUrl: this.config.baseUrl, model: this.config.model }
+    });
+    this.scheduler = new RequestScheduler({
+      maxConcurrent: this.config.maxConcurrentRequests,
+      laneWeights: this.config.laneWeights,
+      highWaterMark: this.config.queueHighWaterMark
+    });
+    for (const event of SCHEDULER_EVENTS) {
+      this.scheduler.on(event, payload => this.emit(event, payload));
+    }
 
     this.initializeConnectionPool();
     this.startBatchProcessor();
   }
 
   /**
-   * Stream a single AI request with real-time response chunks
+   * Stream a single AI request with real-time response chunks. Resolves once the request
+   * has a scheduler slot and the first chunk has arrived.
    */
   async streamRequest(request: StreamingRequest): Promise<AsyncGenerator<StreamingResponse, void, unknown>> {
-    const controller = new AbortController();
-    this.activeRequests.set(request.id, controller);
-
     const startTime = Date.now();
     this.metrics.totalRequests++;
     this.metrics.streamingRequests++;
 
+    let lease: RequestLease;
     try {
-      const response = await fetch(`${this.config.baseUrl}/api/generate`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/x-ndjson',
-          ...(this.config.enableCompression && { 'Accept-Encoding': 'gzip, deflate' })
-        },
-        body: JSON.stringify({
-          model: this.config.model,
-          prompt: request.prompt,
-          stream: true,
-          options: request.options || {}
-        }),
-        signal: controller.signal,
-        // @ts-ignore - agent property exists
-        agent: this.httpAgent
+      lease = await this.scheduler.schedule({
+        id: request.id,
+        lane: request.lane,
+        priority: request.priority,
+        timeoutMs: request.timeout
       });
+    } catch (error) {
+      this.metrics.errorRate = (this.metrics.errorRate + 1) / this.metrics.totalRequests;
+      throw error;
+    }
 
-      if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
-      }
+    try {
+      const options = request.options || {};
+      const chunks = this.providers.forTask(request.task).stream({
+        prompt: request.prompt,
+        options: {
+          temperature: options.temperature,
+          topP: options.top_p,
+          maxTokens: options.num_predict,
+          stop: options.stop
+        },
+        schema: request.schema,
+        signal: lease.signal
+      });
 
-      return this.processStreamingResponse(request.id, response, startTime);
+      // Wait for the first chunk so connection errors surface here rather than mid-iteration
+      const first = await chunks.next();
+      return releaseIfClosedEarly(this.processStreamingResponse(lease, first, chunks, startTime), lease, chunks);
 
     } catch (error) {
       this.metrics.errorRate = (this.metrics.errorRate + 1) / this.metrics.totalRequests;
-      this.activeRequests.delete(request.id);
-      throw error;
+      lease.release();
+      throw lease.cancelReason ? new RequestCancelledError(request.id, lease.cancelReason) : error;
     }
   }
 
@@ -127,13 +176,14 @@ export class StreamingOllamaClient extends EventEmitter {
    * Add request to batch queue for efficient processing
    */
   async batchRequest(request: StreamingRequest): Promise<Promise<string>> {
-    return new Promise((resolve, reject) => {
-      const enhancedRequest = {
+    return new Promise<string>((resolve, reject) => {
+      const enhancedRequest: QueuedRequest = {
         ...request,
+        lane: request.lane || 'batch',
         resolve,
         reject,
         timestamp: Date.now()
-      } as any;
+      };
 
       this.requestQueue.push(enhancedRequest);
       this.metrics.queueLength = this.requestQueue.length;
@@ -146,12 +196,11 @@ export class StreamingOllamaClient extends EventEmitter {
   }
 
   /**
-   * Execute multiple requests concurrently with throttling
+   * Execute multiple requests concurrently; the scheduler limits how many run at once
+   * and starts them by priority
    */
-  async executeConcurrent(requests: StreamingRequest[], maxConcurrency = 3): Promise<Map<string, string>> {
+  async executeConcurrent(requests: StreamingRequest[]): Promise<Map<string, string>> {
     const results = new Map<string, string>();
-    const semaphore = new Array(maxConcurrency).fill(null);
-    let index = 0;
 
     const processRequest = async (request: StreamingRequest): Promise<void> => {
       try {
@@ -169,16 +218,7 @@ export class StreamingOllamaClient extends EventEmitter {
       }
     };
 
-    const workers = semaphore.map(async () => {
-      while (index < requests.length) {
-        const currentIndex = index++;
-        if (currentIndex < requests.length) {
-          await processRequest(requests[currentIndex]);
-        }
-      }
-    });
-
-    await Promise.all(workers);
+    await Promise.all(requests.map(processRequest));
     return results;
   }
 
@@ -204,27 +244,38 @@ export class StreamingOllamaClient extends EventEmitter {
   }
 
   /**
-   * Cancel a specific request
+   * Cancel a request that is waiting for a batch, queued in the scheduler or running
    */
   cancelRequest(requestId: string): boolean {
-    const controller = this.activeRequests.get(requestId);
-    if (controller) {
-      controller.abort();
-      this.activeRequests.delete(requestId);
+    const index = this.requestQueue.findIndex(request => request.id === requestId);
+    if (index !== -1) {
+      const [request] = this.requestQueue.splice(index, 1);
+      this.metrics.queueLength = this.requestQueue.length;
+      request.reject(new RequestCancelledError(requestId, 'cancelled'));
       return true;
     }
-    return false;
+
+    return this.scheduler.cancel(requestId);
+  }
+
+  /**
+   * Position of a queued request (1 starts next), or null when it is running or unknown
+   */
+  getQueuePosition(requestId: string): number | null {
+    return this.scheduler.getQueuePosition(requestId)?.position ?? null;
   }
 
   /**
    * Get current performance metrics
    */
   getMetrics() {
+    const scheduler = this.scheduler.getStats();
     return {
       ...this.metrics,
       connectionPoolSize: this.connectionPool.size,
-      activeRequests: this.activeRequests.size,
-      queueLength: this.requestQueue.length
+      activeRequests: scheduler.active,
+      queueLength: this.requestQueue.length + scheduler.queued.interactive + scheduler.queued.batch,
+      scheduler
     };
   }
 
@@ -232,11 +283,11 @@ export class StreamingOllamaClient extends EventEmitter {
    * Shutdown client and cleanup resources
    */
   async shutdown(): Promise<void> {
-    // Cancel all active requests
-    for (const [id, controller] of this.activeRequests) {
-      controller.abort();
+    // Reject requests still waiting for a batch, then queued and running ones
+    for (const request of this.requestQueue.splice(0)) {
+      request.reject(new RequestCancelledError(request.id, 'shutdown'));
     }
-    this.activeRequests.clear();
+    this.scheduler.shutdown();
 
     // Clear batch timer
     if (this.batchTimer) {
@@ -277,56 +328,39 @@ export class StreamingOllamaClient extends EventEmitter {
    * Process streaming response chunks as they arrive
    */
   private async* processStreamingResponse(
-    requestId: string, 
-    response: Response, 
+    lease: RequestLease,
+    first: IteratorResult<CompletionChunk, void>,
+    chunks: AsyncGenerator<CompletionChunk, void, unknown>,
     startTime: number
   ): AsyncGenerator<StreamingResponse, void, unknown> {
-    const reader = response.body?.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
-
-    if (!reader) {
-      throw new Error('No response body reader available');
-    }
-
     try {
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.trim()) {
-            try {
-              const chunk = JSON.parse(line);
-              
-              yield {
-                id: requestId,
-                content: chunk.response || '',
-                done: chunk.done || false,
-                tokens: chunk.eval_count,
-                duration: Date.now() - startTime
-              };
-
-              if (chunk.done) {
-                this.updateMetrics(Date.now() - startTime);
-                this.activeRequests.delete(requestId);
-                return;
-              }
-            } catch (parseError) {
-              // Skip invalid JSON lines
-              continue;
-            }
-          }
+      for (let next = first; !next.done; next = await chunks.next()) {
+        // Providers that ignore the abort signal are stopped between chunks
+        if (lease.cancelReason) {
+          throw new RequestCancelledError(lease.id, lease.cancelReason);
+        }
+        const chunk = next.value as CompletionChunk;
+
+        yield {
+          id: lease.id,
+          content: chunk.content,
+          done: chunk.done,
+          tokens: chunk.tokens,
+          duration: Date.now() - startTime
+        };
+
+        if (chunk.done) {
+          this.updateMetrics(Date.now() - startTime);
+          return;
         }
       }
+    } catch (error) {
+      throw lease.cancelReason && !(error instanceof RequestCancelledError)
+        ? new RequestCancelledError(lease.id, lease.cancelReason)
+        : error;
     } finally {
-      reader.releaseLock();
-      this.activeRequests.delete(requestId);
+      await chunks.return(undefined);
+      lease.release();
     }
   }
 
@@ -360,7 +394,7 @@ export class StreamingOllamaClient extends EventEmitter {
     this.metrics.queueLength = this.requestQueue.length;
 
     // Process batch concurrently
-    const promises = batch.map(async (request: any) => {
+    const promises = batch.map(async request => {
       try {
         let fullResponse = '';
         const generator = await this.streamRequest(request);
@@ -388,4 +422,42 @@ export class StreamingOllamaClient extends EventEmitter {
     
     this.metrics.avgResponseTime = (currentAvg * (totalRequests - 1) + responseTime) / totalRequests;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * A generator closed before its first `next()` never runs its `finally`, so a stream closed
+ * unread would hold its scheduler slot. Close the provider stream and release the lease then.
+ */
+function releaseIfClosedEarly(
+  stream: AsyncGenerator<StreamingResponse, void, unknown>,
+  lease: RequestLease,
+  chunks: AsyncGenerator<CompletionChunk, void, unknown>
+): AsyncGenerator<StreamingResponse, void, unknown> {
+  const { next, return: close, throw: fail } = stream;
+  let started = false;
+  const closeUnstarted = async () => {
+    if (started) return;
+    started = true;
+    try {
+      await chunks.return(undefined);
+    } finally {
+      lease.release();
+    }
+  };
+
+  // Own methods shadow the generator's, so `for await` and `Symbol.asyncDispose` go through them
+  return Object.assign(stream, {
+    next: (value?: unknown) => {
+      started = true;
+      return next.call(stream, value);
+    },
+    return: async (value: void) => {
+      await closeUnstarted();
+      return close.call(stream, value);
+    },
+    throw: async (error: unknown) => {
+      await closeUnstarted();
+      return fail.call(stream, error);
+    }
+  });
+}
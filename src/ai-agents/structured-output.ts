@@ -0,0 +1,592 @@
+/**
+ * Subset of JSON Schema used to constrain and validate model output
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null' | Array<'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'>;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  enum?: any[];
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+}
+
+const STRING_LIST: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+/**
+ * Schema for `RequirementAnalysis`
+ */
+export const REQUIREMENT_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    workflowType: { type: 'string', enum: ['linear', 'parallel', 'conditional', 'complex'] },
+    estimatedComplexity: { type: 'number', minimum: 1, maximum: 10 },
+    keyComponents: STRING_LIST,
+    suggestedNodeTypes: STRING_LIST,
+    dataFlow: { type: 'string' },
+    potentialChallenges: STRING_LIST,
+    recommendations: STRING_LIST
+  },
+  required: ['workflowType', 'estimatedComplexity', 'keyComponents', 'suggestedNodeTypes', 'dataFlow']
+};
+
+/**
+ * Schema for `WorkflowPlan`
+ */
+export const WORKFLOW_PLAN_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    nodes: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          type: { type: 'string', pattern: '^[\\w@/-]+\\.[\\w]+$' },
+          parameters: { type: 'object' },
+          description: { type: 'string' },
+          position: { type: 'array', items: { type: 'number' } }
+        },
+        required: ['id', 'name', 'type']
+      }
+    },
+    flow: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          from: { type: 'string' },
+          to: { type: 'string' },
+          type: { type: 'string' },
+          condition: { type: 'string' }
+        },
+        required: ['from', 'to']
+      }
+    },
+    estimatedComplexity: { type: 'number', minimum: 1, maximum: 10 },
+    rationale: { type: 'string' }
+  },
+  required: ['nodes', 'flow']
+};
+
+/**
+ * Schema for `WorkflowEditPatch`
+ */
+export const WORKFLOW_EDIT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    operations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          op: { type: 'string', enum: ['addNode', 'removeNode', 'rewire', 'setParameter'] },
+          name: { type: 'string' },
+          type: { type: 'string', pattern: '^[\\w@/-]+\\.[\\w]+$' },
+          parameters: { type: 'object' },
+          after: { type: 'string' },
+          node: { type: 'string' },
+          reconnect: { type: 'boolean' },
+          from: { type: 'string' },
+          to: { type: 'string' },
+          output: { type: ['string', 'integer'] },
+          disconnect: { type: 'boolean' },
+          path: { type: 'string' }
+        },
+        required: ['op']
+      }
+    },
+    explanation: { type: 'string' }
+  },
+  required: ['operations']
+};
+
+/**
+ * Schema for `RepairPatch`
+ */
+export const WORKFLOW_REPAIR_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    operations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          op: { type: 'string', enum: ['updateNode', 'addNode', 'removeNode', 'addConnection', 'removeConnection'] },
+          id: { type: 'string' },
+          name: { type: 'string' },
+          type: { type: 'string' },
+          parameters: { type: 'object' },
+          replaceParameters: { type: 'boolean' },
+          node: { type: 'object' },
+          from: { type: 'string' },
+          to: { type: 'string' },
+          condition: { type: 'string' }
+        },
+        required: ['op']
+      }
+    },
+    explanation: { type: 'string' }
+  },
+  required: ['operations']
+};
+
+export interface JsonParseResult {
+  /** Parsed value; for truncated input the part received so far */
+  value: any;
+  /** False when the input ended before the JSON document was closed */
+  complete: boolean;
+  /** Deviations from strict JSON that were accepted */
+  repairs: string[];
+}
+
+export interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
+/**
+ * - `empty`: the response had no content
+ * - `no-json`: no JSON document was found (e.g. only reasoning or prose)
+ * - `syntax`: JSON was found but could not be parsed
+ * - `incomplete`: the JSON document was cut off
+ * - `schema`: the JSON parsed but does not match the schema
+ */
+export type RejectionStage = 'empty' | 'no-json' | 'syntax' | 'incomplete' | 'schema';
+
+export interface ResponseDiagnostics {
+  accepted: boolean;
+  stage?: RejectionStage;
+  message: string;
+  repairs: string[];
+  violations: SchemaViolation[];
+  /** Start of the text the parser looked at */
+  excerpt: string;
+}
+
+/**
+ * Thrown in strict mode when a model response cannot be used
+ */
+export class StructuredOutputError extends Error {
+  constructor(readonly task: string, readonly diagnostics: ResponseDiagnostics) {
+    super(`Rejected ${task} response (${diagnostics.stage}): ${diagnostics.message}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+class JsonSyntaxError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(`${message} at position ${position}`);
+  }
+}
+
+const MAX_CANDIDATES = 50;
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+const NUMBER = /-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const LITERALS: Record<string, any> = { true: true, false: false, null: null };
+const FOREIGN_LITERALS: Record<string, any> = { True: true, False: false, None: null, undefined: null };
+
+/**
+ * Recursive-descent JSON parser that accepts common model mistakes (comments, trailing or missing
+ * commas, single quotes, bare keys) and returns whatever was parsed when the input is truncated
+ */
+class TolerantJsonParser {
+  private pos = 0;
+  private truncated = false;
+  private repairs = new Set<string>();
+
+  constructor(private readonly text: string, private readonly start: number) {
+    this.pos = start;
+  }
+
+  parse(): JsonParseResult {
+    const value = this.parseValue();
+    return { value, complete: !this.truncated, repairs: [...this.repairs] };
+  }
+
+  private parseValue(): any {
+    this.skipWhitespace();
+    if (this.atEnd()) {
+      this.truncated = true;
+      return undefined;
+    }
+
+    const ch = this.text[this.pos];
+    if (ch === '{') return this.parseObject();
+    if (ch === '[') return this.parseArray();
+    if (ch === '"' || ch === "'") return this.parseString();
+    if (ch === '-' || ch === '.' || (ch >= '0' && ch <= '9')) return this.parseNumber();
+    if (/[A-Za-z_$]/.test(ch)) return this.parseLiteral();
+
+    throw new JsonSyntaxError(`Unexpected character "${ch}"`, this.pos);
+  }
+
+  private parseObject(): Record<string, any> {
+    const result: Record<string, any> = {};
+    this.pos++;
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.atEnd()) return this.truncate(result);
+
+      const ch = this.text[this.pos];
+      if (ch === '}') {
+        this.pos++;
+        return result;
+      }
+      if (ch === ',') {
+        this.repairs.add('removed extra comma');
+        this.pos++;
+        continue;
+      }
+
+      let key: string;
+      if (ch === '"' || ch === "'") {
+        key = this.parseString();
+        if (this.truncated) return result;
+      } else if (/[A-Za-z_$]/.test(ch)) {
+        IDENTIFIER.lastIndex = this.pos;
+        key = IDENTIFIER.exec(this.text)![0];
+        this.pos += key.length;
+        this.repairs.add('quoted bare key');
+      } else {
+        throw new JsonSyntaxError(`Expected property name but found "${ch}"`, this.pos);
+      }
+
+      this.skipWhitespace();
+      if (this.atEnd()) return this.truncate(result);
+      if (this.text[this.pos] !== ':') {
+        throw new JsonSyntaxError(`Expected ":" after property "${key}"`, this.pos);
+      }
+      this.pos++;
+
+      const value = this.parseValue();
+      if (value !== undefined) result[key] = value;
+      if (this.truncated) return result;
+
+      this.skipWhitespace();
+      if (this.atEnd()) return this.truncate(result);
+
+      const next = this.text[this.pos];
+      if (next === ',') {
+        this.pos++;
+        this.skipWhitespace();
+        if (this.text[this.pos] === '}') this.repairs.add('removed trailing comma');
+      } else if (next === '"' || next === "'" || /[A-Za-z_$]/.test(next)) {
+        this.repairs.add('inserted missing comma');
+      } else if (next !== '}') {
+        throw new JsonSyntaxError(`Expected "," or "}" after property "${key}"`, this.pos);
+      }
+    }
+  }
+
+  private parseArray(): any[] {
+    const result: any[] = [];
+    this.pos++;
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.atEnd()) return this.truncate(result);
+
+      const ch = this.text[this.pos];
+      if (ch === ']') {
+        this.pos++;
+        return result;
+      }
+      if (ch === ',') {
+        this.repairs.add('removed extra comma');
+        this.pos++;
+        continue;
+      }
+
+      const value = this.parseValue();
+      if (value !== undefined) result.push(value);
+      if (this.truncated) return result;
+
+      this.skipWhitespace();
+      if (this.atEnd()) return this.truncate(result);
+
+      const next = this.text[this.pos];
+      if (next === ',') {
+        this.pos++;
+        this.skipWhitespace();
+        if (this.text[this.pos] === ']') this.repairs.add('removed trailing comma');
+      } else if (next === '{' || next === '[' || next === '"') {
+        this.repairs.add('inserted missing comma');
+      } else if (next !== ']') {
+        throw new JsonSyntaxError(`Expected "," or "]" in array`, this.pos);
+      }
+    }
+  }
+
+  private parseString(): string {
+    const quote = this.text[this.pos];
+    if (quote === "'") this.repairs.add('converted single-quoted string');
+    this.pos++;
+
+    let result = '';
+    while (!this.atEnd()) {
+      const ch = this.text[this.pos++];
+      if (ch === quote) return result;
+      if (ch !== '\\') {
+        result += ch;
+        continue;
+      }
+
+      if (this.atEnd()) break;
+      const escaped = this.text[this.pos++];
+      switch (escaped) {
+        case 'n': result += '\n'; break;
+        case 't': result += '\t'; break;
+        case 'r': result += '\r'; break;
+        case 'b': result += '\b'; break;
+        case 'f': result += '\f'; break;
+        case 'u': {
+          const hex = this.text.slice(this.pos, this.pos + 4);
+          if (hex.length < 4) {
+            this.pos = this.text.length;
+            break;
+          }
+          result += String.fromCharCode(parseInt(hex, 16));
+          this.pos += 4;
+          break;
+        }
+        default: result += escaped;
+      }
+    }
+
+    return this.truncate(result);
+  }
+
+  private parseNumber(): number {
+    NUMBER.lastIndex = this.pos;
+    const match = NUMBER.exec(this.text);
+    if (!match) {
+      if (this.pos + 1 >= this.text.length) return this.truncate(undefined);
+      throw new JsonSyntaxError('Invalid number', this.pos);
+    }
+
+    this.pos += match[0].length;
+    return Number(match[0]);
+  }
+
+  private parseLiteral(): any {
+    IDENTIFIER.lastIndex = this.pos;
+    const word = IDENTIFIER.exec(this.text)![0];
+    this.pos += word.length;
+
+    if (word in LITERALS) return LITERALS[word];
+    if (word in FOREIGN_LITERALS) {
+      this.repairs.add(`converted ${word} literal`);
+      return FOREIGN_LITERALS[word];
+    }
+    if (this.atEnd() && Object.keys(LITERALS).some(literal => literal.startsWith(word))) {
+      return this.truncate(undefined);
+    }
+
+    throw new JsonSyntaxError(`Unexpected token "${word}"`, this.pos - word.length);
+  }
+
+  private skipWhitespace(): void {
+    while (!this.atEnd()) {
+      const ch = this.text[this.pos];
+      if (ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t') {
+        this.pos++;
+      } else if (this.text.startsWith('//', this.pos)) {
+        const end = this.text.indexOf('\n', this.pos);
+        this.pos = end === -1 ? this.text.length : end;
+        this.repairs.add('removed comment');
+      } else if (this.text.startsWith('/*', this.pos)) {
+        const end = this.text.indexOf('*/', this.pos + 2);
+        this.pos = end === -1 ? this.text.length : end + 2;
+        this.repairs.add('removed comment');
+      } else {
+        return;
+      }
+    }
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.text.length;
+  }
+
+  private truncate<T>(value: T): T {
+    this.truncated = true;
+    return value;
+  }
+}
+
+/**
+ * Text after the model's reasoning block; `null` while the reasoning is still open
+ */
+function stripReasoning(text: string): string | null {
+  const closing = text.lastIndexOf('</think>');
+  if (closing !== -1) return text.slice(closing + '</think>'.length);
+  if (text.includes('<think>')) return null;
+  return text;
+}
+
+/**
+ * Find and parse the first JSON object in free-form model output
+ */
+export function parseTolerantJson(text: string): JsonParseResult | null {
+  const content = stripReasoning(text);
+  if (content === null) return null;
+
+  let lastError: Error | null = null;
+  let start = content.indexOf('{');
+
+  for (let candidates = 0; start !== -1 && candidates < MAX_CANDIDATES; candidates++) {
+    try {
+      return new TolerantJsonParser(content, start).parse();
+    } catch (error) {
+      lastError = error as Error;
+      start = content.indexOf('{', start + 1);
+    }
+  }
+
+  if (lastError) throw lastError;
+  return null;
+}
+
+/**
+ * Parses a streamed response as it arrives, exposing the partial value after every chunk
+ */
+export class IncrementalJsonParser {
+  private buffer = '';
+  private latest: JsonParseResult | null = null;
+
+  /**
+   * Append a chunk; returns the current parse result, or `null` while no JSON has been seen
+   */
+  push(chunk: string): JsonParseResult | null {
+    this.buffer += chunk;
+    if (!chunk.trim() && this.latest) return this.latest;
+
+    try {
+      this.latest = parseTolerantJson(this.buffer);
+    } catch {
+      // Keep the last good partial value until more text arrives
+    }
+    return this.latest;
+  }
+
+  get text(): string {
+    return this.buffer;
+  }
+}
+
+/**
+ * Validate a value against a `JsonSchema`
+ */
+export function validateJsonSchema(value: any, schema: JsonSchema, path = '$'): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+
+  if (types.length && !types.some(type => matchesType(value, type))) {
+    return [{ path, message: `expected ${types.join(' or ')} but got ${describeType(value)}` }];
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    violations.push({ path, message: `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) violations.push({ path, message: `must be >= ${schema.minimum}` });
+    if (schema.maximum !== undefined && value > schema.maximum) violations.push({ path, message: `must be <= ${schema.maximum}` });
+  }
+
+  if (typeof value === 'string' && schema.pattern && !new RegExp(schema.pattern).test(value)) {
+    violations.push({ path, message: `does not match pattern ${schema.pattern}` });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      violations.push({ path, message: `must contain at least ${schema.minItems} item(s)` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => violations.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`)));
+    }
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) violations.push({ path: `${path}.${key}`, message: 'is required' });
+    }
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        violations.push(...validateJsonSchema(propertyValue, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: `${path}.${key}`, message: 'is not allowed' });
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Extract, parse and validate a structured model response, explaining any rejection
+ */
+export function parseStructuredResponse<T>(response: string, schema: JsonSchema): { value: T | null; diagnostics: ResponseDiagnostics } {
+  const excerpt = (stripReasoning(response ?? '') ?? response ?? '').trim().slice(0, 200);
+  const reject = (stage: RejectionStage, message: string, repairs: string[] = [], violations: SchemaViolation[] = []) => ({
+    value: null,
+    diagnostics: { accepted: false, stage, message, repairs, violations, excerpt }
+  });
+
+  if (!response || !response.trim()) {
+    return reject('empty', 'Response is empty');
+  }
+
+  let parsed: JsonParseResult | null;
+  try {
+    parsed = parseTolerantJson(response);
+  } catch (error) {
+    return reject('syntax', (error as Error).message);
+  }
+
+  if (!parsed) {
+    return reject('no-json', response.includes('<think>') && !response.includes('</think>')
+      ? 'Response ended inside the reasoning block'
+      : 'Response contains no JSON object');
+  }
+
+  if (!parsed.complete) {
+    return reject('incomplete', 'JSON object is truncated', parsed.repairs);
+  }
+
+  const violations = validateJsonSchema(parsed.value, schema);
+  if (violations.length) {
+    return reject('schema', violations.map(violation => `${violation.path} ${violation.message}`).join('; '), parsed.repairs, violations);
+  }
+
+  return {
+    value: parsed.value as T,
+    diagnostics: { accepted: true, message: 'ok', repairs: parsed.repairs, violations: [], excerpt }
+  };
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && !Number.isNaN(value);
+    case 'null': return value === null;
+    default: return typeof value === type;
+  }
+}
+
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
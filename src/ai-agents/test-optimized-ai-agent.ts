@@ -148,7 +148,11 @@ export class OptimizedAIAgentTest {
         maxConnections: 6,
         batchSize: 3,
         batchTimeout: 50
-      }
+      },
+      // AI_CASSETTE=path records against a live Ollama; add AI_CASSETTE_MODE=strict to replay without one
+      ...(process.env.AI_CASSETTE && {
+        cassette: { path: process.env.AI_CASSETTE, mode: (process.env.AI_CASSETTE_MODE as any) || 'replay' }
+      })
     };
 
     this.agent = new OptimizedAIAgent(this.testConfig);
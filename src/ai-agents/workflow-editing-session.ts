@@ -0,0 +1,523 @@
+import { randomUUID } from 'crypto';
+import { N8nWorkflow, N8nNode, ValidationError, ValidationWarning } from '../types/n8n-workflow.js';
+import { NodeFactory } from '../generators/node-factory.js';
+import { LayoutEngine } from '../generators/layout-engine.js';
+import { WorkflowValidator } from '../validators/workflow-validator.js';
+import { N8nWorkflowSchemaValidator } from '../validators/n8n-workflow-schema.js';
+import { ConnectionValidator } from '../validation/connection-validator.js';
+import { NodeCompatibilityValidator } from '../validation/node-compatibility-validator.js';
+import { ConnectionEdge, buildConnections, getConnectionEdges, findNodeByKey } from '../utils/connection-graph.js';
+import { combineValidationResults, validationFindingKey } from '../validation/validation-results.js';
+import { CompletionFunction } from './workflow-repair-loop.js';
+import { WORKFLOW_EDIT_SCHEMA, parseStructuredResponse } from './structured-output.js';
+
+/**
+ * Source output of a connection: `main` (output 0), `true`/`false` for IF nodes, `error` for the
+ * error output (turns on "continue using error output" for the node) or an explicit output index
+ */
+export type EditOutput = 'main' | 'true' | 'false' | 'error' | number;
+
+/**
+ * A single change requested in an editing turn. Nodes are referenced by name.
+ */
+export type WorkflowEditOperation =
+  | { op: 'addNode'; name: string; type: string; parameters?: Record<string, any>; after?: string; output?: EditOutput }
+  | { op: 'removeNode'; node: string; reconnect?: boolean }
+  | { op: 'rewire'; from: string; to: string; output?: EditOutput; disconnect?: boolean }
+  | { op: 'setParameter'; node: string; path: string; value: any };
+
+export interface WorkflowEditPatch {
+  operations: WorkflowEditOperation[];
+  explanation?: string;
+}
+
+export interface EditTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  /** Edit proposed in response to (or by) this turn */
+  editId?: string;
+}
+
+/**
+ * Patch proposed for a user turn, together with the workflow it would produce
+ */
+export interface PendingEdit {
+  id: string;
+  message: string;
+  patch: WorkflowEditPatch | null;
+  /** Operations that could not be applied, or why the response was unusable */
+  patchErrors: string[];
+  /** Workflow after the patch */
+  workflow: N8nWorkflow;
+  errors: ValidationError[];
+  warnings: ValidationWarning[];
+  /** Validation errors the patch introduced; errors the workflow already had do not block an edit */
+  newErrors: ValidationError[];
+  /** True when every operation applied and no new validation errors appeared */
+  applicable: boolean;
+}
+
+export interface EditResult {
+  edit: PendingEdit;
+  applied: boolean;
+}
+
+export interface EditingSessionOptions {
+  /** Apply patches from `send` automatically when they are applicable (default true) */
+  autoApply?: boolean;
+  /** Conversation turns included in each prompt */
+  maxHistoryTurns?: number;
+  /** Undo steps kept */
+  maxUndo?: number;
+  nodeFactory?: NodeFactory;
+  layoutEngine?: LayoutEngine;
+}
+
+interface UndoEntry {
+  workflow: N8nWorkflow;
+  editId: string;
+}
+
+/**
+ * Multi-turn editing of an existing workflow: each user turn is turned into a structured
+ * patch by the model, validated against the current workflow and applied with undo/redo
+ */
+export class WorkflowEditingSession {
+  private current: N8nWorkflow;
+  private history: EditTurn[] = [];
+  private pending: PendingEdit | null = null;
+  private undoStack: UndoEntry[] = [];
+  private redoStack: UndoEntry[] = [];
+  private editCount = 0;
+  private readonly options: Required<Omit<EditingSessionOptions, 'nodeFactory' | 'layoutEngine'>>;
+  private readonly nodeFactory: NodeFactory;
+  private readonly layoutEngine: LayoutEngine;
+  private readonly validator = new WorkflowValidator();
+  private readonly nodeCompatibilityValidator = new NodeCompatibilityValidator();
+  private readonly connectionValidator = new ConnectionValidator(this.nodeCompatibilityValidator);
+
+  constructor(private complete: CompletionFunction, workflow: N8nWorkflow, options: EditingSessionOptions = {}) {
+    this.current = cloneWorkflow(workflow);
+    this.options = {
+      autoApply: options.autoApply ?? true,
+      maxHistoryTurns: options.maxHistoryTurns ?? 6,
+      maxUndo: options.maxUndo ?? 50
+    };
+    this.nodeFactory = options.nodeFactory || new NodeFactory();
+    this.layoutEngine = options.layoutEngine || new LayoutEngine();
+  }
+
+  /**
+   * Copy of the current workflow
+   */
+  get workflow(): N8nWorkflow {
+    return cloneWorkflow(this.current);
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  getHistory(): EditTurn[] {
+    return [...this.history];
+  }
+
+  getPendingEdit(): PendingEdit | null {
+    return this.pending;
+  }
+
+  /**
+   * Turn a user message into a patch and apply it when it is applicable (unless `autoApply` is off)
+   */
+  async send(message: string): Promise<EditResult> {
+    const edit = await this.propose(message);
+    if (!this.options.autoApply || !edit.applicable) {
+      return { edit, applied: false };
+    }
+
+    this.apply();
+    return { edit, applied: true };
+  }
+
+  /**
+   * Ask the model for a patch and preview it; the result is kept as the pending edit
+   */
+  async propose(message: string): Promise<PendingEdit> {
+    const id = `edit-${++this.editCount}`;
+    const prompt = this.buildEditPrompt(message);
+    this.history.push({ role: 'user', content: message, timestamp: new Date().toISOString(), editId: id });
+
+    let patch: WorkflowEditPatch | null = null;
+    const patchErrors: string[] = [];
+    try {
+      patch = this.parsePatch(await this.complete(prompt));
+    } catch (error) {
+      patchErrors.push(`Model response could not be used: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const before = await this.validate(this.current);
+    const applied = patch ? await this.applyPatch(this.current, patch) : { workflow: cloneWorkflow(this.current), errors: [] };
+    patchErrors.push(...applied.errors);
+    const after = await this.validate(applied.workflow);
+
+    const previousKeys = new Set(before.errors.map(validationFindingKey));
+    const newErrors = after.errors.filter(error => !previousKeys.has(validationFindingKey(error)));
+
+    this.pending = {
+      id,
+      message,
+      patch,
+      patchErrors,
+      workflow: applied.workflow,
+      errors: after.errors,
+      warnings: after.warnings,
+      newErrors,
+      applicable: patch !== null && patch.operations.length > 0 && patchErrors.length === 0 && newErrors.length === 0
+    };
+
+    this.history.push({
+      role: 'assistant',
+      content: patch ? describePatch(patch) : patchErrors.join('; '),
+      timestamp: new Date().toISOString(),
+      editId: id
+    });
+
+    return this.pending;
+  }
+
+  /**
+   * Apply the pending edit. Edits that failed or add validation errors need `force`.
+   */
+  apply(force = false): N8nWorkflow {
+    const edit = this.pending;
+    if (!edit) {
+      throw new Error('No pending edit to apply');
+    }
+    if (!edit.applicable && !force) {
+      const reasons = [...edit.patchErrors, ...edit.newErrors.map(error => error.message)];
+      throw new Error(`Edit ${edit.id} cannot be applied: ${reasons.join('; ') || 'the patch has no operations'}`);
+    }
+
+    this.pushUndo({ workflow: this.current, editId: edit.id });
+    this.redoStack = [];
+    this.current = cloneWorkflow(edit.workflow);
+    this.pending = null;
+    return this.workflow;
+  }
+
+  /**
+   * Drop the pending edit without applying it
+   */
+  discard(): PendingEdit | null {
+    const edit = this.pending;
+    this.pending = null;
+    return edit;
+  }
+
+  /**
+   * Revert the last applied edit; returns false when there is nothing to undo
+   */
+  undo(): boolean {
+    const entry = this.undoStack.pop();
+    if (!entry) return false;
+
+    this.redoStack.push({ workflow: this.current, editId: entry.editId });
+    this.current = entry.workflow;
+    this.pending = null;
+    return true;
+  }
+
+  /**
+   * Re-apply the last undone edit; returns false when there is nothing to redo
+   */
+  redo(): boolean {
+    const entry = this.redoStack.pop();
+    if (!entry) return false;
+
+    this.pushUndo({ workflow: this.current, editId: entry.editId });
+    this.current = entry.workflow;
+    this.pending = null;
+    return true;
+  }
+
+  /**
+   * Build a prompt with the current workflow, recent conversation and the new request
+   */
+  buildEditPrompt(message: string): string {
+    const nodes = this.current.nodes.map(node => ({
+      name: node.name,
+      type: node.type,
+      parameters: node.parameters,
+      ...(node.onError && { onError: node.onError })
+    }));
+    const connections = getConnectionEdges(this.current.connections)
+      .map(edge => `${nameOf(this.current, edge.source)} [${outputLabel(this.current, edge)}] -> ${nameOf(this.current, edge.target)}`)
+      .join('\n');
+    const history = this.history
+      .slice(-this.options.maxHistoryTurns)
+      .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+      .join('\n');
+
+    return `You are an expert n8n workflow designer editing an existing workflow for a user.
+Make ONLY the changes the user asks for, with the smallest possible patch.
+
+Current workflow nodes:
+${JSON.stringify(nodes, null, 2)}
+
+Current connections:
+${connections || '(none)'}
+${history ? `\nConversation so far:\n${history}\n` : ''}
+User request: ${message}
+
+Respond with a JSON object describing the changes, referencing nodes by name:
+{
+  "operations": [
+    { "op": "addNode", "name": "Node Name", "type": "n8n-nodes-base.nodeType", "parameters": {}, "after": "Existing Node", "output": "main" },
+    { "op": "removeNode", "node": "Node Name", "reconnect": true },
+    { "op": "rewire", "from": "Node A", "to": "Node B", "output": "main", "disconnect": false },
+    { "op": "setParameter", "node": "Node Name", "path": "options.timeout", "value": 10000 }
+  ],
+  "explanation": "short description of the changes"
+}
+
+"output" is "main", "true"/"false" for IF nodes, or "error" to handle failures of the source node.
+"reconnect" links the removed node's inputs to its outputs. "disconnect": true removes a connection.
+A "setParameter" value of null removes the parameter.`;
+  }
+
+  /**
+   * Extract and schema-check the patch in a model response
+   */
+  parsePatch(response: string): WorkflowEditPatch {
+    const { value, diagnostics } = parseStructuredResponse<WorkflowEditPatch>(response, WORKFLOW_EDIT_SCHEMA);
+    if (!value) {
+      throw new Error(`${diagnostics.stage}: ${diagnostics.message}`);
+    }
+    return { operations: value.operations, explanation: value.explanation };
+  }
+
+  /**
+   * Apply patch operations to a copy of the workflow. Invalid operations are skipped and
+   * reported; added nodes are placed around the existing ones.
+   */
+  async applyPatch(workflow: N8nWorkflow, patch: WorkflowEditPatch): Promise<{ workflow: N8nWorkflow; errors: string[] }> {
+    const next = cloneWorkflow(workflow);
+    const errors: string[] = [];
+    const existingNames = next.nodes.map(node => node.name);
+    // Connections are edited as a flat edge list keyed by node name
+    let edges = getConnectionEdges(next.connections).map(edge => ({
+      ...edge,
+      source: nameOf(next, edge.source),
+      target: nameOf(next, edge.target)
+    }));
+    const findNode = (name: string) => (typeof name === 'string' ? findNodeByKey(next, name) : undefined);
+
+    for (const [index, operation] of (patch.operations as any[]).entries()) {
+      const label = `Operation ${index + 1} (${operation?.op ?? 'unknown'})`;
+
+      switch (operation?.op) {
+        case 'addNode': {
+          if (typeof operation.name !== 'string' || typeof operation.type !== 'string') {
+            errors.push(`${label}: node must have a name and a type`);
+            break;
+          }
+          if (findNode(operation.name)) {
+            errors.push(`${label}: node "${operation.name}" already exists`);
+            break;
+          }
+          const after = operation.after !== undefined ? findNode(operation.after) : undefined;
+          if (operation.after !== undefined && !after) {
+            errors.push(`${label}: node "${operation.after}" does not exist`);
+            break;
+          }
+
+          next.nodes.push(await this.createNode(operation.name, operation.type, operation.parameters || {}));
+          if (after) {
+            edges.push(edgeFrom(after, operation.name, operation.output));
+            useErrorOutput(after, operation.output);
+          }
+          break;
+        }
+
+        case 'removeNode': {
+          const node = findNode(operation.node);
+          if (!node) {
+            errors.push(`${label}: node "${operation.node}" does not exist`);
+            break;
+          }
+
+          const incoming = edges.filter(edge => edge.target === node.name && edge.source !== node.name);
+          const outgoing = edges.filter(edge => edge.source === node.name && edge.target !== node.name);
+          edges = edges.filter(edge => edge.source !== node.name && edge.target !== node.name);
+          if (operation.reconnect) {
+            for (const input of incoming) {
+              for (const output of outgoing.filter(edge => edge.outputType === 'main' && !isErrorOutput(node, edge.outputIndex))) {
+                edges.push({ ...input, target: output.target, inputType: output.inputType, inputIndex: output.inputIndex });
+              }
+            }
+          }
+          next.nodes = next.nodes.filter(candidate => candidate !== node);
+          break;
+        }
+
+        case 'rewire': {
+          const from = findNode(operation.from);
+          const to = findNode(operation.to);
+          if (!from || !to) {
+            errors.push(`${label}: ${operation.from} -> ${operation.to} references a node that does not exist`);
+            break;
+          }
+
+          if (operation.disconnect) {
+            const before = edges.length;
+            const outputIndex = operation.output !== undefined ? outputIndexFor(from, operation.output) : undefined;
+            edges = edges.filter(edge => !(edge.source === from.name && edge.target === to.name &&
+              (outputIndex === undefined || edge.outputIndex === outputIndex)));
+            if (edges.length === before) {
+              errors.push(`${label}: no connection ${from.name} -> ${to.name}`);
+            }
+            break;
+          }
+
+          const edge = edgeFrom(from, to.name, operation.output);
+          if (edges.some(existing => existing.source === edge.source && existing.target === edge.target && existing.outputIndex === edge.outputIndex)) {
+            errors.push(`${label}: ${from.name} -> ${to.name} is already connected`);
+            break;
+          }
+          edges.push(edge);
+          useErrorOutput(from, operation.output);
+          break;
+        }
+
+        case 'setParameter': {
+          const node = findNode(operation.node);
+          if (!node) {
+            errors.push(`${label}: node "${operation.node}" does not exist`);
+            break;
+          }
+          if (typeof operation.path !== 'string' || !operation.path) {
+            errors.push(`${label}: a parameter path is required`);
+            break;
+          }
+          if (operation.path.split('.').some(segment => UNSAFE_PATH_SEGMENTS.has(segment))) {
+            errors.push(`${label}: parameter path "${operation.path}" is not allowed`);
+            break;
+          }
+          setPath(node.parameters || (node.parameters = {}), operation.path.split('.'), operation.value);
+          break;
+        }
+
+        default:
+          errors.push(`${label}: unsupported operation`);
+      }
+    }
+
+    next.connections = buildConnections(edges);
+    const pinnedNodes = existingNames.filter(name => findNode(name));
+    return { workflow: this.layoutEngine.layout(next, { pinnedNodes }), errors };
+  }
+
+  /**
+   * Run WorkflowValidator, the schema validator, ConnectionValidator and NodeCompatibilityValidator
+   */
+  async validate(workflow: N8nWorkflow): Promise<{ errors: ValidationError[]; warnings: ValidationWarning[] }> {
+    const validation = await this.validator.validate(workflow);
+    const schemaValidation = N8nWorkflowSchemaValidator.validateWorkflow(workflow);
+    const connectionResult = this.connectionValidator.validateWorkflowConnections(workflow);
+    const compatibilityResult = this.nodeCompatibilityValidator.validateWorkflowNodeCompatibility(workflow);
+    return combineValidationResults(schemaValidation, validation, connectionResult, compatibilityResult);
+  }
+
+  /**
+   * Create a node through NodeFactory, or with the given parameters only when the type has no template
+   */
+  private async createNode(name: string, type: string, parameters: Record<string, any>): Promise<N8nNode> {
+    if (this.nodeFactory.getNodeTemplate(type)) {
+      return this.nodeFactory.createNode({ id: randomUUID(), name, type, parameters, description: '' });
+    }
+    return { id: randomUUID(), name, type, typeVersion: 1, position: [0, 0], parameters };
+  }
+
+  private pushUndo(entry: UndoEntry): void {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > this.options.maxUndo) this.undoStack.shift();
+  }
+}
+
+/**
+ * Edge for a connection from `source`; `useErrorOutput` marks the source once the edge is added
+ */
+function edgeFrom(source: N8nNode, target: string, output: EditOutput = 'main'): ConnectionEdge {
+  return { source: source.name, outputType: 'main', outputIndex: outputIndexFor(source, output), target, inputType: 'main', inputIndex: 0 };
+}
+
+function useErrorOutput(source: N8nNode, output: EditOutput | undefined): void {
+  if (output === 'error') source.onError = 'continueErrorOutput';
+}
+
+function outputIndexFor(node: N8nNode, output: EditOutput): number {
+  if (typeof output === 'number') return output;
+  if (output === 'false') return 1;
+  if (output === 'error') return errorOutputIndex(node);
+  return 0;
+}
+
+/**
+ * The error output follows the regular outputs: index 2 for IF nodes, 1 for everything else
+ */
+function errorOutputIndex(node: N8nNode): number {
+  return node.type === 'n8n-nodes-base.if' ? 2 : 1;
+}
+
+function isErrorOutput(node: N8nNode, outputIndex: number): boolean {
+  return node.onError === 'continueErrorOutput' && outputIndex === errorOutputIndex(node);
+}
+
+function outputLabel(workflow: N8nWorkflow, edge: ConnectionEdge): string {
+  const node = findNodeByKey(workflow, edge.source);
+  if (node && isErrorOutput(node, edge.outputIndex)) return 'error';
+  if (node?.type === 'n8n-nodes-base.if') return edge.outputIndex === 0 ? 'true' : 'false';
+  return edge.outputIndex === 0 ? 'main' : String(edge.outputIndex);
+}
+
+function nameOf(workflow: N8nWorkflow, key: string): string {
+  return findNodeByKey(workflow, key)?.name ?? key;
+}
+
+// Keys that reach the prototype chain instead of the parameters
+const UNSAFE_PATH_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype']);
+
+function setPath(target: Record<string, any>, path: string[], value: any): void {
+  const [key, ...rest] = path;
+  if (rest.length === 0) {
+    if (value === null) delete target[key];
+    else target[key] = value;
+    return;
+  }
+  if (!Object.prototype.hasOwnProperty.call(target, key) || !target[key] || typeof target[key] !== 'object') target[key] = {};
+  setPath(target[key], rest, value);
+}
+
+function describePatch(patch: WorkflowEditPatch): string {
+  if (patch.explanation) return patch.explanation;
+  return patch.operations
+    .map((operation: any) => {
+      switch (operation.op) {
+        case 'addNode': return `added ${operation.name}`;
+        case 'removeNode': return `removed ${operation.node}`;
+        case 'rewire': return `${operation.disconnect ? 'disconnected' : 'connected'} ${operation.from} -> ${operation.to}`;
+        case 'setParameter': return `set ${operation.node}.${operation.path}`;
+        default: return String(operation.op);
+      }
+    })
+    .join(', ') || 'no changes';
+}
+
+function cloneWorkflow(workflow: N8nWorkflow): N8nWorkflow {
+  return JSON.parse(JSON.stringify(workflow));
+}
@@ -0,0 +1,309 @@
+import { WorkflowPlan, NodeSpecification, FlowConnection, N8nWorkflow, ValidationError, ValidationWarning } from '../types/n8n-workflow.js';
+import { WorkflowAssembler } from '../generators/workflow-assembler.js';
+import { combineValidationResults, validationFindingKey } from '../validation/validation-results.js';
+import { WORKFLOW_REPAIR_SCHEMA, parseStructuredResponse } from './structured-output.js';
+
+/**
+ * A single change requested by the model. Node references use plan node IDs.
+ */
+export type RepairOperation =
+  | { op: 'updateNode'; id: string; name?: string; type?: string; parameters?: Record<string, any>; replaceParameters?: boolean }
+  | { op: 'addNode'; node: NodeSpecification }
+  | { op: 'removeNode'; id: string }
+  | { op: 'addConnection'; from: string; to: string; type?: string; condition?: string }
+  | { op: 'removeConnection'; from: string; to: string };
+
+export interface RepairPatch {
+  operations: RepairOperation[];
+  explanation?: string;
+}
+
+/**
+ * Record of one repair round
+ */
+export interface RepairAttempt {
+  round: number;
+  /** Errors sent to the model */
+  errors: ValidationError[];
+  patch: RepairPatch | null;
+  /** Operations that could not be applied, or why the response was unusable */
+  patchErrors: string[];
+  fixedErrors: ValidationError[];
+  remainingErrors: ValidationError[];
+  /** Errors introduced by the patch */
+  newErrors: ValidationError[];
+  /** The patch left more errors than it started with and was undone */
+  rolledBack: boolean;
+  durationMs: number;
+}
+
+/**
+ * Per error type: how often it was sent to the model and how often a patch fixed it
+ */
+export interface RepairErrorTypeStats {
+  seen: number;
+  fixed: number;
+}
+
+export interface PlanValidation {
+  workflow: N8nWorkflow;
+  errors: ValidationError[];
+  warnings: ValidationWarning[];
+}
+
+export interface WorkflowRepairResult {
+  plan: WorkflowPlan;
+  workflow: N8nWorkflow;
+  errors: ValidationError[];
+  warnings: ValidationWarning[];
+  repaired: boolean;
+  attempts: RepairAttempt[];
+  errorTypeStats: Record<string, RepairErrorTypeStats>;
+}
+
+export interface RepairLoopOptions {
+  /** Maximum number of model round-trips */
+  maxRounds?: number;
+  /** Called after each round, e.g. to emit progress events */
+  onAttempt?: (attempt: RepairAttempt) => void;
+}
+
+/**
+ * Sends model completions for a prompt; usually `AIAgent.complete`
+ */
+export type CompletionFunction = (prompt: string) => Promise<string>;
+
+/**
+ * Validates a workflow plan and feeds structured validation errors back to the model
+ * until the plan passes or the round limit is reached
+ */
+export class WorkflowRepairLoop {
+  private assembler: WorkflowAssembler;
+
+  constructor(private complete: CompletionFunction, assembler?: WorkflowAssembler) {
+    this.assembler = assembler || new WorkflowAssembler();
+  }
+
+  /**
+   * Repair a plan, returning the last plan together with every attempt made
+   */
+  async repair(plan: WorkflowPlan, options: RepairLoopOptions = {}): Promise<WorkflowRepairResult> {
+    const maxRounds = options.maxRounds ?? 3;
+    const attempts: RepairAttempt[] = [];
+    const errorTypeStats: Record<string, RepairErrorTypeStats> = {};
+    let current = clonePlan(plan);
+    let validation = await this.validatePlan(current);
+
+    for (let round = 1; round <= maxRounds && validation.errors.length > 0; round++) {
+      const startTime = Date.now();
+      const errors = validation.errors;
+      const patchErrors: string[] = [];
+      const previous = { plan: current, validation };
+      let patch: RepairPatch | null = null;
+
+      try {
+        patch = this.parsePatch(await this.complete(this.buildRepairPrompt(current, errors)));
+      } catch (error) {
+        patchErrors.push(`Model response could not be used: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      if (patch) {
+        const applied = this.applyPatch(current, patch);
+        patchErrors.push(...applied.errors);
+        current = applied.plan;
+        validation = await this.validatePlan(current);
+      }
+
+      const remainingKeys = new Set(validation.errors.map(validationFindingKey));
+      const previousKeys = new Set(errors.map(validationFindingKey));
+      const attempt: RepairAttempt = {
+        round,
+        errors,
+        patch,
+        patchErrors,
+        fixedErrors: errors.filter(error => !remainingKeys.has(validationFindingKey(error))),
+        remainingErrors: validation.errors.filter(error => previousKeys.has(validationFindingKey(error))),
+        newErrors: validation.errors.filter(error => !previousKeys.has(validationFindingKey(error))),
+        rolledBack: validation.errors.length > errors.length,
+        durationMs: Date.now() - startTime
+      };
+
+      // Keep the plan from before a round that made things worse
+      if (attempt.rolledBack) {
+        current = previous.plan;
+        validation = previous.validation;
+      }
+
+      for (const error of attempt.errors) {
+        const stats = errorTypeStats[error.type] || (errorTypeStats[error.type] = { seen: 0, fixed: 0 });
+        stats.seen++;
+      }
+      for (const error of attempt.rolledBack ? [] : attempt.fixedErrors) {
+        errorTypeStats[error.type].fixed++;
+      }
+
+      attempts.push(attempt);
+      options.onAttempt?.(attempt);
+
+      // Another round with the same input would produce the same answer
+      if (!patch || patch.operations.length === 0) break;
+    }
+
+    return {
+      plan: current,
+      workflow: validation.workflow,
+      errors: validation.errors,
+      warnings: validation.warnings,
+      repaired: attempts.length > 0 && validation.errors.length === 0,
+      attempts,
+      errorTypeStats
+    };
+  }
+
+  /**
+   * Assemble the plan and collect the assembler's validation together with the schema errors
+   */
+  async validatePlan(plan: WorkflowPlan): Promise<PlanValidation> {
+    const assembled = await this.assembler.assemble(plan);
+    return {
+      workflow: assembled.workflow,
+      ...combineValidationResults(assembled.schemaValidation, assembled.validation)
+    };
+  }
+
+  /**
+   * Build a prompt that asks only for targeted fixes to the listed errors
+   */
+  buildRepairPrompt(plan: WorkflowPlan, errors: ValidationError[]): string {
+    const errorList = errors
+      .map((error, index) => {
+        const location = [error.nodeId && `node "${error.nodeId}"`, error.field && `field "${error.field}"`].filter(Boolean).join(', ');
+        return `${index + 1}. [${error.type}] ${error.message}${location ? ` (${location})` : ''}`;
+      })
+      .join('\n');
+
+    return `You are an expert n8n workflow designer. The workflow plan below failed validation.
+Fix ONLY the listed errors with the smallest possible changes. Do not redesign the workflow.
+
+Workflow plan:
+${JSON.stringify({ nodes: plan.nodes, flow: plan.flow }, null, 2)}
+
+Validation errors:
+${errorList}
+
+Respond with a JSON object describing the changes, using plan node IDs:
+{
+  "operations": [
+    { "op": "updateNode", "id": "node-id", "parameters": { "field": "value" } },
+    { "op": "addNode", "node": { "id": "new-id", "name": "Node Name", "type": "n8n-nodes-base.nodeType", "parameters": {}, "description": "" } },
+    { "op": "removeNode", "id": "node-id" },
+    { "op": "addConnection", "from": "node-id-1", "to": "node-id-2", "type": "main", "condition": "true|false (IF nodes only)" },
+    { "op": "removeConnection", "from": "node-id-1", "to": "node-id-2" }
+  ],
+  "explanation": "short description of the fixes"
+}
+
+"updateNode" parameters are merged into the existing parameters unless "replaceParameters" is true.`;
+  }
+
+  /**
+   * Extract and schema-check the patch in a model response
+   */
+  parsePatch(response: string): RepairPatch {
+    const { value, diagnostics } = parseStructuredResponse<RepairPatch>(response, WORKFLOW_REPAIR_SCHEMA);
+    if (!value) {
+      throw new Error(`${diagnostics.stage}: ${diagnostics.message}`);
+    }
+    return { operations: value.operations, explanation: value.explanation };
+  }
+
+  /**
+   * Apply patch operations to a copy of the plan. Invalid operations are skipped and reported.
+   */
+  applyPatch(plan: WorkflowPlan, patch: RepairPatch): { plan: WorkflowPlan; errors: string[] } {
+    const next = clonePlan(plan);
+    const errors: string[] = [];
+    const findNode = (id: string) => next.nodes.find(node => node.id === id);
+
+    patch.operations.forEach((operation: any, index) => {
+      const label = `Operation ${index + 1} (${operation?.op ?? 'unknown'})`;
+
+      switch (operation?.op) {
+        case 'updateNode': {
+          const node = findNode(operation.id);
+          if (!node) {
+            errors.push(`${label}: node "${operation.id}" does not exist`);
+            return;
+          }
+          if (typeof operation.name === 'string') node.name = operation.name;
+          if (typeof operation.type === 'string') node.type = operation.type;
+          if (operation.parameters && typeof operation.parameters === 'object') {
+            node.parameters = operation.replaceParameters
+              ? operation.parameters
+              : { ...node.parameters, ...operation.parameters };
+          }
+          return;
+        }
+
+        case 'addNode': {
+          const node = operation.node;
+          if (!node || typeof node.id !== 'string' || typeof node.type !== 'string') {
+            errors.push(`${label}: node must have an id and a type`);
+            return;
+          }
+          if (findNode(node.id)) {
+            errors.push(`${label}: node "${node.id}" already exists`);
+            return;
+          }
+          next.nodes.push({
+            id: node.id,
+            name: node.name || node.id,
+            type: node.type,
+            parameters: node.parameters || {},
+            description: node.description || ''
+          });
+          return;
+        }
+
+        case 'removeNode': {
+          if (!findNode(operation.id)) {
+            errors.push(`${label}: node "${operation.id}" does not exist`);
+            return;
+          }
+          next.nodes = next.nodes.filter(node => node.id !== operation.id);
+          next.flow = next.flow.filter(connection => connection.from !== operation.id && connection.to !== operation.id);
+          return;
+        }
+
+        case 'addConnection': {
+          if (!findNode(operation.from) || !findNode(operation.to)) {
+            errors.push(`${label}: ${operation.from} -> ${operation.to} references a node that does not exist`);
+            return;
+          }
+          const connection: FlowConnection = { from: operation.from, to: operation.to, type: operation.type || 'main' };
+          if (operation.condition) connection.condition = operation.condition;
+          next.flow.push(connection);
+          return;
+        }
+
+        case 'removeConnection': {
+          const before = next.flow.length;
+          next.flow = next.flow.filter(connection => !(connection.from === operation.from && connection.to === operation.to));
+          if (next.flow.length === before) {
+            errors.push(`${label}: no connection ${operation.from} -> ${operation.to}`);
+          }
+          return;
+        }
+
+        default:
+          errors.push(`${label}: unsupported operation`);
+      }
+    });
+
+    return { plan: next, errors };
+  }
+}
+
+function clonePlan(plan: WorkflowPlan): WorkflowPlan {
+  return JSON.parse(JSON.stringify(plan));
+}
@@ -1,8 +1,11 @@
 import express from 'express';
 import { OptimizedAIAgent } from '../ai-agents/optimized-ai-agent.js';
+import { ContextPacker } from '../ai-agents/context-packer.js';
 
 const router = express.Router();
 const agent = new OptimizedAIAgent();
+// Error payloads can embed whole workflows and long stack traces
+const errorContextPacker = new ContextPacker({ tokenBudget: 1500 });
 
 /**
  * @route   POST /api/ai/summarize-error
@@ -17,19 +20,11 @@ router.post('/summarize-error', async (req, res) => {
   }
 
   try {
-    const prompt = `You are an expert n8n troubleshooter. Analyze the following n8n error JSON and provide a concise, human-readable summary. Explain the root cause and suggest a likely fix. Keep the summary to 2-3 sentences. Error JSON: ${JSON.stringify(errorData, null, 2)}`;
+    const prompt = `You are an expert n8n troubleshooter. Analyze the following n8n error JSON and provide a concise, human-readable summary. Explain the root cause and suggest a likely fix. Keep the summary to 2-3 sentences. Error JSON: ${errorContextPacker.packJson(errorData).text}`;
     
-    // Using the agent's underlying streaming client for a general-purpose prompt
-    const streamingClient = agent['streamingClient'];
-    const request = {
-      id: `error-summary-${Date.now()}`,
-      prompt: prompt,
-      options: { temperature: 0.2 }
-    };
-    
-    // We'll just execute a single request and get the full response
-    const responseMap = await streamingClient.executeConcurrent([request], 1);
-    const summary = responseMap.get(request.id) || 'Could not generate summary.';
+    // Routed to the provider configured for error summaries
+    const response = await agent.complete(prompt, 'errorSummary', { temperature: 0.2 });
+    const summary = response.replace(/<think>[\s\S]*?<\/think>/g, '').trim() || 'Could not generate summary.';
 
     res.json({ summary });
 
@@ -0,0 +1,99 @@
+/**
+ * Node type catalog CLI: import an n8n node types dump and inspect the catalog
+ *
+ * The dump is what an n8n instance serves from `/types/nodes.json`. Validators and generators
+ * use the catalog file named by `N8N_NODE_TYPE_CATALOG`.
+ */
+
+import { readFile } from 'fs/promises';
+import { Command } from 'commander';
+import { NodeTypeCatalog, DEFAULT_NODE_TYPE_CATALOG_PATH, NODE_TYPE_CATALOG_ENV } from '../importers/node-type-catalog.js';
+
+export class NodeCatalogCLI {
+  private program: Command;
+
+  constructor() {
+    this.program = new Command();
+    this.setupCommands();
+  }
+
+  private setupCommands(): void {
+    this.program
+      .name('node-catalog')
+      .description('Manage the offline n8n node type catalog')
+      .version('1.0.0');
+
+    // Import a dump
+    this.program
+      .command('import <dump>')
+      .description('Build the catalog from a node types JSON dump')
+      .option('-o, --output <file>', 'Catalog file to write', DEFAULT_NODE_TYPE_CATALOG_PATH)
+      .option('--n8n-version <version>', 'n8n version the dump was taken from')
+      .action(this.importDump.bind(this));
+
+    // Show one node type
+    this.program
+      .command('show <nodeType>')
+      .description('Show the versions, connections, credentials and parameters of a node type')
+      .option('-c, --catalog <file>', 'Catalog file to read', DEFAULT_NODE_TYPE_CATALOG_PATH)
+      .option('-v, --type-version <version>', 'Type version to show (default: the default version)')
+      .action(this.showNodeType.bind(this));
+  }
+
+  private async importDump(dump: string, options: any): Promise<void> {
+    try {
+      const content = JSON.parse(await readFile(dump, 'utf-8'));
+      const { catalog, skipped } = NodeTypeCatalog.fromDump(content, { n8nVersion: options.n8nVersion });
+      catalog.save(options.output);
+
+      const descriptions = catalog.getDescriptions().length;
+      console.log(`Imported ${catalog.size} node types (${descriptions} version sets) into ${options.output}`);
+      console.log(`Set ${NODE_TYPE_CATALOG_ENV}=${options.output} to validate and generate against it`);
+      for (const entry of skipped) {
+        console.log(`  Skipped entry ${entry.index}${entry.name ? ` (${entry.name})` : ''}: ${entry.reason}`);
+      }
+    } catch (error) {
+      console.error('Error importing node types:', error.message);
+      process.exitCode = 1;
+    }
+  }
+
+  private async showNodeType(nodeType: string, options: any): Promise<void> {
+    try {
+      const catalog = NodeTypeCatalog.load(options.catalog);
+      const version = options.typeVersion !== undefined ? Number(options.typeVersion) : undefined;
+      const description = catalog.getDescription(nodeType, version);
+      if (!description) {
+        throw new Error(`Node type '${nodeType}'${version !== undefined ? ` v${version}` : ''} is not in the catalog`);
+      }
+
+      const connections = catalog.getConnections(nodeType, version)!;
+      const credentials = catalog.getCredentials(nodeType, version);
+      const describeConnections = (types: string[]) => connections.dynamic ? 'depends on parameters' : types.join(', ') || 'none';
+
+      console.log(`${description.displayName} (${description.name})`);
+      console.log(`  Versions:    ${catalog.getVersions(nodeType).join(', ')} (default ${catalog.getDefaultVersion(nodeType)})`);
+      console.log(`  Inputs:      ${describeConnections(connections.inputs)}`);
+      console.log(`  Outputs:     ${describeConnections(connections.outputs)}`);
+      console.log(`  Credentials: ${credentials.map(credential => `${credential.name}${credential.required ? ' (required)' : ''}`).join(', ') || 'none'}`);
+      console.log('  Parameters:');
+      for (const property of description.properties) {
+        const notes = [property.type, property.required && 'required', property.displayOptions && 'conditional'].filter(Boolean);
+        console.log(`    ${property.name.padEnd(28)} ${notes.join(', ')}`);
+      }
+    } catch (error) {
+      console.error('Error reading node type catalog:', error.message);
+      process.exitCode = 1;
+    }
+  }
+
+  public async run(args: string[]): Promise<void> {
+    await this.program.parseAsync(args);
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  new NodeCatalogCLI().run(process.argv);
+}
+
+export default NodeCatalogCLI;
@@ -0,0 +1,216 @@
+/**
+ * Ollama cache CLI: inspect, export and prune the responses persisted by `OllamaCacheManager`
+ */
+
+import { writeFileSync } from 'fs';
+import { Command } from 'commander';
+import { OllamaCacheStore, PersistedCacheEntry, DEFAULT_DISK_CACHE_PATH } from '../performance/ollama-cache-store.js';
+
+export class OllamaCacheCLI {
+  private program: Command;
+
+  constructor() {
+    this.program = new Command();
+    this.setupCommands();
+  }
+
+  private setupCommands(): void {
+    this.program
+      .name('ollama-cache')
+      .description('Persistent Ollama response cache CLI')
+      .version('1.0.0');
+
+    // Show log statistics
+    this.program
+      .command('stats')
+      .description('Show size and contents of the cache log')
+      .option('-d, --dir <dir>', 'Cache directory', DEFAULT_DISK_CACHE_PATH)
+      .action(this.showStats.bind(this));
+
+    // List cached prompts
+    this.program
+      .command('list')
+      .description('List cached prompts, most recently used first')
+      .option('-d, --dir <dir>', 'Cache directory', DEFAULT_DISK_CACHE_PATH)
+      .option('-m, --model <model>', 'Filter by model')
+      .option('-s, --search <text>', 'Filter by prompt text')
+      .option('-l, --limit <number>', 'Limit results', '20')
+      .action(this.listEntries.bind(this));
+
+    // Show one entry
+    this.program
+      .command('show <key>')
+      .description('Show the prompt and response of a cached entry')
+      .option('-d, --dir <dir>', 'Cache directory', DEFAULT_DISK_CACHE_PATH)
+      .action(this.showEntry.bind(this));
+
+    // Export entries
+    this.program
+      .command('export <file>')
+      .description('Export cached prompts and responses as JSON')
+      .option('-d, --dir <dir>', 'Cache directory', DEFAULT_DISK_CACHE_PATH)
+      .option('-m, --model <model>', 'Filter by model')
+      .option('-s, --search <text>', 'Filter by prompt text')
+      .action(this.exportEntries.bind(this));
+
+    // Prune entries
+    this.program
+      .command('prune')
+      .description('Drop expired and matching entries and compact the log (stop the server first)')
+      .option('-d, --dir <dir>', 'Cache directory', DEFAULT_DISK_CACHE_PATH)
+      .option('-m, --model <model>', 'Drop entries for this model')
+      .option('-s, --search <text>', 'Drop entries whose prompt contains this text')
+      .option('--older-than <hours>', 'Drop entries not used for this many hours')
+      .option('--max-size <mb>', 'Evict least recently used entries beyond this size')
+      .option('--dry-run', 'Report what would be dropped without rewriting the log')
+      .action(this.pruneEntries.bind(this));
+  }
+
+  private async showStats(options: any): Promise<void> {
+    try {
+      const store = new OllamaCacheStore({ directory: options.dir });
+      const { entries, expired, corrupt } = await store.load();
+      const stats = store.getStats();
+
+      console.log(`\nCache log: ${stats.filePath}`);
+      console.log(`Size: ${formatBytes(stats.sizeBytes)} in ${stats.records} records`);
+      console.log(`Live entries: ${entries.length} (${expired} expired, ${corrupt} unreadable lines)`);
+
+      const models = new Map<string, number>();
+      for (const { entry } of entries) {
+        models.set(entry.model, (models.get(entry.model) || 0) + 1);
+      }
+      for (const [model, count] of models) {
+        console.log(`  ${model}: ${count}`);
+      }
+    } catch (error) {
+      console.error('Error reading cache:', error.message);
+      process.exitCode = 1;
+    }
+  }
+
+  private async listEntries(options: any): Promise<void> {
+    try {
+      const { entries } = await new OllamaCacheStore({ directory: options.dir }).load();
+      const matching = filterEntries(entries, options).sort((a, b) => b.entry.lastAccessed - a.entry.lastAccessed);
+
+      console.log(`\nFound ${matching.length} cached responses:\n`);
+      for (const { key, entry } of matching.slice(0, parseInt(options.limit))) {
+        console.log(`Key: ${key}`);
+        console.log(`Model: ${entry.model} (temperature ${entry.temperature}, topP ${entry.topP}, numPredict ${entry.numPredict})`);
+        console.log(`Stored: ${new Date(entry.timestamp).toISOString()}, ${entry.hitCount} hits`);
+        console.log(`Prompt: ${truncate(entry.prompt, 120)}`);
+        console.log('---');
+      }
+    } catch (error) {
+      console.error('Error listing cache:', error.message);
+      process.exitCode = 1;
+    }
+  }
+
+  private async showEntry(key: string, options: any): Promise<void> {
+    try {
+      const { entries } = await new OllamaCacheStore({ directory: options.dir }).load();
+      const found = entries.find(persisted => persisted.key === key);
+      if (!found) {
+        console.error(`No cached response with key ${key}`);
+        process.exitCode = 1;
+        return;
+      }
+
+      console.log(JSON.stringify(toExport(found), null, 2));
+    } catch (error) {
+      console.error('Error reading cache:', error.message);
+      process.exitCode = 1;
+    }
+  }
+
+  private async exportEntries(file: string, options: any): Promise<void> {
+    try {
+      const { entries } = await new OllamaCacheStore({ directory: options.dir }).load();
+      const matching = filterEntries(entries, options);
+      writeFileSync(file, JSON.stringify(matching.map(toExport), null, 2) + '\n');
+      console.log(`Exported ${matching.length} cached responses to ${file}`);
+    } catch (error) {
+      console.error('Error exporting cache:', error.message);
+      process.exitCode = 1;
+    }
+  }
+
+  private async pruneEntries(options: any): Promise<void> {
+    try {
+      const store = new OllamaCacheStore({
+        directory: options.dir,
+        ...(options.maxSize && { maxBytes: Number(options.maxSize) * 1024 * 1024 })
+      });
+      const { entries, expired, corrupt } = await store.load();
+      const sizeBefore = store.getStats().sizeBytes;
+
+      const cutoff = options.olderThan ? Date.now() - Number(options.olderThan) * 60 * 60 * 1000 : undefined;
+      const filtered = options.model || options.search ? filterEntries(entries, options) : [];
+      const dropped = new Set(filtered.map(persisted => persisted.key));
+      for (const { key, entry } of entries) {
+        if (cutoff !== undefined && entry.lastAccessed < cutoff) dropped.add(key);
+      }
+      const kept = entries.filter(persisted => !dropped.has(persisted.key));
+
+      if (options.dryRun) {
+        console.log(`Would drop ${expired} expired and ${dropped.size} matching entries, keeping ${kept.length}`);
+        return;
+      }
+
+      const evicted = await store.compact(kept);
+      console.log(`Dropped ${expired} expired and ${dropped.size} matching entries${evicted.length ? `, evicted ${evicted.length} for size` : ''}`);
+      if (corrupt) console.log(`Removed ${corrupt} unreadable lines`);
+      console.log(`Kept ${kept.length - evicted.length} entries; log is ${formatBytes(store.getStats().sizeBytes)} (was ${formatBytes(sizeBefore)})`);
+    } catch (error) {
+      console.error('Error pruning cache:', error.message);
+      process.exitCode = 1;
+    }
+  }
+
+  public async run(args: string[]): Promise<void> {
+    await this.program.parseAsync(args);
+  }
+}
+
+function filterEntries(entries: PersistedCacheEntry[], options: { model?: string; search?: string }): PersistedCacheEntry[] {
+  const search = options.search?.toLowerCase();
+  return entries.filter(({ entry }) =>
+    (!options.model || entry.model === options.model) &&
+    (!search || entry.prompt.toLowerCase().includes(search))
+  );
+}
+
+function toExport({ key, entry }: PersistedCacheEntry): Record<string, any> {
+  return {
+    key,
+    model: entry.model,
+    temperature: entry.temperature,
+    topP: entry.topP,
+    numPredict: entry.numPredict,
+    storedAt: new Date(entry.timestamp).toISOString(),
+    expiresAt: new Date(entry.timestamp + entry.ttl).toISOString(),
+    hitCount: entry.hitCount,
+    ...(entry.lookup?.template && { template: entry.lookup.template }),
+    prompt: entry.prompt,
+    response: entry.response
+  };
+}
+
+function truncate(text: string, length: number): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > length ? `${line.slice(0, length)}…` : line;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  new OllamaCacheCLI().run(process.argv);
+}
+
+export default OllamaCacheCLI;
@@ -0,0 +1,110 @@
+/**
+ * Prompt evaluation CLI: compares two versions of a prompt template on a fixed suite of workflow descriptions
+ */
+
+import { writeFileSync } from 'fs';
+import { Command } from 'commander';
+import { PromptRegistry, DEFAULT_PROMPTS_DIR } from '../ai-agents/prompt-registry.js';
+import { PromptEvaluator, loadEvalSuite, formatComparison, DEFAULT_EVAL_SUITE_PATH } from '../ai-agents/prompt-evaluation.js';
+import { LLMProviderRegistry } from '../ai-agents/providers/provider-registry.js';
+import { Cassette, CassetteMode, attachCassette } from '../ai-agents/providers/cassette-provider.js';
+import { ollamaCacheManager } from '../performance/ollama-cache-manager.js';
+
+export class PromptEvalCLI {
+  private program: Command;
+
+  constructor() {
+    this.program = new Command();
+    this.setupCommands();
+  }
+
+  private setupCommands(): void {
+    this.program
+      .name('prompt-eval')
+      .description('Prompt template evaluation CLI')
+      .version('1.0.0');
+
+    // List templates and their versions
+    this.program
+      .command('list')
+      .description('List prompt templates and their versions')
+      .option('-p, --prompts <dir>', 'Prompt template directory', DEFAULT_PROMPTS_DIR)
+      .action(this.listTemplates.bind(this));
+
+    // Compare two versions of a template
+    this.program
+      .command('compare')
+      .description('Score two versions of a template on the evaluation suite')
+      .requiredOption('-t, --template <name>', 'Template to evaluate')
+      .requiredOption('-b, --baseline <version>', 'Baseline version')
+      .requiredOption('-c, --candidate <version>', 'Candidate version')
+      .option('-p, --prompts <dir>', 'Prompt template directory', DEFAULT_PROMPTS_DIR)
+      .option('-s, --suite <file>', 'Evaluation suite', DEFAULT_EVAL_SUITE_PATH)
+      .option('--ollama-url <url>', 'Ollama server URL', 'http://localhost:11434')
+      .option('-m, --model <model>', 'Model to evaluate with')
+      .option('--cassette <file>', 'Record responses to, or replay them from, a cassette file')
+      .option('--cassette-mode <mode>', 'Cassette mode: record, replay or strict', 'replay')
+      .option('-o, --output <file>', 'Write the full comparison as JSON')
+      .action(this.compareVersions.bind(this));
+  }
+
+  private async listTemplates(options: any): Promise<void> {
+    try {
+      const registry = PromptRegistry.load(options.prompts);
+      console.log('\nPrompt templates:');
+      for (const template of registry.list()) {
+        const variables = Object.entries(template.variables)
+          .map(([name, spec]) => `${name}${spec.required ? '' : '?'}: ${spec.type}`)
+          .join(', ');
+        console.log(`${template.name} (versions ${registry.versions(template.name).join(', ')}, active v${template.version})`);
+        console.log(`  variables: ${variables}`);
+      }
+    } catch (error) {
+      console.error('Error listing prompts:', error.message);
+      process.exitCode = 1;
+    }
+  }
+
+  private async compareVersions(options: any): Promise<void> {
+    try {
+      const suite = loadEvalSuite(options.suite);
+      let providers = new LLMProviderRegistry({ default: { type: 'ollama', baseUrl: options.ollamaUrl, model: options.model } });
+      if (options.cassette) {
+        providers = attachCassette(providers, new Cassette(options.cassette), { mode: options.cassetteMode as CassetteMode });
+      }
+
+      const evaluator = new PromptEvaluator({
+        providers,
+        prompts: PromptRegistry.load(options.prompts),
+        onCase: result => console.log(`  v${result.version} ${result.caseId}: ${result.score}${result.failure ? ` (${result.failure})` : ''}`)
+      });
+
+      console.log(`\nEvaluating ${options.template} v${options.baseline} against v${options.candidate} on ${suite.cases.length} cases`);
+      const comparison = await evaluator.compare(options.template, Number(options.baseline), Number(options.candidate), suite);
+      console.log(`\n${formatComparison(comparison)}`);
+
+      if (options.output) {
+        writeFileSync(options.output, JSON.stringify(comparison, null, 2) + '\n');
+        console.log(`\nReport written to ${options.output}`);
+      }
+    } catch (error) {
+      console.error('Error evaluating prompts:', error.message);
+      process.exitCode = 1;
+    }
+  }
+
+  public async run(args: string[]): Promise<void> {
+    try {
+      await this.program.parseAsync(args);
+    } finally {
+      // The shared cache manager keeps a cleanup timer running
+      ollamaCacheManager.dispose();
+    }
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  new PromptEvalCLI().run(process.argv);
+}
+
+export default PromptEvalCLI;
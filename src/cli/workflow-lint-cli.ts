@@ -0,0 +1,148 @@
+/**
+ * Workflow lint CLI: validate and fix workflow JSON files for CI
+ *
+ * `lint` exits with 1 when a finding reaches the `--fail-on` severity; both commands exit
+ * with 2 when the files could not be processed at all.
+ */
+
+import { writeFileSync } from 'fs';
+import { Command } from 'commander';
+import { WorkflowLinter, LintThreshold, countFailures } from '../validation/workflow-lint.js';
+import { WorkflowAutofixer } from '../validation/autofix.js';
+import { formatLintRun, formatText, LintFormat, LINT_FORMATS } from '../validation/lint-formatters.js';
+import { FindingSeverity, VALIDATION_RULES } from '../validation/validation-rules.js';
+
+const THRESHOLDS: LintThreshold[] = ['error', 'warning', 'info', 'none'];
+const RULE_SEVERITIES = ['error', 'warning', 'info', 'off'];
+
+export class WorkflowLintCLI {
+  private program: Command;
+
+  constructor() {
+    this.program = new Command();
+    this.setupCommands();
+  }
+
+  private setupCommands(): void {
+    this.program
+      .name('workflow-lint')
+      .description('Lint n8n workflow JSON files')
+      .version('1.0.0');
+
+    // Lint workflow files
+    this.program
+      .command('lint <patterns...>')
+      .description('Validate workflow files, directories or globs (quote globs so the shell leaves them alone)')
+      .option('-f, --format <format>', `Output format: ${LINT_FORMATS.join(', ')}`, 'text')
+      .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+      .option('--fail-on <severity>', `Lowest severity that fails the run: ${THRESHOLDS.join(', ')}`, 'error')
+      .option('-r, --rule <rule=severity...>', 'Override rule severities, e.g. "performance/*=off" "graph/isolated-node=error"')
+      .action(this.lintFiles.bind(this));
+
+    // Fix workflow files
+    this.program
+      .command('fix <patterns...>')
+      .description('Apply mechanical fixes to workflow files')
+      .option('--dry-run', 'Show the changes without writing the files')
+      .option('-r, --rule <rule=severity...>', 'Override rule severities; rules turned off are not fixed')
+      .action(this.fixFiles.bind(this));
+
+    // List rules
+    this.program
+      .command('rules')
+      .description('List the rule IDs findings are reported under')
+      .action(this.listRules.bind(this));
+  }
+
+  private async lintFiles(patterns: string[], options: any): Promise<void> {
+    try {
+      const format = options.format as LintFormat;
+      const threshold = options.failOn as LintThreshold;
+      if (!LINT_FORMATS.includes(format)) {
+        throw new Error(`Unknown format '${format}', expected one of ${LINT_FORMATS.join(', ')}`);
+      }
+      if (!THRESHOLDS.includes(threshold)) {
+        throw new Error(`Unknown severity '${threshold}', expected one of ${THRESHOLDS.join(', ')}`);
+      }
+
+      const run = await new WorkflowLinter({ severities: parseRuleOverrides(options.rule || []) }).lintFiles(patterns);
+      if (!run.results.length && !run.skipped.length) {
+        throw new Error(`No files matched ${patterns.join(' ')}`);
+      }
+
+      const output = formatLintRun(run, format, threshold);
+      if (options.output) {
+        writeFileSync(options.output, output.endsWith('\n') ? output : `${output}\n`);
+        console.log(formatText(run));
+        console.log(`\nWrote ${format} report to ${options.output}`);
+      } else {
+        console.log(output);
+      }
+
+      if (countFailures(run.results, threshold) > 0) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.error('Error linting workflows:', error.message);
+      process.exitCode = 2;
+    }
+  }
+
+  private async fixFiles(patterns: string[], options: any): Promise<void> {
+    try {
+      const autofixer = new WorkflowAutofixer({ severities: parseRuleOverrides(options.rule || []) });
+      const results = await autofixer.fixFiles(patterns, { dryRun: options.dryRun });
+      if (!results.length) {
+        throw new Error(`No workflow files matched ${patterns.join(' ')}`);
+      }
+
+      let changed = 0;
+      for (const result of results) {
+        if (!result.changes.length) continue;
+        changed++;
+        console.log(result.file);
+        for (const change of result.changes) {
+          console.log(`  ${change.ruleId.padEnd(30)} ${change.description}`);
+        }
+        const { errors, warnings } = result.remaining;
+        console.log(`  ${errors} errors and ${warnings} warnings left\n`);
+      }
+
+      const verb = options.dryRun ? 'Would fix' : 'Fixed';
+      console.log(`${verb} ${changed} of ${results.length} workflow file${results.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error fixing workflows:', error.message);
+      process.exitCode = 2;
+    }
+  }
+
+  private listRules(): void {
+    const fixable = new Set(new WorkflowAutofixer().getFixableRules());
+    for (const [id, rule] of Object.entries(VALIDATION_RULES)) {
+      const notes = [rule.severity, fixable.has(id) && 'fixable'].filter(Boolean);
+      console.log(`${id.padEnd(40)} ${rule.description}${notes.length ? ` (${notes.join(', ')})` : ''}`);
+    }
+  }
+
+  public async run(args: string[]): Promise<void> {
+    await this.program.parseAsync(args);
+  }
+}
+
+function parseRuleOverrides(overrides: string[]): Record<string, FindingSeverity | 'off'> {
+  const severities: Record<string, FindingSeverity | 'off'> = {};
+  for (const override of overrides) {
+    const [rule, severity] = override.split('=');
+    if (!rule || !RULE_SEVERITIES.includes(severity)) {
+      throw new Error(`Invalid rule override '${override}', expected <rule>=<${RULE_SEVERITIES.join('|')}>`);
+    }
+    severities[rule] = severity as FindingSeverity | 'off';
+  }
+  return severities;
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  new WorkflowLintCLI().run(process.argv);
+}
+
+export default WorkflowLintCLI;
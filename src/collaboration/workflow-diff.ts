@@ -0,0 +1,445 @@
+/**
+ * @file Structural diff and three-way merge for n8n workflows.
+ * Used by the review service to show reviewers what a Workflow Change Request
+ * changes and to merge concurrent change requests against the same workflow.
+ */
+
+import { N8nWorkflow, N8nNode } from '../types/n8n-workflow.js';
+import { ConnectionEdge, getConnectionEdges, buildConnections, findNodeByKey } from '../utils/connection-graph.js';
+
+// --- Type Definitions ---
+
+type ChangeKind = 'added' | 'removed' | 'modified';
+
+export interface ValueChange {
+    /** Dotted path relative to the node or workflow, e.g. `parameters.options.timeout` */
+    path: string;
+    kind: ChangeKind;
+    before?: any;
+    after?: any;
+}
+
+export interface NodeSummary {
+    id: string;
+    name: string;
+    type: string;
+}
+
+export interface NodeChange extends NodeSummary {
+    changes: ValueChange[];
+}
+
+export interface WorkflowDiff {
+    nodes: {
+        added: NodeSummary[];
+        removed: NodeSummary[];
+        renamed: Array<{ id: string; from: string; to: string }>;
+        changed: NodeChange[];
+    };
+    connections: {
+        added: ConnectionEdge[];
+        removed: ConnectionEdge[];
+    };
+    /** Changes to workflow-level fields (name, settings, staticData, pinData, ...) */
+    workflow: ValueChange[];
+    hasChanges: boolean;
+}
+
+export interface MergeConflict {
+    kind: 'node' | 'value' | 'connection';
+    /** Node id for node and value conflicts inside a node */
+    nodeId?: string;
+    /** Dotted path of the conflicting value (`nodes.<id>.parameters.url`, `settings.timezone`, ...) */
+    path: string;
+    message: string;
+    base?: any;
+    ours?: any;
+    theirs?: any;
+}
+
+export interface WorkflowMergeResult {
+    /** Merged workflow; unresolved values are replaced by conflict markers */
+    merged: N8nWorkflow;
+    conflicts: MergeConflict[];
+    hasConflicts: boolean;
+}
+
+export type ConflictChoice = 'ours' | 'theirs' | 'base';
+
+/** Marker keys written in place of a value that both sides changed differently */
+export const CONFLICT_MARKER = {
+    ours: '<<<<<<< ours',
+    base: '||||||| base',
+    theirs: '>>>>>>> theirs',
+} as const;
+
+// Node fields that are compared and merged; everything else on a node is carried over
+const NODE_FIELDS: Array<keyof N8nNode> = [
+    'name', 'type', 'typeVersion', 'position', 'parameters', 'credentials', 'disabled', 'notes', 'notesInFlow',
+    'continueOnFail', 'alwaysOutputData', 'executeOnce', 'retryOnFail', 'maxTries', 'waitBetweenTries', 'onError',
+    'webhookId', 'color',
+];
+const WORKFLOW_FIELDS: Array<keyof N8nWorkflow> = ['name', 'active', 'settings', 'staticData', 'pinData', 'meta', 'tags'];
+
+// --- Diff ---
+
+/**
+ * Compute the structural difference between two versions of a workflow.
+ * Nodes are matched by id, falling back to name for nodes without one.
+ */
+export function diffWorkflows(before: N8nWorkflow, after: N8nWorkflow): WorkflowDiff {
+    const beforeNodes = indexNodes(before);
+    const afterNodes = indexNodes(after);
+    const diff: WorkflowDiff = {
+        nodes: { added: [], removed: [], renamed: [], changed: [] },
+        connections: { added: [], removed: [] },
+        workflow: [],
+        hasChanges: false,
+    };
+
+    for (const [key, node] of afterNodes) {
+        if (!beforeNodes.has(key)) diff.nodes.added.push(summarize(node));
+    }
+
+    for (const [key, oldNode] of beforeNodes) {
+        const newNode = afterNodes.get(key);
+        if (!newNode) {
+            diff.nodes.removed.push(summarize(oldNode));
+            continue;
+        }
+
+        if (oldNode.name !== newNode.name) {
+            diff.nodes.renamed.push({ id: key, from: oldNode.name, to: newNode.name });
+        }
+
+        const changes = NODE_FIELDS
+            .filter(field => field !== 'name')
+            .flatMap(field => diffValues(oldNode[field], newNode[field], field));
+        if (changes.length > 0) {
+            diff.nodes.changed.push({ ...summarize(newNode), changes });
+        }
+    }
+
+    const beforeEdges = keyedEdges(before);
+    const afterEdges = keyedEdges(after);
+    for (const [key, edge] of afterEdges) {
+        if (!beforeEdges.has(key)) diff.connections.added.push(namedEdge(edge, after));
+    }
+    for (const [key, edge] of beforeEdges) {
+        if (!afterEdges.has(key)) diff.connections.removed.push(namedEdge(edge, before));
+    }
+
+    diff.workflow = WORKFLOW_FIELDS.flatMap(field => diffValues(before[field], after[field], field));
+
+    diff.hasChanges = diff.nodes.added.length > 0 || diff.nodes.removed.length > 0 || diff.nodes.renamed.length > 0 ||
+        diff.nodes.changed.length > 0 || diff.connections.added.length > 0 || diff.connections.removed.length > 0 ||
+        diff.workflow.length > 0;
+
+    return diff;
+}
+
+/**
+ * Render a diff as short human-readable lines for review comments and logs.
+ */
+export function summarizeDiff(diff: WorkflowDiff): string[] {
+    const lines: string[] = [];
+    diff.nodes.added.forEach(node => lines.push(`+ node "${node.name}" (${node.type})`));
+    diff.nodes.removed.forEach(node => lines.push(`- node "${node.name}" (${node.type})`));
+    diff.nodes.renamed.forEach(rename => lines.push(`~ node "${rename.from}" renamed to "${rename.to}"`));
+    diff.nodes.changed.forEach(node => node.changes.forEach(change =>
+        lines.push(`~ node "${node.name}" ${change.path} ${change.kind}`)));
+    diff.connections.added.forEach(edge => lines.push(`+ connection ${formatEdge(edge)}`));
+    diff.connections.removed.forEach(edge => lines.push(`- connection ${formatEdge(edge)}`));
+    diff.workflow.forEach(change => lines.push(`~ workflow ${change.path} ${change.kind}`));
+    return lines;
+}
+
+// --- Three-way merge ---
+
+/**
+ * Merge two workflows that were both derived from `base`.
+ * Non-overlapping changes are combined; overlapping ones become conflicts. Value
+ * conflicts are written into the merged workflow as conflict markers (ours wins
+ * elsewhere) so the result cannot be saved by accident before they are resolved.
+ */
+export function mergeWorkflows(base: N8nWorkflow, ours: N8nWorkflow, theirs: N8nWorkflow): WorkflowMergeResult {
+    const conflicts: MergeConflict[] = [];
+    const baseNodes = indexNodes(base);
+    const ourNodes = indexNodes(ours);
+    const theirNodes = indexNodes(theirs);
+    const mergedNodes: N8nNode[] = [];
+
+    // Keep ours' order, then append nodes only theirs added
+    const keys = [...new Set([...ourNodes.keys(), ...theirNodes.keys(), ...baseNodes.keys()])];
+    for (const key of keys) {
+        const node = mergeNode(key, baseNodes.get(key), ourNodes.get(key), theirNodes.get(key), conflicts);
+        if (node) mergedNodes.push(node);
+    }
+
+    // Two different nodes must not end up with the same name
+    const seenNames = new Map<string, string>();
+    for (const node of mergedNodes) {
+        const name = typeof node.name === 'string' ? node.name : undefined;
+        if (!name) continue;
+        const existing = seenNames.get(name);
+        if (existing) {
+            conflicts.push({
+                kind: 'node',
+                nodeId: node.id,
+                path: `nodes.${node.id}.name`,
+                message: `Nodes "${existing}" and "${node.id}" are both named "${name}" after merging`,
+            });
+        }
+        seenNames.set(name, node.id);
+    }
+
+    const mergedWorkflow = { ...ours } as N8nWorkflow;
+    for (const field of WORKFLOW_FIELDS) {
+        const value = mergeValue(base[field], ours[field], theirs[field], field, undefined, conflicts);
+        if (value === undefined) {
+            delete (mergedWorkflow as any)[field];
+        } else {
+            (mergedWorkflow as any)[field] = value;
+        }
+    }
+    mergedWorkflow.nodes = mergedNodes;
+    mergedWorkflow.connections = mergeConnections(base, ours, theirs, mergedNodes, conflicts);
+
+    return { merged: mergedWorkflow, conflicts, hasConflicts: conflicts.length > 0 };
+}
+
+/**
+ * Replace every conflict marker in a merged workflow with the chosen side.
+ */
+export function resolveConflicts<T>(value: T, choice: ConflictChoice): T {
+    if (isConflictMarker(value)) {
+        return resolveConflicts((value as any)[CONFLICT_MARKER[choice]], choice);
+    }
+    if (Array.isArray(value)) {
+        return value.map(entry => resolveConflicts(entry, choice)) as unknown as T;
+    }
+    if (isPlainObject(value)) {
+        const resolved: Record<string, any> = {};
+        for (const [key, entry] of Object.entries(value as Record<string, any>)) {
+            resolved[key] = resolveConflicts(entry, choice);
+        }
+        return resolved as T;
+    }
+    return value;
+}
+
+/**
+ * Check whether a merged workflow still contains unresolved conflict markers.
+ */
+export function hasConflictMarkers(value: unknown): boolean {
+    if (isConflictMarker(value)) return true;
+    if (Array.isArray(value)) return value.some(hasConflictMarkers);
+    if (isPlainObject(value)) return Object.values(value as Record<string, any>).some(hasConflictMarkers);
+    return false;
+}
+
+// --- Internal Helpers ---
+
+function mergeNode(
+    key: string,
+    base: N8nNode | undefined,
+    ours: N8nNode | undefined,
+    theirs: N8nNode | undefined,
+    conflicts: MergeConflict[]
+): N8nNode | undefined {
+    if (!base) {
+        if (ours && theirs && !deepEqual(ours, theirs)) {
+            // Both sides added a node with the same id: merge field by field with no common ancestor
+            return mergeNodeFields(key, {} as N8nNode, ours, theirs, conflicts);
+        }
+        return ours || theirs;
+    }
+
+    if (!ours && !theirs) return undefined;
+
+    if (!ours || !theirs) {
+        const remaining = (ours || theirs)!;
+        if (deepEqual(remaining, base)) return undefined;
+
+        conflicts.push({
+            kind: 'node',
+            nodeId: key,
+            path: `nodes.${key}`,
+            message: `Node "${base.name}" was deleted on one side and modified on the other; the modified node was kept`,
+            base,
+            ours,
+            theirs,
+        });
+        return remaining;
+    }
+
+    return mergeNodeFields(key, base, ours, theirs, conflicts);
+}
+
+function mergeNodeFields(key: string, base: N8nNode, ours: N8nNode, theirs: N8nNode, conflicts: MergeConflict[]): N8nNode {
+    const merged = { ...theirs, ...ours } as N8nNode;
+    for (const field of NODE_FIELDS) {
+        const value = mergeValue(base[field], ours[field], theirs[field], `nodes.${key}.${field}`, key, conflicts);
+        if (value === undefined) {
+            delete (merged as any)[field];
+        } else {
+            (merged as any)[field] = value;
+        }
+    }
+    return merged;
+}
+
+function mergeValue(base: any, ours: any, theirs: any, path: string, nodeId: string | undefined, conflicts: MergeConflict[]): any {
+    if (deepEqual(ours, theirs)) return ours;
+    if (deepEqual(base, ours)) return theirs;
+    if (deepEqual(base, theirs)) return ours;
+
+    if (isPlainObject(ours) && isPlainObject(theirs) && (base === undefined || isPlainObject(base))) {
+        const merged: Record<string, any> = {};
+        const keys = new Set([...Object.keys(ours), ...Object.keys(theirs), ...Object.keys(base || {})]);
+        for (const key of keys) {
+            const value = mergeValue(base?.[key], ours[key], theirs[key], `${path}.${key}`, nodeId, conflicts);
+            if (value !== undefined) merged[key] = value;
+        }
+        return merged;
+    }
+
+    conflicts.push({
+        kind: 'value',
+        nodeId,
+        path,
+        message: `Both sides changed ${path} differently`,
+        base,
+        ours,
+        theirs,
+    });
+    return {
+        [CONFLICT_MARKER.ours]: ours,
+        [CONFLICT_MARKER.base]: base,
+        [CONFLICT_MARKER.theirs]: theirs,
+    };
+}
+
+function mergeConnections(
+    base: N8nWorkflow,
+    ours: N8nWorkflow,
+    theirs: N8nWorkflow,
+    mergedNodes: N8nNode[],
+    conflicts: MergeConflict[]
+) {
+    const baseEdges = keyedEdges(base);
+    const ourEdges = keyedEdges(ours);
+    const theirEdges = keyedEdges(theirs);
+    // Keyed like keyedEdges so nodes without an id keep their edges
+    const nodeByKey = new Map(mergedNodes.map(node => [node.id || node.name, node]));
+    const edges: ConnectionEdge[] = [];
+
+    const keys = new Set([...ourEdges.keys(), ...theirEdges.keys()]);
+    for (const key of keys) {
+        const inBase = baseEdges.has(key);
+        const inOurs = ourEdges.has(key);
+        const inTheirs = theirEdges.has(key);
+
+        // An edge present in base survives only if neither side removed it
+        if (inBase && (!inOurs || !inTheirs)) continue;
+
+        const edge = (ourEdges.get(key) || theirEdges.get(key))!;
+        const source = nodeByKey.get(edge.source);
+        const target = nodeByKey.get(edge.target);
+        if (!source || !target) {
+            if (!inBase) {
+                conflicts.push({
+                    kind: 'connection',
+                    path: `connections.${key}`,
+                    message: `A new connection ${edge.source} -> ${edge.target} points at a node removed on the other side; it was dropped`,
+                    ours: inOurs ? edge : undefined,
+                    theirs: inTheirs ? edge : undefined,
+                });
+            }
+            continue;
+        }
+
+        edges.push({ ...edge, source: source.name, target: target.name });
+    }
+
+    return buildConnections(edges);
+}
+
+/**
+ * Index nodes by id (or name for nodes without an id)
+ */
+function indexNodes(workflow: N8nWorkflow): Map<string, N8nNode> {
+    return new Map((workflow.nodes || []).map(node => [node.id || node.name, node]));
+}
+
+/**
+ * Connection edges keyed by node ids so renames don't show up as connection edits
+ */
+function keyedEdges(workflow: N8nWorkflow): Map<string, ConnectionEdge> {
+    const edges = new Map<string, ConnectionEdge>();
+    const nodeKey = (key: string) => {
+        const node = findNodeByKey({ ...workflow, nodes: workflow.nodes || [] }, key);
+        return node ? node.id || node.name : undefined;
+    };
+
+    for (const edge of getConnectionEdges(workflow.connections)) {
+        const source = nodeKey(edge.source);
+        const target = nodeKey(edge.target);
+        // Dangling connections (left behind by a deleted node) are not part of the graph
+        if (!source || !target) continue;
+
+        const keyed = { ...edge, source, target };
+        edges.set(
+            `${keyed.source}:${keyed.outputType}:${keyed.outputIndex}->${keyed.target}:${keyed.inputType}:${keyed.inputIndex}`,
+            keyed
+        );
+    }
+    return edges;
+}
+
+function namedEdge(edge: ConnectionEdge, workflow: N8nWorkflow): ConnectionEdge {
+    const nameOf = (key: string) => (workflow.nodes || []).find(node => (node.id || node.name) === key)?.name ?? key;
+    return { ...edge, source: nameOf(edge.source), target: nameOf(edge.target) };
+}
+
+function diffValues(before: any, after: any, path: string): ValueChange[] {
+    if (deepEqual(before, after)) return [];
+    if (before === undefined) return [{ path, kind: 'added', after }];
+    if (after === undefined) return [{ path, kind: 'removed', before }];
+
+    if (isPlainObject(before) && isPlainObject(after)) {
+        const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+        return [...keys].flatMap(key => diffValues(before[key], after[key], `${path}.${key}`));
+    }
+
+    return [{ path, kind: 'modified', before, after }];
+}
+
+function summarize(node: N8nNode): NodeSummary {
+    return { id: node.id, name: node.name, type: node.type };
+}
+
+function formatEdge(edge: ConnectionEdge): string {
+    return `"${edge.source}"[${edge.outputIndex}] -> "${edge.target}"[${edge.inputIndex}]`;
+}
+
+function isConflictMarker(value: unknown): boolean {
+    return isPlainObject(value) && CONFLICT_MARKER.ours in (value as object) && CONFLICT_MARKER.theirs in (value as object);
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function deepEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((entry, index) => deepEqual(entry, b[index]));
+    }
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const keysA = Object.keys(a).filter(key => a[key] !== undefined);
+        const keysB = Object.keys(b).filter(key => b[key] !== undefined);
+        return keysA.length === keysB.length && keysA.every(key => deepEqual(a[key], b[key]));
+    }
+    return false;
+}
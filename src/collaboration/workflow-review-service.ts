@@ -6,6 +6,8 @@
 import { v4 as uuidv4 } from 'uuid';
 // @ts-ignore - TS extension import handled by ts-node register
 import { hasPermission } from '../api/rbac-middleware.ts';
+import { N8nWorkflow } from '../types/n8n-workflow.js';
+import { diffWorkflows, mergeWorkflows, summarizeDiff, WorkflowDiff } from './workflow-diff.js';
 
 // --- Type Definitions ---
 
@@ -21,6 +23,8 @@ interface WorkflowChangeRequest {
     description: string;
     status: WcrStatus;
     proposed_workflow_json: object;
+    /** Version of the workflow the change was proposed against; empty for new workflows */
+    base_workflow_json: object;
     created_at: Date;
     updated_at: Date;
 }
@@ -38,8 +42,13 @@ interface WCR_Review {
 const db = {
     wcrs: new Map<string, WorkflowChangeRequest>(),
     reviews: new Map<string, WCR_Review[]>(),
+    // Current "official" version of each workflow, keyed by workflow ID
+    workflows: new Map<string, object>(),
 };
 
+// Base of changes proposed for a workflow that has not been merged yet
+const EMPTY_WORKFLOW = { name: '', nodes: [], connections: {} };
+
 // --- Service Functions ---
 
 /**
@@ -51,7 +60,8 @@ export async function createWorkflowChangeRequest(
     workflowId: string,
     title: string,
     description: string,
-    proposedJson: object
+    proposedJson: object,
+    baseJson?: object
 ): Promise<WorkflowChangeRequest> {
     await hasPermission('workflows:manage')(workspaceId, proposerId);
 
@@ -67,6 +77,8 @@ export async function createWorkflowChangeRequest(
         description,
         status: 'open',
         proposed_workflow_json: proposedJson,
+        // Snapshot, so later edits to the stored workflow do not move the base
+        base_workflow_json: JSON.parse(JSON.stringify(baseJson ?? db.workflows.get(workflowId) ?? EMPTY_WORKFLOW)),
         created_at: now,
         updated_at: now,
     };
@@ -110,8 +122,22 @@ export async function addReview(
     return newReview;
 }
 
+/**
+ * Computes what a WCR changes relative to the version it was proposed against.
+ */
+export function getWCRDiff(wcrId: string): WorkflowDiff {
+    const wcr = db.wcrs.get(wcrId);
+    if (!wcr) {
+        throw new Error(`Workflow Change Request with ID "${wcrId}" not found.`);
+    }
+
+    return diffWorkflows(wcr.base_workflow_json as N8nWorkflow, wcr.proposed_workflow_json as N8nWorkflow);
+}
+
 /**
  * Merges a WCR, updating the "official" workflow.
+ * If the workflow changed since the WCR was created, the proposal is three-way merged
+ * with the current version; conflicting edits block the merge and leave the WCR open.
  */
 export async function mergeWCR(workspaceId: string, userId: string, wcrId: string): Promise<WorkflowChangeRequest> {
     await hasPermission('workflows:manage')(workspaceId, userId);
@@ -121,11 +147,28 @@ export async function mergeWCR(workspaceId: string, userId: string, wcrId: strin
         throw new Error(`Workflow Change Request with ID "${wcrId}" not found.`);
     }
 
-    // In a real application, you would save `wcr.proposed_workflow_json` as the new
-    // version of the workflow with ID `wcr.workflow_id`.
     console.log(`[ReviewService] Merging WCR ${wcrId}...`);
-    console.log(`[ReviewService] New JSON for workflow ${wcr.workflow_id}:`, wcr.proposed_workflow_json);
 
+    const current = db.workflows.get(wcr.workflow_id) ?? EMPTY_WORKFLOW;
+    let newJson = wcr.proposed_workflow_json;
+
+    if (diffWorkflows(wcr.base_workflow_json as N8nWorkflow, current as N8nWorkflow).hasChanges) {
+        const result = mergeWorkflows(
+            wcr.base_workflow_json as N8nWorkflow,
+            current as N8nWorkflow,
+            wcr.proposed_workflow_json as N8nWorkflow
+        );
+        if (result.hasConflicts) {
+            const paths = result.conflicts.map(conflict => conflict.path).join(', ');
+            throw new Error(`WCR "${wcrId}" conflicts with the current version of workflow ${wcr.workflow_id}: ${paths}`);
+        }
+        newJson = result.merged;
+    }
+
+    const diff = diffWorkflows(current as N8nWorkflow, newJson as N8nWorkflow);
+    console.log(`[ReviewService] Changes to workflow ${wcr.workflow_id}:`, summarizeDiff(diff));
+
+    db.workflows.set(wcr.workflow_id, newJson);
     wcr.status = 'merged';
     wcr.updated_at = new Date();
     db.wcrs.set(wcrId, wcr);
@@ -134,6 +177,13 @@ export async function mergeWCR(workspaceId: string, userId: string, wcrId: strin
     return wcr;
 }
 
+/**
+ * Retrieves the current "official" version of a workflow.
+ */
+export function getWorkflow(workflowId: string): object | undefined {
+    return db.workflows.get(workflowId);
+}
+
 /**
  * Retrieves all WCRs for a given workflow.
  */
@@ -1,5 +1,6 @@
 import { N8nWorkflow, N8nNode, N8nConnections } from '../types/n8n-workflow';
 import { v4 as uuidv4 } from 'uuid';
+import { LayoutEngine } from '../generators/layout-engine';
 
 export interface ABTestConfig {
   testName: string;
@@ -12,6 +13,8 @@ export interface ABTestConfig {
  * Generates a single, combined n8n workflow for A/B testing two different workflows.
  */
 export class ABTestWorkflowGenerator {
+  private layoutEngine = new LayoutEngine();
+
   public generate(config: ABTestConfig): N8nWorkflow {
     const { testName, workflowA, workflowB, splitPercentage } = config;
 
@@ -36,7 +39,7 @@ export class ABTestWorkflowGenerator {
           ],
         },
       },
-      position: [0, 0], // Placeholder position
+      position: [0, 0], // Assigned by the layout engine
     };
 
     // Prefix node IDs from each workflow to avoid collisions
@@ -52,7 +55,7 @@ export class ABTestWorkflowGenerator {
         parameters: {
             mode: 'multiplex'
         },
-        position: [0, 200], // Placeholder
+        position: [0, 0], // Assigned by the layout engine
     };
 
     const combinedNodes: N8nNode[] = [routerNode, ...prefixedNodesA, ...prefixedNodesB, mergeNode];
@@ -60,14 +63,14 @@ export class ABTestWorkflowGenerator {
       routerNodeId, mergeNodeId, workflowA, workflowB
     );
 
-    return {
+    return this.layoutEngine.layout({
       name: `A/B Test: ${testName}`,
       nodes: combinedNodes,
       connections: combinedConnections,
       active: false,
       settings: {},
       id: uuidv4(),
-    };
+    });
   }
 
   private prefixNodeIds(nodes: N8nWorkflow['nodes'], prefix: string): N8nWorkflow['nodes'] {
@@ -0,0 +1,406 @@
+/**
+ * Code Node Sandbox
+ * Runs n8n Code and legacy Function node source against sample items in an isolated
+ * worker thread, with n8n's expression globals stubbed from local data. The worker's
+ * heap is capped, synchronous code is bounded by a vm timeout and the whole run by a
+ * wall-clock timer, so runaway generated code cannot take the host process down.
+ */
+
+import { Worker } from 'worker_threads';
+import { N8nWorkflow, N8nNode, ValidationError } from '../types/n8n-workflow.js';
+import { IDataObject, INodeExecutionData } from '../types/n8n-api-interfaces.js';
+
+export type CodeNodeMode = 'runOnceForAllItems' | 'runOnceForEachItem';
+
+/**
+ * Resource limits for a sandboxed run
+ */
+export interface CodeSandboxOptions {
+  /** CPU budget for the node's code in milliseconds */
+  timeoutMs?: number;
+  /** Heap limit of the worker thread in megabytes */
+  memoryLimitMb?: number;
+}
+
+/**
+ * Data the node's code can see
+ */
+export interface CodeNodeRunInput {
+  items: INodeExecutionData[];
+  workflow?: N8nWorkflow;
+  /** Output items per node name, backing `$node[...]` and `$('...')` */
+  nodeOutputs?: Record<string, INodeExecutionData[]>;
+  env?: Record<string, string>;
+  now?: Date;
+  runIndex?: number;
+}
+
+/**
+ * Outcome of a sandboxed run
+ */
+export interface CodeNodeRunResult {
+  success: boolean;
+  items: INodeExecutionData[];
+  errors: ValidationError[];
+  /** Messages written with console.log/warn/error inside the node */
+  logs: string[];
+  durationMs: number;
+}
+
+interface WorkerResponse {
+  ok: boolean;
+  results?: any[];
+  error?: { name: string; message: string };
+  logs: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 1000;
+const DEFAULT_MEMORY_LIMIT_MB = 64;
+const WORKER_STARTUP_GRACE_MS = 2000;
+const ITEM_KEYS = new Set(['json', 'binary', 'pairedItem', 'error']);
+
+// Runs inside the worker. Kept as plain JavaScript so it does not depend on the TS loader.
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+
+const { code, mode, legacy, items, nodeOutputs, nodeNames, nodeParameters, workflowInfo, env, now, runIndex, timeoutMs } = workerData;
+const logs = [];
+const format = (args) => args.map(arg => typeof arg === 'string' ? arg : JSON.stringify(arg)).join(' ');
+const sandboxConsole = {
+  log: (...args) => logs.push(format(args)),
+  info: (...args) => logs.push(format(args)),
+  warn: (...args) => logs.push(format(args)),
+  error: (...args) => logs.push(format(args))
+};
+
+function accessorFor(nodeName, itemIndex) {
+  if (!nodeNames.includes(nodeName)) {
+    throw new Error('Referenced node "' + nodeName + '" does not exist');
+  }
+  const output = nodeOutputs[nodeName] || [];
+  const pairedIndex = Math.min(itemIndex, Math.max(0, output.length - 1));
+  return {
+    item: output[pairedIndex],
+    first: () => output[0],
+    last: () => output[output.length - 1],
+    all: () => output,
+    itemMatching: (index) => output[index],
+    isExecuted: nodeOutputs[nodeName] !== undefined
+  };
+}
+
+function buildGlobals(itemIndex) {
+  const current = items[itemIndex];
+  const date = new Date(now);
+  const $node = new Proxy({}, {
+    get: (_target, name) => {
+      if (typeof name !== 'string') return undefined;
+      const accessor = accessorFor(name, itemIndex);
+      return { json: (accessor.item || {}).json || {}, binary: (accessor.item || {}).binary, parameter: nodeParameters[name] || {} };
+    }
+  });
+  const globals = {
+    $input: {
+      item: current,
+      first: () => items[0],
+      last: () => items[items.length - 1],
+      all: () => items,
+      params: nodeParameters.__self || {}
+    },
+    $json: current ? current.json : {},
+    $binary: current ? current.binary || {} : {},
+    $node,
+    $: (name) => accessorFor(name, itemIndex),
+    $items: (name) => (name ? accessorFor(name, itemIndex).all() : items),
+    $now: date,
+    $today: new Date(date.getFullYear(), date.getMonth(), date.getDate()),
+    $env: env,
+    $workflow: workflowInfo,
+    $itemIndex: itemIndex,
+    $runIndex: runIndex,
+    console: sandboxConsole
+  };
+  if (legacy || mode === 'runOnceForAllItems') globals.items = items;
+  if (legacy) globals.item = current ? current.json : undefined;
+  return globals;
+}
+
+async function run() {
+  const wrapped = '(async function () {\\n' + code + '\\n})()';
+  const indexes = mode === 'runOnceForEachItem' ? items.map((_item, index) => index) : [0];
+  const results = [];
+  for (const index of indexes) {
+    results.push(await vm.runInContext(wrapped, vm.createContext(buildGlobals(index)), { timeout: timeoutMs }));
+  }
+  return results;
+}
+
+run().then(
+  (results) => {
+    try {
+      parentPort.postMessage({ ok: true, results, logs });
+    } catch (error) {
+      // Non-cloneable values (functions, symbols) are dropped the way JSON output would drop them
+      parentPort.postMessage({ ok: true, results: JSON.parse(JSON.stringify(results)), logs });
+    }
+  },
+  (error) => parentPort.postMessage({
+    ok: false,
+    error: { name: (error && error.name) || 'Error', message: (error && error.message) || String(error) },
+    logs
+  })
+);
+`;
+
+/**
+ * Executes Code/Function node source outside the main thread
+ */
+export class CodeNodeSandbox {
+  private timeoutMs: number;
+  private memoryLimitMb: number;
+
+  constructor(options: CodeSandboxOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.memoryLimitMb = options.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB;
+  }
+
+  /**
+   * Run a `n8n-nodes-base.code` or `n8n-nodes-base.function` node against input items
+   */
+  async runNode(node: N8nNode, input: CodeNodeRunInput): Promise<CodeNodeRunResult> {
+    if (node.type === 'n8n-nodes-base.function') {
+      return this.run(node.parameters?.functionCode ?? 'return items;', 'runOnceForAllItems', input, node, true);
+    }
+    if (node.type !== 'n8n-nodes-base.code') {
+      throw new Error(`Node "${node.name}" is a ${node.type} node, not a Code or Function node`);
+    }
+
+    const mode: CodeNodeMode = node.parameters?.mode === 'runOnceForEachItem' ? 'runOnceForEachItem' : 'runOnceForAllItems';
+    const language = node.parameters?.language;
+    if (language && language !== 'javaScript') {
+      return this.failure(node, `Language '${language}' cannot be run in the local sandbox`, [], 0);
+    }
+
+    return this.run(node.parameters?.jsCode ?? node.parameters?.code ?? '', mode, input, node, false);
+  }
+
+  /**
+   * Run raw Code node source in the given mode
+   */
+  async runCode(code: string, mode: CodeNodeMode, input: CodeNodeRunInput): Promise<CodeNodeRunResult> {
+    return this.run(code, mode, input, undefined, false);
+  }
+
+  private async run(
+    code: string,
+    mode: CodeNodeMode,
+    input: CodeNodeRunInput,
+    node: N8nNode | undefined,
+    legacy: boolean
+  ): Promise<CodeNodeRunResult> {
+    const startedAt = Date.now();
+    const items = input.items.map(item => ({ ...item, json: item.json ?? {} }));
+    let response: WorkerResponse;
+
+    try {
+      response = await this.runInWorker({
+        code,
+        mode,
+        legacy,
+        items,
+        nodeOutputs: input.nodeOutputs || {},
+        nodeNames: (input.workflow?.nodes || []).map(n => n.name),
+        nodeParameters: {
+          ...Object.fromEntries((input.workflow?.nodes || []).map(n => [n.name, n.parameters || {}])),
+          __self: node?.parameters || {}
+        },
+        workflowInfo: { id: input.workflow?.id, name: input.workflow?.name, active: input.workflow?.active ?? false },
+        env: { ...(input.env || {}) },
+        now: (input.now || new Date()).toISOString(),
+        runIndex: input.runIndex ?? 0,
+        timeoutMs: this.timeoutMs
+      });
+    } catch (error) {
+      return this.failure(node, error instanceof Error ? error.message : String(error), [], Date.now() - startedAt);
+    }
+
+    if (!response.ok) {
+      const message = /timed out/i.test(response.error?.message || '')
+        ? `Code exceeded the ${this.timeoutMs}ms CPU time limit`
+        : `${response.error?.name}: ${response.error?.message}`;
+      return this.failure(node, message, response.logs, Date.now() - startedAt);
+    }
+
+    const { items: outputItems, errors } = legacy
+      ? this.normalizeFunctionResult(response.results![0], node)
+      : mode === 'runOnceForEachItem'
+        ? this.normalizeEachItemResults(response.results!, node)
+        : this.normalizeAllItemsResult(response.results![0], node);
+
+    return {
+      success: errors.length === 0,
+      items: errors.length === 0 ? outputItems : [],
+      errors,
+      logs: response.logs,
+      durationMs: Date.now() - startedAt
+    };
+  }
+
+  private runInWorker(workerData: Record<string, any>): Promise<WorkerResponse> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(WORKER_SOURCE, {
+        eval: true,
+        workerData,
+        resourceLimits: {
+          maxOldGenerationSizeMb: this.memoryLimitMb,
+          maxYoungGenerationSizeMb: Math.max(4, Math.floor(this.memoryLimitMb / 4))
+        }
+      });
+
+      let settled = false;
+      const settle = (callback: () => void) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        worker.terminate();
+        callback();
+      };
+
+      // Async code is not covered by the vm timeout, so the worker also has a wall-clock budget
+      const timer = setTimeout(
+        () => settle(() => reject(new Error(`Code exceeded the ${this.timeoutMs}ms time limit`))),
+        this.timeoutMs + WORKER_STARTUP_GRACE_MS
+      );
+
+      worker.once('message', (message: WorkerResponse) => settle(() => resolve(message)));
+      worker.once('error', (error: any) => settle(() => reject(
+        error?.code === 'ERR_WORKER_OUT_OF_MEMORY'
+          ? new Error(`Code exceeded the ${this.memoryLimitMb}MB memory limit`)
+          : error
+      )));
+      worker.once('exit', (exitCode) => settle(() => reject(new Error(`Sandbox worker exited with code ${exitCode}`))));
+    });
+  }
+
+  /**
+   * "Run Once for All Items": an array of items (or a single item) is required
+   */
+  private normalizeAllItemsResult(result: any, node?: N8nNode): { items: INodeExecutionData[]; errors: ValidationError[] } {
+    if (result === null || result === undefined) {
+      return {
+        items: [],
+        errors: [this.shapeError(node, "Code doesn't return items properly. Return an array of objects, one for each item you would like to output")]
+      };
+    }
+
+    const entries = Array.isArray(result) ? result : [result];
+    return this.normalizeEntries(entries, node, index => `Item ${index}`);
+  }
+
+  /**
+   * "Run Once for Each Item": a single object per item, or nothing to drop the item
+   */
+  private normalizeEachItemResults(results: any[], node?: N8nNode): { items: INodeExecutionData[]; errors: ValidationError[] } {
+    const items: INodeExecutionData[] = [];
+    const errors: ValidationError[] = [];
+
+    results.forEach((result, itemIndex) => {
+      if (result === null || result === undefined) return;
+
+      if (Array.isArray(result)) {
+        errors.push(this.shapeError(node, `Code doesn't return a single object for item ${itemIndex}; an array was returned. Use "Run Once for All Items" to return multiple items`));
+        return;
+      }
+
+      const normalized = this.normalizeEntries([result], node, () => `Result for item ${itemIndex}`);
+      errors.push(...normalized.errors);
+      items.push(...normalized.items.map(item => ({ ...item, pairedItem: item.pairedItem ?? { item: itemIndex } })));
+    });
+
+    return { items, errors };
+  }
+
+  /**
+   * Legacy Function node: must return an array of `{ json }` items
+   */
+  private normalizeFunctionResult(result: any, node?: N8nNode): { items: INodeExecutionData[]; errors: ValidationError[] } {
+    if (!Array.isArray(result)) {
+      return { items: [], errors: [this.shapeError(node, 'Function node must return an array of items')] };
+    }
+
+    const missingJson = result.findIndex(entry => !entry || typeof entry !== 'object' || !('json' in entry));
+    if (missingJson !== -1) {
+      return { items: [], errors: [this.shapeError(node, `All returned items have to contain the property 'json' (item ${missingJson} does not)`)] };
+    }
+
+    return this.normalizeEntries(result, node, index => `Item ${index}`);
+  }
+
+  private normalizeEntries(
+    entries: any[],
+    node: N8nNode | undefined,
+    describe: (index: number) => string
+  ): { items: INodeExecutionData[]; errors: ValidationError[] } {
+    const items: INodeExecutionData[] = [];
+    const errors: ValidationError[] = [];
+
+    entries.forEach((entry, index) => {
+      if (entry === null || typeof entry !== 'object' || Array.isArray(entry)) {
+        errors.push(this.shapeError(node, `${describe(index)} is ${describeType(entry)}, but items must be objects`));
+        return;
+      }
+
+      if (!('json' in entry)) {
+        items.push({ json: entry as IDataObject });
+        return;
+      }
+
+      const unknownKeys = Object.keys(entry).filter(key => !ITEM_KEYS.has(key));
+      if (unknownKeys.length > 0) {
+        errors.push(this.shapeError(node, `${describe(index)} has unknown top-level key(s) ${unknownKeys.map(k => `'${k}'`).join(', ')}; move them inside 'json'`));
+        return;
+      }
+
+      if (entry.json === null || typeof entry.json !== 'object' || Array.isArray(entry.json)) {
+        errors.push(this.shapeError(node, `${describe(index)} has a 'json' property that is ${describeType(entry.json)}, but it must be an object`));
+        return;
+      }
+
+      if (entry.binary !== undefined && (entry.binary === null || typeof entry.binary !== 'object' || Array.isArray(entry.binary))) {
+        errors.push(this.shapeError(node, `${describe(index)} has a 'binary' property that is ${describeType(entry.binary)}, but it must be an object`));
+        return;
+      }
+
+      items.push(entry as INodeExecutionData);
+    });
+
+    return { items, errors };
+  }
+
+  private shapeError(node: N8nNode | undefined, message: string): ValidationError {
+    return {
+      type: 'data_transformation',
+      message,
+      nodeId: node?.id,
+      field: node?.type === 'n8n-nodes-base.function' ? 'functionCode' : 'jsCode',
+      severity: 'error'
+    };
+  }
+
+  private failure(node: N8nNode | undefined, message: string, logs: string[], durationMs: number): CodeNodeRunResult {
+    return {
+      success: false,
+      items: [],
+      errors: [{ type: 'node', message, nodeId: node?.id, severity: 'error' }],
+      logs,
+      durationMs
+    };
+  }
+}
+
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return `a ${typeof value}`;
+}
@@ -0,0 +1,161 @@
+/**
+ * Workflow Data Proxy
+ * Builds the `$`-prefixed globals n8n exposes to expressions and Code nodes
+ * ($json, $input, $node, $('Node Name'), $items, $now, $env, ...) from local execution state.
+ */
+
+import vm from 'vm';
+import { N8nWorkflow, N8nNode } from '../types/n8n-workflow.js';
+import { IDataObject, INodeExecutionData } from '../types/n8n-api-interfaces.js';
+import { tokenizeExpression } from '../parsers/expression-parser.js';
+
+/**
+ * Execution state the proxy reads from
+ */
+export interface DataProxyContext {
+  workflow: N8nWorkflow;
+  node: N8nNode;
+  /** Items on the node's first input */
+  items: INodeExecutionData[];
+  itemIndex: number;
+  runIndex?: number;
+  /** Output items per node name (output 0 of the latest run) */
+  nodeOutputs: Record<string, INodeExecutionData[]>;
+  env?: Record<string, string>;
+  now?: Date;
+  mode?: string;
+}
+
+/**
+ * Accessor returned by `$('Node Name')`
+ */
+export interface NodeOutputAccessor {
+  item: INodeExecutionData | undefined;
+  first(): INodeExecutionData | undefined;
+  last(): INodeExecutionData | undefined;
+  all(): INodeExecutionData[];
+  itemMatching(index: number): INodeExecutionData | undefined;
+  isExecuted: boolean;
+}
+
+/**
+ * Create the `$` globals for one item of one node
+ */
+export function createDataProxy(context: DataProxyContext): Record<string, any> {
+  const { workflow, node, items, itemIndex } = context;
+  const currentItem = items[itemIndex];
+  const now = context.now || new Date();
+
+  const accessorFor = (nodeName: string): NodeOutputAccessor => {
+    if (!workflow.nodes.some(n => n.name === nodeName)) {
+      throw new Error(`Referenced node "${nodeName}" does not exist`);
+    }
+    const output = context.nodeOutputs[nodeName];
+    const outputItems = output || [];
+    // Items are paired by position; n8n's full pairedItem lineage is not tracked locally
+    const pairedIndex = Math.min(itemIndex, Math.max(0, outputItems.length - 1));
+
+    return {
+      item: outputItems[pairedIndex],
+      first: () => outputItems[0],
+      last: () => outputItems[outputItems.length - 1],
+      all: () => outputItems,
+      itemMatching: (index: number) => outputItems[index],
+      isExecuted: output !== undefined
+    };
+  };
+
+  const $node = new Proxy({} as Record<string, any>, {
+    get: (_target, nodeName: string | symbol) => {
+      if (typeof nodeName !== 'string') return undefined;
+      const accessor = accessorFor(nodeName);
+      return {
+        json: accessor.item?.json ?? accessor.first()?.json ?? {},
+        binary: accessor.item?.binary,
+        parameter: workflow.nodes.find(n => n.name === nodeName)?.parameters ?? {}
+      };
+    }
+  });
+
+  const $input = {
+    item: currentItem,
+    first: () => items[0],
+    last: () => items[items.length - 1],
+    all: () => items,
+    params: node.parameters || {}
+  };
+
+  return {
+    $input,
+    $json: currentItem?.json ?? {},
+    $binary: currentItem?.binary ?? {},
+    $node,
+    $: accessorFor,
+    $items: (nodeName?: string) => (nodeName ? accessorFor(nodeName).all() : items),
+    $item: (index: number) => ({
+      $node: new Proxy({} as Record<string, any>, {
+        get: (_target, nodeName: string | symbol) =>
+          typeof nodeName === 'string' ? { json: accessorFor(nodeName).itemMatching(index)?.json ?? {} } : undefined
+      })
+    }),
+    $parameter: node.parameters || {},
+    $workflow: { id: workflow.id, name: workflow.name, active: workflow.active },
+    $now: now,
+    $today: new Date(now.getFullYear(), now.getMonth(), now.getDate()),
+    $env: { ...(context.env || {}) },
+    $itemIndex: itemIndex,
+    $position: itemIndex,
+    $runIndex: context.runIndex ?? 0,
+    $mode: context.mode || 'manual'
+  };
+}
+
+/**
+ * Evaluate a parameter value, resolving `={{ ... }}` expressions against the proxy.
+ * Objects and arrays are resolved recursively; plain values are returned untouched.
+ */
+export function resolveParameterValue(value: any, proxy: Record<string, any>): any {
+  if (typeof value === 'string') {
+    return value.startsWith('=') ? evaluateTemplate(value.slice(1), proxy) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(entry => resolveParameterValue(entry, proxy));
+  }
+  if (value && typeof value === 'object') {
+    const resolved: IDataObject = {};
+    for (const [key, entry] of Object.entries(value)) {
+      resolved[key] = resolveParameterValue(entry, proxy);
+    }
+    return resolved;
+  }
+  return value;
+}
+
+/**
+ * Evaluate an expression template such as `Hello {{ $json.name }}`.
+ * A template made of a single `{{ }}` block returns the raw (non-string) value.
+ */
+export function evaluateTemplate(template: string, proxy: Record<string, any>): any {
+  const segments = tokenizeExpression(template);
+  const blocks = segments.filter(segment => segment.type === 'code');
+
+  if (blocks.length === 0) {
+    return template;
+  }
+
+  if (blocks.length === 1 && segments.every(segment => segment.type === 'code' || segment.value.trim() === '')) {
+    return evaluateJavaScript(blocks[0].value, proxy);
+  }
+
+  return segments.map(segment => {
+    if (segment.type === 'text') return segment.value;
+    const result = evaluateJavaScript(segment.value, proxy);
+    if (result === undefined || result === null) return '';
+    return typeof result === 'object' ? JSON.stringify(result) : String(result);
+  }).join('');
+}
+
+function evaluateJavaScript(code: string, proxy: Record<string, any>): any {
+  const sandbox = vm.createContext({ ...proxy });
+  return vm.runInContext(`(${code.trim()})`, sandbox, { timeout: 1000 });
+}
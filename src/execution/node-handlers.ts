@@ -0,0 +1,442 @@
+/**
+ * Built-in Node Handlers
+ * Local implementations of the core node types registered in NodeFactory
+ * (set, if, merge, code, function, itemLists, wait, noOp and triggers).
+ */
+
+import { IDataObject, INodeExecutionData } from '../types/n8n-api-interfaces.js';
+import { CodeNodeSandbox } from './code-node-sandbox.js';
+import { getByPath } from '../utils/object-path.js';
+import type { NodeHandler } from './workflow-executor.js';
+
+/**
+ * Trigger nodes emit whatever the run was started with
+ */
+const passThrough: NodeHandler = async (context) => [context.inputData[0] || []];
+
+/**
+ * Set node (v1/v2 `values` collections and v3 `assignments` / `fields`)
+ */
+const setNode: NodeHandler = async (context) => {
+  const { node } = context;
+  const items = context.inputData[0] || [];
+  const version = node.typeVersion || 1;
+
+  return [items.map((item, itemIndex) => {
+    const parameter = (name: string, fallback?: any) => context.getNodeParameter(name, itemIndex, fallback);
+
+    if (version >= 3) {
+      if (parameter('mode', 'manual') === 'raw') {
+        const raw = parameter('jsonOutput', '{}');
+        const json = typeof raw === 'string' ? JSON.parse(raw) : raw;
+        return { json: parameter('includeOtherFields', false) ? { ...item.json, ...json } : json };
+      }
+
+      // v3.3 lists fields under `assignments`, v3.0-3.2 under `fields.values`
+      const assignments: any[] = [parameter('assignments.assignments', []), parameter('fields.values', [])]
+        .find(list => Array.isArray(list) && list.length > 0) || [];
+      const json: IDataObject = parameter('includeOtherFields', false) ? deepClone(item.json) : {};
+      for (const assignment of assignments) {
+        const value = assignment.value !== undefined ? assignment.value : firstDefined(
+          assignment.stringValue, assignment.numberValue, assignment.booleanValue, assignment.objectValue, assignment.arrayValue
+        );
+        setByPath(json, assignment.name, coerceValue(value, assignment.type));
+      }
+      return { json };
+    }
+
+    const json: IDataObject = parameter('keepOnlySet', false) ? {} : deepClone(item.json);
+    const values = parameter('values', {}) || {};
+    for (const valueType of ['string', 'number', 'boolean']) {
+      for (const entry of values[valueType] || []) {
+        setByPath(json, entry.name, coerceValue(entry.value, valueType));
+      }
+    }
+    return { json };
+  })];
+};
+
+/**
+ * IF node: output 0 receives matching items, output 1 the rest
+ */
+const ifNode: NodeHandler = async (context) => {
+  const items = context.inputData[0] || [];
+  const trueItems: INodeExecutionData[] = [];
+  const falseItems: INodeExecutionData[] = [];
+
+  items.forEach((item, itemIndex) => {
+    const conditions = context.getNodeParameter('conditions', itemIndex, {});
+    const matches = (context.node.typeVersion || 1) >= 2 || Array.isArray(conditions?.conditions)
+      ? evaluateFilterConditions(conditions)
+      : evaluateLegacyConditions(conditions, context.getNodeParameter('combineOperation', itemIndex, 'all'));
+    (matches ? trueItems : falseItems).push(item);
+  });
+
+  return [trueItems, falseItems];
+};
+
+/**
+ * Merge node (append, combine by position/fields, multiplex, choose branch)
+ */
+const mergeNode: NodeHandler = async (context) => {
+  const input1 = context.inputData[0] || [];
+  const input2 = context.inputData[1] || [];
+  const mode = context.getNodeParameter('mode', 0, 'append');
+  const combinationMode = context.getNodeParameter('combinationMode', 0, context.getNodeParameter('combineBy', 0, 'mergeByPosition'));
+
+  switch (mode) {
+    case 'append':
+      return [[...input1, ...input2]];
+    case 'mergeByIndex':
+      return [mergeByPosition(input1, input2)];
+    case 'multiplex':
+      return [multiplex(input1, input2)];
+    case 'passThrough':
+      return [context.getNodeParameter('output', 0, 'input1') === 'input2' ? input2 : input1];
+    case 'wait':
+      return [[]];
+    case 'keyMerge':
+      return [mergeByFields(input1, input2, [{
+        field1: context.getNodeParameter('propertyName1', 0),
+        field2: context.getNodeParameter('propertyName2', 0)
+      }])];
+    case 'chooseBranch': {
+      const output = context.getNodeParameter('output', 0, context.getNodeParameter('chooseBranchMode', 0, 'input1'));
+      if (output === 'empty') return [[{ json: {} }]];
+      return [output === 'input2' ? input2 : input1];
+    }
+    case 'combine':
+      if (combinationMode === 'multiplex' || combinationMode === 'combineAll') {
+        return [multiplex(input1, input2)];
+      }
+      if (combinationMode === 'mergeByFields' || combinationMode === 'combineByFields') {
+        const fields = context.getNodeParameter('mergeByFields.values', 0, context.getNodeParameter('fieldsToMatch.values', 0, []));
+        return [mergeByFields(input1, input2, fields)];
+      }
+      return [mergeByPosition(input1, input2)];
+    default:
+      throw new Error(`Merge mode '${mode}' is not supported by the local executor`);
+  }
+};
+
+/**
+ * Code and legacy Function nodes, run in the worker sandbox
+ */
+const codeNode: NodeHandler = async (context) => {
+  const sandbox = new CodeNodeSandbox(context.options.codeSandbox);
+  const result = await sandbox.runNode(context.node, {
+    items: context.inputData[0] || [],
+    workflow: context.workflow,
+    nodeOutputs: context.getNodeOutputs(),
+    env: context.options.env,
+    now: context.options.now,
+    runIndex: context.runIndex
+  });
+
+  if (!result.success) {
+    throw new Error(result.errors.map(error => error.message).join('; '));
+  }
+  return [result.items];
+};
+
+/**
+ * Item Lists node (split out, aggregate, limit, sort, remove duplicates)
+ */
+const itemListsNode: NodeHandler = async (context) => {
+  const items = context.inputData[0] || [];
+  const operation = context.getNodeParameter('operation', 0, 'splitOutItems');
+
+  switch (operation) {
+    case 'splitOutItems': {
+      const field = context.getNodeParameter('fieldToSplitOut', 0, '');
+      const include = context.getNodeParameter('include', 0, 'noOtherFields');
+      const results: INodeExecutionData[] = [];
+      items.forEach((item, itemIndex) => {
+        const value = field ? getByPath(item.json, field) : undefined;
+        const entries = Array.isArray(value) ? value : value === undefined ? [] : [value];
+        for (const entry of entries) {
+          const base = include === 'allOtherFields' ? deepClone(item.json) : {};
+          const json = entry !== null && typeof entry === 'object' && !Array.isArray(entry)
+            ? { ...base, ...entry }
+            : { ...base, [field.split('.').pop() as string]: entry };
+          results.push({ json, pairedItem: { item: itemIndex } });
+        }
+      });
+      return [results];
+    }
+    case 'aggregateItems': {
+      if (context.getNodeParameter('aggregate', 0, 'aggregateIndividualFields') === 'aggregateAllItemData') {
+        const destination = context.getNodeParameter('destinationFieldName', 0, 'data');
+        return [[{ json: { [destination]: items.map(item => item.json) } }]];
+      }
+      const fields: any[] = context.getNodeParameter('fieldsToAggregate.fieldToAggregate', 0, []);
+      const json: IDataObject = {};
+      for (const field of fields) {
+        const outputName = field.renameField && field.outputFieldName ? field.outputFieldName : field.fieldToAggregate;
+        json[outputName] = items.map(item => getByPath(item.json, field.fieldToAggregate)).filter(value => value !== undefined);
+      }
+      return [[{ json }]];
+    }
+    case 'limit': {
+      const maxItems = Number(context.getNodeParameter('maxItems', 0, 1));
+      const keep = context.getNodeParameter('keep', 0, 'firstItems');
+      return [keep === 'lastItems' ? items.slice(-maxItems) : items.slice(0, maxItems)];
+    }
+    case 'sort': {
+      const sortFields: any[] = context.getNodeParameter('sortFieldsUi.sortField', 0, []);
+      const sorted = [...items].sort((a, b) => {
+        for (const field of sortFields) {
+          const left = getByPath(a.json, field.fieldName);
+          const right = getByPath(b.json, field.fieldName);
+          if (left === right) continue;
+          const direction = field.order === 'descending' ? -1 : 1;
+          return (left > right ? 1 : -1) * direction;
+        }
+        return 0;
+      });
+      return [sorted];
+    }
+    case 'removeDuplicates': {
+      const seen = new Set<string>();
+      return [items.filter(item => {
+        const key = JSON.stringify(item.json);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })];
+    }
+    default:
+      throw new Error(`Item Lists operation '${operation}' is not supported by the local executor`);
+  }
+};
+
+/**
+ * Wait node: skipped by default so tests stay fast
+ */
+const waitNode: NodeHandler = async (context) => {
+  if (context.options.waitMode === 'real') {
+    const amount = Number(context.getNodeParameter('amount', 0, 1));
+    const unit = context.getNodeParameter('unit', 0, 'seconds');
+    const multiplier: Record<string, number> = { seconds: 1000, minutes: 60000, hours: 3600000, days: 86400000 };
+    const delay = Math.min(amount * (multiplier[unit] || 1000), context.options.maxWaitMs ?? 5000);
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+  return [context.inputData[0] || []];
+};
+
+/**
+ * Handlers keyed by node type
+ */
+export const BUILT_IN_NODE_HANDLERS: Record<string, NodeHandler> = {
+  'n8n-nodes-base.start': passThrough,
+  'n8n-nodes-base.manualTrigger': passThrough,
+  'n8n-nodes-base.webhook': passThrough,
+  'n8n-nodes-base.cron': passThrough,
+  'n8n-nodes-base.scheduleTrigger': passThrough,
+  'n8n-nodes-base.executeWorkflowTrigger': passThrough,
+  'n8n-nodes-base.noOp': passThrough,
+  'n8n-nodes-base.set': setNode,
+  'n8n-nodes-base.if': ifNode,
+  'n8n-nodes-base.merge': mergeNode,
+  'n8n-nodes-base.code': codeNode,
+  'n8n-nodes-base.function': codeNode,
+  'n8n-nodes-base.itemLists': itemListsNode,
+  'n8n-nodes-base.wait': waitNode
+};
+
+// ---------------------------------------------------------------------------
+// Condition evaluation
+// ---------------------------------------------------------------------------
+
+/**
+ * Evaluate IF v2 / filter-style conditions
+ */
+export function evaluateFilterConditions(conditions: any): boolean {
+  const list: any[] = conditions?.conditions || [];
+  if (list.length === 0) return true;
+
+  const results = list.map(condition => compareValues(
+    condition.leftValue,
+    condition.rightValue,
+    condition.operator?.operation || 'equals',
+    conditions?.options?.caseSensitive !== false
+  ));
+
+  return conditions?.combinator === 'or' ? results.some(Boolean) : results.every(Boolean);
+}
+
+/**
+ * Evaluate IF v1 conditions grouped by value type
+ */
+export function evaluateLegacyConditions(conditions: any, combineOperation: string): boolean {
+  const results: boolean[] = [];
+  for (const valueType of ['string', 'number', 'boolean', 'dateTime']) {
+    for (const condition of conditions?.[valueType] || []) {
+      results.push(compareValues(condition.value1, condition.value2, condition.operation || 'equal', true));
+    }
+  }
+  if (results.length === 0) return true;
+  return combineOperation === 'any' ? results.some(Boolean) : results.every(Boolean);
+}
+
+function compareValues(left: any, right: any, operation: string, caseSensitive: boolean): boolean {
+  const normalize = (value: any) => (!caseSensitive && typeof value === 'string' ? value.toLowerCase() : value);
+  const a = normalize(left);
+  const b = normalize(right);
+  const isEmpty = (value: any) => value === undefined || value === null || value === '' ||
+    (Array.isArray(value) && value.length === 0) ||
+    (typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0);
+
+  switch (operation) {
+    case 'equal':
+    case 'equals':
+      return a === b;
+    case 'notEqual':
+    case 'notEquals':
+      return a !== b;
+    case 'contains':
+      return String(a ?? '').includes(String(b ?? ''));
+    case 'notContains':
+      return !String(a ?? '').includes(String(b ?? ''));
+    case 'startsWith':
+      return String(a ?? '').startsWith(String(b ?? ''));
+    case 'notStartsWith':
+      return !String(a ?? '').startsWith(String(b ?? ''));
+    case 'endsWith':
+      return String(a ?? '').endsWith(String(b ?? ''));
+    case 'notEndsWith':
+      return !String(a ?? '').endsWith(String(b ?? ''));
+    case 'regex':
+      return new RegExp(String(right)).test(String(left ?? ''));
+    case 'notRegex':
+      return !new RegExp(String(right)).test(String(left ?? ''));
+    case 'larger':
+    case 'gt':
+      return Number(a) > Number(b);
+    case 'largerEqual':
+    case 'gte':
+      return Number(a) >= Number(b);
+    case 'smaller':
+    case 'lt':
+      return Number(a) < Number(b);
+    case 'smallerEqual':
+    case 'lte':
+      return Number(a) <= Number(b);
+    case 'after':
+      return toTimestamp(left) > toTimestamp(right);
+    case 'afterOrEquals':
+      return toTimestamp(left) >= toTimestamp(right);
+    case 'before':
+      return toTimestamp(left) < toTimestamp(right);
+    case 'beforeOrEquals':
+      return toTimestamp(left) <= toTimestamp(right);
+    case 'isEmpty':
+    case 'empty':
+      return isEmpty(left);
+    case 'isNotEmpty':
+    case 'notEmpty':
+      return !isEmpty(left);
+    case 'exists':
+      return left !== undefined && left !== null;
+    case 'notExists':
+      return left === undefined || left === null;
+    case 'true':
+      return left === true;
+    case 'false':
+      return left === false;
+    default:
+      throw new Error(`Condition operation '${operation}' is not supported by the local executor`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function mergeByPosition(input1: INodeExecutionData[], input2: INodeExecutionData[]): INodeExecutionData[] {
+  const length = Math.max(input1.length, input2.length);
+  return Array.from({ length }, (_, index) => ({
+    json: { ...(input1[index]?.json || {}), ...(input2[index]?.json || {}) },
+    pairedItem: [{ item: index, input: 0 }, { item: index, input: 1 }]
+  }));
+}
+
+function multiplex(input1: INodeExecutionData[], input2: INodeExecutionData[]): INodeExecutionData[] {
+  const results: INodeExecutionData[] = [];
+  input1.forEach((left, leftIndex) => {
+    input2.forEach((right, rightIndex) => {
+      results.push({
+        json: { ...left.json, ...right.json },
+        pairedItem: [{ item: leftIndex, input: 0 }, { item: rightIndex, input: 1 }]
+      });
+    });
+  });
+  return results;
+}
+
+function mergeByFields(
+  input1: INodeExecutionData[],
+  input2: INodeExecutionData[],
+  fields: Array<{ field1: string; field2: string }>
+): INodeExecutionData[] {
+  const results: INodeExecutionData[] = [];
+  input1.forEach((left, leftIndex) => {
+    const rightIndex = input2.findIndex(right =>
+      fields.every(field => getByPath(left.json, field.field1) === getByPath(right.json, field.field2))
+    );
+    if (rightIndex !== -1) {
+      results.push({
+        json: { ...left.json, ...input2[rightIndex].json },
+        pairedItem: [{ item: leftIndex, input: 0 }, { item: rightIndex, input: 1 }]
+      });
+    }
+  });
+  return results;
+}
+
+function coerceValue(value: any, type?: string): any {
+  if (value === undefined || value === null) return value;
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' ? value : Number(value);
+    case 'boolean':
+      return typeof value === 'boolean' ? value : String(value).toLowerCase() === 'true';
+    case 'object':
+    case 'array':
+      return typeof value === 'string' ? JSON.parse(value) : value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Milliseconds since the epoch for a Date, timestamp or date string; NaN when unparseable
+ */
+function toTimestamp(value: any): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  return Date.parse(String(value ?? ''));
+}
+
+function firstDefined(...values: any[]): any {
+  return values.find(value => value !== undefined);
+}
+
+const UNSAFE_PATH_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype']);
+
+function setByPath(target: IDataObject, path: string, value: any): void {
+  const keys = path.split('.');
+  if (keys.some(key => UNSAFE_PATH_SEGMENTS.has(key))) {
+    throw new Error(`Field name '${path}' is not allowed`);
+  }
+  let current: any = target;
+  keys.slice(0, -1).forEach(key => {
+    if (current[key] === undefined || typeof current[key] !== 'object') current[key] = {};
+    current = current[key];
+  });
+  current[keys[keys.length - 1]] = value;
+}
+
+function deepClone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,371 @@
+/**
+ * Local Workflow Executor
+ * Runs N8nWorkflow graphs in-process using n8n's v1 execution order so generated
+ * workflows can be checked against real node outputs without a live n8n instance.
+ */
+
+import { N8nWorkflow, N8nNode, N8nExecutionData } from '../types/n8n-workflow.js';
+import { INodeExecutionData, ITaskData, ISourceData } from '../types/n8n-api-interfaces.js';
+import { ConnectionGraph, ConnectionEdge } from '../utils/connection-graph.js';
+import { getByPath } from '../utils/object-path.js';
+import { createDataProxy, resolveParameterValue } from './data-proxy.js';
+import { BUILT_IN_NODE_HANDLERS } from './node-handlers.js';
+import type { CodeSandboxOptions } from './code-node-sandbox.js';
+
+/**
+ * Context passed to a node handler for a single node run
+ */
+export interface NodeExecutionContext {
+  workflow: N8nWorkflow;
+  node: N8nNode;
+  /** Items per input index */
+  inputData: INodeExecutionData[][];
+  runIndex: number;
+  options: WorkflowExecutionOptions;
+  /** Resolve a node parameter (including expressions) for the given item */
+  getNodeParameter(name: string, itemIndex: number, fallbackValue?: any): any;
+  /** Output 0 of every node executed so far, keyed by node name */
+  getNodeOutputs(): Record<string, INodeExecutionData[]>;
+}
+
+/**
+ * Implementation of a node type. Returns items per output index.
+ */
+export type NodeHandler = (context: NodeExecutionContext) => Promise<INodeExecutionData[][]>;
+
+/**
+ * Options for a single workflow run
+ */
+export interface WorkflowExecutionOptions {
+  /** Items emitted by the start node(s); defaults to a single empty item */
+  triggerData?: INodeExecutionData[];
+  /** Fixed outputs per node name; takes precedence over workflow.pinData */
+  pinData?: Record<string, INodeExecutionData[]>;
+  /** Node names to start from; defaults to the workflow's trigger/root nodes */
+  startNodes?: string[];
+  /** Hard cap on node runs to stop runaway loops */
+  maxNodeExecutions?: number;
+  /** 'skip' records Wait nodes without sleeping, 'real' sleeps up to maxWaitMs */
+  waitMode?: 'skip' | 'real';
+  maxWaitMs?: number;
+  env?: Record<string, string>;
+  now?: Date;
+  /** Limits for Code/Function nodes run in the sandbox */
+  codeSandbox?: CodeSandboxOptions;
+}
+
+/**
+ * Result of a local workflow run
+ */
+export interface WorkflowExecutionResult {
+  status: 'success' | 'error';
+  data: N8nExecutionData;
+  executionOrder: string[];
+  startedAt: Date;
+  stoppedAt: Date;
+  error?: {
+    message: string;
+    node?: string;
+  };
+}
+
+interface StackEntry {
+  nodeName: string;
+  inputData: INodeExecutionData[][];
+  source: ISourceData[];
+}
+
+interface WaitingEntry {
+  inputData: INodeExecutionData[][];
+  source: ISourceData[];
+  received: Set<number>;
+}
+
+const TRIGGER_TYPES = new Set([
+  'n8n-nodes-base.start',
+  'n8n-nodes-base.manualTrigger',
+  'n8n-nodes-base.webhook',
+  'n8n-nodes-base.cron',
+  'n8n-nodes-base.scheduleTrigger',
+  'n8n-nodes-base.executeWorkflowTrigger'
+]);
+
+/**
+ * In-process executor for n8n workflows
+ */
+export class WorkflowExecutor {
+  private handlers: Map<string, NodeHandler>;
+
+  constructor(customHandlers?: Record<string, NodeHandler>) {
+    this.handlers = new Map(Object.entries({ ...BUILT_IN_NODE_HANDLERS, ...(customHandlers || {}) }));
+  }
+
+  /**
+   * Register or replace the handler for a node type
+   */
+  registerNodeHandler(nodeType: string, handler: NodeHandler): void {
+    this.handlers.set(nodeType, handler);
+  }
+
+  /**
+   * Get node types this executor can run
+   */
+  getSupportedNodeTypes(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+
+  /**
+   * Execute a workflow and return n8n-shaped execution data
+   */
+  async execute(workflow: N8nWorkflow, options: WorkflowExecutionOptions = {}): Promise<WorkflowExecutionResult> {
+    const startedAt = new Date();
+    const graph = new ConnectionGraph(workflow);
+    const pinData = { ...(workflow.pinData || {}), ...(options.pinData || {}) } as Record<string, INodeExecutionData[]>;
+    const maxNodeExecutions = options.maxNodeExecutions ?? 1000;
+
+    const runData: Record<string, ITaskData[]> = {};
+    const nodeOutputs: Record<string, INodeExecutionData[]> = {};
+    const executionOrder: string[] = [];
+    const waiting = new Map<string, WaitingEntry>();
+    const stack: StackEntry[] = this.getStartNodes(workflow, graph, options).map(node => ({
+      nodeName: node.name,
+      inputData: [options.triggerData ?? [{ json: {} }]],
+      source: []
+    }));
+
+    let lastNodeExecuted: string | undefined;
+    let failure: WorkflowExecutionResult['error'];
+
+    while (stack.length > 0 || waiting.size > 0) {
+      if (stack.length === 0) {
+        // Nothing else can run: release multi-input nodes with the inputs they have
+        const [nodeName, entry] = waiting.entries().next().value as [string, WaitingEntry];
+        waiting.delete(nodeName);
+        stack.push({ nodeName, inputData: entry.inputData, source: entry.source });
+      }
+
+      const entry = stack.shift()!;
+      const node = graph.getNode(entry.nodeName);
+      if (!node) continue;
+
+      if (executionOrder.length >= maxNodeExecutions) {
+        failure = { message: `Maximum of ${maxNodeExecutions} node executions exceeded`, node: node.name };
+        break;
+      }
+
+      const runIndex = runData[node.name]?.length ?? 0;
+      const taskStart = Date.now();
+      executionOrder.push(node.name);
+      lastNodeExecuted = node.name;
+
+      let outputs: INodeExecutionData[][];
+      try {
+        outputs = await this.runNode(workflow, node, entry.inputData, runIndex, pinData, nodeOutputs, options);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const recovered = this.handleNodeError(node, entry.inputData[0] || [], message);
+
+        if (!recovered) {
+          (runData[node.name] ||= []).push({
+            startTime: taskStart,
+            executionTime: Date.now() - taskStart,
+            executionStatus: 'error',
+            data: { main: null, error: { message, node: { id: node.id, name: node.name, type: node.type } } }
+          });
+          failure = { message, node: node.name };
+          break;
+        }
+        outputs = recovered;
+      }
+
+      // Like n8n, a node that must always output data emits one empty item instead of nothing
+      if (node.alwaysOutputData && outputs.every(items => items.length === 0)) {
+        outputs = [[{ json: {} }], ...outputs.slice(1)];
+      }
+
+      outputs = outputs.map(items => this.ensurePairedItems(items));
+      nodeOutputs[node.name] = outputs[0] || [];
+
+      (runData[node.name] ||= []).push({
+        startTime: taskStart,
+        executionTime: Date.now() - taskStart,
+        executionStatus: 'success',
+        data: { main: outputs },
+        source: entry.source
+      });
+
+      this.scheduleChildren(node, outputs, graph, stack, waiting);
+    }
+
+    const data: N8nExecutionData = {
+      resultData: {
+        runData,
+        pinData: Object.keys(pinData).length > 0 ? pinData : undefined,
+        lastNodeExecuted,
+        ...(failure && { error: failure })
+      },
+      executionData: {
+        contextData: {},
+        nodeExecutionStack: [],
+        metadata: {},
+        waitingExecution: {},
+        waitingExecutionSource: {}
+      }
+    };
+
+    return {
+      status: failure ? 'error' : 'success',
+      data,
+      executionOrder,
+      startedAt,
+      stoppedAt: new Date(),
+      error: failure
+    };
+  }
+
+  /**
+   * Run a single node, honouring pin data and the disabled flag
+   */
+  private async runNode(
+    workflow: N8nWorkflow,
+    node: N8nNode,
+    inputData: INodeExecutionData[][],
+    runIndex: number,
+    pinData: Record<string, INodeExecutionData[]>,
+    nodeOutputs: Record<string, INodeExecutionData[]>,
+    options: WorkflowExecutionOptions
+  ): Promise<INodeExecutionData[][]> {
+    if (pinData[node.name]) {
+      return [pinData[node.name].map(item => ({ ...item, json: item.json ?? {} }))];
+    }
+
+    if (node.disabled) {
+      return [inputData[0] || []];
+    }
+
+    const handler = this.handlers.get(node.type);
+    if (!handler) {
+      throw new Error(`Node type '${node.type}' is not supported by the local executor; add pin data for "${node.name}"`);
+    }
+
+    const items = inputData[0] || [];
+    const context: NodeExecutionContext = {
+      workflow,
+      node,
+      inputData,
+      runIndex,
+      options,
+      getNodeOutputs: () => nodeOutputs,
+      getNodeParameter: (name: string, itemIndex: number, fallbackValue?: any) => {
+        const raw = getByPath(node.parameters || {}, name);
+        if (raw === undefined) return fallbackValue;
+        const proxy = createDataProxy({
+          workflow,
+          node,
+          items,
+          itemIndex,
+          runIndex,
+          nodeOutputs,
+          env: options.env,
+          now: options.now
+        });
+        return resolveParameterValue(raw, proxy);
+      }
+    };
+
+    return handler(context);
+  }
+
+  /**
+   * Apply continueOnFail / onError settings. Returns null when the run must stop.
+   */
+  private handleNodeError(node: N8nNode, items: INodeExecutionData[], message: string): INodeExecutionData[][] | null {
+    const errorItems = (items.length > 0 ? items : [{ json: {} }]).map((item, index) => ({
+      json: { ...item.json, error: message },
+      pairedItem: { item: index }
+    }));
+
+    if (node.onError === 'continueErrorOutput') {
+      // The error output is appended after the node's regular outputs
+      const regularOutputs = node.type === 'n8n-nodes-base.if' ? 2 : 1;
+      return [...Array.from({ length: regularOutputs }, () => [] as INodeExecutionData[]), errorItems];
+    }
+
+    if (node.continueOnFail || node.onError === 'continueRegularOutput') {
+      return [errorItems];
+    }
+
+    return null;
+  }
+
+  /**
+   * Push children of an executed node onto the stack (depth-first, v1 order)
+   */
+  private scheduleChildren(
+    node: N8nNode,
+    outputs: INodeExecutionData[][],
+    graph: ConnectionGraph,
+    stack: StackEntry[],
+    waiting: Map<string, WaitingEntry>
+  ): void {
+    const ready: StackEntry[] = [];
+    const edges = graph.getOutgoing(node.name, 'main')
+      .filter(edge => (outputs[edge.outputIndex] || []).length > 0)
+      .sort((a, b) => a.outputIndex - b.outputIndex || this.comparePosition(graph, a, b));
+
+    for (const edge of edges) {
+      const items = outputs[edge.outputIndex] || [];
+      const source: ISourceData = { previousNode: node.name, previousNodeOutput: edge.outputIndex };
+      const connectedInputs = new Set(graph.getIncoming(edge.target, 'main').map(e => e.inputIndex));
+
+      if (connectedInputs.size <= 1) {
+        const inputData: INodeExecutionData[][] = [];
+        inputData[edge.inputIndex] = items;
+        ready.push({ nodeName: edge.target, inputData: fillInputs(inputData), source: [source] });
+        continue;
+      }
+
+      const pending = waiting.get(edge.target) || { inputData: [], source: [], received: new Set<number>() };
+      pending.inputData[edge.inputIndex] = [...(pending.inputData[edge.inputIndex] || []), ...items];
+      pending.source.push(source);
+      pending.received.add(edge.inputIndex);
+
+      if ([...connectedInputs].every(index => pending.received.has(index))) {
+        waiting.delete(edge.target);
+        ready.push({ nodeName: edge.target, inputData: fillInputs(pending.inputData), source: pending.source });
+      } else {
+        waiting.set(edge.target, pending);
+      }
+    }
+
+    stack.unshift(...ready);
+  }
+
+  private comparePosition(graph: ConnectionGraph, a: ConnectionEdge, b: ConnectionEdge): number {
+    const positionA = graph.getNode(a.target)?.position || [0, 0];
+    const positionB = graph.getNode(b.target)?.position || [0, 0];
+    return positionA[1] - positionB[1] || positionA[0] - positionB[0];
+  }
+
+  private getStartNodes(workflow: N8nWorkflow, graph: ConnectionGraph, options: WorkflowExecutionOptions): N8nNode[] {
+    if (options.startNodes && options.startNodes.length > 0) {
+      return options.startNodes.map(name => {
+        const node = graph.getNode(name);
+        if (!node) throw new Error(`Start node "${name}" does not exist in workflow "${workflow.name}"`);
+        return node;
+      });
+    }
+
+    const roots = graph.getRootNodes().filter(node => !node.disabled);
+    const triggers = roots.filter(node => TRIGGER_TYPES.has(node.type) || /trigger$/i.test(node.type));
+    return triggers.length > 0 ? triggers : roots;
+  }
+
+  private ensurePairedItems(items: INodeExecutionData[]): INodeExecutionData[] {
+    return items.map((item, index) => (item.pairedItem === undefined ? { ...item, pairedItem: { item: index } } : item));
+  }
+}
+
+function fillInputs(inputData: INodeExecutionData[][]): INodeExecutionData[][] {
+  return Array.from({ length: inputData.length }, (_, index) => inputData[index] || []);
+}
@@ -0,0 +1,349 @@
+import { N8nWorkflow } from '../types/n8n-workflow.js';
+import { ConnectionGraph } from '../utils/connection-graph.js';
+import { N8N_VALIDATION_RULES } from '../validators/n8n-workflow-schema.js';
+
+/**
+ * Options for the layered layout
+ */
+export interface LayoutOptions {
+  /** Distance between layers (columns) */
+  horizontalSpacing?: number;
+  /** Minimum distance between nodes in the same layer */
+  verticalSpacing?: number;
+  /** Position of the first root node */
+  origin?: [number, number];
+  /** Positions are rounded to this grid (n8n's canvas uses 20) */
+  gridSize?: number;
+  /** Names or IDs of nodes whose current position must not change */
+  pinnedNodes?: string[];
+  /** Number of barycenter sweeps used to reduce edge crossings */
+  orderingIterations?: number;
+}
+
+/**
+ * Internal graph vertex; dummy vertices stand in for edges spanning several layers
+ */
+interface LayoutVertex {
+  id: string;
+  dummy: boolean;
+  layer: number;
+  order: number;
+  y: number;
+}
+
+/**
+ * Edge between vertices in adjacent layers. `sourcePort`/`targetPort` keep IF/Switch
+ * outputs and Merge inputs in their visual order.
+ */
+interface LayoutEdge {
+  source: string;
+  target: string;
+  sourcePort: number;
+  targetPort: number;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<LayoutOptions, 'pinnedNodes'>> = {
+  horizontalSpacing: 240,
+  verticalSpacing: 160,
+  origin: [240, 300],
+  gridSize: 20,
+  orderingIterations: 8
+};
+
+/**
+ * Layered (Sugiyama-style) auto-layout for workflow nodes.
+ *
+ * Nodes flow left to right: cycles are broken, nodes are assigned to layers by longest
+ * path from the roots, layers are ordered with barycenter sweeps to reduce crossings,
+ * and each node is placed near the average height of its neighbours.
+ */
+export class LayoutEngine {
+  private options: Required<Omit<LayoutOptions, 'pinnedNodes'>>;
+
+  constructor(options: LayoutOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...stripUndefined(options) };
+  }
+
+  /**
+   * Return a copy of the workflow with laid-out node positions
+   */
+  layout(workflow: N8nWorkflow, options: LayoutOptions = {}): N8nWorkflow {
+    const positions = this.computePositions(workflow, options);
+
+    return {
+      ...workflow,
+      nodes: workflow.nodes.map(node => ({
+        ...node,
+        position: positions.get(node.name) || node.position
+      }))
+    };
+  }
+
+  /**
+   * Compute positions keyed by node name. Pinned nodes keep their current position and
+   * the rest of the layout is anchored to them.
+   */
+  computePositions(workflow: N8nWorkflow, options: LayoutOptions = {}): Map<string, [number, number]> {
+    const settings = { ...this.options, ...stripUndefined(options) };
+    const pinnedKeys = new Set(options.pinnedNodes || []);
+    const pinned = workflow.nodes.filter(node => pinnedKeys.has(node.name) || pinnedKeys.has(node.id));
+    const positions = new Map<string, [number, number]>();
+
+    if (workflow.nodes.length === 0) return positions;
+
+    const graph = new ConnectionGraph(workflow);
+    const names = workflow.nodes.map(node => node.name);
+    const edges = this.removeCycles(names, graph);
+    const layers = this.assignLayers(names, edges);
+    const { vertices, layered } = this.buildLayers(names, layers, edges);
+
+    this.orderLayers(vertices, layered.layers, layered.edges, settings.orderingIterations);
+    this.assignHeights(vertices, layered.layers, layered.edges, settings.verticalSpacing);
+
+    for (const name of names) {
+      const vertex = vertices.get(name)!;
+      positions.set(name, [
+        settings.origin[0] + vertex.layer * settings.horizontalSpacing,
+        settings.origin[1] + vertex.y
+      ]);
+    }
+
+    if (pinned.length > 0) {
+      this.anchorToPinned(positions, pinned.map(node => [node.name, node.position] as [string, [number, number]]), settings.verticalSpacing);
+    }
+
+    this.fitToBounds(positions, new Set(pinned.map(node => node.name)));
+    return this.snapToGrid(positions, new Set(pinned.map(node => node.name)), settings.gridSize);
+  }
+
+  /**
+   * Drop edges that close a cycle (found with a DFS from the roots) and self loops
+   */
+  private removeCycles(names: string[], graph: ConnectionGraph): LayoutEdge[] {
+    const known = new Set(names);
+    const state = new Map<string, 'visiting' | 'done'>();
+    const edges: LayoutEdge[] = [];
+
+    const visit = (name: string) => {
+      state.set(name, 'visiting');
+      for (const edge of graph.getOutgoing(name)) {
+        if (!known.has(edge.target) || edge.target === name) continue;
+        if (state.get(edge.target) === 'visiting') continue; // back edge
+        edges.push({ source: name, target: edge.target, sourcePort: edge.outputIndex, targetPort: edge.inputIndex });
+        if (!state.has(edge.target)) visit(edge.target);
+      }
+      state.set(name, 'done');
+    };
+
+    const roots = graph.getRootNodes().map(node => node.name);
+    for (const name of [...roots, ...names]) {
+      if (!state.has(name)) visit(name);
+    }
+
+    return edges;
+  }
+
+  /**
+   * Longest-path layering: every node sits one layer right of its furthest parent
+   */
+  private assignLayers(names: string[], edges: LayoutEdge[]): Map<string, number> {
+    const layers = new Map<string, number>();
+    const incoming = new Map<string, LayoutEdge[]>(names.map(name => [name, []]));
+    edges.forEach(edge => incoming.get(edge.target)!.push(edge));
+
+    const resolve = (name: string): number => {
+      if (layers.has(name)) return layers.get(name)!;
+      const parents = incoming.get(name)!;
+      const layer = parents.length === 0 ? 0 : Math.max(...parents.map(edge => resolve(edge.source))) + 1;
+      layers.set(name, layer);
+      return layer;
+    };
+
+    names.forEach(resolve);
+    return layers;
+  }
+
+  /**
+   * Group vertices by layer, splitting long edges with dummy vertices
+   */
+  private buildLayers(names: string[], layers: Map<string, number>, edges: LayoutEdge[]) {
+    const vertices = new Map<string, LayoutVertex>();
+    const layerLists: string[][] = [];
+    const layeredEdges: LayoutEdge[] = [];
+
+    const addVertex = (id: string, layer: number, dummy: boolean) => {
+      vertices.set(id, { id, dummy, layer, order: 0, y: 0 });
+      while (layerLists.length <= layer) layerLists.push([]);
+      layerLists[layer].push(id);
+    };
+
+    names.forEach(name => addVertex(name, layers.get(name)!, false));
+
+    edges.forEach((edge, index) => {
+      const from = layers.get(edge.source)!;
+      const to = layers.get(edge.target)!;
+      let previous = edge.source;
+      let port = edge.sourcePort;
+
+      for (let layer = from + 1; layer < to; layer++) {
+        const dummyId = `\u0000dummy:${index}:${layer}`;
+        addVertex(dummyId, layer, true);
+        layeredEdges.push({ source: previous, target: dummyId, sourcePort: port, targetPort: 0 });
+        previous = dummyId;
+        port = 0;
+      }
+
+      layeredEdges.push({ source: previous, target: edge.target, sourcePort: port, targetPort: edge.targetPort });
+    });
+
+    return { vertices, layered: { layers: layerLists, edges: layeredEdges } };
+  }
+
+  /**
+   * Reduce crossings with alternating downward/upward barycenter sweeps
+   */
+  private orderLayers(vertices: Map<string, LayoutVertex>, layers: string[][], edges: LayoutEdge[], iterations: number): void {
+    const byTarget = groupBy(edges, edge => edge.target);
+    const bySource = groupBy(edges, edge => edge.source);
+    const maxPort = Math.max(1, ...edges.map(edge => Math.max(edge.sourcePort, edge.targetPort) + 1));
+
+    layers.forEach(layer => layer.forEach((id, index) => (vertices.get(id)!.order = index)));
+
+    // Port offsets stay below 1 so they only break ties between siblings of the same parent
+    const sortLayer = (layer: string[], keyOf: (id: string) => number | undefined) => {
+      const keys = new Map(layer.map(id => [id, keyOf(id)]));
+      layer.sort((a, b) => {
+        const keyA = keys.get(a) ?? vertices.get(a)!.order;
+        const keyB = keys.get(b) ?? vertices.get(b)!.order;
+        return keyA - keyB || vertices.get(a)!.order - vertices.get(b)!.order;
+      });
+      layer.forEach((id, index) => (vertices.get(id)!.order = index));
+    };
+
+    const barycenter = (neighbours: LayoutEdge[] | undefined, pick: (edge: LayoutEdge) => [string, number]) => {
+      if (!neighbours || neighbours.length === 0) return undefined;
+      const total = neighbours.reduce((sum, edge) => {
+        const [id, port] = pick(edge);
+        return sum + vertices.get(id)!.order + port / (maxPort + 1);
+      }, 0);
+      return total / neighbours.length;
+    };
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      if (iteration % 2 === 0) {
+        for (let index = 1; index < layers.length; index++) {
+          sortLayer(layers[index], id => barycenter(byTarget.get(id), edge => [edge.source, edge.sourcePort]));
+        }
+      } else {
+        for (let index = layers.length - 2; index >= 0; index--) {
+          sortLayer(layers[index], id => barycenter(bySource.get(id), edge => [edge.target, edge.targetPort]));
+        }
+      }
+    }
+  }
+
+  /**
+   * Place each vertex at the mean height of its parents, then push apart overlapping
+   * vertices and re-centre the layer so branches fan out symmetrically
+   */
+  private assignHeights(vertices: Map<string, LayoutVertex>, layers: string[][], edges: LayoutEdge[], spacing: number): void {
+    const byTarget = groupBy(edges, edge => edge.target);
+
+    layers.forEach((layer, layerIndex) => {
+      const ideal = layer.map((id, index) => {
+        const parents = byTarget.get(id);
+        if (layerIndex === 0 || !parents || parents.length === 0) return index * spacing;
+        return parents.reduce((sum, edge) => sum + vertices.get(edge.source)!.y, 0) / parents.length;
+      });
+
+      const placed: number[] = [];
+      ideal.forEach((y, index) => {
+        placed.push(index === 0 ? y : Math.max(y, placed[index - 1] + spacing));
+      });
+
+      const shift = placed.reduce((sum, y, index) => sum + (y - ideal[index]), 0) / placed.length;
+      layer.forEach((id, index) => (vertices.get(id)!.y = placed[index] - (layerIndex === 0 ? 0 : shift)));
+    });
+  }
+
+  /**
+   * Translate the layout so pinned nodes line up with their computed slots, then move
+   * any free node that would overlap a pinned one further down its column
+   */
+  private anchorToPinned(positions: Map<string, [number, number]>, pinned: Array<[string, [number, number]]>, spacing: number): void {
+    const offsetX = average(pinned.map(([name, position]) => position[0] - positions.get(name)![0]));
+    const offsetY = average(pinned.map(([name, position]) => position[1] - positions.get(name)![1]));
+    const pinnedNames = new Set(pinned.map(([name]) => name));
+
+    for (const [name, position] of positions) {
+      positions.set(name, pinnedNames.has(name) ? position : [position[0] + offsetX, position[1] + offsetY]);
+    }
+    pinned.forEach(([name, position]) => positions.set(name, [...position] as [number, number]));
+
+    const occupied = pinned.map(([, position]) => position);
+    const overlaps = (position: [number, number]) =>
+      occupied.some(other => Math.abs(other[0] - position[0]) < spacing / 2 && Math.abs(other[1] - position[1]) < spacing / 2);
+
+    for (const [name, position] of positions) {
+      if (pinnedNames.has(name)) continue;
+      const moved: [number, number] = [...position] as [number, number];
+      while (overlaps(moved)) moved[1] += spacing;
+      occupied.push(moved);
+      positions.set(name, moved);
+    }
+  }
+
+  /**
+   * Keep free nodes within N8N_VALIDATION_RULES.CONSTRAINTS.NODE_POSITION_BOUNDS,
+   * compressing the layout if it is larger than the allowed area
+   */
+  private fitToBounds(positions: Map<string, [number, number]>, pinned: Set<string>): void {
+    const bounds = N8N_VALIDATION_RULES.CONSTRAINTS.NODE_POSITION_BOUNDS;
+    const free = [...positions.entries()].filter(([name]) => !pinned.has(name));
+    if (free.length === 0) return;
+
+    const fitAxis = (axis: 0 | 1, min: number, max: number) => {
+      const values = free.map(([, position]) => position[axis]);
+      const low = Math.min(...values);
+      const high = Math.max(...values);
+      const scale = high - low > max - min ? (max - min) / (high - low) : 1;
+      const shift = low * scale < min ? min - low * scale : high * scale > max ? max - high * scale : 0;
+
+      if (scale === 1 && shift === 0) return;
+      free.forEach(([, position]) => {
+        position[axis] = Math.min(max, Math.max(min, position[axis] * scale + shift));
+      });
+    };
+
+    fitAxis(0, bounds.MIN_X, bounds.MAX_X);
+    fitAxis(1, bounds.MIN_Y, bounds.MAX_Y);
+  }
+
+  private snapToGrid(positions: Map<string, [number, number]>, pinned: Set<string>, gridSize: number): Map<string, [number, number]> {
+    if (gridSize <= 0) return positions;
+
+    const snap = (value: number) => Math.round(value / gridSize) * gridSize;
+    for (const [name, position] of positions) {
+      if (!pinned.has(name)) positions.set(name, [snap(position[0]), snap(position[1])]);
+    }
+    return positions;
+  }
+}
+
+function groupBy<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(item);
+  }
+  return groups;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+}
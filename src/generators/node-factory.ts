@@ -1,6 +1,8 @@
 import { randomUUID } from 'crypto';
 import { N8nNode } from '../types/n8n-workflow.js';
 import { NodeSpecification } from '../types/n8n-workflow.js';
+import { INodeTypeDescription } from '../types/n8n-api-interfaces.js';
+import { NodeTypeCatalog, getDefaultNodeTypeCatalog } from '../importers/node-type-catalog.js';
 
 /**
  * Factory class for creating n8n nodes based on specifications
@@ -8,9 +10,10 @@ import { NodeSpecification } from '../types/n8n-workflow.js';
 export class NodeFactory {
   private nodeTemplates: Map<string, NodeTemplate>;
 
-  constructor() {
+  constructor(catalog: NodeTypeCatalog = getDefaultNodeTypeCatalog()) {
     this.nodeTemplates = new Map();
     this.initializeNodeTemplates();
+    this.applyNodeTypeCatalog(catalog);
   }
 
   /**
@@ -83,6 +86,28 @@ export class NodeFactory {
       webhookId: true
     });
 
+    this.nodeTemplates.set('n8n-nodes-base.manualTrigger', {
+      category: 'trigger',
+      defaultVersion: 1,
+      defaultParameters: {},
+      description: 'Manual trigger node'
+    });
+
+    this.nodeTemplates.set('n8n-nodes-base.scheduleTrigger', {
+      category: 'trigger',
+      defaultVersion: 1.2,
+      defaultParameters: {
+        rule: {
+          interval: [
+            {
+              field: 'days'
+            }
+          ]
+        }
+      },
+      description: 'Schedule trigger node (interval based)'
+    });
+
     this.nodeTemplates.set('n8n-nodes-base.cron', {
       category: 'trigger',
       defaultVersion: 1,
@@ -168,6 +193,28 @@ export class NodeFactory {
       description: 'Item Lists node for array operations'
     });
 
+    this.nodeTemplates.set('n8n-nodes-base.splitOut', {
+      category: 'data-processing',
+      defaultVersion: 1,
+      defaultParameters: {
+        fieldToSplitOut: '',
+        include: 'noOtherFields',
+        options: {}
+      },
+      description: 'Split Out node for turning an array into items'
+    });
+
+    this.nodeTemplates.set('n8n-nodes-base.aggregate', {
+      category: 'data-processing',
+      defaultVersion: 1,
+      defaultParameters: {
+        aggregate: 'aggregateAllItemData',
+        destinationFieldName: 'data',
+        options: {}
+      },
+      description: 'Aggregate node for combining items into one'
+    });
+
     // Utility nodes
     this.nodeTemplates.set('n8n-nodes-base.if', {
       category: 'control-flow',
@@ -197,6 +244,26 @@ export class NodeFactory {
       description: 'IF node for conditional logic'
     });
 
+    this.nodeTemplates.set('n8n-nodes-base.switch', {
+      category: 'control-flow',
+      defaultVersion: 3,
+      defaultParameters: {
+        mode: 'rules',
+        rules: {
+          values: []
+        },
+        options: {}
+      },
+      description: 'Switch node for routing items to multiple outputs'
+    });
+
+    this.nodeTemplates.set('n8n-nodes-base.noOp', {
+      category: 'utility',
+      defaultVersion: 1,
+      defaultParameters: {},
+      description: 'No Operation node (placeholder)'
+    });
+
     this.nodeTemplates.set('n8n-nodes-base.merge', {
       category: 'utility',
       defaultVersion: 2.1,
@@ -288,6 +355,25 @@ export class NodeFactory {
       description: 'PostgreSQL database node'
     });
 
+    // CRM nodes
+    this.nodeTemplates.set('n8n-nodes-base.hubspot', {
+      category: 'communication',
+      defaultVersion: 2,
+      defaultParameters: {
+        authentication: 'appToken',
+        resource: 'contact',
+        operation: 'search'
+      },
+      requiresCredentials: true,
+      defaultCredentials: {
+        hubspotAppToken: {
+          id: '',
+          name: 'HubSpot App Token account'
+        }
+      },
+      description: 'HubSpot CRM node'
+    });
+
     // Webhook response
     this.nodeTemplates.set('n8n-nodes-base.respondToWebhook', {
       category: 'communication',
@@ -318,6 +404,32 @@ export class NodeFactory {
     return merged;
   }
 
+  /**
+   * Take node types and versions from the catalog. Built-in templates stay when the catalog
+   * knows their version, since their default parameters are written for it; the others are
+   * replaced by templates for the catalog's default version, which keep the built-in default
+   * parameters unless the catalog describes that version's parameters.
+   */
+  private applyNodeTypeCatalog(catalog: NodeTypeCatalog): void {
+    for (const nodeType of catalog.getTypes()) {
+      const template = this.nodeTemplates.get(nodeType);
+      if (template && catalog.getVersions(nodeType).includes(template.defaultVersion)) continue;
+
+      const description = catalog.getDescription(nodeType)!;
+      if (!template && description.hidden) continue;
+
+      this.nodeTemplates.set(nodeType, {
+        category: template?.category ?? templateCategory(description),
+        defaultVersion: catalog.getDefaultVersion(nodeType)!,
+        // n8n leaves parameters at their default out of the workflow JSON
+        defaultParameters: template && !description.properties?.length ? template.defaultParameters : {},
+        description: description.description || description.displayName,
+        requiresCredentials: (description.credentials || []).some(credential => credential.required),
+        webhookId: Boolean(description.webhooks?.length)
+      });
+    }
+  }
+
   /**
    * Create a custom node template
    */
@@ -350,6 +462,13 @@ export class NodeFactory {
   }
 }
 
+function templateCategory(description: INodeTypeDescription): NodeTemplate['category'] {
+  if (description.group.includes('trigger')) return 'trigger';
+  if (description.group.includes('transform')) return 'data-processing';
+  if (description.group.includes('output')) return 'communication';
+  return 'utility';
+}
+
 /**
  * Node template interface
  */
@@ -0,0 +1,239 @@
+import { randomUUID } from 'crypto';
+import { N8nWorkflow, N8nNode, WorkflowPlan, NodeSpecification, FlowConnection, ValidationResult, WorkflowSettings } from '../types/n8n-workflow.js';
+import { NodeFactory } from './node-factory.js';
+import { LayoutEngine } from './layout-engine.js';
+import { WorkflowValidator } from '../validators/workflow-validator.js';
+import { ConnectionValidator } from '../validation/connection-validator.js';
+import { NodeCompatibilityValidator } from '../validation/node-compatibility-validator.js';
+import { combineValidationResults } from '../validation/validation-results.js';
+import { N8nWorkflowSchemaValidator, WorkflowValidationResult, N8N_VALIDATION_RULES } from '../validators/n8n-workflow-schema.js';
+import { ConnectionEdge, buildConnections } from '../utils/connection-graph.js';
+
+/**
+ * Options for assembling a workflow from a plan
+ */
+export interface AssembleOptions {
+  id?: string;
+  name?: string;
+  settings?: WorkflowSettings;
+  tags?: string[];
+  /** Throw when the assembled workflow fails validation */
+  strict?: boolean;
+}
+
+/**
+ * Result of assembling a plan
+ */
+export interface AssembledWorkflow {
+  workflow: N8nWorkflow;
+  /** WorkflowValidator, ConnectionValidator and NodeCompatibilityValidator findings */
+  validation: ValidationResult;
+  schemaValidation: WorkflowValidationResult;
+  /** Plan problems that were worked around while assembling (unknown nodes, dangling flow entries, renames) */
+  issues: string[];
+  /** Node name for every spec id in the plan */
+  nodeNames: Map<string, string>;
+}
+
+const TRUE_CONDITIONS = new Set(['true', 'yes', 'then', 'success', 'pass', 'passed']);
+const FALSE_CONDITIONS = new Set(['false', 'no', 'else', 'otherwise', 'fail', 'failed']);
+
+/**
+ * Regular (non-error) output count for node types with several outputs
+ */
+const OUTPUT_COUNTS: Record<string, (node: N8nNode) => number> = {
+  'n8n-nodes-base.if': () => 2,
+  'n8n-nodes-base.switch': node => Math.max(1, node.parameters?.rules?.values?.length || 0)
+};
+
+/**
+ * Turns a `WorkflowPlan` into an importable n8n workflow
+ */
+export class WorkflowAssembler {
+  constructor(
+    private nodeFactory: NodeFactory = new NodeFactory(),
+    private layoutEngine: LayoutEngine = new LayoutEngine(),
+    private validator: WorkflowValidator = new WorkflowValidator(),
+    private nodeCompatibilityValidator: NodeCompatibilityValidator = new NodeCompatibilityValidator(),
+    private connectionValidator: ConnectionValidator = new ConnectionValidator(nodeCompatibilityValidator)
+  ) {}
+
+  /**
+   * Instantiate the plan's nodes, connect them, lay them out and validate the result
+   */
+  async assemble(plan: WorkflowPlan, options: AssembleOptions = {}): Promise<AssembledWorkflow> {
+    if (!plan || !Array.isArray(plan.nodes) || plan.nodes.length === 0) {
+      throw new Error('Workflow plan must contain at least one node');
+    }
+
+    const issues: string[] = [];
+    const { nodes, nodeNames } = await this.createNodes(plan.nodes, issues);
+    const edges = this.createEdges(plan.flow || [], nodes, nodeNames, issues);
+
+    // Nodes positioned by the plan stay where they are; the rest are laid out around them
+    const pinnedNodes = plan.nodes
+      .filter(spec => Array.isArray(spec.position))
+      .map(spec => nodeNames.get(spec.id) as string);
+
+    const workflow = this.layoutEngine.layout({
+      id: options.id || randomUUID(),
+      name: options.name || 'Generated Workflow',
+      active: false,
+      nodes,
+      connections: buildConnections(edges),
+      settings: { executionOrder: 'v1', ...options.settings },
+      tags: (options.tags || []).map(name => ({ id: randomUUID(), name }))
+    }, { pinnedNodes });
+
+    const validation = await this.validate(workflow);
+    const schemaValidation = N8nWorkflowSchemaValidator.validateWorkflow(workflow);
+
+    if (options.strict && (!validation.isValid || !schemaValidation.isValid)) {
+      const messages = [...validation.errors.map(error => error.message), ...schemaValidation.errors.map(error => error.message)];
+      throw new Error(`Assembled workflow is invalid: ${messages.join('; ')}`);
+    }
+
+    return { workflow, validation, schemaValidation, issues, nodeNames };
+  }
+
+  /**
+   * Run the workflow, connection and node compatibility validators over the assembled workflow
+   */
+  private async validate(workflow: N8nWorkflow): Promise<ValidationResult> {
+    const { errors, warnings } = combineValidationResults(
+      null,
+      await this.validator.validate(workflow),
+      this.connectionValidator.validateWorkflowConnections(workflow),
+      this.nodeCompatibilityValidator.validateWorkflowNodeCompatibility(workflow)
+    );
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Create nodes through NodeFactory, giving each a unique name and a valid ID
+   */
+  private async createNodes(specs: NodeSpecification[], issues: string[]): Promise<{ nodes: N8nNode[]; nodeNames: Map<string, string> }> {
+    const nodes: N8nNode[] = [];
+    const nodeNames = new Map<string, string>();
+    const usedNames = new Set<string>();
+    const usedIds = new Set<string>();
+
+    for (const spec of specs) {
+      const baseName = (spec.name || spec.type.split('.').pop() || 'Node').trim();
+      const name = uniqueNodeName(baseName, usedNames);
+      if (name !== baseName) {
+        issues.push(`Node "${baseName}" (${spec.id}) was renamed to "${name}" to keep node names unique`);
+      }
+
+      const id = spec.id && !usedIds.has(spec.id) && N8N_VALIDATION_RULES.CONSTRAINTS.NODE_ID_PATTERN.test(spec.id)
+        ? spec.id
+        : randomUUID();
+      usedIds.add(id);
+
+      let node: N8nNode;
+      if (this.nodeFactory.getNodeTemplate(spec.type)) {
+        node = await this.nodeFactory.createNode({ ...spec, id, name, parameters: spec.parameters || {} });
+      } else {
+        issues.push(`Node type "${spec.type}" has no template; "${name}" was created with its planned parameters only`);
+        node = { id, name, type: spec.type, typeVersion: 1, position: spec.position || [0, 0], parameters: spec.parameters || {} };
+      }
+
+      nodes.push(node);
+      if (spec.id && !nodeNames.has(spec.id)) nodeNames.set(spec.id, name);
+    }
+
+    return { nodes, nodeNames };
+  }
+
+  /**
+   * Translate id-based flow entries into name-keyed connection edges
+   */
+  private createEdges(flow: FlowConnection[], nodes: N8nNode[], nodeNames: Map<string, string>, issues: string[]): ConnectionEdge[] {
+    const edges: ConnectionEdge[] = [];
+    const nodesByName = new Map(nodes.map(node => [node.name, node]));
+    const nextInputIndex = new Map<string, number>();
+    const resolve = (key: string) => nodesByName.get(nodeNames.get(key) ?? key);
+
+    for (const connection of flow) {
+      const source = resolve(connection.from);
+      const target = resolve(connection.to);
+
+      if (!source || !target) {
+        issues.push(`Flow connection ${connection.from} -> ${connection.to} references a node that is not in the plan`);
+        continue;
+      }
+
+      const connectionType = this.getConnectionType(connection);
+      let outputIndex = this.getOutputIndex(source, connection, issues);
+
+      if (connection.type === 'error') {
+        // Error outputs follow the node's regular outputs
+        outputIndex = (OUTPUT_COUNTS[source.type]?.(source) ?? 1);
+      }
+
+      if (edges.some(edge => edge.source === source.name && edge.target === target.name && edge.outputIndex === outputIndex && edge.outputType === connectionType)) {
+        continue;
+      }
+
+      // Merge-style nodes take each incoming branch on its own input
+      const takesOwnInput = target.type === 'n8n-nodes-base.merge' && connectionType === 'main';
+      const inputIndex = takesOwnInput ? nextInputIndex.get(target.name) ?? 0 : 0;
+      if (takesOwnInput) nextInputIndex.set(target.name, inputIndex + 1);
+      if (connection.type === 'error') source.onError = 'continueErrorOutput';
+
+      edges.push({
+        source: source.name,
+        outputType: connectionType,
+        outputIndex,
+        target: target.name,
+        inputType: connectionType,
+        inputIndex
+      });
+    }
+
+    return edges;
+  }
+
+  private getConnectionType(connection: FlowConnection): string {
+    if (connection.type && connection.type.startsWith('ai_')) return connection.type;
+    return 'main';
+  }
+
+  /**
+   * Output index for a flow entry: IF true/false branches and Switch outputs by number or output key
+   */
+  private getOutputIndex(source: N8nNode, connection: FlowConnection, issues: string[]): number {
+    const condition = connection.condition?.trim().toLowerCase();
+    if (!condition) return 0;
+
+    if (source.type === 'n8n-nodes-base.if') {
+      if (TRUE_CONDITIONS.has(condition)) return 0;
+      if (FALSE_CONDITIONS.has(condition)) return 1;
+      issues.push(`Condition "${connection.condition}" on IF node "${source.name}" is not true/false; using the true output`);
+      return 0;
+    }
+
+    if (source.type === 'n8n-nodes-base.switch') {
+      const rules: any[] = source.parameters?.rules?.values || [];
+      const byKey = rules.findIndex(rule => String(rule.outputKey ?? '').toLowerCase() === condition);
+      if (byKey !== -1) return byKey;
+
+      const numbered = /^(?:output\s*)?(\d+)$/.exec(condition);
+      if (numbered) return Number(numbered[1]);
+
+      issues.push(`Condition "${connection.condition}" does not match an output of Switch node "${source.name}"; using output 0`);
+    }
+
+    return 0;
+  }
+}
+
+/**
+ * n8n appends a number to duplicate node names ("HTTP Request", "HTTP Request1", ...)
+ */
+function uniqueNodeName(baseName: string, usedNames: Set<string>): string {
+  let name = baseName;
+  for (let suffix = 1; usedNames.has(name); suffix++) name = `${baseName}${suffix}`;
+  usedNames.add(name);
+  return name;
+}
@@ -0,0 +1,588 @@
+import { readFileSync, existsSync } from 'fs';
+import { randomUUID } from 'crypto';
+import { N8nWorkflow, N8nNode, ValidationResult } from '../types/n8n-workflow.js';
+import { NodeFactory } from '../generators/node-factory.js';
+import { WorkflowValidator } from '../validators/workflow-validator.js';
+import { ConnectionEdge, buildConnections } from '../utils/connection-graph.js';
+import { isExpression, tokenizeExpression } from '../parsers/expression-parser.js';
+import { MakeFormulaTranslator } from './make-formula-translator.js';
+
+/**
+ * Make.com Blueprint Importer
+ * Converts a Make scenario blueprint (the JSON exported from the scenario editor)
+ * into an n8n workflow. Modules are mapped to n8n nodes through NodeFactory, mapper
+ * formulas are translated to n8n expressions, and modules without an n8n equivalent
+ * become NoOp placeholders so the flow stays connected and is listed in the report.
+ */
+
+// Blueprint types
+
+export interface MakeCondition {
+  a: string;
+  b?: string;
+  o: string;
+}
+
+export interface MakeFilter {
+  name?: string;
+  /** OR of AND groups */
+  conditions: MakeCondition[][];
+}
+
+export interface MakeModule {
+  id: number;
+  module: string;
+  version?: number;
+  parameters?: Record<string, any>;
+  mapper?: Record<string, any>;
+  metadata?: {
+    designer?: { x: number; y: number; name?: string };
+    [key: string]: any;
+  };
+  filter?: MakeFilter;
+  routes?: MakeRoute[];
+}
+
+export interface MakeRoute {
+  flow: MakeModule[];
+}
+
+export interface MakeBlueprint {
+  name: string;
+  flow: MakeModule[];
+  metadata?: Record<string, any>;
+}
+
+// Import result types
+
+export interface MakeImportReport {
+  mapped: Array<{ moduleId: number; module: string; nodeName: string; nodeType: string }>;
+  unmapped: Array<{ moduleId: number; module: string; nodeName: string; reason: string }>;
+  warnings: Array<{ moduleId?: number; message: string }>;
+}
+
+export interface MakeImportResult {
+  workflow: N8nWorkflow;
+  report: MakeImportReport;
+  validation: ValidationResult;
+}
+
+/**
+ * Node produced for a single Make module
+ */
+interface ConvertedModule {
+  type: string;
+  parameters: Record<string, any>;
+  /** Default node name when the module has no designer name */
+  label: string;
+}
+
+interface ConversionContext {
+  module: MakeModule;
+  /** Translate a mapper value, recording formula warnings against the module */
+  translate(value: any): any;
+  warn(message: string): void;
+}
+
+type ModuleConverter = (context: ConversionContext) => ConvertedModule;
+
+interface OutputLink {
+  node: string;
+  outputIndex: number;
+}
+
+const HUBSPOT_OBJECT_TYPES: Record<string, string> = {
+  contacts: 'contact',
+  companies: 'company',
+  deals: 'deal',
+  tickets: 'ticket'
+};
+
+const FILTER_OPERATORS: Record<string, { type: string; operation: string; singleValue?: boolean }> = {
+  'text:equal': { type: 'string', operation: 'equals' },
+  'text:equal:ci': { type: 'string', operation: 'equals' },
+  'text:notequal': { type: 'string', operation: 'notEquals' },
+  'text:notequal:ci': { type: 'string', operation: 'notEquals' },
+  'text:contain': { type: 'string', operation: 'contains' },
+  'text:contain:ci': { type: 'string', operation: 'contains' },
+  'text:notcontain': { type: 'string', operation: 'notContains' },
+  'text:notcontain:ci': { type: 'string', operation: 'notContains' },
+  'text:startwith': { type: 'string', operation: 'startsWith' },
+  'text:endwith': { type: 'string', operation: 'endsWith' },
+  'text:pattern': { type: 'string', operation: 'regex' },
+  'number:equal': { type: 'number', operation: 'equals' },
+  'number:notequal': { type: 'number', operation: 'notEquals' },
+  'number:greater': { type: 'number', operation: 'gt' },
+  'number:less': { type: 'number', operation: 'lt' },
+  'number:greaterorequal': { type: 'number', operation: 'gte' },
+  'number:lessorequal': { type: 'number', operation: 'lte' },
+  'boolean:equal': { type: 'boolean', operation: 'equals' },
+  'array:contain': { type: 'array', operation: 'contains' },
+  'array:notcontain': { type: 'array', operation: 'notContains' },
+  exist: { type: 'string', operation: 'exists', singleValue: true },
+  notexist: { type: 'string', operation: 'notExists', singleValue: true }
+};
+
+const TRIGGER_MODULES = new Set(['gateway:CustomWebHook']);
+
+/**
+ * Imports Make.com scenario blueprints as n8n workflows
+ */
+export class MakeBlueprintImporter {
+  private converters: Map<string, ModuleConverter>;
+  private validator: WorkflowValidator;
+
+  constructor(private nodeFactory: NodeFactory = new NodeFactory()) {
+    this.converters = new Map();
+    this.validator = new WorkflowValidator();
+    this.initializeConverters();
+  }
+
+  /**
+   * Import a blueprint from a JSON file
+   */
+  async importFromFile(filePath: string): Promise<MakeImportResult> {
+    if (!existsSync(filePath)) {
+      throw new Error(`Blueprint file not found: ${filePath}`);
+    }
+
+    try {
+      return await this.importBlueprint(JSON.parse(readFileSync(filePath, 'utf-8')) as MakeBlueprint);
+    } catch (error) {
+      throw new Error(`Failed to import Make blueprint: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Convert a parsed blueprint to an n8n workflow
+   */
+  async importBlueprint(blueprint: MakeBlueprint): Promise<MakeImportResult> {
+    if (!blueprint || !Array.isArray(blueprint.flow)) {
+      throw new Error('Blueprint must have a flow array');
+    }
+
+    const report: MakeImportReport = { mapped: [], unmapped: [], warnings: [] };
+    const nodes: N8nNode[] = [];
+    const edges: ConnectionEdge[] = [];
+    const modules = flattenModules(blueprint.flow);
+    const moduleNodeNames = this.assignNodeNames(modules);
+    const translator = new MakeFormulaTranslator(moduleNodeNames);
+    const usedNames = new Set(moduleNodeNames.values());
+
+    const uniqueName = (base: string) => {
+      let name = base;
+      for (let suffix = 1; usedNames.has(name); suffix++) name = `${base} ${suffix}`;
+      usedNames.add(name);
+      return name;
+    };
+
+    const connect = (from: OutputLink | null, to: string) => {
+      if (!from) return;
+      edges.push({ source: from.node, outputType: 'main', outputIndex: from.outputIndex, target: to, inputType: 'main', inputIndex: 0 });
+    };
+
+    const contextFor = (module: MakeModule): ConversionContext => ({
+      module,
+      translate: (value: any) => {
+        const result = translator.translateValue(value);
+        result.warnings.forEach(message => report.warnings.push({ moduleId: module.id, message }));
+        return result.value;
+      },
+      warn: (message: string) => report.warnings.push({ moduleId: module.id, message })
+    });
+
+    const createNode = async (type: string, name: string, parameters: Record<string, any>, position: [number, number]) => {
+      const node = await this.nodeFactory.createNode({ id: '', name, type, parameters, description: '', position });
+      nodes.push(node);
+      return node;
+    };
+
+    const convertFlow = async (flow: MakeModule[], previous: OutputLink | null, skipFirstFilter: boolean): Promise<void> => {
+      for (const [index, module] of flow.entries()) {
+        const context = contextFor(module);
+        const position = modulePosition(module);
+
+        if (module.filter && !(skipFirstFilter && index === 0)) {
+          const filterName = uniqueName(module.filter.name || `Filter before ${moduleNodeNames.get(module.id)}`);
+          await createNode('n8n-nodes-base.if', filterName, {
+            conditions: this.convertFilter(module.filter, context)
+          }, [position[0] - 150, position[1]]);
+          connect(previous, filterName);
+          previous = { node: filterName, outputIndex: 0 };
+        }
+
+        const nodeName = moduleNodeNames.get(module.id)!;
+        const converted = this.convertModule(context);
+        const node = await createNode(converted.type, nodeName, converted.parameters, position);
+        connect(previous, nodeName);
+
+        if (converted.type === 'n8n-nodes-base.noOp') {
+          node.notes = `Unmapped Make module ${module.module}. Original mapper: ${JSON.stringify(module.mapper ?? {})}`;
+          report.unmapped.push({ moduleId: module.id, module: module.module, nodeName, reason: 'No n8n equivalent is registered for this module' });
+        } else {
+          report.mapped.push({ moduleId: module.id, module: module.module, nodeName, nodeType: converted.type });
+        }
+
+        if (module.parameters?.__IMTCONN__ !== undefined) {
+          context.warn(`Make connection ${module.parameters.__IMTCONN__} was not imported; configure credentials on "${nodeName}"`);
+        }
+
+        if (module.routes && module.routes.length > 0) {
+          // Route filters live on the first module of each route and become Switch rules
+          for (const [routeIndex, route] of module.routes.entries()) {
+            await convertFlow(route.flow, { node: nodeName, outputIndex: routeIndex }, true);
+          }
+          previous = null;
+        } else {
+          previous = { node: nodeName, outputIndex: 0 };
+        }
+      }
+    };
+
+    let start: OutputLink | null = null;
+    if (!TRIGGER_MODULES.has(blueprint.flow[0]?.module)) {
+      const firstPosition = blueprint.flow[0] ? modulePosition(blueprint.flow[0]) : [0, 0];
+      const triggerName = uniqueName('Manual Trigger');
+      await createNode('n8n-nodes-base.manualTrigger', triggerName, {}, [firstPosition[0] - 300, firstPosition[1]]);
+      report.warnings.push({ message: 'The blueprint does not include the scenario schedule; a Manual Trigger was added' });
+      start = { node: triggerName, outputIndex: 0 };
+    }
+    await convertFlow(blueprint.flow, start, false);
+
+    const workflow: N8nWorkflow = {
+      id: randomUUID(),
+      name: blueprint.name || 'Imported Make scenario',
+      active: false,
+      nodes,
+      connections: buildConnections(edges),
+      settings: { executionOrder: 'v1' },
+      pinData: {},
+      tags: []
+    };
+
+    return { workflow, report, validation: await this.validator.validate(workflow) };
+  }
+
+  /**
+   * Register or replace the converter for a Make module identifier (e.g. `slack:CreateMessage`)
+   */
+  addModuleConverter(moduleName: string, converter: ModuleConverter): void {
+    this.converters.set(moduleName, converter);
+  }
+
+  /**
+   * Get Make module identifiers that can be converted
+   */
+  getSupportedModules(): string[] {
+    return Array.from(this.converters.keys());
+  }
+
+  private convertModule(context: ConversionContext): ConvertedModule {
+    const converter = this.converters.get(context.module.module);
+    if (!converter) {
+      return { type: 'n8n-nodes-base.noOp', parameters: {}, label: describeModule(context.module.module) };
+    }
+    return converter(context);
+  }
+
+  /**
+   * Give every module a unique n8n node name up front so formulas can reference any module
+   */
+  private assignNodeNames(modules: MakeModule[]): Map<number, string> {
+    const names = new Map<number, string>();
+    const used = new Set<string>();
+
+    for (const module of modules) {
+      const base = module.metadata?.designer?.name || this.defaultLabel(module);
+      let name = base;
+      for (let suffix = 1; used.has(name); suffix++) name = `${base} ${suffix}`;
+      used.add(name);
+      names.set(module.id, name);
+    }
+
+    return names;
+  }
+
+  private defaultLabel(module: MakeModule): string {
+    const converter = this.converters.get(module.module);
+    if (!converter) return describeModule(module.module);
+
+    // Converters are pure, so a dry run with a silent context yields the label
+    return converter({ module, translate: value => value, warn: () => undefined }).label;
+  }
+
+  /**
+   * Convert a Make filter to IF/Switch filter conditions
+   */
+  private convertFilter(filter: MakeFilter, context: ConversionContext): Record<string, any> {
+    const groups = (filter.conditions || []).filter(group => group.length > 0);
+    let combinator: 'and' | 'or' = 'and';
+    let conditions: MakeCondition[] = groups[0] || [];
+
+    if (groups.length > 1) {
+      if (groups.every(group => group.length === 1)) {
+        combinator = 'or';
+        conditions = groups.map(group => group[0]);
+      } else {
+        context.warn(`Filter "${filter.name || 'unnamed'}" mixes AND and OR groups; only the first group was imported`);
+      }
+    }
+
+    return {
+      options: { caseSensitive: true, leftValue: '', typeValidation: 'loose' },
+      conditions: conditions.map(condition => {
+        let operator = FILTER_OPERATORS[condition.o];
+        if (!operator) {
+          context.warn(`Filter operator "${condition.o}" is not supported; the condition was replaced with an existence check`);
+          operator = FILTER_OPERATORS.exist;
+        }
+        return {
+          id: randomUUID(),
+          leftValue: context.translate(condition.a ?? ''),
+          rightValue: operator.singleValue ? '' : context.translate(condition.b ?? ''),
+          operator: { type: operator.type, operation: operator.operation, ...(operator.singleValue && { singleValue: true }) }
+        };
+      }),
+      combinator
+    };
+  }
+
+  /**
+   * Initialize converters for supported Make modules
+   */
+  private initializeConverters(): void {
+    // HubSpot CRM
+    this.converters.set('hubspotcrm:SearchCRMObjects', ({ module, translate, warn }) => {
+      const mapper = module.mapper || {};
+      const resource = HUBSPOT_OBJECT_TYPES[mapper.objectType] || 'contact';
+      if (mapper.objectType && !HUBSPOT_OBJECT_TYPES[mapper.objectType]) {
+        warn(`HubSpot object type "${mapper.objectType}" is not supported by the n8n HubSpot node; searching contacts instead`);
+      }
+
+      return {
+        type: 'n8n-nodes-base.hubspot',
+        label: `Search HubSpot ${capitalize(mapper.objectType || 'contacts')}`,
+        parameters: {
+          resource,
+          operation: 'search',
+          returnAll: false,
+          limit: Number(mapper.limit) || 100,
+          filterGroupsUi: {
+            filterGroupsValues: (mapper.filter || []).map((group: MakeCondition[]) => ({
+              filtersUi: {
+                filterValues: group.map(condition => ({
+                  propertyName: condition.a,
+                  operator: condition.o,
+                  ...(condition.b !== undefined && condition.b !== '' && { value: translate(condition.b) })
+                }))
+              }
+            }))
+          },
+          additionalFields: {
+            ...(mapper.outputProperties && { properties: mapper.outputProperties }),
+            ...(mapper.sortPropertyName && { sortBy: mapper.sortPropertyName }),
+            ...(mapper.sortDirection && { direction: mapper.sortDirection })
+          }
+        }
+      };
+    });
+
+    this.converters.set('hubspotcrm:getContact', ({ module, translate }) => ({
+      type: 'n8n-nodes-base.hubspot',
+      label: 'Get HubSpot Contact',
+      parameters: {
+        resource: 'contact',
+        operation: 'get',
+        contactId: translate(module.mapper?.contactId ?? ''),
+        additionalFields: {}
+      }
+    }));
+
+    // The n8n HubSpot node can only upsert contacts by email, so updates by ID go through the API
+    this.converters.set('hubspotcrm:updateContact', ({ module, translate }) => {
+      const mapper = module.mapper || {};
+      const properties = (mapper.properties || []).map((property: { key: string; value: any }) => ({
+        key: property.key,
+        value: translate(property.value)
+      }));
+
+      return {
+        type: 'n8n-nodes-base.httpRequest',
+        label: 'Update HubSpot Contact',
+        parameters: {
+          method: 'PATCH',
+          url: joinExpressions(['https://api.hubapi.com/crm/v3/objects/contacts/', translate(mapper.contactId ?? '')]),
+          authentication: 'predefinedCredentialType',
+          nodeCredentialType: 'hubspotAppToken',
+          sendBody: true,
+          specifyBody: 'json',
+          jsonBody: `={{ JSON.stringify({ properties: { ${properties
+            .map((property: { key: string; value: any }) => `${JSON.stringify(property.key)}: ${toJavaScript(property.value)}`)
+            .join(', ')} } }) }}`
+        }
+      };
+    });
+
+    // HTTP
+    const httpConverter: ModuleConverter = ({ module, translate, warn }) => {
+      const mapper = module.mapper || {};
+      const headers = (mapper.headers || []).map((header: any) => ({ name: header.name, value: translate(header.value) }));
+      const query = (mapper.qs || []).map((entry: any) => ({ name: entry.name, value: translate(entry.value) }));
+      const parameters: Record<string, any> = {
+        method: String(mapper.method || 'get').toUpperCase(),
+        url: translate(mapper.url ?? ''),
+        sendHeaders: headers.length > 0,
+        headerParameters: { parameters: headers },
+        sendQuery: query.length > 0,
+        queryParameters: { parameters: query },
+        options: {}
+      };
+
+      if (mapper.data !== undefined && mapper.data !== '') {
+        parameters.sendBody = true;
+        if (mapper.bodyType === 'raw' && /json/i.test(mapper.contentType || '')) {
+          parameters.specifyBody = 'json';
+          parameters.jsonBody = translate(mapper.data);
+        } else {
+          parameters.contentType = 'raw';
+          parameters.rawContentType = mapper.contentType || 'text/plain';
+          parameters.body = translate(mapper.data);
+        }
+      }
+      if (module.module === 'http:ActionGetFile') {
+        parameters.options = { response: { response: { responseFormat: 'file' } } };
+      }
+      if (module.module === 'http:ActionSendDataBasicAuth') {
+        parameters.authentication = 'genericCredentialType';
+        parameters.genericAuthType = 'httpBasicAuth';
+        warn('Basic auth credentials must be created in n8n');
+      }
+
+      return { type: 'n8n-nodes-base.httpRequest', label: 'HTTP Request', parameters };
+    };
+    this.converters.set('http:ActionSendData', httpConverter);
+    this.converters.set('http:ActionSendDataBasicAuth', httpConverter);
+    this.converters.set('http:ActionGetFile', httpConverter);
+
+    // Iterators and aggregators
+    this.converters.set('builtin:BasicFeeder', ({ module, warn }) => {
+      const source = String(module.mapper?.array ?? '');
+      const reference = /^\{\{\s*\d+\.([\w.]+)\s*\}\}$/.exec(source);
+      if (!reference) {
+        warn(`Iterator source "${source}" is not a plain field reference; set "Field To Split Out" manually`);
+      }
+
+      return {
+        type: 'n8n-nodes-base.splitOut',
+        label: 'Iterator',
+        parameters: { fieldToSplitOut: reference ? reference[1] : '' }
+      };
+    });
+
+    // Aggregated items are stored under `array` so Make references like `3.array` keep working
+    this.converters.set('builtin:BasicAggregator', () => ({
+      type: 'n8n-nodes-base.aggregate',
+      label: 'Array Aggregator',
+      parameters: { aggregate: 'aggregateAllItemData', destinationFieldName: 'array' }
+    }));
+
+    // Routers
+    this.converters.set('builtin:BasicRouter', (context) => ({
+      type: 'n8n-nodes-base.switch',
+      label: 'Router',
+      parameters: {
+        rules: {
+          values: (context.module.routes || []).map((route, index) => ({
+            conditions: route.flow[0]?.filter
+              ? this.convertFilter(route.flow[0].filter, context)
+              : {
+                  options: { caseSensitive: true, leftValue: '', typeValidation: 'loose' },
+                  conditions: [{ id: randomUUID(), leftValue: true, rightValue: '', operator: { type: 'boolean', operation: 'true', singleValue: true } }],
+                  combinator: 'and'
+                },
+            renameOutput: true,
+            outputKey: route.flow[0]?.filter?.name || `Route ${index + 1}`
+          }))
+        },
+        // Make sends a bundle down every route whose filter passes
+        options: { allMatchingOutputs: true }
+      }
+    }));
+
+    // Variables
+    const assignment = (name: string, value: any) => ({ id: randomUUID(), name, value, type: 'string' });
+    this.converters.set('util:SetVariables', ({ module, translate }) => ({
+      type: 'n8n-nodes-base.set',
+      label: 'Set Variables',
+      parameters: {
+        assignments: {
+          assignments: (module.mapper?.variables || []).map((variable: any) => assignment(variable.name, translate(variable.value)))
+        }
+      }
+    }));
+
+    const setVariable: ModuleConverter = ({ module, translate }) => ({
+      type: 'n8n-nodes-base.set',
+      label: 'Set Variable',
+      parameters: {
+        assignments: {
+          assignments: [assignment(module.mapper?.name ?? 'value', translate(module.mapper?.value ?? ''))]
+        }
+      }
+    });
+    this.converters.set('util:SetVariable', setVariable);
+    this.converters.set('util:SetVariable2', setVariable);
+
+    // Triggers
+    this.converters.set('gateway:CustomWebHook', ({ warn }) => {
+      warn('Make webhook URLs cannot be migrated; update callers to the new n8n webhook URL');
+      return { type: 'n8n-nodes-base.webhook', label: 'Webhook', parameters: {} };
+    });
+  }
+}
+
+/**
+ * All modules in the blueprint, including those inside router routes
+ */
+function flattenModules(flow: MakeModule[]): MakeModule[] {
+  return flow.flatMap(module => [module, ...(module.routes || []).flatMap(route => flattenModules(route.flow))]);
+}
+
+function modulePosition(module: MakeModule): [number, number] {
+  const designer = module.metadata?.designer;
+  return [designer?.x ?? 0, designer?.y ?? 0];
+}
+
+/**
+ * `mixpanel:querySegmentationReport` -> `Mixpanel Query Segmentation Report`
+ */
+function describeModule(moduleName: string): string {
+  const [app, action = ''] = moduleName.split(':');
+  const words = action.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2');
+  return `${capitalize(app)} ${capitalize(words)}`.trim();
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Turn a translated parameter value into a JavaScript expression
+ */
+function toJavaScript(value: any): string {
+  if (!isExpression(value)) return JSON.stringify(value);
+
+  const segments = tokenizeExpression(value.slice(1));
+  if (segments.length === 1 && segments[0].type === 'code') return `(${segments[0].value.trim()})`;
+  return segments
+    .map(segment => (segment.type === 'code' ? `String(${segment.value.trim()})` : JSON.stringify(segment.value)))
+    .join(' + ');
+}
+
+/**
+ * Concatenate literal text and translated values into a single parameter value
+ */
+function joinExpressions(parts: any[]): string {
+  if (!parts.some(isExpression)) return parts.join('');
+  return `=${parts.map(part => (isExpression(part) ? part.slice(1) : String(part))).join('')}`;
+}
@@ -0,0 +1,488 @@
+/**
+ * Make.com Formula Translator
+ * Converts Make mapping strings such as `{{formatDate(addDays(now; -1); "YYYY-MM-DD")}}`
+ * or `id = {{1.properties.id}}` into n8n expressions. Module references become
+ * `$('Node Name').item.json...` lookups, Make's 1-based array indexes become 0-based,
+ * and date functions are rewritten for Luxon, which n8n exposes as `$now`/`DateTime`.
+ */
+
+export interface FormulaTranslation {
+  /** n8n parameter value: an `=`-prefixed expression, or the input unchanged */
+  value: any;
+  /** True when every formula in the input could be translated */
+  translated: boolean;
+  warnings: string[];
+}
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'module' | 'operator' | 'punctuation';
+  value: string;
+}
+
+interface Emitted {
+  code: string;
+  /** Luxon DateTime values can be chained without re-parsing */
+  kind: 'date' | 'value';
+}
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  or: 1,
+  and: 2,
+  '=': 3, '!=': 3, '<>': 3, '<': 3, '>': 3, '<=': 3, '>=': 3,
+  '+': 4, '-': 4,
+  '*': 5, '/': 5, '%': 5
+};
+
+const DATE_UNITS: Record<string, string> = {
+  addSeconds: 'seconds',
+  addMinutes: 'minutes',
+  addHours: 'hours',
+  addDays: 'days',
+  addMonths: 'months',
+  addYears: 'years'
+};
+
+// Longest tokens first so `YYYY` wins over `YY`
+const MOMENT_TO_LUXON: Array<[string, string]> = [
+  ['YYYY', 'yyyy'], ['YY', 'yy'],
+  ['MMMM', 'MMMM'], ['MMM', 'MMM'], ['MM', 'MM'], ['M', 'M'],
+  ['DDDD', 'ooo'], ['Do', 'd'], ['DD', 'dd'], ['D', 'd'],
+  ['dddd', 'cccc'], ['ddd', 'ccc'],
+  ['HH', 'HH'], ['H', 'H'], ['hh', 'hh'], ['h', 'h'],
+  ['mm', 'mm'], ['m', 'm'], ['ss', 'ss'], ['s', 's'], ['SSS', 'SSS'],
+  ['A', 'a'], ['a', 'a'], ['ZZ', 'ZZZ'], ['Z', 'ZZ'], ['X', 'X'], ['x', 'x']
+];
+
+/**
+ * Translates Make formulas to n8n expressions
+ */
+export class MakeFormulaTranslator {
+  /**
+   * @param moduleNodeNames n8n node name for each Make module id
+   */
+  constructor(private moduleNodeNames: Map<number, string>) {}
+
+  /**
+   * Translate a mapper value. Objects and arrays are translated recursively;
+   * warnings are collected across all nested values.
+   */
+  translateValue(value: any): FormulaTranslation {
+    if (typeof value === 'string') {
+      return this.translateString(value);
+    }
+
+    const warnings: string[] = [];
+    let translated = true;
+    const visit = (entry: any) => {
+      const result = this.translateValue(entry);
+      warnings.push(...result.warnings);
+      translated = translated && result.translated;
+      return result.value;
+    };
+
+    if (Array.isArray(value)) {
+      return { value: value.map(visit), translated, warnings };
+    }
+    if (value && typeof value === 'object') {
+      const output: Record<string, any> = {};
+      for (const [key, entry] of Object.entries(value)) {
+        output[key] = visit(entry);
+      }
+      return { value: output, translated, warnings };
+    }
+    return { value, translated: true, warnings: [] };
+  }
+
+  /**
+   * Translate a string that may contain `{{ ... }}` formula blocks
+   */
+  translateString(input: string): FormulaTranslation {
+    const blocks = [...input.matchAll(/\{\{([\s\S]*?)\}\}/g)];
+    if (blocks.length === 0) {
+      return { value: input, translated: true, warnings: [] };
+    }
+
+    const warnings: string[] = [];
+    let output = '';
+    let position = 0;
+
+    try {
+      for (const block of blocks) {
+        output += input.slice(position, block.index);
+        output += `{{ ${this.translateFormula(block[1], warnings)} }}`;
+        position = block.index! + block[0].length;
+      }
+      output += input.slice(position);
+    } catch (error) {
+      // Leave untranslatable values as literal text so the workflow stays loadable
+      const message = error instanceof Error ? error.message : String(error);
+      return { value: input, translated: false, warnings: [...warnings, `Could not translate "${input}": ${message}`] };
+    }
+
+    return { value: `=${output}`, translated: true, warnings };
+  }
+
+  /**
+   * Translate the inside of one `{{ }}` block to JavaScript
+   */
+  translateFormula(formula: string, warnings: string[] = []): string {
+    const tokens = tokenize(formula);
+    const parser = new FormulaParser(tokens, this.moduleNodeNames, warnings);
+    const result = parser.parseExpression(0);
+    parser.expectEnd();
+    return result.code;
+  }
+}
+
+/**
+ * Convert a Moment.js style format string (used by Make) to Luxon tokens
+ */
+export function momentToLuxonFormat(format: string): string {
+  let output = '';
+  let i = 0;
+
+  while (i < format.length) {
+    if (format[i] === '[') {
+      const end = format.indexOf(']', i);
+      const literal = end === -1 ? format.slice(i + 1) : format.slice(i + 1, end);
+      output += `'${literal.replace(/'/g, "''")}'`;
+      i = end === -1 ? format.length : end + 1;
+      continue;
+    }
+
+    const match = MOMENT_TO_LUXON.find(([moment]) => format.startsWith(moment, i));
+    if (match) {
+      output += match[1];
+      i += match[0].length;
+    } else {
+      // Luxon treats unknown letters as tokens, so quote them
+      output += /[A-Za-z]/.test(format[i]) ? `'${format[i]}'` : format[i];
+      i++;
+    }
+  }
+
+  return output;
+}
+
+// ---------------------------------------------------------------------------
+// Lexer and parser
+// ---------------------------------------------------------------------------
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const rest = formula.slice(i);
+    const char = formula[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const moduleMatch = /^(\d+)\.(?=[A-Za-z_`])/.exec(rest);
+    if (moduleMatch) {
+      tokens.push({ type: 'module', value: moduleMatch[1] });
+      i += moduleMatch[1].length;
+      continue;
+    }
+
+    const numberMatch = /^\d+(?:\.\d+)?/.exec(rest);
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: numberMatch[0] });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    if (char === '"') {
+      let value = '';
+      let j = i + 1;
+      while (j < formula.length && formula[j] !== '"') {
+        value += formula[j] === '\\' && j + 1 < formula.length ? formula[++j] : formula[j];
+        j++;
+      }
+      if (j >= formula.length) throw new Error('Unterminated string literal');
+      tokens.push({ type: 'string', value });
+      i = j + 1;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = formula.indexOf('`', i + 1);
+      if (end === -1) throw new Error('Unterminated backtick name');
+      tokens.push({ type: 'identifier', value: formula.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+
+    const identifierMatch = /^[A-Za-z_][\w]*/.exec(rest);
+    if (identifierMatch) {
+      tokens.push({ type: 'identifier', value: identifierMatch[0] });
+      i += identifierMatch[0].length;
+      continue;
+    }
+
+    const operatorMatch = /^(?:<=|>=|!=|<>|[=<>+\-*/%])/.exec(rest);
+    if (operatorMatch) {
+      tokens.push({ type: 'operator', value: operatorMatch[0] });
+      i += operatorMatch[0].length;
+      continue;
+    }
+
+    if ('();[].'.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char });
+      i++;
+      continue;
+    }
+
+    throw new Error(`Unexpected character "${char}"`);
+  }
+
+  return tokens;
+}
+
+class FormulaParser {
+  private position = 0;
+
+  constructor(
+    private tokens: Token[],
+    private moduleNodeNames: Map<number, string>,
+    private warnings: string[]
+  ) {}
+
+  parseExpression(minPrecedence: number): Emitted {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const operator = token && (token.type === 'operator' || (token.type === 'identifier' && (token.value === 'and' || token.value === 'or')))
+        ? token.value
+        : undefined;
+      const precedence = operator ? BINARY_PRECEDENCE[operator] : undefined;
+      if (!operator || precedence === undefined || precedence < minPrecedence) break;
+
+      this.position++;
+      const right = this.parseExpression(precedence + 1);
+      left = { code: `${left.code} ${this.jsOperator(operator)} ${right.code}`, kind: 'value' };
+    }
+
+    return left;
+  }
+
+  expectEnd(): void {
+    if (this.position < this.tokens.length) {
+      throw new Error(`Unexpected "${this.tokens[this.position].value}"`);
+    }
+  }
+
+  private parseUnary(): Emitted {
+    const token = this.peek();
+    if (token && token.type === 'operator' && token.value === '-') {
+      this.position++;
+      return { code: `-${this.parseUnary().code}`, kind: 'value' };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Emitted {
+    const token = this.next();
+    if (!token) throw new Error('Unexpected end of formula');
+
+    if (token.type === 'number') return { code: token.value, kind: 'value' };
+    if (token.type === 'string') return { code: JSON.stringify(token.value), kind: 'value' };
+
+    if (token.type === 'punctuation' && token.value === '(') {
+      const inner = this.parseExpression(0);
+      this.expect(')');
+      return { code: `(${inner.code})`, kind: inner.kind };
+    }
+
+    if (token.type === 'module') return this.parseModuleReference(Number(token.value));
+
+    if (token.type === 'identifier') {
+      if (this.peek()?.value === '(') {
+        this.position++;
+        const args: Emitted[] = [];
+        if (this.peek()?.value !== ')') {
+          args.push(this.parseExpression(0));
+          while (this.peek()?.value === ';') {
+            this.position++;
+            args.push(this.parseExpression(0));
+          }
+        }
+        this.expect(')');
+        return this.translateFunction(token.value, args);
+      }
+      return this.translateKeyword(token.value);
+    }
+
+    throw new Error(`Unexpected "${token.value}"`);
+  }
+
+  private parseModuleReference(moduleId: number): Emitted {
+    const nodeName = this.moduleNodeNames.get(moduleId);
+    let code: string;
+    if (nodeName) {
+      code = `$('${nodeName.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}').item.json`;
+    } else {
+      this.warnings.push(`Module ${moduleId} is referenced but not part of the blueprint; using the current item instead`);
+      code = '$json';
+    }
+
+    for (;;) {
+      const token = this.peek();
+      if (token?.value === '.' && this.tokens[this.position + 1]?.type === 'identifier') {
+        code += propertyAccess(this.tokens[this.position + 1].value);
+        this.position += 2;
+      } else if (token?.value === '[') {
+        this.position++;
+        const index = this.parseExpression(0);
+        this.expect(']');
+        // Make arrays are 1-based
+        code += /^\d+$/.test(index.code) ? `[${Number(index.code) - 1}]` : `[(${index.code}) - 1]`;
+      } else {
+        break;
+      }
+    }
+
+    return { code, kind: 'value' };
+  }
+
+  private translateKeyword(name: string): Emitted {
+    switch (name) {
+      case 'now':
+        return { code: '$now', kind: 'date' };
+      case 'timestamp':
+        return { code: 'Math.floor($now.toSeconds())', kind: 'value' };
+      case 'true':
+      case 'false':
+      case 'null':
+        return { code: name, kind: 'value' };
+      case 'emptystring':
+        return { code: "''", kind: 'value' };
+      case 'emptyarray':
+        return { code: '[]', kind: 'value' };
+      case 'pi':
+        return { code: 'Math.PI', kind: 'value' };
+      case 'random':
+        return { code: 'Math.random()', kind: 'value' };
+      default:
+        throw new Error(`Unknown variable "${name}"`);
+    }
+  }
+
+  private translateFunction(name: string, args: Emitted[]): Emitted {
+    const [a, b, c] = args.map(arg => arg.code);
+    const value = (code: string): Emitted => ({ code, kind: 'value' });
+
+    if (DATE_UNITS[name]) {
+      return { code: `${asDate(args[0])}.plus({ ${DATE_UNITS[name]}: ${b} })`, kind: 'date' };
+    }
+
+    switch (name) {
+      case 'if':
+        return value(`(${a} ? ${b} : ${c})`);
+      case 'ifempty':
+        return value(`([undefined, null, ''].includes(${a}) ? ${b} : ${a})`);
+      case 'formatDate': {
+        const zoned = c ? `${asDate(args[0])}.setZone(${c})` : asDate(args[0]);
+        return value(`${zoned}.toFormat(${luxonFormatArgument(b)})`);
+      }
+      case 'parseDate':
+        return { code: `DateTime.fromFormat(String(${a}), ${luxonFormatArgument(b)})`, kind: 'date' };
+      case 'length':
+        return value(`(${a}).length`);
+      case 'lower':
+        return value(`String(${a}).toLowerCase()`);
+      case 'upper':
+        return value(`String(${a}).toUpperCase()`);
+      case 'trim':
+        return value(`String(${a}).trim()`);
+      case 'replace':
+        return value(`String(${a}).replaceAll(${b}, ${c})`);
+      case 'contains':
+        return value(`(${a}).includes(${b})`);
+      case 'substring':
+        return value(`String(${a}).substring(${b}${c ? `, ${c}` : ''})`);
+      case 'split':
+        return value(`String(${a}).split(${b})`);
+      case 'join':
+        return value(`(${a}).join(${b})`);
+      case 'first':
+        return value(`(${a})[0]`);
+      case 'last':
+        return value(`(${a})[(${a}).length - 1]`);
+      case 'keys':
+        return value(`Object.keys(${a})`);
+      case 'map':
+        return value(`(${a}).map(entry => entry[${b}])`);
+      case 'parseNumber':
+        return value(`Number(${a})`);
+      case 'toString':
+        return value(`String(${a})`);
+      case 'round':
+        return value(b ? `(Math.round(${a} * 10 ** ${b}) / 10 ** ${b})` : `Math.round(${a})`);
+      case 'floor':
+      case 'ceil':
+      case 'abs':
+        return value(`Math.${name}(${a})`);
+      case 'max':
+      case 'min':
+        return value(`Math.${name}(${args.map(arg => arg.code).join(', ')})`);
+      case 'sum':
+        return value(args.length === 1
+          ? `(${a}).reduce((total, entry) => total + Number(entry), 0)`
+          : `(${args.map(arg => arg.code).join(' + ')})`);
+      default:
+        this.warnings.push(`Function "${name}" has no n8n equivalent and was kept as-is`);
+        return value(`${name}(${args.map(arg => arg.code).join(', ')})`);
+    }
+  }
+
+  private jsOperator(operator: string): string {
+    switch (operator) {
+      case '=':
+        return '==';
+      case '<>':
+        return '!=';
+      case 'and':
+        return '&&';
+      case 'or':
+        return '||';
+      default:
+        return operator;
+    }
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.position++];
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (!token || token.value !== value) {
+      throw new Error(`Expected "${value}" but found ${token ? `"${token.value}"` : 'end of formula'}`);
+    }
+  }
+}
+
+function asDate(argument: Emitted): string {
+  return argument.kind === 'date' ? argument.code : `DateTime.fromISO(String(${argument.code}))`;
+}
+
+function luxonFormatArgument(format: string | undefined): string {
+  if (!format) return "'yyyy-MM-dd'";
+  if (/^"(?:[^"\\]|\\.)*"$/.test(format)) {
+    return JSON.stringify(momentToLuxonFormat(JSON.parse(format)));
+  }
+  return format;
+}
+
+function propertyAccess(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? `.${name}` : `[${JSON.stringify(name)}]`;
+}
@@ -0,0 +1,264 @@
+/**
+ * Offline n8n node type catalog
+ *
+ * Imports the node type descriptions an n8n instance serves from `/types/nodes.json` into a
+ * catalog file, so validation and generation can look up real type versions, connections,
+ * credentials and parameters without a running instance.
+ */
+
+import { readFileSync, writeFileSync, mkdirSync } from 'fs';
+import * as path from 'path';
+import { INodeTypeDescription, INodeCredentialDescription, INodeProperties } from '../types/n8n-api-interfaces.js';
+
+/** Format of catalog files; bumped when a change would make older readers misread them */
+export const NODE_TYPE_CATALOG_VERSION = 1;
+
+/** Where the CLI writes catalogs unless told otherwise */
+export const DEFAULT_NODE_TYPE_CATALOG_PATH = path.join(process.cwd(), '.cache', 'node-type-catalog.json');
+
+/** Environment variable naming the catalog file the validators and generators use by default */
+export const NODE_TYPE_CATALOG_ENV = 'N8N_NODE_TYPE_CATALOG';
+
+export interface NodeTypeCatalogFile {
+  catalogVersion: number;
+  /** n8n version the dump was taken from, when it was given on import */
+  n8nVersion?: string;
+  importedAt: string;
+  nodeTypes: INodeTypeDescription[];
+}
+
+export interface NodeTypeCatalogMetadata {
+  n8nVersion?: string;
+  importedAt?: string;
+}
+
+export interface NodeTypeConnections {
+  inputs: string[];
+  outputs: string[];
+  /** The description computes its connections from the parameters; the lists are empty */
+  dynamic: boolean;
+}
+
+export interface NodeTypeImportResult {
+  catalog: NodeTypeCatalog;
+  /** Dump entries that were left out, with the reason */
+  skipped: Array<{ index: number; name?: string; reason: string }>;
+}
+
+// Description fields the catalog keeps; dumps also carry icons, codex data and UI hints
+const KEPT_FIELDS: Array<keyof INodeTypeDescription> = [
+  'displayName', 'name', 'group', 'version', 'defaultVersion', 'description', 'subtitle', 'defaults',
+  'inputs', 'outputs', 'outputNames', 'properties', 'credentials', 'maxNodes', 'polling', 'webhooks', 'hidden'
+];
+
+export class NodeTypeCatalog {
+  readonly n8nVersion?: string;
+  readonly importedAt?: string;
+  private readonly nodeTypes = new Map<string, INodeTypeDescription[]>();
+
+  constructor(nodeTypes: INodeTypeDescription[] = [], metadata: NodeTypeCatalogMetadata = {}) {
+    this.n8nVersion = metadata.n8nVersion;
+    this.importedAt = metadata.importedAt;
+    for (const description of nodeTypes) {
+      const descriptions = this.nodeTypes.get(description.name) || [];
+      descriptions.push(description);
+      this.nodeTypes.set(description.name, descriptions);
+    }
+  }
+
+  /**
+   * Build a catalog from an n8n node types dump: the array `/types/nodes.json` returns, or a
+   * REST response wrapping it in `data`. Versioned node types appear once per version set.
+   */
+  static fromDump(dump: unknown, metadata: NodeTypeCatalogMetadata = {}): NodeTypeImportResult {
+    const entries = Array.isArray(dump) ? dump : (dump as any)?.data;
+    if (!Array.isArray(entries)) {
+      throw new Error('Node types dump must be an array of node type descriptions');
+    }
+
+    const skipped: NodeTypeImportResult['skipped'] = [];
+    const seen = new Set<string>();
+    const nodeTypes: INodeTypeDescription[] = [];
+
+    entries.forEach((entry, index) => {
+      const reason = checkDescription(entry);
+      if (reason) {
+        skipped.push({ index, name: typeof entry?.name === 'string' ? entry.name : undefined, reason });
+        return;
+      }
+
+      const versions = toVersionList(entry.version);
+      const repeated = versions.filter(version => seen.has(`${entry.name}@${version}`));
+      if (repeated.length) {
+        skipped.push({ index, name: entry.name, reason: `version ${repeated.join(', ')} already imported` });
+        return;
+      }
+      versions.forEach(version => seen.add(`${entry.name}@${version}`));
+
+      const description: Record<string, any> = {};
+      for (const field of KEPT_FIELDS) {
+        if (entry[field] !== undefined) description[field] = entry[field];
+      }
+      nodeTypes.push({ group: [], description: '', defaults: { name: entry.displayName }, inputs: [], outputs: [], properties: [], ...description } as INodeTypeDescription);
+    });
+
+    nodeTypes.sort((a, b) => a.name.localeCompare(b.name) || Math.min(...toVersionList(a.version)) - Math.min(...toVersionList(b.version)));
+    return {
+      catalog: new NodeTypeCatalog(nodeTypes, { ...metadata, importedAt: metadata.importedAt || new Date().toISOString() }),
+      skipped
+    };
+  }
+
+  static fromJSON(file: NodeTypeCatalogFile): NodeTypeCatalog {
+    if (typeof file?.catalogVersion !== 'number' || !Array.isArray(file.nodeTypes)) {
+      throw new Error('Not a node type catalog');
+    }
+    if (file.catalogVersion > NODE_TYPE_CATALOG_VERSION) {
+      throw new Error(`Node type catalog version ${file.catalogVersion} is newer than supported version ${NODE_TYPE_CATALOG_VERSION}; re-import the dump`);
+    }
+    return new NodeTypeCatalog(file.nodeTypes, { n8nVersion: file.n8nVersion, importedAt: file.importedAt });
+  }
+
+  /**
+   * Load a catalog file, or import a raw node types dump directly
+   */
+  static load(file = DEFAULT_NODE_TYPE_CATALOG_PATH): NodeTypeCatalog {
+    const content = JSON.parse(readFileSync(file, 'utf-8'));
+    return typeof content?.catalogVersion === 'number'
+      ? NodeTypeCatalog.fromJSON(content)
+      : NodeTypeCatalog.fromDump(content).catalog;
+  }
+
+  save(file = DEFAULT_NODE_TYPE_CATALOG_PATH): void {
+    mkdirSync(path.dirname(file), { recursive: true });
+    writeFileSync(file, JSON.stringify(this.toJSON(), null, 2) + '\n');
+  }
+
+  toJSON(): NodeTypeCatalogFile {
+    return {
+      catalogVersion: NODE_TYPE_CATALOG_VERSION,
+      ...(this.n8nVersion && { n8nVersion: this.n8nVersion }),
+      importedAt: this.importedAt || new Date().toISOString(),
+      nodeTypes: this.getDescriptions()
+    };
+  }
+
+  get size(): number {
+    return this.nodeTypes.size;
+  }
+
+  has(nodeType: string): boolean {
+    return this.nodeTypes.has(nodeType);
+  }
+
+  getTypes(): string[] {
+    return [...this.nodeTypes.keys()].sort();
+  }
+
+  /**
+   * Every description, one per version set of each node type
+   */
+  getDescriptions(): INodeTypeDescription[] {
+    return [...this.nodeTypes.values()].flat();
+  }
+
+  /**
+   * Type versions n8n knows for the node type, oldest first
+   */
+  getVersions(nodeType: string): number[] {
+    const versions = (this.nodeTypes.get(nodeType) || []).flatMap(description => toVersionList(description.version));
+    return [...new Set(versions)].sort((a, b) => a - b);
+  }
+
+  /**
+   * Version n8n gives new nodes of the type, or null for unknown types
+   */
+  getDefaultVersion(nodeType: string): number | null {
+    const declared = (this.nodeTypes.get(nodeType) || []).find(description => typeof description.defaultVersion === 'number');
+    const versions = this.getVersions(nodeType);
+    return declared?.defaultVersion ?? (versions.length ? versions[versions.length - 1] : null);
+  }
+
+  /**
+   * Description for a type version, or the newest one older than it; the default version when
+   * none is given
+   */
+  getDescription(nodeType: string, version: number | null = this.getDefaultVersion(nodeType)): INodeTypeDescription | null {
+    let best: { description: INodeTypeDescription; version: number } | null = null;
+
+    for (const description of this.nodeTypes.get(nodeType) || []) {
+      for (const candidate of toVersionList(description.version)) {
+        if (candidate === version) return description;
+        if (candidate < version && (!best || candidate > best.version)) {
+          best = { description, version: candidate };
+        }
+      }
+    }
+
+    return best?.description || null;
+  }
+
+  getConnections(nodeType: string, version?: number): NodeTypeConnections | null {
+    const description = this.getDescription(nodeType, version);
+    if (!description) return null;
+
+    const dynamic = typeof description.inputs === 'string' || typeof description.outputs === 'string';
+    const types = (connections: INodeTypeDescription['inputs']) => typeof connections === 'string'
+      ? []
+      : connections.map(connection => typeof connection === 'string' ? connection : connection.type);
+    return { inputs: types(description.inputs), outputs: types(description.outputs), dynamic };
+  }
+
+  getCredentials(nodeType: string, version?: number): INodeCredentialDescription[] {
+    return this.getDescription(nodeType, version)?.credentials || [];
+  }
+
+  getProperties(nodeType: string, version?: number): INodeProperties[] {
+    return this.getDescription(nodeType, version)?.properties || [];
+  }
+}
+
+let defaultCatalog: NodeTypeCatalog | null = null;
+
+/**
+ * Catalog shared by the validators and generators that are not given one: the file named by
+ * `N8N_NODE_TYPE_CATALOG`, or one set with `setDefaultNodeTypeCatalog`. Empty otherwise, or when
+ * the file can't be read, so callers fall back to their built-in tables.
+ */
+export function getDefaultNodeTypeCatalog(): NodeTypeCatalog {
+  if (!defaultCatalog) {
+    defaultCatalog = loadConfiguredCatalog(process.env[NODE_TYPE_CATALOG_ENV]);
+  }
+  return defaultCatalog;
+}
+
+/**
+ * Replace the shared catalog, e.g. with one loaded from another path; `null` reloads the default
+ */
+export function setDefaultNodeTypeCatalog(catalog: NodeTypeCatalog | null): void {
+  defaultCatalog = catalog;
+}
+
+function loadConfiguredCatalog(file: string | undefined): NodeTypeCatalog {
+  if (!file) return new NodeTypeCatalog();
+
+  try {
+    return NodeTypeCatalog.load(file);
+  } catch (error) {
+    console.warn(`Could not load the node type catalog from ${file}, using the built-in node tables: ${error.message}`);
+    return new NodeTypeCatalog();
+  }
+}
+
+function toVersionList(version: number | number[]): number[] {
+  return Array.isArray(version) ? version : [version];
+}
+
+function checkDescription(entry: any): string | null {
+  if (!entry || typeof entry !== 'object') return 'not an object';
+  if (typeof entry.name !== 'string' || !entry.name) return 'missing name';
+  const versions = Array.isArray(entry.version) ? entry.version : [entry.version];
+  if (!versions.length || !versions.every((version: unknown) => typeof version === 'number')) return 'missing or invalid version';
+  if (entry.properties !== undefined && !Array.isArray(entry.properties)) return 'properties is not an array';
+  return null;
+}
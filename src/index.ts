@@ -5,10 +5,66 @@
 
 // Core parser
 export { WorkflowParser } from './parsers/workflow-parser.js';
+export { WorkflowExplainer, type WorkflowExplanation, type ExplanationStep } from './parsers/workflow-explainer.js';
 
 // Generation tools
 export { AIAgent } from './ai-agents/ai-agent.js';
 
+// Model providers
+export {
+  type LLMProvider,
+  type LLMTask,
+  type ProviderConfig,
+  type GenerationOptions
+} from './ai-agents/providers/llm-provider.js';
+export { LLMProviderRegistry, createProvider, type ProviderSelection } from './ai-agents/providers/provider-registry.js';
+export { OllamaProvider } from './ai-agents/providers/ollama-provider.js';
+export { OpenAICompatibleProvider } from './ai-agents/providers/openai-compatible-provider.js';
+export { ReplayProvider } from './ai-agents/providers/replay-provider.js';
+export {
+  REQUIREMENT_ANALYSIS_SCHEMA,
+  WORKFLOW_PLAN_SCHEMA,
+  WORKFLOW_EDIT_SCHEMA,
+  StructuredOutputError,
+  IncrementalJsonParser,
+  parseTolerantJson,
+  parseStructuredResponse,
+  validateJsonSchema,
+  type JsonSchema,
+  type ResponseDiagnostics
+} from './ai-agents/structured-output.js';
+export {
+  WorkflowEditingSession,
+  type WorkflowEditPatch,
+  type WorkflowEditOperation,
+  type PendingEdit,
+  type EditingSessionOptions
+} from './ai-agents/workflow-editing-session.js';
+export { FewShotRetriever, type FewShotExample, type FewShotOptions } from './ai-agents/few-shot-retriever.js';
+export { ContextPacker, estimateTokens, type ContextPackerOptions, type PackedContext } from './ai-agents/context-packer.js';
+export { Cassette, CassetteProvider, attachCassette, type CassetteMode } from './ai-agents/providers/cassette-provider.js';
+export {
+  ModelRouter,
+  ModelRoutingError,
+  DEFAULT_TASK_ROUTES,
+  type ModelCapability,
+  type RoutedModelConfig,
+  type TaskRoute,
+  type RouteAttempt
+} from './ai-agents/model-router.js';
+export { RequestScheduler, RequestCancelledError, type RequestLane, type QueuePosition } from './ai-agents/request-scheduler.js';
+
+// Prompt templates
+export { PromptRegistry, getDefaultPromptRegistry, parsePromptFile, type PromptTemplate, type PromptVariable } from './ai-agents/prompt-registry.js';
+export {
+  PromptEvaluator,
+  loadEvalSuite,
+  formatComparison,
+  type PromptEvalSuite,
+  type PromptCaseResult,
+  type PromptComparison
+} from './ai-agents/prompt-evaluation.js';
+
 // Type definitions
 export {
   type N8nWorkflow,
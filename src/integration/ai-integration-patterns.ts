@@ -8,6 +8,7 @@
 
 import { N8nWorkflow, N8nNode } from '../types/n8n-workflow.js';
 import { IntegrationConfig, N8nLogger, ConsoleLogger } from './integration-patterns.js';
+import { estimateTokens } from '../ai-agents/context-packer.js';
 
 /**
  * AI Integration Configuration
@@ -827,8 +828,8 @@ export const AIUtils = {
    * Estimate tokens in text
    */
   estimateTokens(text: string): number {
-    // Rough estimation: 1 token ≈ 4 characters for English text
-    return Math.ceil(text.length / 4);
+    // Rough estimation: 1 token ≈ 4 characters for English text, more for JSON and code
+    return estimateTokens(text);
   },
 
   /**
@@ -0,0 +1,136 @@
+import { N8nWorkflow, N8nNode } from '../types/n8n-workflow.js';
+import { evaluateTemplate } from '../execution/data-proxy.js';
+import { isExpression, parseExpression, lexExpressionCode, ExpressionReferenceKind } from './expression-parser.js';
+
+/**
+ * Static Expression Evaluator
+ * Resolves expressions whose value is known before the workflow runs, i.e. those that
+ * only read node parameters, workflow metadata and environment variables. Anything
+ * that depends on item data or is non-deterministic is reported as not static.
+ */
+
+export interface StaticEvaluationContext {
+  node: N8nNode;
+  workflow?: N8nWorkflow;
+  /** Environment variables; `$env` references are only static when provided */
+  env?: Record<string, string>;
+}
+
+export interface StaticEvaluationResult {
+  /** True when the value could be determined without running the workflow */
+  isStatic: boolean;
+  value?: any;
+  /** Why the expression is not static, or the evaluation error */
+  reason?: string;
+  error?: string;
+}
+
+const STATIC_KINDS = new Set<ExpressionReferenceKind>(['parameter', 'workflow', 'env']);
+const MAX_PARAMETER_DEPTH = 5;
+
+class NotStaticError extends Error {}
+
+/**
+ * Evaluates n8n expressions without item data
+ */
+export class StaticExpressionEvaluator {
+  /**
+   * Evaluate a parameter value; plain values are returned as-is
+   */
+  evaluate(value: any, context: StaticEvaluationContext): StaticEvaluationResult {
+    return this.evaluateAtDepth(value, context, 0);
+  }
+
+  private evaluateAtDepth(value: any, context: StaticEvaluationContext, depth: number): StaticEvaluationResult {
+    if (!isExpression(value)) {
+      return { isStatic: true, value };
+    }
+
+    const parsed = parseExpression(value);
+    if (parsed.errors.length > 0) {
+      return { isStatic: false, error: parsed.errors[0] };
+    }
+
+    const dynamic = parsed.references.find(reference => !STATIC_KINDS.has(reference.kind));
+    if (dynamic) {
+      return { isStatic: false, reason: `Depends on runtime data (${dynamic.raw})` };
+    }
+    if (!context.env && parsed.references.some(reference => reference.kind === 'env')) {
+      return { isStatic: false, reason: 'Depends on environment variables that were not provided' };
+    }
+
+    const nonDeterministic = parsed.segments
+      .filter(segment => segment.type === 'code')
+      .map(segment => findNonDeterministicCall(segment.value))
+      .find(Boolean);
+    if (nonDeterministic) {
+      return { isStatic: false, reason: `Uses non-deterministic ${nonDeterministic}` };
+    }
+
+    try {
+      const proxy = {
+        $parameter: this.createParameterProxy(context, depth),
+        $workflow: {
+          id: context.workflow?.id,
+          name: context.workflow?.name,
+          active: context.workflow?.active ?? false
+        },
+        $env: { ...(context.env || {}) }
+      };
+      return { isStatic: true, value: evaluateTemplate(value.slice(1), proxy) };
+    } catch (error) {
+      if (error instanceof NotStaticError) {
+        return { isStatic: false, reason: error.message };
+      }
+      return { isStatic: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * `$parameter` view that resolves nested expressions lazily
+   */
+  private createParameterProxy(context: StaticEvaluationContext, depth: number): Record<string, any> {
+    const parameters = context.node.parameters || {};
+
+    return new Proxy({} as Record<string, any>, {
+      get: (_target, name: string | symbol) => {
+        if (typeof name !== 'string') return undefined;
+        const raw = parameters[name];
+        if (!isExpression(raw)) return raw;
+
+        if (depth >= MAX_PARAMETER_DEPTH) {
+          throw new NotStaticError(`Parameter "${name}" references other parameters too deeply`);
+        }
+        const nested = this.evaluateAtDepth(raw, context, depth + 1);
+        if (!nested.isStatic) {
+          throw new NotStaticError(`Parameter "${name}" is not static: ${nested.reason || nested.error}`);
+        }
+        return nested.value;
+      }
+    });
+  }
+}
+
+/**
+ * Detect Math.random(), Date.now() and argument-less `new Date()`
+ */
+function findNonDeterministicCall(code: string): string | undefined {
+  const tokens = lexExpressionCode(code);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const [first, dot, second] = [tokens[i], tokens[i + 1], tokens[i + 2]];
+    if (first.type !== 'identifier') continue;
+
+    if (dot?.value === '.' && second?.type === 'identifier') {
+      if (first.value === 'Math' && second.value === 'random') return 'Math.random()';
+      if (first.value === 'Date' && second.value === 'now') return 'Date.now()';
+      if (first.value === 'crypto' && /^random/.test(second.value)) return `crypto.${second.value}()`;
+    }
+
+    if (first.value === 'new' && dot?.value === 'Date' && second?.value === '(' && tokens[i + 3]?.value === ')') {
+      return 'new Date()';
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,482 @@
+import vm from 'vm';
+
+/**
+ * n8n Expression Parser
+ * Splits `={{ ... }}` parameter values into text and code segments, lexes the
+ * JavaScript inside each block and extracts the data references it makes
+ * ($json.x, $('Node Name').item.json, $node["X"], $parameter["y"], ...).
+ */
+
+export interface ExpressionSegment {
+  type: 'text' | 'code';
+  value: string;
+  /** Offset of the segment in the expression body (after the leading `=`) */
+  start: number;
+  end: number;
+}
+
+export interface ExpressionToken {
+  type: 'identifier' | 'string' | 'number' | 'punctuation' | 'template';
+  value: string;
+  start: number;
+  end: number;
+}
+
+export type ExpressionReferenceKind =
+  | 'node'
+  | 'json'
+  | 'binary'
+  | 'input'
+  | 'parameter'
+  | 'env'
+  | 'vars'
+  | 'workflow'
+  | 'execution'
+  | 'now'
+  | 'today'
+  | 'itemIndex'
+  | 'runIndex'
+  | 'prevNode'
+  | 'other';
+
+/**
+ * A single `$...` reference found in an expression
+ */
+export interface ExpressionReference {
+  kind: ExpressionReferenceKind;
+  /** The `$` identifier the reference starts with, e.g. `$json` or `$` */
+  root: string;
+  /** Referenced node for `$('X')`, `$node["X"]`, `$items("X")` and `$item(i).$node["X"]` */
+  nodeName?: string;
+  /** Member chain after the root (or after the node accessor); calls are suffixed with `()` */
+  path: string[];
+  raw: string;
+}
+
+export interface ParsedExpression {
+  expression: string;
+  segments: ExpressionSegment[];
+  references: ExpressionReference[];
+  errors: string[];
+}
+
+/**
+ * A parameter value that contains an expression
+ */
+export interface ParameterExpression {
+  /** Dotted parameter path, e.g. `options.headers.0.value` */
+  path: string;
+  value: string;
+}
+
+const ROOT_KINDS: Record<string, ExpressionReferenceKind> = {
+  $json: 'json',
+  $binary: 'binary',
+  $input: 'input',
+  $parameter: 'parameter',
+  $env: 'env',
+  $vars: 'vars',
+  $workflow: 'workflow',
+  $execution: 'execution',
+  $now: 'now',
+  $today: 'today',
+  $itemIndex: 'itemIndex',
+  $position: 'itemIndex',
+  $runIndex: 'runIndex',
+  $prevNode: 'prevNode'
+};
+
+/**
+ * Check whether a parameter value is an n8n expression
+ */
+export function isExpression(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith('=');
+}
+
+/**
+ * Parse an expression parameter value (with or without the leading `=`)
+ */
+export function parseExpression(value: string): ParsedExpression {
+  const body = value.startsWith('=') ? value.slice(1) : value;
+  const errors: string[] = [];
+  const references: ExpressionReference[] = [];
+  let segments: ExpressionSegment[] = [];
+
+  try {
+    segments = tokenizeExpression(body);
+  } catch (error) {
+    return { expression: value, segments, references, errors: [error instanceof Error ? error.message : String(error)] };
+  }
+
+  for (const segment of segments.filter(s => s.type === 'code')) {
+    if (segment.value.trim() === '') {
+      errors.push(`Empty expression block at position ${segment.start}`);
+      continue;
+    }
+
+    const syntaxError = checkSyntax(segment.value);
+    if (syntaxError) {
+      errors.push(`Syntax error in {{${segment.value}}}: ${syntaxError}`);
+      continue;
+    }
+
+    references.push(...extractReferences(segment.value));
+  }
+
+  return { expression: value, segments, references, errors };
+}
+
+/**
+ * Split an expression body into literal text and `{{ }}` code blocks.
+ * Braces and `}}` inside string or template literals do not end a block.
+ */
+export function tokenizeExpression(body: string): ExpressionSegment[] {
+  const segments: ExpressionSegment[] = [];
+  let position = 0;
+
+  while (position < body.length) {
+    const open = body.indexOf('{{', position);
+    if (open === -1) {
+      segments.push({ type: 'text', value: body.slice(position), start: position, end: body.length });
+      break;
+    }
+    if (open > position) {
+      segments.push({ type: 'text', value: body.slice(position, open), start: position, end: open });
+    }
+
+    const close = findBlockEnd(body, open + 2);
+    if (close === -1) {
+      throw new Error(`Unterminated expression block starting at position ${open}`);
+    }
+
+    segments.push({ type: 'code', value: body.slice(open + 2, close), start: open, end: close + 2 });
+    position = close + 2;
+  }
+
+  return segments;
+}
+
+/**
+ * Lex the JavaScript inside an expression block.
+ * Template literal placeholders are lexed recursively so their references are not lost.
+ */
+export function lexExpressionCode(code: string, offset: number = 0): ExpressionToken[] {
+  const tokens: ExpressionToken[] = [];
+  let i = 0;
+
+  while (i < code.length) {
+    const char = code[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '/' && code[i + 1] === '/') {
+      const newline = code.indexOf('\n', i);
+      i = newline === -1 ? code.length : newline;
+      continue;
+    }
+
+    if (char === '/' && code[i + 1] === '*') {
+      const endComment = code.indexOf('*/', i + 2);
+      i = endComment === -1 ? code.length : endComment + 2;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(code.slice(i))!;
+      tokens.push({ type: 'identifier', value: match[0], start: offset + i, end: offset + i + match[0].length });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/\d/.test(char) || (char === '.' && /\d/.test(code[i + 1] || ''))) {
+      const match = /^(?:0[xX][\da-fA-F_]+|\d[\d_]*(?:\.\d*)?(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)/.exec(code.slice(i))!;
+      tokens.push({ type: 'number', value: match[0], start: offset + i, end: offset + i + match[0].length });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = skipString(code, i);
+      tokens.push({ type: 'string', value: unescapeString(code.slice(i + 1, end - 1)), start: offset + i, end: offset + end });
+      i = end;
+      continue;
+    }
+
+    if (char === '`') {
+      const start = i;
+      i++;
+      while (i < code.length && code[i] !== '`') {
+        if (code[i] === '\\') {
+          i += 2;
+        } else if (code[i] === '$' && code[i + 1] === '{') {
+          const placeholderEnd = findMatchingBrace(code, i + 1);
+          tokens.push(...lexExpressionCode(code.slice(i + 2, placeholderEnd), offset + i + 2));
+          i = placeholderEnd + 1;
+        } else {
+          i++;
+        }
+      }
+      i++;
+      tokens.push({ type: 'template', value: code.slice(start, i), start: offset + start, end: offset + i });
+      continue;
+    }
+
+    // Optional chaining behaves like member access for reference extraction
+    if (char === '?' && code[i + 1] === '.' && !/\d/.test(code[i + 2] || '')) {
+      tokens.push({ type: 'punctuation', value: '?.', start: offset + i, end: offset + i + 2 });
+      i += 2;
+      continue;
+    }
+
+    tokens.push({ type: 'punctuation', value: char, start: offset + i, end: offset + i + 1 });
+    i++;
+  }
+
+  return tokens;
+}
+
+/**
+ * Extract `$` references from the code of one expression block
+ */
+export function extractReferences(code: string): ExpressionReference[] {
+  const tokens = lexExpressionCode(code);
+  const references: ExpressionReference[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== 'identifier' || !token.value.startsWith('$')) continue;
+
+    const previous = tokens[i - 1];
+    if (previous && previous.type === 'punctuation' && (previous.value === '.' || previous.value === '?.')) continue;
+
+    let next = i + 1;
+    let nodeName: string | undefined;
+    let kind: ExpressionReferenceKind = ROOT_KINDS[token.value] || 'other';
+
+    if (token.value === '$' && isPunctuation(tokens[next], '(')) {
+      nodeName = stringArgument(tokens, next);
+      kind = 'node';
+      next = skipCall(tokens, next);
+    } else if (token.value === '$node') {
+      const accessor = readNodeAccessor(tokens, next);
+      nodeName = accessor.nodeName;
+      next = accessor.next;
+      kind = 'node';
+    } else if (token.value === '$items' && isPunctuation(tokens[next], '(')) {
+      nodeName = stringArgument(tokens, next);
+      kind = nodeName !== undefined ? 'node' : 'input';
+      next = skipCall(tokens, next);
+    } else if (token.value === '$item' && isPunctuation(tokens[next], '(')) {
+      next = skipCall(tokens, next);
+      if (isMemberAccess(tokens[next]) && tokens[next + 1]?.value === '$node') {
+        const accessor = readNodeAccessor(tokens, next + 2);
+        nodeName = accessor.nodeName;
+        next = accessor.next;
+        kind = 'node';
+      }
+    }
+
+    const chain = readMemberChain(tokens, next);
+    const end = chain.next > 0 ? tokens[chain.next - 1].end : token.end;
+    references.push({
+      kind,
+      root: token.value,
+      ...(nodeName !== undefined && { nodeName }),
+      path: chain.path,
+      raw: code.slice(token.start, end)
+    });
+    // Scanning continues inside the chain: member names are skipped, but `$` roots in call arguments are visited
+  }
+
+  return references;
+}
+
+/**
+ * Names of all nodes referenced by an expression
+ */
+export function getReferencedNodeNames(value: string): string[] {
+  const names = parseExpression(value).references
+    .filter(reference => reference.kind === 'node' && reference.nodeName !== undefined)
+    .map(reference => reference.nodeName as string);
+  return [...new Set(names)];
+}
+
+/**
+ * Collect every expression-valued parameter, depth first
+ */
+export function findParameterExpressions(parameters: any, basePath: string = ''): ParameterExpression[] {
+  const found: ParameterExpression[] = [];
+
+  if (isExpression(parameters)) {
+    found.push({ path: basePath, value: parameters });
+  } else if (Array.isArray(parameters)) {
+    parameters.forEach((entry, index) => found.push(...findParameterExpressions(entry, joinPath(basePath, String(index)))));
+  } else if (parameters && typeof parameters === 'object') {
+    for (const [key, entry] of Object.entries(parameters)) {
+      found.push(...findParameterExpressions(entry, joinPath(basePath, key)));
+    }
+  }
+
+  return found;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function findBlockEnd(body: string, start: number): number {
+  let depth = 0;
+  let i = start;
+
+  while (i < body.length) {
+    const char = body[i];
+    if (char === '"' || char === "'" || char === '`') {
+      i = char === '`' ? skipTemplate(body, i) : skipString(body, i);
+      continue;
+    }
+    if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      if (depth === 0 && body[i + 1] === '}') return i;
+      if (depth > 0) depth--;
+    }
+    i++;
+  }
+
+  return -1;
+}
+
+function findMatchingBrace(code: string, openIndex: number): number {
+  let depth = 0;
+  let i = openIndex;
+
+  while (i < code.length) {
+    const char = code[i];
+    if (char === '"' || char === "'" || char === '`') {
+      i = char === '`' ? skipTemplate(code, i) : skipString(code, i);
+      continue;
+    }
+    if (char === '{') depth++;
+    if (char === '}' && --depth === 0) return i;
+    i++;
+  }
+
+  throw new Error('Unterminated template literal placeholder');
+}
+
+/**
+ * Return the index just past the closing quote of the string starting at `start`
+ */
+function skipString(code: string, start: number): number {
+  const quote = code[start];
+  let i = start + 1;
+  while (i < code.length && code[i] !== quote) {
+    i += code[i] === '\\' ? 2 : 1;
+  }
+  if (i >= code.length) throw new Error(`Unterminated string literal at position ${start}`);
+  return i + 1;
+}
+
+function skipTemplate(code: string, start: number): number {
+  let i = start + 1;
+  while (i < code.length && code[i] !== '`') {
+    if (code[i] === '\\') {
+      i += 2;
+    } else if (code[i] === '$' && code[i + 1] === '{') {
+      i = findMatchingBrace(code, i + 1) + 1;
+    } else {
+      i++;
+    }
+  }
+  if (i >= code.length) throw new Error(`Unterminated template literal at position ${start}`);
+  return i + 1;
+}
+
+function unescapeString(content: string): string {
+  return content.replace(/\\(.)/g, (_match, char: string) => ({ n: '\n', t: '\t', r: '\r' }[char] ?? char));
+}
+
+function checkSyntax(code: string): string | undefined {
+  try {
+    new vm.Script(`(${code}\n)`);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+function isPunctuation(token: ExpressionToken | undefined, value: string): boolean {
+  return !!token && token.type === 'punctuation' && token.value === value;
+}
+
+function isMemberAccess(token: ExpressionToken | undefined): boolean {
+  return isPunctuation(token, '.') || isPunctuation(token, '?.');
+}
+
+/**
+ * Read the string literal passed as the first argument of the call opening at `openIndex`
+ */
+function stringArgument(tokens: ExpressionToken[], openIndex: number): string | undefined {
+  const argument = tokens[openIndex + 1];
+  return argument && argument.type === 'string' ? argument.value : undefined;
+}
+
+/**
+ * Return the index just past the `)` matching the `(` at `openIndex`
+ */
+function skipCall(tokens: ExpressionToken[], openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < tokens.length; i++) {
+    if (isPunctuation(tokens[i], '(')) depth++;
+    if (isPunctuation(tokens[i], ')') && --depth === 0) return i + 1;
+  }
+  return tokens.length;
+}
+
+/**
+ * Read `["Name"]` or `.Name` after `$node`
+ */
+function readNodeAccessor(tokens: ExpressionToken[], index: number): { nodeName?: string; next: number } {
+  if (isPunctuation(tokens[index], '[') && tokens[index + 1]?.type === 'string' && isPunctuation(tokens[index + 2], ']')) {
+    return { nodeName: tokens[index + 1].value, next: index + 3 };
+  }
+  if (isMemberAccess(tokens[index]) && tokens[index + 1]?.type === 'identifier') {
+    return { nodeName: tokens[index + 1].value, next: index + 2 };
+  }
+  return { next: index };
+}
+
+function readMemberChain(tokens: ExpressionToken[], index: number): { path: string[]; next: number } {
+  const path: string[] = [];
+  let i = index;
+
+  while (i < tokens.length) {
+    if (isPunctuation(tokens[i], '?.') && (isPunctuation(tokens[i + 1], '[') || isPunctuation(tokens[i + 1], '('))) {
+      i++;
+    } else if (isMemberAccess(tokens[i]) && tokens[i + 1]?.type === 'identifier') {
+      path.push(tokens[i + 1].value);
+      i += 2;
+    } else if (
+      isPunctuation(tokens[i], '[') &&
+      (tokens[i + 1]?.type === 'string' || tokens[i + 1]?.type === 'number') &&
+      isPunctuation(tokens[i + 2], ']')
+    ) {
+      path.push(tokens[i + 1].value);
+      i += 3;
+    } else if (isPunctuation(tokens[i], '(') && path.length > 0) {
+      path[path.length - 1] += '()';
+      i = skipCall(tokens, i);
+    } else {
+      break;
+    }
+  }
+
+  return { path, next: i };
+}
+
+function joinPath(basePath: string, key: string): string {
+  return basePath ? `${basePath}.${key}` : key;
+}
@@ -0,0 +1,539 @@
+import { N8nWorkflow, N8nNode } from '../types/n8n-workflow.js';
+import { ConnectionGraph, ConnectionEdge } from '../utils/connection-graph.js';
+
+/**
+ * What a node does in the flow
+ */
+export type StepRole = 'trigger' | 'action' | 'branch' | 'merge' | 'output';
+
+/**
+ * Outgoing path of a node; `label` is the IF/Switch branch or `on error`
+ */
+export interface ExplainedBranch {
+  label: string;
+  /** Condition that routes items to this branch, when known */
+  condition?: string;
+  targets: string[];
+}
+
+export interface ExplanationStep {
+  /** 1-based position in the narrative */
+  index: number;
+  node: string;
+  type: string;
+  role: StepRole;
+  /** What the node does with its actual parameters */
+  description: string;
+  branches: ExplainedBranch[];
+  /** Where the node writes or sends data */
+  destination?: string;
+  disabled: boolean;
+}
+
+export interface WorkflowExplanation {
+  workflow: string;
+  triggers: string[];
+  steps: ExplanationStep[];
+  /** Nodes the flow ends at */
+  exits: string[];
+  destinations: Array<{ node: string; destination: string }>;
+  /** Nodes no trigger leads to */
+  unreachable: string[];
+}
+
+interface NodeDescription {
+  text: string;
+  destination?: string;
+}
+
+const IF_TYPE = 'n8n-nodes-base.if';
+const SWITCH_TYPE = 'n8n-nodes-base.switch';
+const TRIGGER_TYPES = new Set(['n8n-nodes-base.start', 'n8n-nodes-base.manualTrigger', 'n8n-nodes-base.webhook', 'n8n-nodes-base.cron', 'n8n-nodes-base.formTrigger']);
+const WRITE_OPERATION = /^(create|update|upsert|append|appendOrUpdate|insert|send|post|delete|add|write|upload|executeQuery|sendMessage|sendAndWait)/i;
+const MAX_VALUE_LENGTH = 60;
+
+const OPERATIONS: Record<string, string> = {
+  equal: 'equals',
+  equals: 'equals',
+  notEqual: 'does not equal',
+  notEquals: 'does not equal',
+  contains: 'contains',
+  notContains: 'does not contain',
+  startsWith: 'starts with',
+  notStartsWith: 'does not start with',
+  endsWith: 'ends with',
+  notEndsWith: 'does not end with',
+  regex: 'matches',
+  notRegex: 'does not match',
+  larger: 'is greater than',
+  gt: 'is greater than',
+  largerEqual: 'is at least',
+  gte: 'is at least',
+  smaller: 'is less than',
+  lt: 'is less than',
+  smallerEqual: 'is at most',
+  lte: 'is at most',
+  after: 'is after',
+  before: 'is before',
+  isEmpty: 'is empty',
+  empty: 'is empty',
+  isNotEmpty: 'is not empty',
+  notEmpty: 'is not empty',
+  exists: 'exists',
+  notExists: 'does not exist',
+  true: 'is true',
+  false: 'is false'
+};
+const UNARY_OPERATIONS = new Set(['isEmpty', 'empty', 'isNotEmpty', 'notEmpty', 'exists', 'notExists', 'true', 'false']);
+
+/**
+ * Turns a workflow into a step-by-step narrative, walking the graph from its triggers to its exits
+ */
+export class WorkflowExplainer {
+  /**
+   * Structured explanation; steps follow the flow so every node comes after the nodes feeding it
+   */
+  explain(workflow: N8nWorkflow): WorkflowExplanation {
+    const graph = new ConnectionGraph(workflow);
+    const roots = graph.getRootNodes();
+    const triggers = roots.filter(isTrigger);
+    const starts = triggers.length ? triggers : roots;
+    const order = this.walk(workflow, graph, starts.map(node => node.name));
+    const reached = new Set(order);
+
+    const steps = order.map((name, position) => this.describeStep(graph.getNode(name)!, graph, position + 1));
+    const exits = order.filter(name => graph.getChildren(name).length === 0);
+
+    return {
+      workflow: workflow.name,
+      triggers: triggers.map(node => node.name),
+      steps,
+      exits,
+      destinations: steps.filter(step => step.destination).map(step => ({ node: step.node, destination: step.destination! })),
+      unreachable: workflow.nodes.filter(node => !reached.has(node.name)).map(node => node.name)
+    };
+  }
+
+  /**
+   * Plain-text narrative of an explanation
+   */
+  toText(explanation: WorkflowExplanation): string {
+    const lines = [`Workflow "${explanation.workflow}"`];
+
+    if (explanation.triggers.length === 0) {
+      lines.push('This workflow has no trigger, so it only runs when started from another workflow or by hand.');
+    }
+
+    for (const step of explanation.steps) {
+      let line = `${step.index}. ${step.node}${step.disabled ? ' (disabled)' : ''}: ${step.description}.`;
+      if (step.branches.length) {
+        line += ` ${step.branches.map(formatBranch).join('; ')}.`;
+      }
+      lines.push(line);
+    }
+
+    if (explanation.destinations.length) {
+      lines.push(`Data is written to: ${explanation.destinations.map(entry => `${entry.destination} (${entry.node})`).join('; ')}.`);
+    }
+    if (explanation.exits.length) {
+      lines.push(`The flow ends after: ${explanation.exits.join(', ')}.`);
+    }
+    if (explanation.unreachable.length) {
+      lines.push(`Not reached from any trigger: ${explanation.unreachable.join(', ')}.`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Breadth-first walk from the start nodes in which a node waits for all of its reachable
+   * parents (so Merge nodes come after both branches); cycles are entered at their earliest node
+   */
+  private walk(workflow: N8nWorkflow, graph: ConnectionGraph, starts: string[]): string[] {
+    const reachable = new Set<string>(starts);
+    for (const start of starts) {
+      graph.getDescendants(start).forEach(name => reachable.add(name));
+    }
+
+    const discovery = workflow.nodes.map(node => node.name).filter(name => reachable.has(name));
+    const visited = new Set<string>();
+    const order: string[] = [];
+    const queue = [...starts];
+
+    while (order.length < discovery.length) {
+      const next = queue.shift() ?? discovery.find(name => !visited.has(name))!;
+      if (visited.has(next)) continue;
+
+      visited.add(next);
+      order.push(next);
+      for (const child of graph.getChildren(next)) {
+        const ready = graph.getParents(child).every(parent => visited.has(parent) || !reachable.has(parent));
+        if (ready && !visited.has(child)) queue.push(child);
+      }
+    }
+
+    return order;
+  }
+
+  private describeStep(node: N8nNode, graph: ConnectionGraph, index: number): ExplanationStep {
+    const { text, destination } = describeNode(node);
+    const branches = describeBranches(node, graph.getOutgoing(node.name));
+    const parents = graph.getParents(node.name);
+
+    let role: StepRole = 'action';
+    if (parents.length === 0 && isTrigger(node)) role = 'trigger';
+    else if (node.type === IF_TYPE || node.type === SWITCH_TYPE || node.type === 'n8n-nodes-base.filter') role = 'branch';
+    else if (parents.length > 1) role = 'merge';
+    else if (destination) role = 'output';
+
+    const notes: string[] = [];
+    if (node.retryOnFail) notes.push(`retries up to ${node.maxTries ?? 3} times on failure`);
+    if (node.onError === 'continueRegularOutput' || node.continueOnFail) notes.push('continues even if it fails');
+
+    return {
+      index,
+      node: node.name,
+      type: node.type,
+      role,
+      description: notes.length ? `${text} (${notes.join(', ')})` : text,
+      branches,
+      ...(destination && { destination }),
+      disabled: Boolean(node.disabled)
+    };
+  }
+}
+
+/**
+ * Group outgoing edges by output and label them: IF true/false, Switch rules, error output
+ */
+function describeBranches(node: N8nNode, edges: ConnectionEdge[]): ExplainedBranch[] {
+  const byOutput = new Map<number, string[]>();
+  for (const edge of edges.filter(candidate => candidate.outputType === 'main')) {
+    const targets = byOutput.get(edge.outputIndex) || [];
+    if (!targets.includes(edge.target)) targets.push(edge.target);
+    byOutput.set(edge.outputIndex, targets);
+  }
+
+  const conditions = node.type === IF_TYPE ? [describeConditions(node.parameters.conditions, node.parameters.combineOperation)] : [];
+  const switchRules = node.type === SWITCH_TYPE ? describeSwitchRules(node.parameters) : [];
+  const errorOutput = node.onError === 'continueErrorOutput' ? (node.type === IF_TYPE ? 2 : Math.max(1, switchRules.length)) : -1;
+
+  return [...byOutput.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([output, targets]) => {
+      if (output === errorOutput) return { label: 'on error', targets };
+      if (node.type === IF_TYPE) {
+        return output === 0
+          ? { label: 'if true', condition: conditions[0], targets }
+          : { label: 'otherwise', targets };
+      }
+      if (node.type === SWITCH_TYPE) {
+        const rule = switchRules[output];
+        return rule ? { label: rule.label, condition: rule.condition, targets } : { label: 'fallback', targets };
+      }
+      return { label: output === 0 ? 'next' : `output ${output}`, targets };
+    });
+}
+
+function formatBranch(branch: ExplainedBranch): string {
+  switch (branch.label) {
+    case 'next':
+      return `Then → ${branch.targets.join(', ')}`;
+    case 'if true':
+      return `If true → ${branch.targets.join(', ')}`;
+    case 'otherwise':
+      return `Otherwise → ${branch.targets.join(', ')}`;
+    case 'on error':
+      return `On error → ${branch.targets.join(', ')}`;
+    default:
+      return `${capitalize(branch.label)}${branch.condition ? ` (${branch.condition})` : ''} → ${branch.targets.join(', ')}`;
+  }
+}
+
+/**
+ * Sentence describing what a node does, plus where it writes data
+ */
+function describeNode(node: N8nNode): NodeDescription {
+  const parameters = node.parameters || {};
+  const service = serviceName(node.type);
+
+  switch (node.type) {
+    case 'n8n-nodes-base.start':
+    case 'n8n-nodes-base.manualTrigger':
+      return { text: 'Starts when the workflow is run manually' };
+
+    case 'n8n-nodes-base.webhook':
+      return { text: `Receives ${parameters.httpMethod || 'GET'} requests on /${String(parameters.path || '').replace(/^\//, '')}` };
+
+    case 'n8n-nodes-base.scheduleTrigger':
+      return { text: `Runs ${describeScheduleRule(parameters.rule)}` };
+
+    case 'n8n-nodes-base.cron':
+      return { text: `Runs ${describeCronTimes(parameters.triggerTimes)}` };
+
+    case 'n8n-nodes-base.httpRequest': {
+      const method = String(parameters.method || parameters.requestMethod || 'GET').toUpperCase();
+      const url = formatValue(parameters.url);
+      const writes = ['POST', 'PUT', 'PATCH', 'DELETE'].includes(method);
+      return { text: `Sends a ${method} request to ${url}`, ...(writes && { destination: `HTTP ${method} ${url}` }) };
+    }
+
+    case 'n8n-nodes-base.set': {
+      const fields = setFields(parameters);
+      const keepOnly = parameters.keepOnlySet || parameters.include === 'none';
+      return {
+        text: fields.length
+          ? `Sets ${fields.join(', ')}${keepOnly ? ' and drops all other fields' : ''}`
+          : 'Passes items through without setting any fields'
+      };
+    }
+
+    case 'n8n-nodes-base.code':
+    case 'n8n-nodes-base.function':
+    case 'n8n-nodes-base.functionItem': {
+      const code = String(parameters.jsCode ?? parameters.pythonCode ?? parameters.functionCode ?? '');
+      const language = parameters.language === 'python' || parameters.pythonCode ? 'Python' : 'JavaScript';
+      const lines = code.split('\n').filter(line => line.trim() && !line.trim().startsWith('//')).length;
+      const mode = parameters.mode === 'runOnceForEachItem' || node.type === 'n8n-nodes-base.functionItem' ? ' for each item' : '';
+      return { text: `Runs custom ${language} code${mode} (${lines} line${lines === 1 ? '' : 's'})` };
+    }
+
+    case IF_TYPE:
+      return { text: `Checks whether ${describeConditions(parameters.conditions, parameters.combineOperation)}` };
+
+    case 'n8n-nodes-base.filter':
+      return { text: `Keeps only items where ${describeConditions(parameters.conditions, parameters.combineOperation)}` };
+
+    case SWITCH_TYPE: {
+      const rules = describeSwitchRules(parameters);
+      return { text: rules.length ? `Routes items by ${rules.length} rule${rules.length === 1 ? '' : 's'}` : 'Routes items to different outputs' };
+    }
+
+    case 'n8n-nodes-base.merge':
+      return { text: `Combines the incoming branches (${parameters.mode || 'append'})` };
+
+    case 'n8n-nodes-base.splitInBatches':
+      return { text: `Processes items in batches of ${parameters.batchSize ?? parameters.options?.batchSize ?? 10}` };
+
+    case 'n8n-nodes-base.wait':
+      return { text: parameters.resume && parameters.resume !== 'timeInterval' ? `Waits until ${parameters.resume}` : `Waits ${parameters.amount ?? 1} ${parameters.unit || 'seconds'}` };
+
+    case 'n8n-nodes-base.noOp':
+      return { text: 'Does nothing (placeholder)' };
+
+    case 'n8n-nodes-base.respondToWebhook':
+      return { text: `Responds to the webhook caller${parameters.respondWith ? ` with ${parameters.respondWith}` : ''}` };
+
+    case 'n8n-nodes-base.emailSend': {
+      const to = formatValue(parameters.toEmail);
+      return { text: `Sends an email to ${to}${parameters.subject ? ` with subject ${formatValue(parameters.subject)}` : ''}`, destination: `email to ${to}` };
+    }
+
+    case 'n8n-nodes-base.writeBinaryFile':
+      return { text: `Writes the file ${formatValue(parameters.fileName)}`, destination: `file ${formatValue(parameters.fileName)}` };
+
+    case 'n8n-nodes-base.readBinaryFile':
+      return { text: `Reads the file ${formatValue(parameters.filePath)}` };
+  }
+
+  if (isTrigger(node)) {
+    const event = parameters.event || parameters.events || parameters.triggerOn;
+    return { text: `Starts when ${service} reports ${event ? formatValue(event) : 'a new event'}` };
+  }
+
+  return describeAppNode(service, parameters);
+}
+
+/**
+ * Resource/operation style integration nodes (Slack, Google Sheets, HubSpot, databases, ...)
+ */
+function describeAppNode(service: string, parameters: Record<string, any>): NodeDescription {
+  const operation = parameters.operation as string | undefined;
+  const resource = parameters.resource as string | undefined;
+  const target = [
+    parameters.channel ?? parameters.channelId,
+    parameters.sheetName ?? parameters.range,
+    parameters.table ?? parameters.tableId,
+    parameters.collection,
+    parameters.chatId,
+    parameters.to ?? parameters.toEmail
+  ].find(value => value !== undefined && value !== '');
+  const location = target !== undefined ? ` ${formatValue(target)}` : '';
+
+  if (!operation) {
+    return { text: `Uses ${service}${resource ? ` (${humanize(resource)})` : ''}${location ? ` for${location}` : ''}` };
+  }
+
+  const query = operation === 'executeQuery' && typeof parameters.query === 'string' ? parameters.query.trim() : '';
+  const writes = query ? /^\s*(insert|update|delete|upsert|merge|create)/i.test(query) : WRITE_OPERATION.test(operation);
+  const action = query ? `Runs the query ${formatValue(query)}` : `${capitalize(humanize(operation))}${resource ? ` ${humanize(resource)}` : ''}`;
+
+  return {
+    text: `${action} in ${service}${location ? ` at${location}` : ''}`,
+    ...(writes && { destination: `${service}${resource ? ` ${humanize(resource)}` : ''}${location}` })
+  };
+}
+
+/**
+ * Readable condition list for IF/Filter parameters in both the v1 (`string`/`number`/...) and v2 (`conditions`) layouts
+ */
+function describeConditions(conditions: any, combineOperation?: string): string {
+  if (!conditions || typeof conditions !== 'object') return 'a condition holds';
+
+  let parts: string[] = [];
+  let combinator = combineOperation === 'any' ? 'or' : 'and';
+
+  if (Array.isArray(conditions.conditions)) {
+    parts = conditions.conditions.map((condition: any) => {
+      const operation = condition.operator?.operation ?? 'equals';
+      return formatComparison(condition.leftValue, operation, condition.rightValue);
+    });
+    combinator = conditions.combinator === 'or' ? 'or' : 'and';
+  } else {
+    for (const [dataType, entries] of Object.entries(conditions)) {
+      if (!Array.isArray(entries)) continue;
+      for (const entry of entries as any[]) {
+        const operation = entry.operation ?? (dataType === 'boolean' ? 'equal' : 'equals');
+        parts.push(formatComparison(entry.value1, operation, entry.value2));
+      }
+    }
+  }
+
+  return parts.length ? parts.join(` ${combinator} `) : 'a condition holds';
+}
+
+/**
+ * One entry per Switch output, for rule lists in the v1/v2 (`rules.rules`) and v3 (`rules.values`) layouts
+ */
+function describeSwitchRules(parameters: Record<string, any>): Array<{ label: string; condition: string }> {
+  const rules = parameters.rules || {};
+
+  if (Array.isArray(rules.values)) {
+    return rules.values.map((rule: any, index: number) => ({
+      label: rule.outputKey || `rule ${index + 1}`,
+      condition: describeConditions(rule.conditions)
+    }));
+  }
+
+  if (Array.isArray(rules.rules)) {
+    const outputs: Array<{ label: string; condition: string }> = [];
+    rules.rules.forEach((rule: any, index: number) => {
+      const output = typeof rule.output === 'number' ? rule.output : index;
+      outputs[output] = {
+        label: `rule ${output + 1}`,
+        condition: formatComparison(parameters.value1, rule.operation ?? 'equal', rule.value2)
+      };
+    });
+    return outputs;
+  }
+
+  return [];
+}
+
+function formatComparison(left: any, operation: string, right: any): string {
+  const verb = OPERATIONS[operation] || humanize(operation);
+  return UNARY_OPERATIONS.has(operation)
+    ? `${formatValue(left)} ${verb}`
+    : `${formatValue(left)} ${verb} ${formatValue(right)}`;
+}
+
+function describeScheduleRule(rule: any): string {
+  const interval = rule?.interval?.[0];
+  if (!interval) return 'on a schedule';
+
+  switch (interval.field) {
+    case 'cronExpression':
+      return `on the cron schedule ${interval.expression}`;
+    case 'seconds':
+    case 'minutes':
+    case 'hours':
+    case 'days':
+    case 'weeks':
+    case 'months': {
+      const amount = interval[`${interval.field}Interval`] ?? 1;
+      const unit = amount === 1 ? interval.field.slice(0, -1) : `${amount} ${interval.field}`;
+      const hour = interval.triggerAtHour !== undefined ? ` at ${String(interval.triggerAtHour).padStart(2, '0')}:${String(interval.triggerAtMinute ?? 0).padStart(2, '0')}` : '';
+      return `every ${unit}${hour}`;
+    }
+    default:
+      return 'on a schedule';
+  }
+}
+
+function describeCronTimes(triggerTimes: any): string {
+  const item = triggerTimes?.item?.[0];
+  if (!item) return 'on a schedule';
+
+  const time = item.hour !== undefined ? ` at ${String(item.hour).padStart(2, '0')}:${String(item.minute ?? 0).padStart(2, '0')}` : '';
+  switch (item.mode) {
+    case 'everyMinute': return 'every minute';
+    case 'everyHour': return `every hour${item.minute !== undefined ? ` at minute ${item.minute}` : ''}`;
+    case 'everyDay': return `every day${time}`;
+    case 'everyWeek': return `every week${time}`;
+    case 'everyMonth': return `every month${time}`;
+    case 'custom': return `on the cron schedule ${item.cronExpression}`;
+    default: return 'on a schedule';
+  }
+}
+
+/**
+ * `name = value` pairs for Set nodes in the v3.3 (`assignments`) and older (`values.string` ...) layouts
+ */
+function setFields(parameters: Record<string, any>): string[] {
+  if (Array.isArray(parameters.assignments?.assignments)) {
+    return parameters.assignments.assignments.map((assignment: any) => `${assignment.name} = ${formatValue(assignment.value)}`);
+  }
+  if (parameters.values && typeof parameters.values === 'object') {
+    return Object.values(parameters.values)
+      .filter(Array.isArray)
+      .flat()
+      .map((entry: any) => `${entry.name} = ${formatValue(entry.value)}`);
+  }
+  if (parameters.mode === 'raw' && parameters.jsonOutput) {
+    return [`fields from ${formatValue(parameters.jsonOutput)}`];
+  }
+  return [];
+}
+
+/**
+ * Short display form of a parameter value; expressions are shown without their leading `=`
+ */
+function formatValue(value: any): string {
+  if (value === undefined || value === null || value === '') return '(not set)';
+
+  let text: string;
+  if (typeof value === 'string') {
+    text = value.startsWith('=') ? value.slice(1).trim() : `"${value}"`;
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  text = text.replace(/\s+/g, ' ');
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 3)}...` : text;
+}
+
+function isTrigger(node: N8nNode): boolean {
+  return TRIGGER_TYPES.has(node.type) || /trigger$/i.test(node.type);
+}
+
+/**
+ * `n8n-nodes-base.googleSheets` → `Google Sheets`
+ */
+function serviceName(type: string): string {
+  const name = (type.split('.').pop() || type).replace(/Trigger$/, '');
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(' ')
+    .map(capitalize)
+    .join(' ');
+}
+
+function humanize(text: string): string {
+  return text.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -1,5 +1,6 @@
 import { readFileSync, existsSync } from 'fs';
 import { N8nWorkflow, N8nNode, ParsedWorkflow } from '../types/n8n-workflow.js';
+import { WorkflowExplainer } from './workflow-explainer.js';
 
 /**
  * Main workflow parser for n8n JSON files
@@ -288,4 +289,12 @@ export class WorkflowParser {
 
     return summary;
   }
+
+  /**
+   * Step-by-step narrative of what the workflow does, from its triggers to its exits
+   */
+  generateExplanation(parsedWorkflow: ParsedWorkflow): string {
+    const explainer = new WorkflowExplainer();
+    return explainer.toText(explainer.explain(parsedWorkflow.workflow));
+  }
 } 
\ No newline at end of file
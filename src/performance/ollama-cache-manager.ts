@@ -6,8 +6,11 @@
  */
 
 import crypto from 'crypto';
+import { SemanticCacheConfig, SemanticCacheIndex, SemanticCacheStats, emptySemanticStats } from './semantic-cache.js';
+import { OllamaCacheStore, CacheLogRecord, CacheStoreStats, PersistedCacheEntry, DEFAULT_DISK_CACHE_PATH } from './ollama-cache-store.js';
 
 export interface CacheEntry {
+  prompt: string;
   response: string;
   timestamp: number;
   ttl: number;
@@ -18,6 +21,8 @@ export interface CacheEntry {
   temperature: number;
   topP: number;
   numPredict: number;
+  /** Hint the entry was stored with, kept so the semantic index can be rebuilt from disk */
+  lookup?: CacheLookupOptions;
 }
 
 export interface CacheStats {
@@ -30,6 +35,10 @@ export interface CacheStats {
   totalMisses: number;
   averageResponseTime: number;
   cacheEfficiencyScore: number;
+  /** Lookups answered by the semantic layer; `totalHits`/`totalMisses` count exact matches only */
+  semantic: SemanticCacheStats;
+  /** Append-only log backing the cache, when `persistToDisk` is set */
+  disk: CacheStoreStats | null;
 }
 
 export interface CacheConfig {
@@ -39,7 +48,23 @@ export interface CacheConfig {
   enablePerformanceTracking: boolean;
   compressionEnabled: boolean;
   persistToDisk: boolean;
+  /** Directory for the response log (default: `.cache/ollama`) */
   diskCachePath?: string;
+  /** Size limit for the response log; least recently used entries are evicted past it (default: 100 MB) */
+  maxDiskBytes?: number;
+  /** Serve responses for similar prompts of the listed templates */
+  semantic?: SemanticCacheConfig;
+}
+
+/**
+ * Which prompt a cache lookup is for, so opted-in templates can be matched semantically
+ */
+export interface CacheLookupOptions {
+  /** Prompt template name */
+  template?: string;
+  templateVersion?: number;
+  /** Text compared for similarity, typically the template variables rather than the whole prompt */
+  semanticText?: string;
 }
 
 /**
@@ -55,6 +80,10 @@ export class OllamaCacheManager {
   };
   private cleanupTimer?: NodeJS.Timeout;
   private readonly config: CacheConfig;
+  private semantic?: SemanticCacheIndex;
+  private store?: OllamaCacheStore;
+  private compacting = false;
+  private loaded: Promise<void> = Promise.resolve();
 
   constructor(config?: Partial<CacheConfig>) {
     this.config = {
@@ -67,9 +96,80 @@ export class OllamaCacheManager {
       ...config
     };
 
+    this.configureSemanticCache(this.config.semantic || null);
+    if (this.config.persistToDisk) {
+      this.store = new OllamaCacheStore({
+        directory: this.config.diskCachePath || DEFAULT_DISK_CACHE_PATH,
+        maxBytes: this.config.maxDiskBytes
+      });
+      this.loaded = this.loadFromDisk();
+    }
     this.startCleanupTimer();
   }
 
+  /**
+   * Restore unexpired entries from the disk log, most recently used first up to `maxEntries`
+   */
+  private async loadFromDisk(): Promise<void> {
+    try {
+      const { entries, expired, corrupt } = await this.store!.load();
+      const restored = entries
+        .sort((a, b) => b.entry.lastAccessed - a.entry.lastAccessed)
+        .slice(0, this.config.maxEntries);
+
+      for (const { key, entry } of restored) {
+        await this.remember(key, entry);
+      }
+
+      if (this.config.enablePerformanceTracking) {
+        console.log(`📂 Loaded ${restored.length} cached responses from ${this.store!.filePath} (${expired} expired, ${corrupt} unreadable)`);
+      }
+    } catch (error) {
+      // Start empty but leave the log alone: clearing it would lose every entry for one bad read
+      this.resetMemory();
+      console.warn(`Could not load the Ollama response cache from disk: ${error.message}`);
+    }
+  }
+
+  /**
+   * Bring an entry dropped from memory to stay under `maxEntries` back from the disk log.
+   * Expired entries are returned without being kept, for the caller to delete.
+   */
+  private async restoreFromDisk(key: string): Promise<CacheEntry | undefined> {
+    let persisted: PersistedCacheEntry | null;
+    try {
+      persisted = await this.store!.read(key);
+    } catch (error) {
+      console.warn(`Could not read the Ollama response cache from disk: ${error.message}`);
+      return undefined;
+    }
+    if (!persisted) return undefined;
+
+    if (this.isValidEntry(persisted.entry)) {
+      if (this.cache.size >= this.config.maxEntries) {
+        await this.evictOldestEntries(Math.floor(this.config.maxEntries * 0.1));
+      }
+      await this.remember(key, persisted.entry);
+    }
+    return persisted.entry;
+  }
+
+  private async remember(key: string, entry: CacheEntry): Promise<void> {
+    this.cache.set(key, entry);
+    if (this.usesSemanticLayer(entry.lookup)) {
+      await this.semantic!.add(this.getSemanticScope(entry.lookup!, entry.model, entry.temperature, entry.topP, entry.numPredict), entry.lookup!.semanticText!, key);
+    }
+  }
+
+  /**
+   * Enable, replace or (with null) disable the semantic layer. Replacing it drops the semantic index
+   * but keeps the exact entries.
+   */
+  configureSemanticCache(config: SemanticCacheConfig | null): void {
+    this.config.semantic = config || undefined;
+    this.semantic = config ? new SemanticCacheIndex(config) : undefined;
+  }
+
   /**
    * Generate cache key from prompt parameters
    */
@@ -91,6 +191,23 @@ export class OllamaCacheManager {
     return crypto.createHash('sha256').update(input).digest('hex').substring(0, 16);
   }
 
+  /**
+   * Semantic matches are only made between prompts of the same template version and sampling parameters
+   */
+  private getSemanticScope(
+    lookup: CacheLookupOptions,
+    model: string,
+    temperature: number,
+    topP: number,
+    numPredict: number
+  ): string {
+    return JSON.stringify([lookup.template, lookup.templateVersion ?? null, model, Math.round(temperature * 1000), Math.round(topP * 1000), numPredict]);
+  }
+
+  private usesSemanticLayer(lookup?: CacheLookupOptions): boolean {
+    return Boolean(this.semantic?.isEnabledFor(lookup?.template) && lookup?.semanticText);
+  }
+
   /**
    * Normalize prompt for consistent caching
    */
@@ -107,41 +224,69 @@ export class OllamaCacheManager {
   }
 
   /**
-   * Get cached response if available and valid
+   * Get cached response if available and valid. After an exact miss, prompts of templates
+   * opted in to the semantic layer are answered by the most similar cached prompt, if any.
    */
   async getCachedResponse(
     prompt: string,
     model: string,
     temperature: number = 0.3,
     topP: number = 0.9,
-    numPredict: number = 2000
+    numPredict: number = 2000,
+    lookup?: CacheLookupOptions
   ): Promise<string | null> {
+    await this.loaded;
     const cacheKey = this.generateCacheKey(prompt, model, temperature, topP, numPredict);
-    const entry = this.cache.get(cacheKey);
+    const entry = this.cache.get(cacheKey) ?? (this.store ? await this.restoreFromDisk(cacheKey) : undefined);
 
-    if (!entry) {
+    if (!entry || !this.isValidEntry(entry)) {
+      if (entry) {
+        this.deleteEntry(cacheKey);
+      }
       this.stats.totalMisses++;
-      return null;
+      return this.usesSemanticLayer(lookup)
+        ? this.getSemanticResponse(this.getSemanticScope(lookup!, model, temperature, topP, numPredict), lookup!.semanticText!, model)
+        : null;
     }
 
-    if (!this.isValidEntry(entry)) {
-      this.cache.delete(cacheKey);
-      this.stats.totalMisses++;
+    this.recordHit(cacheKey, entry);
+    this.stats.totalHits++;
+
+    if (this.config.enablePerformanceTracking) {
+      console.log(`🎯 Cache HIT for model ${model} (key: ${cacheKey})`);
+    }
+
+    return entry.response;
+  }
+
+  private async getSemanticResponse(scope: string, text: string, model: string): Promise<string | null> {
+    const match = await this.semantic!.findMatch(scope, text, key => {
+      const candidate = this.cache.get(key);
+      return Boolean(candidate) && this.isValidEntry(candidate!);
+    });
+    if (!match) {
       return null;
     }
 
-    // Update access statistics
-    entry.hitCount++;
-    entry.lastAccessed = Date.now();
-    this.stats.totalHits++;
+    const entry = this.cache.get(match.cacheKey)!;
+    this.recordHit(match.cacheKey, entry);
 
     if (this.config.enablePerformanceTracking) {
-      console.log(`🎯 Cache HIT for model ${model} (key: ${cacheKey})`);
+      console.log(`🧭 Semantic cache HIT for model ${model} (key: ${match.cacheKey}, ${match.method} similarity ${match.similarity.toFixed(2)})`);
     }
 
     return entry.response;
   }
 
+  /**
+   * Update access statistics, on disk too so LRU order survives a restart
+   */
+  private recordHit(key: string, entry: CacheEntry): void {
+    entry.hitCount++;
+    entry.lastAccessed = Date.now();
+    this.persist({ op: 'touch', key, hitCount: entry.hitCount, lastAccessed: entry.lastAccessed });
+  }
+
   /**
    * Store response in cache
    */
@@ -152,8 +297,10 @@ export class OllamaCacheManager {
     temperature: number = 0.3,
     topP: number = 0.9,
     numPredict: number = 2000,
-    customTtl?: number
+    customTtl?: number,
+    lookup?: CacheLookupOptions
   ): Promise<void> {
+    await this.loaded;
     const cacheKey = this.generateCacheKey(prompt, model, temperature, topP, numPredict);
     const now = Date.now();
     const promptHash = crypto.createHash('md5').update(prompt).digest('hex').substring(0, 8);
@@ -164,6 +311,7 @@ export class OllamaCacheManager {
     }
 
     const entry: CacheEntry = {
+      prompt,
       response: this.config.compressionEnabled ? this.compressResponse(response) : response,
       timestamp: now,
       ttl: customTtl || this.config.defaultTtl,
@@ -173,10 +321,12 @@ export class OllamaCacheManager {
       model,
       temperature,
       topP,
-      numPredict
+      numPredict,
+      ...(lookup && { lookup })
     };
 
-    this.cache.set(cacheKey, entry);
+    this.persist({ op: 'set', key: cacheKey, entry });
+    await this.remember(cacheKey, entry);
 
     if (this.config.enablePerformanceTracking) {
       console.log(`💾 Cache STORE for model ${model} (key: ${cacheKey})`);
@@ -192,7 +342,7 @@ export class OllamaCacheManager {
   }
 
   /**
-   * Evict oldest entries to make room
+   * Evict oldest entries from memory to make room. They stay in the disk log.
    */
   private async evictOldestEntries(count: number): Promise<void> {
     const entries = Array.from(this.cache.entries())
@@ -200,7 +350,7 @@ export class OllamaCacheManager {
       .slice(0, count);
 
     for (const [key] of entries) {
-      this.cache.delete(key);
+      this.forgetEntry(key);
     }
 
     if (this.config.enablePerformanceTracking) {
@@ -217,7 +367,7 @@ export class OllamaCacheManager {
 
     for (const [key, entry] of this.cache.entries()) {
       if (!this.isValidEntry(entry)) {
-        this.cache.delete(key);
+        this.deleteEntry(key);
         cleanedCount++;
       }
     }
@@ -227,6 +377,61 @@ export class OllamaCacheManager {
     }
   }
 
+  private deleteEntry(key: string): void {
+    this.forgetEntry(key);
+    this.persist({ op: 'delete', key });
+  }
+
+  private forgetEntry(key: string): void {
+    this.cache.delete(key);
+    this.semantic?.remove(key);
+  }
+
+  /**
+   * Append a record to the disk log, compacting it once enough records are dead
+   */
+  private persist(record: CacheLogRecord): void {
+    if (!this.store) return;
+
+    this.store.append(record).catch(error => console.warn(`Could not write the Ollama response cache to disk: ${error.message}`));
+    if (!this.compacting && this.store.needsCompaction()) {
+      this.compactDiskCache().catch(error => console.warn(`Could not compact the Ollama response cache: ${error.message}`));
+    }
+  }
+
+  /**
+   * Rewrite the disk log with only its live entries, including those no longer held in memory.
+   * Entries evicted to stay under `maxDiskBytes` are dropped from memory too, and their keys returned.
+   */
+  async compactDiskCache(): Promise<string[]> {
+    if (!this.store) return [];
+
+    let evicted: string[];
+    this.compacting = true;
+    try {
+      evicted = await this.store.compact();
+    } finally {
+      this.compacting = false;
+    }
+
+    for (const key of evicted) {
+      this.forgetEntry(key);
+    }
+
+    if (this.config.enablePerformanceTracking) {
+      console.log(`🗜️ Compacted disk cache to ${this.store.getStats().liveEntries} entries${evicted.length ? ` (evicted ${evicted.length})` : ''}`);
+    }
+    return evicted;
+  }
+
+  /**
+   * Wait until the disk log is loaded and all writes have reached it
+   */
+  async flush(): Promise<void> {
+    await this.loaded;
+    await this.store?.flush();
+  }
+
   /**
    * Start cleanup timer
    */
@@ -277,7 +482,9 @@ export class OllamaCacheManager {
       totalHits: this.stats.totalHits,
       totalMisses: this.stats.totalMisses,
       averageResponseTime: Math.round(averageResponseTime * 100) / 100,
-      cacheEfficiencyScore: Math.round(cacheEfficiencyScore * 100) / 100
+      cacheEfficiencyScore: Math.round(cacheEfficiencyScore * 100) / 100,
+      semantic: this.semantic ? this.semantic.getStats() : emptySemanticStats(),
+      disk: this.store ? this.store.getStats() : null
     };
   }
 
@@ -289,6 +496,7 @@ export class OllamaCacheManager {
     
     for (const [key, entry] of this.cache.entries()) {
       totalSize += key.length * 2; // UTF-16 characters
+      totalSize += entry.prompt.length * 2;
       totalSize += entry.response.length * 2;
       totalSize += entry.promptHash.length * 2;
       totalSize += entry.model.length * 2;
@@ -299,20 +507,26 @@ export class OllamaCacheManager {
   }
 
   /**
-   * Clear all cache entries
+   * Clear all cache entries, including those on disk
    */
   clearCache(): void {
+    this.resetMemory();
+    this.persist({ op: 'clear' });
+
+    if (this.config.enablePerformanceTracking) {
+      console.log('🗑️ Cache cleared');
+    }
+  }
+
+  private resetMemory(): void {
     this.cache.clear();
+    this.semantic?.clear();
     this.stats = {
       totalHits: 0,
       totalMisses: 0,
       responseTimeSum: 0,
       responseTimeCount: 0
     };
-
-    if (this.config.enablePerformanceTracking) {
-      console.log('🗑️ Cache cleared');
-    }
   }
 
   /**
@@ -360,16 +574,22 @@ export class OllamaCacheManager {
   }
 
   /**
-   * Dispose of the cache manager
+   * Dispose of the cache manager. Entries on disk are kept for the next start; call `flush`
+   * first to make sure pending writes have landed.
    */
   dispose(): void {
     this.stopCleanupTimer();
-    this.clearCache();
+    if (this.store) {
+      this.resetMemory();
+    } else {
+      this.clearCache();
+    }
   }
 }
 
 /**
- * Global cache manager instance
+ * Global cache manager instance. Set `OLLAMA_CACHE_PERSIST=true` to keep responses across
+ * restarts, and `OLLAMA_CACHE_DIR` to move the log away from `.cache/ollama`.
  */
 export const ollamaCacheManager = new OllamaCacheManager({
   maxEntries: 1000,
@@ -377,5 +597,6 @@ export const ollamaCacheManager = new OllamaCacheManager({
   cleanupInterval: 10 * 60 * 1000, // 10 minutes
   enablePerformanceTracking: true,
   compressionEnabled: true,
-  persistToDisk: false
+  persistToDisk: ['true', '1'].includes((process.env.OLLAMA_CACHE_PERSIST || '').toLowerCase()),
+  ...(process.env.OLLAMA_CACHE_DIR && { diskCachePath: process.env.OLLAMA_CACHE_DIR })
 }); 
\ No newline at end of file
@@ -0,0 +1,326 @@
+/**
+ * Append-only disk log for Ollama cache entries
+ *
+ * Every store, cache hit, delete and clear is appended as one JSON line, so a crash loses at
+ * most the line being written. Compaction writes the live entries to a temporary file and renames
+ * it over the log, which either fully happens or not at all.
+ *
+ * The log holds every entry on disk, which can be more than the manager keeps in memory: entries
+ * the manager drops to stay under `maxEntries` stay in the log until they expire or are evicted
+ * for size, and are read back by key on a memory miss. Only where each entry's line starts is
+ * kept in memory, not the entry itself.
+ */
+
+import { existsSync } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { CacheEntry } from './ollama-cache-manager.js';
+
+export const DEFAULT_DISK_CACHE_PATH = path.join('.cache', 'ollama');
+const LOG_FILE = 'responses.jsonl';
+
+export interface PersistedCacheEntry {
+  key: string;
+  entry: CacheEntry;
+}
+
+export type CacheLogRecord =
+  | ({ op: 'set' } & PersistedCacheEntry)
+  | { op: 'touch'; key: string; hitCount: number; lastAccessed: number }
+  | { op: 'delete'; key: string }
+  | { op: 'clear' };
+
+export interface CacheStoreOptions {
+  /** Directory holding the log */
+  directory: string;
+  /** Live entries beyond this size are evicted, least recently used first, on compaction (default: 100 MB) */
+  maxBytes?: number;
+  /** Compact once the log holds this many times more records than live entries (default: 2) */
+  compactionRatio?: number;
+  /** Never compact logs with fewer records than this (default: 200) */
+  minCompactionRecords?: number;
+}
+
+export interface CacheLoadResult {
+  entries: PersistedCacheEntry[];
+  /** Entries whose TTL ran out while the process was down */
+  expired: number;
+  /** Lines that could not be parsed, e.g. one cut short by a crash */
+  corrupt: number;
+}
+
+export interface CacheStoreStats {
+  filePath: string;
+  sizeBytes: number;
+  records: number;
+  liveEntries: number;
+}
+
+/**
+ * Where an entry's latest `set` line is in the log, with its access statistics since then
+ */
+interface LogLocation {
+  offset: number;
+  length: number;
+  hitCount: number;
+  lastAccessed: number;
+}
+
+/**
+ * Disk log behind `OllamaCacheManager` when `persistToDisk` is set
+ */
+export class OllamaCacheStore {
+  readonly filePath: string;
+  private readonly options: Required<Omit<CacheStoreOptions, 'directory'>>;
+  // Updated as queued writes land, so it always matches the file
+  private readonly index = new Map<string, LogLocation>();
+  private records = 0;
+  private sizeBytes = 0;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: CacheStoreOptions) {
+    this.filePath = path.join(options.directory, LOG_FILE);
+    this.options = {
+      maxBytes: options.maxBytes ?? 100 * 1024 * 1024,
+      compactionRatio: options.compactionRatio ?? 2,
+      minCompactionRecords: options.minCompactionRecords ?? 200
+    };
+  }
+
+  /**
+   * Replay the log into the live entries, dropping expired ones
+   */
+  async load(now = Date.now()): Promise<CacheLoadResult> {
+    await this.writes;
+    // A leftover temporary file means a compaction died before its rename; the log is still intact
+    await fs.rm(this.tempPath(), { force: true });
+
+    const content = existsSync(this.filePath) ? await fs.readFile(this.filePath, 'utf-8') : '';
+    const { live, offsets, records, corrupt } = replayLog(content);
+    this.records = records;
+    this.sizeBytes = Buffer.byteLength(content) + await this.repairLastLine(content);
+
+    const entries = [...live.values()].filter(persisted => now - persisted.entry.timestamp < persisted.entry.ttl);
+    this.index.clear();
+    for (const { key, entry } of entries) {
+      this.index.set(key, { ...offsets.get(key)!, hitCount: entry.hitCount, lastAccessed: entry.lastAccessed });
+    }
+
+    return { entries, expired: live.size - entries.length, corrupt };
+  }
+
+  /**
+   * A crash can leave the last line without its newline, and the next append would run on from
+   * it. Cut an unreadable last line off, or end a readable one. Returns the change in size.
+   */
+  private async repairLastLine(content: string): Promise<number> {
+    if (!content || content.endsWith('\n')) return 0;
+
+    const complete = content.slice(0, content.lastIndexOf('\n') + 1);
+    try {
+      JSON.parse(content.slice(complete.length));
+    } catch {
+      await fs.truncate(this.filePath, Buffer.byteLength(complete));
+      return Buffer.byteLength(complete) - Buffer.byteLength(content);
+    }
+    await fs.appendFile(this.filePath, '\n');
+    return 1;
+  }
+
+  /**
+   * Queue a record; writes are applied in order
+   */
+  append(record: CacheLogRecord): Promise<void> {
+    const line = JSON.stringify(record) + '\n';
+    const length = Buffer.byteLength(line);
+
+    return this.enqueue(async () => {
+      if (record.op === 'clear') {
+        // Nothing before a clear is needed any more
+        await this.writeAtomically(line);
+        this.index.clear();
+        this.records = 1;
+        this.sizeBytes = length;
+        return;
+      }
+
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, line);
+
+      if (record.op === 'set') {
+        this.index.set(record.key, { offset: this.sizeBytes, length, hitCount: record.entry.hitCount, lastAccessed: record.entry.lastAccessed });
+      } else if (record.op === 'touch' && this.index.has(record.key)) {
+        Object.assign(this.index.get(record.key)!, { hitCount: record.hitCount, lastAccessed: record.lastAccessed });
+      } else if (record.op === 'delete') {
+        this.index.delete(record.key);
+      }
+      this.records++;
+      this.sizeBytes += length;
+    });
+  }
+
+  /**
+   * Whether the log has grown enough dead records, or past the size limit, to be worth compacting
+   */
+  needsCompaction(): boolean {
+    if (this.sizeBytes > this.options.maxBytes) return true;
+    return this.records >= this.options.minCompactionRecords
+      && this.records > this.index.size * this.options.compactionRatio;
+  }
+
+  /**
+   * Read one entry back from the log, with the access statistics recorded since it was stored;
+   * null when the log has no live entry for the key
+   */
+  read(key: string): Promise<PersistedCacheEntry | null> {
+    return this.enqueue(async () => {
+      const location = this.index.get(key);
+      if (!location) return null;
+
+      const buffer = Buffer.alloc(location.length);
+      const handle = await fs.open(this.filePath, 'r');
+      try {
+        await handle.read(buffer, 0, location.length, location.offset);
+      } finally {
+        await handle.close();
+      }
+
+      const record: CacheLogRecord = JSON.parse(buffer.toString('utf-8'));
+      if (record.op !== 'set' || record.key !== key) {
+        throw new Error(`Cache log entry for ${key} is not where the index expects it`);
+      }
+      return { key, entry: { ...record.entry, hitCount: location.hitCount, lastAccessed: location.lastAccessed } };
+    });
+  }
+
+  /**
+   * Rewrite the log with only `entries` (by default, the unexpired entries already in the log),
+   * keeping the most recently used ones within `maxBytes`. Returns the keys evicted for size.
+   */
+  compact(entries?: PersistedCacheEntry[], now = Date.now()): Promise<string[]> {
+    return this.enqueue(async () => {
+      if (!entries) {
+        const content = existsSync(this.filePath) ? await fs.readFile(this.filePath, 'utf-8') : '';
+        entries = [...replayLog(content).live.values()].filter(persisted => now - persisted.entry.timestamp < persisted.entry.ttl);
+      }
+
+      const lines: string[] = [];
+      const evicted = new Set<string>();
+      let size = 0;
+
+      for (const persisted of [...entries].sort((a, b) => b.entry.lastAccessed - a.entry.lastAccessed)) {
+        const line = JSON.stringify({ op: 'set', ...persisted }) + '\n';
+        const lineSize = Buffer.byteLength(line);
+        if (size + lineSize > this.options.maxBytes) {
+          evicted.add(persisted.key);
+          continue;
+        }
+        lines.push(line);
+        size += lineSize;
+      }
+
+      // Oldest first, so replaying the log gives the same order as before
+      const content = lines.reverse().join('');
+      await this.writeAtomically(content);
+      this.records = lines.length;
+      this.sizeBytes = size;
+      const written = new Map(entries.map(persisted => [persisted.key, persisted.entry]));
+      this.index.clear();
+      for (const [key, location] of replayLog(content).offsets) {
+        const entry = written.get(key)!;
+        this.index.set(key, { ...location, hitCount: entry.hitCount, lastAccessed: entry.lastAccessed });
+      }
+
+      return [...evicted];
+    });
+  }
+
+  /**
+   * Wait for queued writes
+   */
+  async flush(): Promise<void> {
+    await this.writes;
+  }
+
+  getStats(): CacheStoreStats {
+    return {
+      filePath: this.filePath,
+      sizeBytes: this.sizeBytes,
+      records: this.records,
+      liveEntries: this.index.size
+    };
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(task);
+    // Keep the queue going after a failed write; the caller still sees the error
+    this.writes = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  private async writeAtomically(content: string): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const handle = await fs.open(this.tempPath(), 'w');
+    try {
+      await handle.writeFile(content);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(this.tempPath(), this.filePath);
+  }
+
+  private tempPath(): string {
+    return `${this.filePath}.tmp`;
+  }
+}
+
+/**
+ * Fold the log's records into the entries they leave behind, and where each one's `set` line is,
+ * skipping unreadable lines
+ */
+function replayLog(content: string): {
+  live: Map<string, PersistedCacheEntry>;
+  offsets: Map<string, { offset: number; length: number }>;
+  records: number;
+  corrupt: number;
+} {
+  const live = new Map<string, PersistedCacheEntry>();
+  const offsets = new Map<string, { offset: number; length: number }>();
+  let records = 0;
+  let corrupt = 0;
+  let offset = 0;
+
+  for (const line of content.split('\n')) {
+    const lineOffset = offset;
+    offset += Buffer.byteLength(line) + 1;
+    if (!line.trim()) continue;
+    let record: CacheLogRecord;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      corrupt++;
+      continue;
+    }
+
+    records++;
+    if (record.op === 'set') {
+      live.set(record.key, { key: record.key, entry: record.entry });
+      offsets.set(record.key, { offset: lineOffset, length: Buffer.byteLength(line) + 1 });
+    } else if (record.op === 'touch') {
+      const persisted = live.get(record.key);
+      if (persisted) {
+        persisted.entry.hitCount = record.hitCount;
+        persisted.entry.lastAccessed = record.lastAccessed;
+      }
+    } else if (record.op === 'delete') {
+      live.delete(record.key);
+      offsets.delete(record.key);
+    } else if (record.op === 'clear') {
+      live.clear();
+      offsets.clear();
+    }
+  }
+
+  return { live, offsets, records, corrupt };
+}
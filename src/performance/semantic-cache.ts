@@ -0,0 +1,262 @@
+/**
+ * Semantic layer for the Ollama response cache
+ *
+ * Finds cached responses for prompts that are worded differently but ask for the same thing.
+ * Prompts are normalized and compared by MinHash signatures, or by embeddings from a local
+ * model when one is configured.
+ */
+
+export interface SemanticCacheConfig {
+  /** Prompt templates (by name) whose responses may be served for similar prompts, not just identical ones */
+  templates: string[];
+  /** Minimum estimated Jaccard similarity between MinHash signatures (default: 0.7) */
+  threshold?: number;
+  /** Minimum cosine similarity when both prompts have embeddings (default: 0.92) */
+  embeddingThreshold?: number;
+  /**
+   * Embedding for normalized prompt text, e.g. `text => new OllamaProvider({ model: 'nomic-embed-text' }).embed(text)`.
+   * MinHash signatures are compared when it is not set or fails.
+   */
+  embed?: (text: string) => Promise<number[]>;
+  /** MinHash signature length (default: 64) */
+  numHashes?: number;
+}
+
+export interface SemanticCacheStats {
+  enabled: boolean;
+  templates: string[];
+  indexedEntries: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  /** Hits decided by embedding similarity rather than MinHash */
+  embeddingHits: number;
+  /** Mean similarity of the entries served */
+  averageSimilarity: number;
+}
+
+export interface SemanticMatch {
+  cacheKey: string;
+  similarity: number;
+  method: 'embedding' | 'minhash';
+}
+
+interface IndexedPrompt {
+  cacheKey: string;
+  scope: string;
+  signature: Uint32Array;
+  embedding?: number[];
+}
+
+// Words that carry no meaning on their own and would inflate similarity between unrelated prompts
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'then', 'of', 'in', 'on', 'at', 'by', 'for', 'with', 'from',
+  'into', 'as', 'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that', 'these', 'those',
+  'to', 'i', 'we', 'you', 'my', 'our', 'your', 'me', 'us', 'please', 'can', 'could', 'would', 'should', 'will',
+  'do', 'does', 'need', 'want', 'some', 'any', 'all', 'each', 'every', 'so', 'just'
+]);
+
+/**
+ * Lowercase words without punctuation, stopwords or plural endings
+ */
+export function normalizeForSimilarity(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !STOPWORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+/**
+ * MinHash signature over the word unigrams and bigrams of normalized text, or null when
+ * nothing is left after normalization
+ */
+export function minHashSignature(words: string[], numHashes = 64): Uint32Array | null {
+  const shingles = new Set(words);
+  for (let index = 1; index < words.length; index++) {
+    shingles.add(`${words[index - 1]} ${words[index]}`);
+  }
+  if (!shingles.size) return null;
+
+  const signature = new Uint32Array(numHashes).fill(0xffffffff);
+  for (const shingle of shingles) {
+    // Double hashing derives every hash function from two base hashes
+    const h1 = fnv1a(shingle, 0x811c9dc5);
+    const h2 = fnv1a(shingle, 0x01000193) | 1;
+    for (let index = 0; index < numHashes; index++) {
+      const value = fmix32((h1 + Math.imul(index + 1, h2)) >>> 0);
+      if (value < signature[index]) signature[index] = value;
+    }
+  }
+  return signature;
+}
+
+/**
+ * Share of positions where two signatures agree, which estimates the Jaccard similarity of the shingle sets
+ */
+export function estimateJaccard(a: Uint32Array, b: Uint32Array): number {
+  const length = Math.min(a.length, b.length);
+  if (!length) return 0;
+  let equal = 0;
+  for (let index = 0; index < length; index++) {
+    if (a[index] === b[index]) equal++;
+  }
+  return equal / length;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || !a.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < a.length; index++) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Index of cached prompts by meaning. It only points at exact cache keys, so the response,
+ * TTL and eviction of a semantic hit are those of the exact entry.
+ */
+export class SemanticCacheIndex {
+  private entries = new Map<string, IndexedPrompt>();
+  private stats = { hits: 0, misses: 0, embeddingHits: 0, similaritySum: 0 };
+  private readonly config: Required<Omit<SemanticCacheConfig, 'embed'>> & Pick<SemanticCacheConfig, 'embed'>;
+  private readonly templates: Set<string>;
+  // The embedding computed for a missed lookup is reused when its response is stored
+  private lastEmbedding?: { text: string; vector: number[] };
+
+  constructor(config: SemanticCacheConfig) {
+    this.config = {
+      threshold: 0.7,
+      embeddingThreshold: 0.92,
+      numHashes: 64,
+      ...config
+    };
+    this.templates = new Set(config.templates);
+  }
+
+  isEnabledFor(template?: string): boolean {
+    return Boolean(template) && this.templates.has(template!);
+  }
+
+  /**
+   * Most similar indexed prompt in the same scope above the threshold. `isAvailable` tells whether
+   * the exact entry still exists; entries whose exact entry is gone are dropped.
+   */
+  async findMatch(scope: string, text: string, isAvailable: (cacheKey: string) => boolean): Promise<SemanticMatch | null> {
+    const signature = minHashSignature(normalizeForSimilarity(text), this.config.numHashes);
+    if (!signature) {
+      this.stats.misses++;
+      return null;
+    }
+
+    const embedding = await this.getEmbedding(text);
+    let best: SemanticMatch | null = null;
+
+    for (const entry of this.entries.values()) {
+      if (entry.scope !== scope) continue;
+      if (!isAvailable(entry.cacheKey)) {
+        this.entries.delete(entry.cacheKey);
+        continue;
+      }
+
+      const match: SemanticMatch = embedding && entry.embedding
+        ? { cacheKey: entry.cacheKey, similarity: cosineSimilarity(embedding, entry.embedding), method: 'embedding' }
+        : { cacheKey: entry.cacheKey, similarity: estimateJaccard(signature, entry.signature), method: 'minhash' };
+      const threshold = match.method === 'embedding' ? this.config.embeddingThreshold : this.config.threshold;
+
+      if (match.similarity >= threshold && (!best || match.similarity > best.similarity)) {
+        best = match;
+      }
+    }
+
+    if (!best) {
+      this.stats.misses++;
+      return null;
+    }
+
+    this.stats.hits++;
+    this.stats.similaritySum += best.similarity;
+    if (best.method === 'embedding') this.stats.embeddingHits++;
+    return best;
+  }
+
+  async add(scope: string, text: string, cacheKey: string): Promise<void> {
+    const signature = minHashSignature(normalizeForSimilarity(text), this.config.numHashes);
+    if (!signature) return;
+
+    const embedding = await this.getEmbedding(text);
+    this.entries.set(cacheKey, { cacheKey, scope, signature, ...(embedding && { embedding }) });
+  }
+
+  remove(cacheKey: string): void {
+    this.entries.delete(cacheKey);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.lastEmbedding = undefined;
+    this.stats = { hits: 0, misses: 0, embeddingHits: 0, similaritySum: 0 };
+  }
+
+  getStats(): SemanticCacheStats {
+    const lookups = this.stats.hits + this.stats.misses;
+    return {
+      enabled: true,
+      templates: [...this.templates],
+      indexedEntries: this.entries.size,
+      hits: this.stats.hits,
+      misses: this.stats.misses,
+      hitRate: lookups > 0 ? Math.round((this.stats.hits / lookups) * 10000) / 100 : 0,
+      embeddingHits: this.stats.embeddingHits,
+      averageSimilarity: this.stats.hits > 0 ? Math.round((this.stats.similaritySum / this.stats.hits) * 1000) / 1000 : 0
+    };
+  }
+
+  private async getEmbedding(text: string): Promise<number[] | undefined> {
+    if (!this.config.embed) return undefined;
+
+    const normalized = normalizeForSimilarity(text).join(' ');
+    if (this.lastEmbedding?.text === normalized) return this.lastEmbedding.vector;
+
+    try {
+      const vector = await this.config.embed(normalized);
+      this.lastEmbedding = { text: normalized, vector };
+      return vector;
+    } catch (error) {
+      console.warn('Embedding failed, comparing MinHash signatures instead:', error);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Stats reported when no semantic layer is configured
+ */
+export function emptySemanticStats(): SemanticCacheStats {
+  return { enabled: false, templates: [], indexedEntries: 0, hits: 0, misses: 0, hitRate: 0, embeddingHits: 0, averageSimilarity: 0 };
+}
+
+function fnv1a(text: string, seed: number): number {
+  let hash = seed >>> 0;
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Final avalanche step of MurmurHash3, so nearby inputs give unrelated hash values
+function fmix32(hash: number): number {
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
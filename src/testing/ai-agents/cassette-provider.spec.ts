@@ -0,0 +1,119 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { Cassette, CassetteProvider, attachCassette } = await import('../../ai-agents/providers/cassette-provider.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { LLMProviderRegistry } = await import('../../ai-agents/providers/provider-registry.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ReplayProvider } = await import('../../ai-agents/providers/replay-provider.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { AIAgent } = await import('../../ai-agents/ai-agent.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { StreamingOllamaClient } = await import('../../ai-agents/streaming-ollama-client.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ollamaCacheManager } = await import('../../performance/ollama-cache-manager.ts');
+
+  console.log('\n⚙️  Running Cassette Provider Tests');
+
+  const fixture = path.resolve('src/testing/fixtures/cassettes/ai-agent-pipeline.json');
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassette-'));
+
+  // Live stand-in that fails the test if it is ever called during strict replay
+  const unreachable: any = {
+    type: 'ollama',
+    model: 'deepseek-r1:14b',
+    complete: async () => { throw new Error('live provider called'); },
+    stream: async function* () { throw new Error('live provider called'); }
+  };
+
+  // 1. A recorded session replays through the real analysis and planning parsers
+  const pipelineCassette = new Cassette(fixture);
+  const strictRegistry = attachCassette(new LLMProviderRegistry({ default: unreachable }), pipelineCassette, { mode: 'strict' });
+  const agent = new AIAgent(undefined, undefined, false, strictRegistry);
+  const analysis = await agent.analyzeRequirements({ description: 'Notify Slack when a new HubSpot contact is created', type: 'integration' });
+  assert.deepStrictEqual(analysis.keyComponents, ['webhook trigger', 'message formatting', 'slack notification']);
+  assert.strictEqual(analysis.estimatedComplexity, 3);
+
+  const plan = await agent.planWorkflow(analysis);
+  assert.strictEqual(plan.rationale, 'Linear webhook to Slack notification');
+  assert.deepStrictEqual(plan.nodes.map((node: any) => node.id), ['trigger', 'format', 'notify']);
+  assert.deepStrictEqual(plan.flow.map((c: any) => `${c.from}->${c.to}`), ['trigger->format', 'format->notify']);
+  assert.deepStrictEqual(pipelineCassette.getUnusedInteractions(), []);
+
+  // 2. Strict mode fails on prompts that were never recorded
+  await assert.rejects(() => strictRegistry.forTask('planning').complete({ prompt: 'Something new' }), /Cassette has no recording for default prompt [0-9a-f]+: Something new/);
+
+  // 3. Streams are recorded with their chunks and timing, then replayed chunk for chunk
+  const streamingLive: any = {
+    type: 'ollama',
+    model: 'llama3.2',
+    complete: async () => 'unused',
+    stream: async function* () {
+      yield { content: '{"ok"', done: false };
+      await new Promise(resolve => setTimeout(resolve, 30));
+      yield { content: ': true}', done: false };
+      yield { content: '', done: true, tokens: 4 };
+    }
+  };
+  const streamPath = path.join(tmpDir, 'nested', 'stream.json');
+  const collect = async (client: any, id: string) => {
+    const chunks: any[] = [];
+    for await (const chunk of await client.streamRequest({ id, prompt: 'stream please', task: 'analysis', options: { temperature: 0.1 } })) {
+      chunks.push(chunk);
+    }
+    await client.shutdown();
+    return chunks;
+  };
+
+  const recordingClient = new StreamingOllamaClient({
+    baseUrl: 'http://localhost:11434', model: 'llama3.2', enableBatching: false,
+    providers: attachCassette(new LLMProviderRegistry({ default: streamingLive }), new Cassette(streamPath), { mode: 'record' })
+  });
+  const recordedChunks = await collect(recordingClient, 'rec');
+  assert.strictEqual(recordedChunks.map((c: any) => c.content).join(''), '{"ok": true}');
+
+  const saved = JSON.parse(fs.readFileSync(streamPath, 'utf-8'));
+  assert.strictEqual(saved.interactions.length, 1);
+  const [interaction] = saved.interactions;
+  assert.strictEqual(interaction.response, '{"ok": true}');
+  assert.deepStrictEqual(interaction.options, { temperature: 0.1 });
+  assert.strictEqual(interaction.chunks.length, 3);
+  assert.strictEqual(interaction.chunks[2].tokens, 4);
+  assert.ok(interaction.chunks[1].offsetMs >= 25, 'chunk timing is recorded');
+
+  const replayStart = Date.now();
+  const replayingClient = new StreamingOllamaClient({
+    baseUrl: 'http://localhost:11434', model: 'llama3.2', enableBatching: false,
+    providers: attachCassette(new LLMProviderRegistry({ default: { ...unreachable, model: 'llama3.2' } }), new Cassette(streamPath), { mode: 'strict', realtime: true })
+  });
+  const replayedChunks = await collect(replayingClient, 'replay');
+  assert.deepStrictEqual(replayedChunks.map((c: any) => [c.content, c.done, c.tokens]), recordedChunks.map((c: any) => [c.content, c.done, c.tokens]));
+  assert.ok(Date.now() - replayStart >= 25, 'realtime replay waits between chunks');
+
+  // 4. Replay mode records new prompts; record mode overwrites existing recordings
+  const replayPath = path.join(tmpDir, 'replay.json');
+  let answer = 'first';
+  const live = new ReplayProvider({ model: 'm', entries: [{ prompt: '.*', response: '', match: 'pattern' }] });
+  live.complete = async () => answer;
+
+  const replaying = new CassetteProvider(new Cassette(replayPath), { provider: live, mode: 'replay' });
+  assert.strictEqual(await replaying.complete({ prompt: 'q' }), 'first');
+  answer = 'second';
+  assert.strictEqual(await replaying.complete({ prompt: 'q' }), 'first', 'recorded prompts are replayed');
+  assert.strictEqual(await replaying.complete({ prompt: 'q', options: { temperature: 0.9 } }), 'second', 'sampling options are part of the key');
+
+  const recording = new CassetteProvider(new Cassette(replayPath), { provider: live, mode: 'record' });
+  assert.strictEqual(await recording.complete({ prompt: 'q' }), 'second');
+  const reloaded = new Cassette(replayPath);
+  assert.strictEqual(reloaded.getInteractions().length, 2);
+  assert.strictEqual(await new CassetteProvider(reloaded, { provider: live, mode: 'strict' }).complete({ prompt: 'q' }), 'second');
+  assert.strictEqual(reloaded.getUnusedInteractions().length, 1);
+
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  ollamaCacheManager.dispose();
+  console.log('✅ Cassette provider tests passed');
+})();
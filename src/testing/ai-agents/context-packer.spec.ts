@@ -0,0 +1,88 @@
+import assert from 'assert';
+import { readFileSync } from 'fs';
+import path from 'path';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ContextPacker, estimateTokens } = await import('../../ai-agents/context-packer.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ReplayProvider } = await import('../../ai-agents/providers/replay-provider.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { AIAgent } = await import('../../ai-agents/ai-agent.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ollamaCacheManager } = await import('../../performance/ollama-cache-manager.ts');
+
+  console.log('\n⚙️  Running Context Packer Tests');
+
+  const workflow = JSON.parse(readFileSync(path.join(process.cwd(), 'workflows', 'v2HS-MXP.json'), 'utf-8'));
+  const raw = JSON.stringify(workflow, null, 2);
+
+  // 1. Token estimates charge JSON punctuation more than prose
+  assert.strictEqual(estimateTokens(''), 0);
+  assert.strictEqual(estimateTokens('Hello world, this is a test message'), 9);
+  assert.ok(estimateTokens('{"a":[1,2]}') > Math.ceil('{"a":[1,2]}'.length / 4));
+
+  // 2. A generous budget only strips editor state
+  const roomy = new ContextPacker({ tokenBudget: 5000 }).packWorkflow(workflow);
+  assert.strictEqual(roomy.fits, true);
+  assert.strictEqual(roomy.reductions.length, 1);
+  assert.ok(roomy.tokens < estimateTokens(raw));
+  assert.ok(!roomy.text.includes('"position"'));
+  assert.ok(!roomy.text.includes('pinData'));
+  assert.ok(!roomy.text.includes(workflow.nodes[0].id));
+  const packed = JSON.parse(roomy.text);
+  assert.strictEqual(packed.nodes.length, workflow.nodes.length);
+  assert.ok(packed.connections.includes('Manual Trigger -> Config'));
+  assert.deepStrictEqual(packed.nodes.find((node: any) => node.name === 'Get HubSpot Contacts').credentials, ['hubspotAppToken']);
+
+  // 3. Long Code node bodies are cut by lines
+  const code = packed.nodes.find((node: any) => node.name === 'Prepare HubSpot Updates').parameters.jsCode;
+  assert.strictEqual(code.split('\n').length, 31);
+  assert.ok(/… \d+ more lines$/.test(code));
+
+  // 4. Tight budgets summarize nodes far from the focus
+  const focused = new ContextPacker({ tokenBudget: 600 }).packWorkflow(workflow, ['Prepare HubSpot Updates']);
+  assert.strictEqual(focused.fits, true, `${focused.tokens} tokens`);
+  assert.ok(focused.reductions[focused.reductions.length - 1].startsWith('summarized nodes more than 1 step'));
+  const outline = JSON.parse(focused.text);
+  assert.deepStrictEqual(outline.nodes.map((node: any) => node.name), ['Get Mixpanel Events', 'Prepare HubSpot Updates', 'Update HubSpot Contacts']);
+  assert.deepStrictEqual(focused.summarizedNodes, ['Config', 'Get HubSpot Contacts', 'Filter Valid Mixpanel IDs', 'Get Mixpanel Profile', 'Manual Trigger']);
+  assert.strictEqual(outline.summarized.length, 1);
+  assert.ok(outline.summarized[0].endsWith('(5 nodes: code, manualTrigger, hubspot, if, httpRequest)'), outline.summarized[0]);
+  assert.ok(outline.connections.includes('Get Mixpanel Profile -> Get Mixpanel Events'));
+  assert.ok(!outline.connections.includes('Manual Trigger -> Config'));
+
+  const impossible = new ContextPacker({ tokenBudget: 20 }).packWorkflow(workflow, ['Prepare HubSpot Updates']);
+  assert.strictEqual(impossible.fits, false);
+  assert.strictEqual(impossible.summarizedNodes.length, workflow.nodes.length - 1);
+
+  // 5. Error JSON keeps its shape while stack traces, arrays and embedded workflows shrink
+  const errorData = {
+    message: 'Request failed with status code 401',
+    stack: Array.from({ length: 60 }, (_, index) => `    at step${index} (/app/node_modules/n8n-core/dist/index.js:${index}:1)`).join('\n'),
+    node: { name: 'Get Mixpanel Profile', position: [0, 0] },
+    items: Array.from({ length: 200 }, (_, index) => ({ json: { id: index, profile: { email: `user${index}@example.com` } } })),
+    workflow
+  };
+  const errorContext = new ContextPacker({ tokenBudget: 800 }).packJson(errorData);
+  assert.strictEqual(errorContext.fits, true, `${errorContext.tokens} tokens`);
+  const summary = JSON.parse(errorContext.text);
+  assert.strictEqual(summary.message, errorData.message);
+  assert.deepStrictEqual(summary.node, { name: 'Get Mixpanel Profile' });
+  assert.ok(summary.stack.endsWith('more lines'));
+  assert.ok(summary.items[summary.items.length - 1].endsWith('more items'));
+  assert.ok(summary.workflow.connections.includes('Config -> Get HubSpot Contacts'));
+
+  // 6. Simplification prompts inline the packed workflow around the complex nodes
+  const model = new ReplayProvider({ fallbackResponse: '{"suggestions":[]}' });
+  const agent = new AIAgent(undefined, undefined, false, { default: model }, { contextPacker: new ContextPacker({ tokenBudget: 600 }) });
+  const complexNode = workflow.nodes.find((node: any) => node.name === 'Prepare HubSpot Updates');
+  await agent.suggestSimplifications(workflow, [complexNode], { description: 'Sync Mixpanel page views to HubSpot', type: 'integration' });
+  const prompt = model.getPrompts()[0];
+  assert.ok(prompt.includes(focused.text));
+  assert.ok(prompt.includes('Prepare HubSpot Updates (n8n-nodes-base.code)'));
+  assert.ok(estimateTokens(prompt) < estimateTokens(raw));
+
+  ollamaCacheManager.dispose();
+  console.log('✅ Context packer tests passed');
+})();
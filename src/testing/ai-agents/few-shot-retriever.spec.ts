@@ -0,0 +1,99 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { FewShotRetriever, estimateTokens } = await import('../../ai-agents/few-shot-retriever.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ReplayProvider } = await import('../../ai-agents/providers/replay-provider.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { AIAgent } = await import('../../ai-agents/ai-agent.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ollamaCacheManager } = await import('../../performance/ollama-cache-manager.ts');
+
+  console.log('\n⚙️  Running Few-Shot Retriever Tests');
+
+  const workflow = (id: string, name: string, nodes: Array<[string, string]>, tags: string[] = []): any => ({
+    id,
+    name,
+    nodes: nodes.map(([nodeName, type], index) => ({ id: `${id}-${index}`, name: nodeName, type, typeVersion: 1, position: [0, 0], parameters: {} })),
+    connections: Object.fromEntries(nodes.slice(0, -1).map(([nodeName], index) => [nodeName, { main: [[{ node: nodes[index + 1][0], type: 'main', index: 0 }]] }])),
+    tags: tags.map(tag => ({ id: tag, name: tag }))
+  });
+
+  const retriever = new FewShotRetriever();
+  retriever.addWorkflow(workflow('slack', 'HubSpot contact to Slack', [
+    ['New Contact', 'n8n-nodes-base.hubspotTrigger'], ['Format Message', 'n8n-nodes-base.set'], ['Post to Slack', 'n8n-nodes-base.slack']
+  ], ['crm', 'notifications']), { description: 'Notify the sales channel about new HubSpot contacts' });
+  retriever.addWorkflow(workflow('sheets', 'Sheets nightly export', [
+    ['Every Night', 'n8n-nodes-base.scheduleTrigger'], ['Read Rows', 'n8n-nodes-base.googleSheets'], ['Upload CSV', 'n8n-nodes-base.ftp']
+  ]));
+  retriever.addPattern({
+    id: 'pattern-1',
+    type: 'workflow_pattern',
+    title: 'Webhook to CRM upsert',
+    description: 'Receive form submissions and upsert contacts',
+    tags: ['crm', 'forms'],
+    pattern: {
+      nodes: ['n8n-nodes-base.webhook', 'n8n-nodes-base.hubspot'],
+      connections: [{ from: 'webhook', to: 'hubspot', type: 'main' }],
+      commonUses: ['Lead capture']
+    }
+  } as any);
+
+  // 1. Examples are ranked by keyword relevance, with camelCase node types and plurals folded
+  const results = retriever.retrieve('Send a Slack message when HubSpot gets new contacts');
+  assert.deepStrictEqual(results.map((r: any) => r.example.id), ['slack', 'pattern-1']);
+  assert.ok(results[0].score > results[1].score && results[0].score <= 1);
+  assert.deepStrictEqual(results[0].example.connections, ['New Contact -> Format Message', 'Format Message -> Post to Slack']);
+  assert.deepStrictEqual(retriever.retrieve('google sheets rows').map((r: any) => r.example.id), ['sheets']);
+  assert.deepStrictEqual(retriever.retrieve('the workflow with data'), [], 'stop words alone match nothing');
+
+  // 2. Re-adding an id replaces the entry; removed entries are no longer retrieved
+  retriever.addWorkflow(workflow('sheets', 'Sheets nightly export', [['Every Night', 'n8n-nodes-base.scheduleTrigger'], ['Upload CSV', 'n8n-nodes-base.ftp']]));
+  assert.strictEqual(retriever.size, 3);
+  assert.deepStrictEqual(retriever.retrieve('read google rows'), []);
+  assert.strictEqual(retriever.remove('sheets'), true);
+  assert.strictEqual(retriever.size, 2);
+
+  // 3. Templates and knowledge-base patterns can be bulk loaded
+  const templates: any = {
+    listTemplates: async () => [{ name: 'invoice' }, { name: 'deleted' }],
+    getTemplate: async (name: string) => name === 'invoice'
+      ? { ...workflow('tpl-invoice', 'Invoice reminder', [['Schedule', 'n8n-nodes-base.scheduleTrigger'], ['Send Email', 'n8n-nodes-base.emailSend']]), templateName: 'invoice', templateDescription: 'Email overdue invoices' }
+      : null
+  };
+  assert.strictEqual(await retriever.loadTemplates(templates), 1);
+  assert.strictEqual(retriever.retrieve('overdue invoice email')[0].example.source, 'template');
+  const knowledge: any = { read: async (query: any) => ({ data: query.type === 'workflow_pattern' ? [{ id: 'p2', type: 'workflow_pattern', title: 'RSS digest', description: '', tags: [], pattern: { nodes: ['n8n-nodes-base.rssFeedRead'], connections: [] } }, { id: 'x', type: 'best_practice' }] : [] }) };
+  assert.strictEqual(await retriever.loadPatterns(knowledge), 1);
+
+  // 4. The prompt section keeps to the token budget and skips examples that do not fit
+  const section = retriever.buildPromptSection('HubSpot contacts Slack CRM webhook', { topK: 3 });
+  assert.ok(section.startsWith('Proven workflows similar to this request'));
+  assert.ok(section.includes('Example 1: HubSpot contact to Slack - Notify the sales channel about new HubSpot contacts'));
+  assert.ok(section.includes('Nodes: New Contact (n8n-nodes-base.hubspotTrigger), Format Message (n8n-nodes-base.set), Post to Slack (n8n-nodes-base.slack)'));
+  assert.ok(section.includes('Example 2: Webhook to CRM upsert'));
+
+  const tight = retriever.buildPromptSection('HubSpot contacts Slack CRM webhook', { tokenBudget: 90 });
+  assert.ok(estimateTokens(tight) <= 90);
+  assert.ok(tight.includes('Example 1: Webhook to CRM upsert'), 'the larger example is skipped');
+  assert.strictEqual(retriever.buildPromptSection('HubSpot', { tokenBudget: 10 }), '');
+
+  // 5. AIAgent inlines the examples into its planning prompt
+  const planner = new ReplayProvider({ fallbackResponse: '{}' });
+  const agent = new AIAgent(undefined, undefined, false, { default: planner }, { fewShot: { retriever, topK: 1 } });
+  const originalWarn = console.warn;
+  console.warn = () => undefined;
+  await agent.planWorkflow({
+    workflowType: 'linear', estimatedComplexity: 2, keyComponents: ['hubspot contact'], suggestedNodeTypes: ['n8n-nodes-base.slack'],
+    dataFlow: 'Contact is posted to Slack', potentialChallenges: [], recommendations: []
+  });
+  console.warn = originalWarn;
+  const [prompt] = planner.getPrompts();
+  assert.ok(prompt.includes('Example 1: HubSpot contact to Slack'));
+  assert.ok(!prompt.includes('Example 2'));
+  assert.ok(prompt.indexOf('Example 1') < prompt.indexOf('Create a JSON response'));
+
+  ollamaCacheManager.dispose();
+  console.log('✅ Few-shot retriever tests passed');
+})();
@@ -0,0 +1,138 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ReplayProvider } = await import('../../ai-agents/providers/replay-provider.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { OllamaProvider } = await import('../../ai-agents/providers/ollama-provider.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { OpenAICompatibleProvider } = await import('../../ai-agents/providers/openai-compatible-provider.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { LLMProviderRegistry, createProvider } = await import('../../ai-agents/providers/provider-registry.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { AIAgent } = await import('../../ai-agents/ai-agent.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { StreamingOllamaClient } = await import('../../ai-agents/streaming-ollama-client.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ollamaCacheManager } = await import('../../performance/ollama-cache-manager.ts');
+
+  console.log('\n⚙️  Running LLM Provider Tests');
+
+  // Minimal fetch stand-in: records requests and answers with a JSON body or streamed lines
+  const requests: any[] = [];
+  const fakeFetch = (reply: { json?: any; lines?: string[]; status?: number }): any => async (url: string, init: any) => {
+    requests.push({ url, headers: init.headers, body: JSON.parse(init.body) });
+    const encoded = (reply.lines || []).map(line => new TextEncoder().encode(line));
+    return {
+      ok: (reply.status || 200) < 400,
+      status: reply.status || 200,
+      statusText: reply.status ? 'Server Error' : 'OK',
+      json: async () => reply.json,
+      body: {
+        getReader: () => ({
+          read: async () => encoded.length ? { done: false, value: encoded.shift() } : { done: true, value: undefined },
+          releaseLock: () => undefined
+        })
+      }
+    };
+  };
+  const collect = async (chunks: AsyncGenerator<any>) => {
+    let text = '';
+    for await (const chunk of chunks) text += chunk.content;
+    return text;
+  };
+
+  // 1. Replay provider answers from exact prompts, then patterns, then the fallback
+  const replay = new ReplayProvider({
+    entries: [
+      { prompt: 'ping', response: 'pong' },
+      { prompt: '^Summarize', response: 'summary', match: 'pattern' }
+    ]
+  });
+  assert.strictEqual(await replay.complete({ prompt: 'ping' }), 'pong');
+  assert.strictEqual(await replay.complete({ prompt: 'Summarize this error' }), 'summary');
+  await assert.rejects(() => replay.complete({ prompt: 'unknown' }), /No recorded response for prompt: unknown/);
+  assert.strictEqual(await collect(new ReplayProvider({ fallbackResponse: 'x'.repeat(150) }).stream({ prompt: 'any' })), 'x'.repeat(150));
+  assert.deepStrictEqual(replay.getPrompts(), ['ping', 'Summarize this error', 'unknown']);
+
+  // 2. Ollama provider maps sampling options and parses NDJSON streams
+  const ollama = new OllamaProvider({ baseUrl: 'http://ollama:11434/', model: 'qwen2.5:7b', fetch: fakeFetch({ json: { response: 'done' } }) });
+  assert.strictEqual(await ollama.complete({ prompt: 'hi', system: 'be brief', options: { temperature: 0.1, maxTokens: 50, stop: ['\n'] } }), 'done');
+  assert.strictEqual(requests[0].url, 'http://ollama:11434/api/generate');
+  assert.deepStrictEqual(requests[0].body, {
+    model: 'qwen2.5:7b', prompt: 'hi', system: 'be brief', stream: false, options: { temperature: 0.1, num_predict: 50, stop: ['\n'] }
+  });
+
+  const ollamaStream = new OllamaProvider({ fetch: fakeFetch({ lines: ['{"response":"Hel"}\n{"respo', 'nse":"lo"}\nnot json\n{"response":"","done":true,"eval_count":2}\n'] }) });
+  assert.strictEqual(await collect(ollamaStream.stream({ prompt: 'hi' })), 'Hello');
+  assert.strictEqual(requests[1].body.model, 'deepseek-r1:14b');
+
+  // 3. OpenAI-compatible provider sends chat messages and parses server-sent events
+  const openai = new OpenAICompatibleProvider({
+    baseUrl: 'http://localhost:8080/v1', model: 'local', apiKey: 'secret',
+    fetch: fakeFetch({ json: { choices: [{ message: { content: 'chat reply' } }] } })
+  });
+  assert.strictEqual(await openai.complete({ prompt: 'hi', system: 'sys', options: { topP: 0.5, maxTokens: 10 } }), 'chat reply');
+  assert.strictEqual(requests[2].url, 'http://localhost:8080/v1/chat/completions');
+  assert.strictEqual(requests[2].headers.Authorization, 'Bearer secret');
+  assert.deepStrictEqual(requests[2].body, {
+    model: 'local',
+    messages: [{ role: 'system', content: 'sys' }, { role: 'user', content: 'hi' }],
+    stream: false,
+    top_p: 0.5,
+    max_tokens: 10
+  });
+
+  const sse = new OpenAICompatibleProvider({
+    baseUrl: 'http://localhost:1234', model: 'local',
+    fetch: fakeFetch({ lines: ['data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n', 'data: {"choices":[{"delta":{"content":"A"}}]}\n\ndata: {"choices":[{"delta":{"content":"B"}}]}\n\n', 'data: [DONE]\n\n'] })
+  });
+  assert.strictEqual(await collect(sse.stream({ prompt: 'hi' })), 'AB');
+  assert.strictEqual(requests[3].url, 'http://localhost:1234/v1/chat/completions');
+
+  const failing = new OpenAICompatibleProvider({ baseUrl: 'http://vllm:8000', model: 'm', fetch: fakeFetch({ status: 503 }) });
+  await assert.rejects(() => failing.complete({ prompt: 'hi' }), /OpenAI-compatible API error: 503/);
+  assert.throws(() => new OpenAICompatibleProvider({ baseUrl: '', model: 'm' }), /requires a baseUrl/);
+
+  // 4. The registry picks a provider per task and falls back to the default
+  const planner = new ReplayProvider({ model: 'planner', fallbackResponse: 'not json' });
+  const analyst = new ReplayProvider({ model: 'analyst', fallbackResponse: '{}' });
+  const registry = new LLMProviderRegistry({
+    default: { type: 'replay', model: 'default', fallbackResponse: '' },
+    tasks: { planning: planner, analysis: analyst, errorSummary: { type: 'openai-compatible', baseUrl: 'http://lmstudio:1234', model: 'small' } }
+  });
+  assert.strictEqual(registry.forTask('planning'), planner);
+  assert.strictEqual(registry.forTask('repair').model, 'default');
+  assert.deepStrictEqual(registry.describe(), {
+    default: { type: 'replay', model: 'default' },
+    planning: { type: 'replay', model: 'planner' },
+    analysis: { type: 'replay', model: 'analyst' },
+    errorSummary: { type: 'openai-compatible', model: 'small' }
+  });
+  assert.strictEqual(new LLMProviderRegistry().forTask('analysis').type, 'ollama');
+  assert.throws(() => createProvider({ type: 'bogus' } as any), /Unknown LLM provider type: bogus/);
+
+  // 5. AIAgent routes each pipeline step through its task's provider
+  const agent = new AIAgent('http://localhost:11434', 'deepseek-r1:14b', false, registry);
+  const analysis = await agent.analyzeRequirements({ description: 'Sync new leads into the CRM', type: 'integration' });
+  await agent.planWorkflow(analysis);
+  assert.strictEqual(analyst.getPrompts().length, 1);
+  assert.strictEqual(planner.getPrompts().length, 1);
+  assert.ok(analyst.getPrompts()[0].includes('Sync new leads'));
+  assert.ok(planner.getPrompts()[0].startsWith('Based on the analysis'));
+
+  // 6. The streaming client streams from the request task's provider
+  const client = new StreamingOllamaClient({ baseUrl: 'http://localhost:11434', model: 'unused', enableBatching: false, providers: registry });
+  const stream = await client.streamRequest({ id: 'plan-1', prompt: 'plan it', task: 'planning' });
+  let streamed = '';
+  for await (const chunk of stream) {
+    streamed += chunk.content;
+    assert.strictEqual(chunk.id, 'plan-1');
+  }
+  assert.strictEqual(streamed, 'not json');
+  assert.strictEqual(client.getMetrics().activeRequests, 0);
+  await client.shutdown();
+
+  ollamaCacheManager.dispose();
+  console.log('✅ LLM provider tests passed');
+})();
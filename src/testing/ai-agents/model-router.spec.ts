@@ -0,0 +1,89 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ModelRouter, ModelRoutingError } = await import('../../ai-agents/model-router.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ReplayProvider } = await import('../../ai-agents/providers/replay-provider.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { AIAgent } = await import('../../ai-agents/ai-agent.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { OllamaCacheManager, ollamaCacheManager } = await import('../../performance/ollama-cache-manager.ts');
+
+  console.log('\n⚙️  Running Model Router Tests');
+
+  const analysis = '{"workflowType":"linear","estimatedComplexity":3,"keyComponents":["slack"],"suggestedNodeTypes":["n8n-nodes-base.slack"],"dataFlow":"sheet to slack"}';
+  const failing = (model: string, message = 'connect ECONNREFUSED 127.0.0.1:11434'): any => ({
+    type: 'ollama',
+    model,
+    complete: async () => { throw new Error(message); },
+    stream: async function* () { throw new Error(message); }
+  });
+  const models = (large: any, small: any): any[] => [
+    { provider: large, capabilities: ['reasoning', 'structured-output', 'code', 'summarization'], expectedLatencyMs: 30000, quality: 14 },
+    { provider: small, capabilities: ['structured-output', 'summarization'], expectedLatencyMs: 2000, quality: 3 }
+  ];
+
+  // 1. Tasks are routed by capability, latency budget and preference
+  const router = new ModelRouter({
+    models: models(new ReplayProvider({ model: 'large', fallbackResponse: analysis }), new ReplayProvider({ model: 'small', fallbackResponse: 'Summary' }))
+  });
+  const order = (task: any) => router.route(task).map((provider: any) => provider.model);
+  assert.deepStrictEqual(order('planning'), ['large', 'small']);
+  assert.deepStrictEqual(order('errorSummary'), ['small', 'large']);
+  assert.deepStrictEqual(order('analysis'), ['large', 'small']);
+
+  const summary = await router.complete('errorSummary', { prompt: 'Summarize this error' });
+  assert.deepStrictEqual([summary.response, summary.model, summary.attempts.length], ['Summary', 'small', 1]);
+
+  // 2. A failing primary is retried on the secondary, so the agent gets a real plan instead of the fallback
+  const small = new ReplayProvider({ model: 'small', fallbackResponse: analysis });
+  const cascade = new ModelRouter({ models: models(failing('large'), small) });
+  const agent = new AIAgent(undefined, undefined, false, cascade.toRegistry());
+  const result = await agent.analyzeRequirements({ description: 'Post new sheet rows to Slack', type: 'integration' });
+  assert.deepStrictEqual(result.keyComponents, ['slack']);
+  assert.strictEqual(small.getPrompts().length, 1);
+  assert.strictEqual(agent.getProviders().forTask('analysis').model, 'large');
+
+  // 3. Output that doesn't parse against the schema counts as a failure too
+  const rambling = new ReplayProvider({ model: 'large', fallbackResponse: 'Let me think about this workflow...' });
+  const strict = new ModelRouter({ models: models(rambling, new ReplayProvider({ model: 'small', fallbackResponse: analysis })) });
+  const routed = await strict.complete('analysis', { prompt: 'Analyze', schema: { type: 'object', required: ['workflowType'] } });
+  assert.strictEqual(routed.model, 'small');
+  assert.strictEqual(routed.attempts[0].success, false);
+  assert.ok(routed.attempts[0].error!.startsWith('unusable output (no-json)'));
+
+  // Per-model success rates are recorded in the AI performance monitor
+  const stats = strict.getModelStats();
+  assert.deepStrictEqual(stats.map((entry: any) => [entry.model, entry.calls, entry.successRate]), [['large', 1, 0], ['small', 1, 1]]);
+  assert.strictEqual(strict.getMonitor().getAIMetrics('replay', 'large').errorRate, 1);
+
+  // 4. When every model fails the error lists each attempt, and the agent falls back as before
+  const broken = new ModelRouter({ models: models(failing('large'), failing('small', 'model not found')) });
+  await assert.rejects(() => broken.complete('planning', { prompt: 'Plan' }), (error: any) =>
+    error instanceof ModelRoutingError && error.attempts.length === 2 && /small \(model not found\)/.test(error.message)
+  );
+  const fallback = await new AIAgent(undefined, undefined, false, broken.toRegistry()).analyzeRequirements({ description: 'Anything', type: 'custom' });
+  assert.deepStrictEqual(fallback.keyComponents, []);
+
+  // 5. Models that keep failing are tried last once enough calls are tracked
+  const flaky = new ModelRouter({ models: models(failing('large'), new ReplayProvider({ model: 'small', fallbackResponse: 'ok' })), minTrackedCalls: 2 });
+  for (let index = 0; index < 2; index++) await flaky.complete('planning', { prompt: 'Plan' });
+  assert.deepStrictEqual(flaky.route('planning').map((provider: any) => provider.model), ['small', 'large']);
+
+  // 6. Streams move to the next model only if nothing was produced yet
+  const streamed: string[] = [];
+  for await (const chunk of cascade.stream('planning', { prompt: 'Plan' })) streamed.push(chunk.content);
+  assert.strictEqual(streamed.join(''), analysis);
+
+  // 7. Answers from the secondary are cached under the secondary, not the primary that failed
+  const cache = new OllamaCacheManager({ enablePerformanceTracking: false });
+  const cached = new AIAgent(undefined, undefined, true, new ModelRouter({ models: models(failing('large'), new ReplayProvider({ model: 'small', fallbackResponse: 'Summary' })) }).toRegistry(), { cache });
+  assert.strictEqual(await cached.complete('Summarize this error', 'planning'), 'Summary');
+  assert.deepStrictEqual(cache.getCacheEntries().map(({ entry }: any) => entry.model), ['small']);
+  assert.strictEqual(await cache.getCachedResponse('Summarize this error', 'large'), null);
+  cache.dispose();
+
+  ollamaCacheManager.dispose();
+  console.log('✅ Model router tests passed');
+})();
@@ -0,0 +1,138 @@
+import assert from 'assert';
+import os from 'os';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { PromptRegistry, parsePromptFile, DEFAULT_PROMPTS_DIR } = await import('../../ai-agents/prompt-registry.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { PromptEvaluator, loadEvalSuite, formatComparison } = await import('../../ai-agents/prompt-evaluation.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ReplayProvider } = await import('../../ai-agents/providers/replay-provider.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { AIAgent } = await import('../../ai-agents/ai-agent.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ollamaCacheManager } = await import('../../performance/ollama-cache-manager.ts');
+
+  console.log('\n⚙️  Running Prompt Registry Tests');
+
+  // 1. Prompt files declare a name, version and typed variables
+  const parsed = parsePromptFile([
+    '---',
+    'name: greeting',
+    'version: 2',
+    'task: explanation',
+    'variables:',
+    '  person: string - Who to greet',
+    '  count?: number',
+    '---',
+    'Hello {{ person }}, you have {{count}} messages.',
+    ''
+  ].join('\n'), 'greeting.v2.prompt');
+  assert.strictEqual(parsed.name, 'greeting');
+  assert.strictEqual(parsed.version, 2);
+  assert.deepStrictEqual(parsed.variables, {
+    person: { type: 'string', required: true, description: 'Who to greet' },
+    count: { type: 'number', required: false }
+  });
+  assert.strictEqual(parsed.template, 'Hello {{ person }}, you have {{count}} messages.');
+  assert.throws(() => parsePromptFile('no header'), /missing --- header/);
+  assert.throws(() => parsePromptFile('---\nname: x\nversion: 1\nvariables:\n  a: date\n---\n{{a}}'), /invalid variable declaration/);
+
+  // 2. Placeholders and declarations must agree, and versions are unique
+  const registry = new PromptRegistry();
+  registry.register(parsed);
+  assert.throws(() => registry.register({ ...parsed, version: 3, template: 'Hi {{name}}' }), /undeclared placeholders: name; unused variables: person, count/);
+  assert.throws(() => registry.register(parsed), /already registered/);
+
+  // 3. Rendering checks variables against the schema
+  assert.strictEqual(registry.render('greeting', { person: 'Ada', count: 3 }), 'Hello Ada, you have 3 messages.');
+  assert.strictEqual(registry.render('greeting', { person: 'Ada' }), 'Hello Ada, you have  messages.');
+  assert.throws(
+    () => registry.render('greeting', { count: '3', extra: true }),
+    /Invalid variables for prompt greeting v2: missing required variable "person"; variable "count" should be number but is string; unknown variable "extra"/
+  );
+  assert.throws(() => registry.get('farewell'), /Template 'farewell' not found/);
+
+  // 4. The latest version is active unless pinned; clones pin independently
+  registry.register({ ...parsed, version: 1, template: 'Hi {{person}} ({{count}})' });
+  assert.deepStrictEqual(registry.versions('greeting'), [1, 2]);
+  assert.strictEqual(registry.getActiveVersion('greeting'), 2);
+  const pinned = registry.clone();
+  pinned.setActiveVersion('greeting', 1);
+  assert.strictEqual(pinned.render('greeting', { person: 'Ada', count: 1 }), 'Hi Ada (1)');
+  assert.strictEqual(registry.getActiveVersion('greeting'), 2);
+  assert.throws(() => pinned.setActiveVersion('greeting', 5), /has no version 5 \(available: 1, 2\)/);
+
+  // 5. Bundled prompts load and drive the agent's prompt builders
+  const bundled = PromptRegistry.load();
+  assert.deepStrictEqual(bundled.list().map((template: any) => template.name), ['analysis', 'explanation', 'planning', 'simplification']);
+  const agent = new AIAgent(undefined, undefined, false, { default: new ReplayProvider() });
+  const requirements: any = { description: 'Sync orders to a sheet', type: 'integration', steps: ['Fetch', 'Append'] };
+  const analysisPrompt = bundled.render('analysis', agent.getAnalysisPromptVariables(requirements));
+  assert.ok(analysisPrompt.includes('Sync orders to a sheet'));
+  assert.ok(analysisPrompt.includes('Steps: Fetch, Append'));
+  assert.throws(() => bundled.render('analysis', { requirements }), /missing required variable "description"/);
+
+  // 6. The evaluator scores two planning versions on a suite with the validators
+  const planningV1 = bundled.get('planning', 1);
+  bundled.register({ ...planningV1, version: 2, template: `Use only nodes from the list.\n${planningV1.template}` });
+  const analysis = JSON.stringify({ workflowType: 'linear', estimatedComplexity: 2, keyComponents: ['webhook', 'http'], suggestedNodeTypes: ['n8n-nodes-base.webhook'], dataFlow: 'webhook -> http' });
+  const plan = (url: string) => JSON.stringify({
+    nodes: [
+      { id: 'trigger', name: 'Webhook', type: 'n8n-nodes-base.webhook', parameters: { path: 'in' }, description: '' },
+      { id: 'call', name: 'Call API', type: 'n8n-nodes-base.httpRequest', parameters: { url }, description: '' }
+    ],
+    flow: [{ from: 'trigger', to: 'call', type: 'main' }],
+    estimatedComplexity: 2,
+    rationale: 'Forward the payload'
+  });
+  const model = new ReplayProvider({
+    fallbackResponse: analysis,
+    entries: [
+      { prompt: '^Use only nodes', response: plan('https://api.example.com/orders'), match: 'pattern' },
+      { prompt: '^Based on the analysis', response: plan('={{ $json.url + }}'), match: 'pattern' }
+    ]
+  });
+
+  const suite = loadEvalSuite();
+  assert.ok(suite.cases.length >= 5);
+  const smallSuite = { name: 'small', cases: suite.cases.slice(0, 2) };
+  const progress: any[] = [];
+  const evaluator = new PromptEvaluator({ providers: { default: model }, prompts: bundled, onCase: (result: any) => progress.push(result) });
+  const comparison = await evaluator.compare('planning', 1, 2, smallSuite);
+  assert.strictEqual(progress.length, 4);
+  assert.strictEqual(comparison.winner, 'candidate');
+  assert.strictEqual(comparison.candidate.valid, 2);
+  assert.strictEqual(comparison.candidate.totalErrors, 0);
+  assert.strictEqual(comparison.baseline.accepted, 2);
+  assert.strictEqual(comparison.baseline.valid, 0);
+  assert.ok(comparison.cases[0].baseline.errors > 0);
+  assert.ok(comparison.cases[0].delta > 0);
+  assert.strictEqual(bundled.getActiveVersion('planning'), 2, 'evaluation does not pin the shared registry');
+  assert.ok(formatComparison(comparison).includes('Result: candidate (v2) scores higher'));
+  await assert.rejects(() => evaluator.compare('planning', 1, 7, smallSuite), /has no version 7/);
+
+  // 7. Provider failures count as unaccepted instead of scoring the fallback plan
+  const failing = new PromptEvaluator({ providers: { default: new ReplayProvider({ entries: [{ prompt: 'Analyze the following requirements', response: analysis, match: 'pattern' }] }) }, prompts: bundled });
+  const originalWarn = console.warn;
+  console.warn = () => undefined;
+  const [failed] = await failing.evaluateVersion('planning', 1, { name: 'one', cases: [suite.cases[0]] });
+  console.warn = originalWarn;
+  assert.strictEqual(failed.accepted, false);
+  assert.strictEqual(failed.score, 0);
+  assert.ok(failed.failure.startsWith('provider failed: No recorded response'), failed.failure);
+
+  // 8. The bundled prompts are found next to the module, whatever the working directory
+  const cwd = process.cwd();
+  process.chdir(os.tmpdir());
+  try {
+    assert.ok(DEFAULT_PROMPTS_DIR.startsWith(cwd));
+    const elsewhere = new AIAgent(undefined, undefined, false, { default: new ReplayProvider() });
+    assert.strictEqual(elsewhere.getPrompts().get('analysis').name, 'analysis');
+  } finally {
+    process.chdir(cwd);
+  }
+
+  ollamaCacheManager.dispose();
+  console.log('✅ Prompt registry tests passed');
+})();
@@ -0,0 +1,162 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { RequestScheduler, RequestCancelledError } = await import('../../ai-agents/request-scheduler.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { StreamingOllamaClient } = await import('../../ai-agents/streaming-ollama-client.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { LLMProviderRegistry } = await import('../../ai-agents/providers/provider-registry.ts');
+
+  console.log('\n⚙️  Running Request Scheduler Tests');
+
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  // 1. Queued requests start by priority, then deadline, then arrival
+  const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+  const started: string[] = [];
+  const run = (id: string, options: any = {}) => scheduler.schedule({ id, ...options }).then((lease: any) => {
+    started.push(id);
+    return lease;
+  });
+
+  const first = run('first');
+  const low = run('low');
+  const urgent = run('urgent', { priority: 5 });
+  const soon = run('soon', { timeoutMs: 10000 });
+  assert.deepStrictEqual(scheduler.getQueue().map((entry: any) => entry.id), ['urgent', 'soon', 'low']);
+  assert.deepStrictEqual(scheduler.getQueuePosition('low'), { id: 'low', lane: 'interactive', position: 3, queued: 3, active: 1 });
+  assert.strictEqual(scheduler.getQueuePosition('first'), null);
+
+  for (const pending of [first, urgent, soon, low]) {
+    (await pending).release();
+  }
+  assert.deepStrictEqual(started, ['first', 'urgent', 'soon', 'low']);
+  await assert.rejects(() => Promise.all([scheduler.schedule({ id: 'dup' }), scheduler.schedule({ id: 'dup' })]), /already scheduled/);
+  scheduler.cancel('dup');
+
+  // 2. Lanes share slots by weight while both have work queued
+  const fair = new RequestScheduler({ maxConcurrent: 1, laneWeights: { interactive: 3, batch: 1 } });
+  const hold = await fair.schedule({ id: 'hold' });
+  const fairPending: Promise<any>[] = [];
+  for (let index = 0; index < 4; index++) fairPending.push(fair.schedule({ id: `b${index}`, lane: 'batch' }));
+  for (let index = 0; index < 6; index++) fairPending.push(fair.schedule({ id: `i${index}` }));
+  assert.deepStrictEqual(fair.getQueue().map((entry: any) => entry.id[0]).join(''), 'biiibiiibb');
+  fair.shutdown();
+  hold.release();
+  const outcomes = await Promise.allSettled(fairPending);
+  assert.ok(outcomes.every(outcome => outcome.status === 'rejected' && outcome.reason.reason === 'shutdown'));
+
+  // 3. Cancelling a queued request rejects it and moves the others up
+  const events: any[] = [];
+  const tracked = new RequestScheduler({ maxConcurrent: 1, highWaterMark: 2 });
+  for (const event of ['requestQueued', 'queuePosition', 'requestCancelled', 'backpressure', 'drain']) {
+    tracked.on(event, (payload: any) => events.push({ event, ...payload }));
+  }
+  const running = await tracked.schedule({ id: 'running' });
+  const waitingA = tracked.schedule({ id: 'a' });
+  const waitingB = tracked.schedule({ id: 'b' });
+  assert.ok(events.some(event => event.event === 'backpressure' && event.queued === 2));
+  assert.strictEqual(tracked.cancel('a'), true);
+  await assert.rejects(waitingA, (error: any) => error instanceof RequestCancelledError && error.reason === 'cancelled');
+  assert.ok(events.some(event => event.event === 'queuePosition' && event.id === 'b' && event.position === 1));
+  assert.ok(events.some(event => event.event === 'drain'));
+  assert.strictEqual(tracked.cancel('a'), false);
+
+  // 4. Deadlines expire queued requests and abort running ones
+  const expiring = tracked.schedule({ id: 'late', timeoutMs: 20 });
+  await assert.rejects(expiring, /Request late missed its deadline/);
+  running.release();
+  const lease = await waitingB;
+  assert.strictEqual(lease.signal.aborted, false);
+  lease.release();
+
+  const timed = await tracked.schedule({ id: 'timed', timeoutMs: 20 });
+  await sleep(40);
+  assert.strictEqual(timed.signal.aborted, true);
+  assert.strictEqual(timed.cancelReason, 'deadline');
+  timed.release();
+  assert.strictEqual(tracked.getStats().expired, 2);
+  assert.strictEqual(tracked.getStats().active, 0);
+
+  // 5. The streaming client queues requests, reports positions and stops requests past their deadline
+  const slowProvider: any = {
+    type: 'replay',
+    model: 'slow',
+    complete: async () => 'unused',
+    stream: async function* () {
+      for (let index = 0; index < 5; index++) {
+        await sleep(25);
+        yield { content: `${index}`, done: false };
+      }
+      yield { content: '', done: true };
+    }
+  };
+  const client = new StreamingOllamaClient({
+    baseUrl: 'http://localhost:11434',
+    model: 'slow',
+    batchTimeout: 5,
+    maxConcurrentRequests: 1,
+    providers: new LLMProviderRegistry({ default: slowProvider })
+  });
+  const positions: any[] = [];
+  client.on('requestQueued', (payload: any) => positions.push(payload));
+
+  const collect = async (id: string, options: any = {}) => {
+    let text = '';
+    for await (const chunk of await client.streamRequest({ id, prompt: id, ...options })) text += chunk.content;
+    return text;
+  };
+
+  const timedOut = collect('dashboard', { timeout: 60 });
+  const queued = collect('queued');
+  await sleep(5);
+  assert.strictEqual(client.getQueuePosition('queued'), 1);
+  assert.deepStrictEqual(positions.map(position => [position.id, position.position]), [['queued', 1]]);
+  assert.strictEqual(client.cancelRequest('queued'), true);
+  const batched = client.batchRequest({ id: 'batched', prompt: 'batched' });
+  await assert.rejects(queued, (error: any) => error.reason === 'cancelled');
+  await assert.rejects(timedOut, (error: any) => error instanceof RequestCancelledError && error.reason === 'deadline');
+
+  // batchRequest goes through the batch lane once the slot frees up
+  assert.strictEqual(await (await batched), '01234');
+  assert.strictEqual(client.getMetrics().scheduler.dispatched.batch, 1);
+  assert.strictEqual(client.getMetrics().activeRequests, 0);
+  await client.shutdown();
+
+  // 6. A stream closed before it is read gives its slot back
+  let providerClosed = false;
+  const closable = new StreamingOllamaClient({
+    baseUrl: 'http://localhost:11434',
+    model: 'slow',
+    enableBatching: false,
+    maxConcurrentRequests: 1,
+    providers: new LLMProviderRegistry({
+      default: {
+        ...slowProvider,
+        stream: async function* () {
+          try {
+            yield* slowProvider.stream();
+          } finally {
+            providerClosed = true;
+          }
+        }
+      }
+    })
+  });
+  const unread = await closable.streamRequest({ id: 'unread', prompt: 'unread' });
+  assert.strictEqual(closable.getMetrics().activeRequests, 1);
+  assert.deepStrictEqual(await unread.return(undefined), { value: undefined, done: true });
+  assert.strictEqual(closable.getMetrics().activeRequests, 0);
+  assert.strictEqual(providerClosed, true);
+  assert.deepStrictEqual(await unread.next(), { value: undefined, done: true });
+
+  const partial = await closable.streamRequest({ id: 'partial', prompt: 'partial' });
+  assert.strictEqual(((await partial.next()).value as any).content, '0');
+  await partial.return(undefined);
+  assert.strictEqual(closable.getMetrics().activeRequests, 0);
+  assert.strictEqual(closable.getMetrics().scheduler.dispatched.interactive, 2);
+  await closable.shutdown();
+
+  console.log('✅ Request scheduler tests passed');
+})();
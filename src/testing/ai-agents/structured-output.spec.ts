@@ -0,0 +1,110 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { parseTolerantJson, IncrementalJsonParser, validateJsonSchema, parseStructuredResponse, StructuredOutputError, REQUIREMENT_ANALYSIS_SCHEMA, WORKFLOW_PLAN_SCHEMA } = await import('../../ai-agents/structured-output.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ReplayProvider } = await import('../../ai-agents/providers/replay-provider.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { OllamaProvider } = await import('../../ai-agents/providers/ollama-provider.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { OpenAICompatibleProvider } = await import('../../ai-agents/providers/openai-compatible-provider.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { AIAgent } = await import('../../ai-agents/ai-agent.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ollamaCacheManager } = await import('../../performance/ollama-cache-manager.ts');
+
+  console.log('\n⚙️  Running Structured Output Tests');
+
+  // 1. The tolerant parser skips reasoning and prose and accepts common model mistakes
+  const messy = `<think>Maybe {"draft": 1}?</think>
+Here is the plan {see below}:
+\`\`\`json
+{
+  workflowType: 'linear', // simple
+  "estimatedComplexity": 2,
+  "keyComponents": ["a", "b",],
+  "dataFlow": "x"
+  "done": True,
+}
+\`\`\``;
+  const messyResult = parseTolerantJson(messy);
+  assert.deepStrictEqual(messyResult.value, { workflowType: 'linear', estimatedComplexity: 2, keyComponents: ['a', 'b'], dataFlow: 'x', done: true });
+  assert.strictEqual(messyResult.complete, true);
+  assert.deepStrictEqual(messyResult.repairs.sort(), ['converted True literal', 'converted single-quoted string', 'inserted missing comma', 'quoted bare key', 'removed comment', 'removed trailing comma']);
+  assert.strictEqual(parseTolerantJson('<think>still thinking {"a": 1}'), null);
+  assert.strictEqual(parseTolerantJson('no json here'), null);
+  assert.throws(() => parseTolerantJson('{"a": @}'), /Unexpected character "@" at position 6/);
+
+  // 2. Truncated input yields the partial value; the incremental parser tracks it chunk by chunk
+  const truncated = parseTolerantJson('{"nodes": [{"id": "a", "name": "Web');
+  assert.strictEqual(truncated.complete, false);
+  assert.deepStrictEqual(truncated.value, { nodes: [{ id: 'a', name: 'Web' }] });
+
+  const incremental = new IncrementalJsonParser();
+  assert.strictEqual(incremental.push('<think>plan</think> {"workflowT'), incremental.push(''));
+  assert.deepStrictEqual(incremental.push('ype": "parallel", "keyComponents": ["x"').value, { workflowType: 'parallel', keyComponents: ['x'] });
+  const finished = incremental.push(']}');
+  assert.strictEqual(finished.complete, true);
+  assert.strictEqual(incremental.text, '<think>plan</think> {"workflowType": "parallel", "keyComponents": ["x"]}');
+
+  // 3. Schema validation reports every violation with its path
+  assert.deepStrictEqual(validateJsonSchema({ nodes: [{ id: 'a', name: 'A', type: 'webhook' }], flow: 'none', estimatedComplexity: 12 }, WORKFLOW_PLAN_SCHEMA), [
+    { path: '$.nodes[0].type', message: 'does not match pattern ^[\\w@/-]+\\.[\\w]+$' },
+    { path: '$.flow', message: 'expected array but got string' },
+    { path: '$.estimatedComplexity', message: 'must be <= 10' }
+  ]);
+  assert.deepStrictEqual(validateJsonSchema({ workflowType: 'circular', estimatedComplexity: 3, keyComponents: [], suggestedNodeTypes: [] }, REQUIREMENT_ANALYSIS_SCHEMA), [
+    { path: '$.dataFlow', message: 'is required' },
+    { path: '$.workflowType', message: 'must be one of "linear", "parallel", "conditional", "complex"' }
+  ]);
+
+  // 4. Rejections are explained by stage
+  const stage = (response: string) => parseStructuredResponse(response, REQUIREMENT_ANALYSIS_SCHEMA).diagnostics.stage;
+  assert.strictEqual(stage('   '), 'empty');
+  assert.strictEqual(stage('<think>I need more time'), 'no-json');
+  assert.strictEqual(stage('{"workflowType": : }'), 'syntax');
+  assert.strictEqual(stage('{"workflowType": "linear"'), 'incomplete');
+  assert.strictEqual(stage('{"workflowType": "linear"}'), 'schema');
+
+  // 5. Providers send the schema in their native structured-output field
+  const bodies: any[] = [];
+  const fetch: any = async (_url: string, init: any) => {
+    bodies.push(JSON.parse(init.body));
+    return { ok: true, json: async () => ({ response: '{}', choices: [{ message: { content: '{}' } }] }) };
+  };
+  await new OllamaProvider({ fetch }).complete({ prompt: 'p', schema: WORKFLOW_PLAN_SCHEMA });
+  await new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8000', model: 'm', fetch }).complete({ prompt: 'p', schema: WORKFLOW_PLAN_SCHEMA });
+  assert.deepStrictEqual(bodies[0].format, WORKFLOW_PLAN_SCHEMA);
+  assert.deepStrictEqual(bodies[1].response_format, { type: 'json_schema', json_schema: { name: 'response', schema: WORKFLOW_PLAN_SCHEMA } });
+
+  // 6. AIAgent records why a response was rejected, and throws in strict mode
+  const badPlan = '{"nodes": [], "flow": []}';
+  const providers = {
+    default: new ReplayProvider({ model: 'small', fallbackResponse: '{"workflowType": "linear", "estimatedComplexity": 20, "keyComponents": [], "suggestedNodeTypes": [], "dataFlow": "x"}' }),
+    tasks: { planning: new ReplayProvider({ model: 'planner', fallbackResponse: badPlan }) }
+  };
+  const requirements: any = { description: 'Copy rows between sheets', type: 'data-processing' };
+  const lenient = new AIAgent(undefined, undefined, false, providers);
+  const originalWarn = console.warn;
+  console.warn = () => undefined;
+  const fallbackAnalysis = await lenient.analyzeRequirements(requirements);
+  console.warn = originalWarn;
+  assert.strictEqual(fallbackAnalysis.dataFlow, 'Sequential data processing flow', 'fallback analysis is used');
+  const [rejection] = lenient.getRejectedResponses();
+  assert.strictEqual(rejection.task, 'analysis');
+  assert.strictEqual(rejection.model, 'small');
+  assert.strictEqual(rejection.stage, 'schema');
+  assert.deepStrictEqual(rejection.violations, [{ path: '$.estimatedComplexity', message: 'must be <= 10' }]);
+
+  const strict = new AIAgent(undefined, undefined, false, providers, { strictStructuredOutput: true });
+  await assert.rejects(() => strict.planWorkflow(fallbackAnalysis), (error: any) => {
+    assert.ok(error instanceof StructuredOutputError);
+    assert.strictEqual(error.message, 'Rejected planning response (schema): $.nodes must contain at least 1 item(s)');
+    return true;
+  });
+  assert.strictEqual(strict.getRejectedResponses()[0].task, 'planning');
+
+  ollamaCacheManager.dispose();
+  console.log('✅ Structured output tests passed');
+})();
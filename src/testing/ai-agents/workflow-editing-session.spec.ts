@@ -0,0 +1,143 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { WorkflowEditingSession } = await import('../../ai-agents/workflow-editing-session.ts');
+
+  console.log('\n⚙️  Running Workflow Editing Session Tests');
+
+  const workflow: any = {
+    id: 'wf-1',
+    name: 'Order sync',
+    active: false,
+    settings: { executionOrder: 'v1' },
+    nodes: [
+      { id: 'a1b2c3d4-0000-4000-8000-000000000001', name: 'Webhook', type: 'n8n-nodes-base.webhook', typeVersion: 1, position: [240, 300], parameters: { path: 'orders', httpMethod: 'POST' } },
+      { id: 'a1b2c3d4-0000-4000-8000-000000000002', name: 'Fetch Order', type: 'n8n-nodes-base.httpRequest', typeVersion: 4, position: [480, 300], parameters: { url: 'https://api.example.com/orders', method: 'GET' } },
+      { id: 'a1b2c3d4-0000-4000-8000-000000000003', name: 'Shape', type: 'n8n-nodes-base.set', typeVersion: 3, position: [720, 300], parameters: {} }
+    ],
+    connections: {
+      'Webhook': { main: [[{ node: 'Fetch Order', type: 'main', index: 0 }]] },
+      'Fetch Order': { main: [[{ node: 'Shape', type: 'main', index: 0 }]] }
+    }
+  };
+
+  const prompts: string[] = [];
+  const responses: string[] = [];
+  const session = new WorkflowEditingSession(async (prompt: string) => {
+    prompts.push(prompt);
+    return responses.shift() ?? '{"operations":[]}';
+  }, workflow);
+
+  // 1. A turn becomes a patch that adds a node on the error output
+  responses.push('<think>Handle failures of the HTTP call.</think>\n```json\n' + JSON.stringify({
+    operations: [
+      { op: 'addNode', name: 'Slack Alert', type: 'n8n-nodes-base.httpRequest', parameters: { url: 'https://hooks.slack.com/services/T000/B000/XXX', method: 'POST' }, after: 'Fetch Order', output: 'error' }
+    ],
+    explanation: 'Send a Slack alert when the HTTP call fails'
+  }) + '\n```');
+
+  const first = await session.send('now add a Slack alert when the HTTP call fails');
+  assert.strictEqual(first.applied, true, JSON.stringify([first.edit.patchErrors, first.edit.newErrors]));
+  assert.ok(prompts[0].includes('"name": "Fetch Order"'));
+  assert.ok(prompts[0].includes('Webhook [main] -> Fetch Order'));
+
+  let current = session.workflow;
+  const fetchNode = current.nodes.find((node: any) => node.name === 'Fetch Order');
+  const slackNode = current.nodes.find((node: any) => node.name === 'Slack Alert');
+  assert.strictEqual(fetchNode.onError, 'continueErrorOutput');
+  assert.ok(slackNode, 'node was added');
+  assert.deepStrictEqual(current.connections['Fetch Order'].main[1], [{ node: 'Slack Alert', type: 'main', index: 0 }]);
+  assert.deepStrictEqual(fetchNode.position, [480, 300], 'existing nodes keep their position');
+  assert.ok(slackNode.position[0] > 480, 'new node is laid out after its source');
+  assert.strictEqual(workflow.nodes.length, 3, 'input workflow is not mutated');
+
+  // 2. Later turns see the conversation and the edited workflow
+  responses.push(JSON.stringify({
+    operations: [{ op: 'setParameter', node: 'Fetch Order', path: 'options.timeout', value: 5000 }]
+  }));
+  await session.send('give the HTTP call a 5 second timeout');
+  assert.ok(prompts[1].includes('User: now add a Slack alert when the HTTP call fails'));
+  assert.ok(prompts[1].includes('Assistant: Send a Slack alert when the HTTP call fails'));
+  assert.ok(prompts[1].includes('Fetch Order [error] -> Slack Alert'));
+  current = session.workflow;
+  assert.deepStrictEqual(current.nodes[1].parameters.options, { timeout: 5000 });
+  assert.strictEqual(session.getHistory().length, 4);
+
+  // 3. Undo and redo step through applied edits
+  assert.strictEqual(session.undo(), true);
+  assert.strictEqual(session.workflow.nodes[1].parameters.options, undefined);
+  assert.strictEqual(session.undo(), true);
+  assert.strictEqual(session.workflow.nodes.length, 3);
+  assert.strictEqual(session.undo(), false);
+  assert.strictEqual(session.redo(), true);
+  assert.strictEqual(session.workflow.nodes.length, 4);
+  assert.strictEqual(session.canRedo, true);
+
+  // 4. Invalid operations are reported and the edit stays pending until forced
+  responses.push(JSON.stringify({
+    operations: [
+      { op: 'removeNode', node: 'Ghost' },
+      { op: 'rewire', from: 'Webhook', to: 'Shape' }
+    ]
+  }));
+  const rejected = await session.send('connect the webhook straight to Shape and drop Ghost');
+  assert.strictEqual(rejected.applied, false);
+  assert.deepStrictEqual(rejected.edit.patchErrors, ['Operation 1 (removeNode): node "Ghost" does not exist']);
+  assert.strictEqual(session.getPendingEdit()?.id, rejected.edit.id);
+  assert.throws(() => session.apply(), /cannot be applied: Operation 1 \(removeNode\)/);
+  assert.strictEqual(session.canRedo, true, 'a rejected edit leaves redo intact');
+  session.discard();
+  assert.strictEqual(session.getPendingEdit(), null);
+
+  // 5. Removing a node can reconnect its neighbours; setting null removes a parameter
+  const patched = await session.applyPatch(session.workflow, {
+    operations: [
+      { op: 'removeNode', node: 'Fetch Order', reconnect: true },
+      { op: 'setParameter', node: 'Webhook', path: 'httpMethod', value: null }
+    ]
+  });
+  assert.deepStrictEqual(patched.errors, []);
+  assert.deepStrictEqual(patched.workflow.connections['Webhook'].main[0], [{ node: 'Shape', type: 'main', index: 0 }]);
+  assert.strictEqual(patched.workflow.connections['Fetch Order'], undefined);
+  assert.strictEqual(patched.workflow.nodes[0].parameters.httpMethod, undefined);
+
+  // 6. Unusable responses are recorded without touching the workflow
+  const autoOff = new WorkflowEditingSession(async () => 'I would add a Slack node.', workflow, { autoApply: false });
+  const unusable = await autoOff.send('add slack');
+  assert.strictEqual(unusable.applied, false);
+  assert.ok(unusable.edit.patchErrors[0].startsWith('Model response could not be used: no-json'));
+  assert.strictEqual(autoOff.workflow.nodes.length, 3);
+
+  // 7. Patches that introduce validation errors are not applied automatically
+  responses.push(JSON.stringify({
+    operations: [{ op: 'setParameter', node: 'Fetch Order', path: 'url', value: '={{ $json.url + }}' }]
+  }));
+  const broken = await session.send('take the URL from the payload');
+  assert.strictEqual(broken.applied, false);
+  assert.ok(broken.edit.newErrors.some((error: any) => error.field === 'url'));
+  session.apply(true);
+  assert.strictEqual(session.workflow.nodes[1].parameters.url, '={{ $json.url + }}');
+  assert.strictEqual(session.canRedo, false, 'applying an edit clears redo');
+
+  // 8. Parameter paths cannot reach the prototype chain
+  for (const path of ['__proto__.polluted', 'options.constructor.prototype.polluted']) {
+    const polluting = await session.applyPatch(workflow, {
+      operations: [{ op: 'setParameter', node: 'Shape', path, value: 'yes' }]
+    });
+    assert.deepStrictEqual(polluting.errors, [`Operation 1 (setParameter): parameter path "${path}" is not allowed`]);
+  }
+  assert.strictEqual(({} as any).polluted, undefined);
+
+  // 9. A rejected rewire leaves the source node unchanged
+  const duplicate = await session.applyPatch(workflow, {
+    operations: [
+      { op: 'rewire', from: 'Webhook', to: 'Shape', output: 1 },
+      { op: 'rewire', from: 'Webhook', to: 'Shape', output: 'error' }
+    ]
+  });
+  assert.deepStrictEqual(duplicate.errors, ['Operation 2 (rewire): Webhook -> Shape is already connected']);
+  assert.strictEqual(duplicate.workflow.nodes[0].onError, undefined);
+
+  console.log('✅ Workflow editing session tests passed');
+})();
@@ -0,0 +1,113 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { WorkflowRepairLoop } = await import('../../ai-agents/workflow-repair-loop.ts');
+
+  console.log('\n⚙️  Running Workflow Repair Loop Tests');
+
+  const plan: any = {
+    estimatedComplexity: 2,
+    rationale: 'Fetch and reshape data',
+    nodes: [
+      { id: 'trigger', name: 'Webhook', type: 'n8n-nodes-base.webhook', parameters: { path: 'in' }, description: '' },
+      { id: 'fetch', name: 'Fetch', type: 'n8n-nodes-base.httpRequest', parameters: { url: '={{ $json.url + }}' }, description: '' },
+      { id: 'shape', name: 'Shape', type: 'n8n-nodes-base.set', parameters: { value: "={{ $('Missing').item.json.id }}" }, description: '' }
+    ],
+    flow: [
+      { from: 'trigger', to: 'fetch', type: 'main' },
+      { from: 'fetch', to: 'shape', type: 'main' }
+    ]
+  };
+
+  // Scripted model: round 1 fixes the syntax error only, round 2 fixes the node reference
+  const prompts: string[] = [];
+  const responses = [
+    '<think>The url expression is incomplete.</think>\n```json\n{"operations":[{"op":"updateNode","id":"fetch","parameters":{"url":"={{ $json.url }}"}}],"explanation":"fix url"}\n```',
+    '{"operations":[{"op":"updateNode","id":"shape","parameters":{"value":"={{ $(\'Fetch\').item.json.id }}"}},{"op":"removeNode","id":"ghost"}]}'
+  ];
+  const loop = new WorkflowRepairLoop(async (prompt: string) => {
+    prompts.push(prompt);
+    return responses[prompts.length - 1] ?? '{"operations":[]}';
+  });
+
+  // 1. Validation collects errors from the full validator stack
+  const initial = await loop.validatePlan(plan);
+  assert.ok(initial.errors.some((e: any) => e.field === 'url' && e.message.startsWith('Invalid expression')));
+  assert.ok(initial.errors.some((e: any) => e.message.includes('references node "Missing"')));
+
+  // 2. Errors are fed back round by round until the plan validates
+  const seenAttempts: any[] = [];
+  const result = await loop.repair(plan, { maxRounds: 4, onAttempt: (attempt: any) => seenAttempts.push(attempt) });
+  assert.strictEqual(result.repaired, true, JSON.stringify(result.errors));
+  assert.strictEqual(result.attempts.length, 2);
+  assert.strictEqual(seenAttempts.length, 2);
+  assert.strictEqual(result.plan.nodes[1].parameters.url, '={{ $json.url }}');
+  assert.strictEqual(result.plan.nodes[1].parameters.method, undefined, 'updates merge into the planned parameters');
+  assert.strictEqual(plan.nodes[1].parameters.url, '={{ $json.url + }}', 'input plan is not mutated');
+
+  assert.ok(prompts[0].includes('[parameter] Invalid expression'));
+  assert.ok(prompts[0].includes('"id": "fetch"'));
+  assert.ok(!prompts[1].includes('Invalid expression'), 'fixed errors are not sent again');
+
+  const [first, second] = result.attempts;
+  assert.strictEqual(first.fixedErrors.length, 1);
+  assert.strictEqual(first.remainingErrors.length, 1);
+  assert.deepStrictEqual(first.newErrors, []);
+  assert.deepStrictEqual(second.patchErrors, ['Operation 2 (removeNode): node "ghost" does not exist']);
+  assert.deepStrictEqual(result.errorTypeStats, { parameter: { seen: 3, fixed: 2 } });
+
+  // 3. Unusable responses end the loop and are recorded
+  const stubborn = new WorkflowRepairLoop(async () => 'I cannot help with that.');
+  const failed = await stubborn.repair(plan, { maxRounds: 3 });
+  assert.strictEqual(failed.repaired, false);
+  assert.strictEqual(failed.attempts.length, 1);
+  assert.strictEqual(failed.attempts[0].patch, null);
+  assert.ok(failed.attempts[0].patchErrors[0].startsWith('Model response could not be used'));
+  assert.deepStrictEqual(failed.errorTypeStats, { parameter: { seen: 2, fixed: 0 } });
+
+  // 4. Valid plans skip the model entirely
+  let calls = 0;
+  const untouched = await new WorkflowRepairLoop(async () => { calls++; return ''; }).repair(result.plan);
+  assert.strictEqual(calls, 0);
+  assert.strictEqual(untouched.attempts.length, 0);
+  assert.strictEqual(untouched.errors.length, 0);
+
+  // 5. Patch operations edit nodes and flow
+  const patch: any = {
+    operations: [
+      { op: 'addNode', node: { id: 'log', name: 'Log', type: 'n8n-nodes-base.noOp' } },
+      { op: 'addConnection', from: 'shape', to: 'log' },
+      { op: 'removeConnection', from: 'trigger', to: 'fetch' },
+      { op: 'addConnection', from: 'trigger', to: 'nowhere' },
+      { op: 'rename' }
+    ]
+  };
+  const patched = loop.applyPatch(plan, patch);
+  assert.strictEqual(patched.plan.nodes.length, 4);
+  assert.deepStrictEqual(patched.plan.flow.map((c: any) => `${c.from}->${c.to}`), ['fetch->shape', 'shape->log']);
+  assert.strictEqual(patched.errors.length, 2);
+
+  // 6. A round that leaves more errors than it started with is rolled back
+  const worse = new WorkflowRepairLoop(async () => JSON.stringify({
+    operations: [
+      { op: 'updateNode', id: 'fetch', parameters: { url: '={{ $json.url }}' } },
+      { op: 'updateNode', id: 'shape', parameters: { first: '={{ 1 + }}', second: '={{ 2 + }}' } }
+    ]
+  }));
+  const rolledBack = await worse.repair(plan, { maxRounds: 1 });
+  assert.strictEqual(rolledBack.attempts[0].rolledBack, true);
+  assert.strictEqual(rolledBack.attempts[0].fixedErrors.length, 1);
+  assert.strictEqual(rolledBack.attempts[0].newErrors.length, 2);
+  assert.strictEqual(rolledBack.plan.nodes[1].parameters.url, '={{ $json.url + }}');
+  assert.strictEqual(rolledBack.plan.nodes[2].parameters.first, undefined);
+  assert.strictEqual(rolledBack.errors.length, 2);
+  assert.deepStrictEqual(rolledBack.errorTypeStats, { parameter: { seen: 2, fixed: 0 } });
+  assert.strictEqual(result.attempts.some((attempt: any) => attempt.rolledBack), false);
+
+  // 7. Patches are schema-checked
+  assert.throws(() => loop.parsePatch('{"operations":[{"op":"rename","id":"fetch"}]}'), /^Error: schema: \$\.operations\[0\]\.op must be one of/);
+  assert.deepStrictEqual(loop.parsePatch('Sure {here it is}: {"operations":[]}').operations, []);
+
+  console.log('✅ Workflow repair loop tests passed');
+})();
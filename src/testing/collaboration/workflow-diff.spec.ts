@@ -0,0 +1,136 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const Diff = await import('../../collaboration/workflow-diff.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const WorkspaceService = await import('../../collaboration/workspace-service.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const ReviewService = await import('../../collaboration/workflow-review-service.ts');
+
+  console.log('\n⚙️  Running Workflow Diff & Merge Tests');
+
+  const clone = (value: any) => JSON.parse(JSON.stringify(value));
+  const base: any = {
+    id: 'wf_diff',
+    name: 'Lead Sync',
+    active: false,
+    settings: { executionOrder: 'v1', timezone: 'UTC' },
+    nodes: [
+      { id: 'n1', name: 'Webhook', type: 'n8n-nodes-base.webhook', typeVersion: 1, position: [0, 0], parameters: { path: 'leads' } },
+      { id: 'n2', name: 'Fetch', type: 'n8n-nodes-base.httpRequest', typeVersion: 4.1, position: [200, 0], parameters: { url: 'https://api.example.com', options: { timeout: 1000 } } },
+      { id: 'n3', name: 'Store', type: 'n8n-nodes-base.postgres', typeVersion: 2, position: [400, 0], parameters: { table: 'leads' } }
+    ],
+    connections: {
+      Webhook: { main: [[{ node: 'Fetch', type: 'main', index: 0 }]] },
+      Fetch: { main: [[{ node: 'Store', type: 'main', index: 0 }]] }
+    }
+  };
+
+  // 1. Diff reports renames, parameter changes, added/removed nodes and connection edits
+  const proposed = clone(base);
+  proposed.nodes[1].name = 'Fetch Lead';
+  proposed.nodes[1].parameters.options.timeout = 5000;
+  proposed.nodes = proposed.nodes.filter((n: any) => n.id !== 'n3');
+  proposed.nodes.push({ id: 'n4', name: 'Notify', type: 'n8n-nodes-base.emailSend', typeVersion: 2, position: [400, 0], parameters: {} });
+  proposed.connections = {
+    Webhook: { main: [[{ node: 'Fetch Lead', type: 'main', index: 0 }]] },
+    'Fetch Lead': { main: [[{ node: 'Notify', type: 'main', index: 0 }]] }
+  };
+
+  const diff = Diff.diffWorkflows(base, proposed);
+  assert.ok(diff.hasChanges);
+  assert.deepStrictEqual(diff.nodes.renamed, [{ id: 'n2', from: 'Fetch', to: 'Fetch Lead' }]);
+  assert.deepStrictEqual(diff.nodes.added.map((n: any) => n.name), ['Notify']);
+  assert.deepStrictEqual(diff.nodes.removed.map((n: any) => n.name), ['Store']);
+  assert.deepStrictEqual(diff.nodes.changed[0].changes, [{ path: 'parameters.options.timeout', kind: 'modified', before: 1000, after: 5000 }]);
+  assert.deepStrictEqual(diff.connections.added.map((e: any) => `${e.source}->${e.target}`), ['Fetch Lead->Notify']);
+  assert.deepStrictEqual(diff.connections.removed.map((e: any) => `${e.source}->${e.target}`), ['Fetch->Store'], 'Renames are not connection edits');
+  assert.strictEqual(Diff.diffWorkflows(base, clone(base)).hasChanges, false);
+
+  // 2. Non-overlapping changes merge cleanly
+  const ours = clone(base);
+  ours.nodes[1].parameters.options.timeout = 3000;
+  ours.settings.timezone = 'Europe/Berlin';
+  const theirs = clone(base);
+  theirs.nodes[1].parameters.url = 'https://api.example.com/v2';
+  theirs.nodes.push({ id: 'n5', name: 'Log', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [600, 0], parameters: {} });
+  theirs.connections.Store = { main: [[{ node: 'Log', type: 'main', index: 0 }]] };
+
+  const clean = Diff.mergeWorkflows(base, ours, theirs);
+  assert.strictEqual(clean.hasConflicts, false);
+  const mergedFetch = clean.merged.nodes.find((n: any) => n.id === 'n2');
+  assert.deepStrictEqual(mergedFetch.parameters, { url: 'https://api.example.com/v2', options: { timeout: 3000 } });
+  assert.strictEqual(clean.merged.settings.timezone, 'Europe/Berlin');
+  assert.strictEqual(clean.merged.connections.Store.main[0][0].node, 'Log');
+
+  // 3. Overlapping changes produce conflicts and markers
+  const theirsConflict = clone(base);
+  theirsConflict.nodes[1].parameters.options.timeout = 9000;
+  theirsConflict.nodes = theirsConflict.nodes.filter((n: any) => n.id !== 'n3');
+  const oursDeleteModify = clone(ours);
+  oursDeleteModify.nodes[2].parameters.table = 'contacts';
+
+  const conflicted = Diff.mergeWorkflows(base, oursDeleteModify, theirsConflict);
+  assert.ok(conflicted.hasConflicts);
+  assert.deepStrictEqual(conflicted.conflicts.map((c: any) => c.path).sort(), ['nodes.n2.parameters.options.timeout', 'nodes.n3']);
+  assert.ok(Diff.hasConflictMarkers(conflicted.merged));
+  const resolved = Diff.resolveConflicts(conflicted.merged, 'theirs');
+  assert.strictEqual(Diff.hasConflictMarkers(resolved), false);
+  assert.strictEqual(resolved.nodes.find((n: any) => n.id === 'n2').parameters.options.timeout, 9000);
+
+  // 4. Review service merges concurrent WCRs and blocks conflicting ones
+  const ownerId = 'diff_owner';
+  const workspace = await WorkspaceService.createWorkspace('Diff Workspace', ownerId);
+  const wsId = workspace.workspace_id;
+
+  const initial = await ReviewService.createWorkflowChangeRequest(wsId, ownerId, 'wf_diff', 'Initial', 'First version', base);
+  await ReviewService.mergeWCR(wsId, ownerId, initial.wcr_id);
+
+  const first = await ReviewService.createWorkflowChangeRequest(wsId, ownerId, 'wf_diff', 'Timeout', 'Raise timeout', ours);
+  const second = await ReviewService.createWorkflowChangeRequest(wsId, ownerId, 'wf_diff', 'Logging', 'Add log node', theirs);
+  const third = await ReviewService.createWorkflowChangeRequest(wsId, ownerId, 'wf_diff', 'Timeout 2', 'Other timeout', theirsConflict);
+  assert.deepStrictEqual(ReviewService.getWCRDiff(second.wcr_id).nodes.added.map((n: any) => n.name), ['Log']);
+
+  await ReviewService.mergeWCR(wsId, ownerId, first.wcr_id);
+  await ReviewService.mergeWCR(wsId, ownerId, second.wcr_id);
+  const current: any = ReviewService.getWorkflow('wf_diff');
+  assert.strictEqual(current.nodes.find((n: any) => n.id === 'n2').parameters.options.timeout, 3000, 'Earlier merge is preserved');
+  assert.ok(current.nodes.some((n: any) => n.name === 'Log'), 'Concurrent WCR is merged in');
+
+  await assert.rejects(() => ReviewService.mergeWCR(wsId, ownerId, third.wcr_id), /conflicts/);
+  assert.strictEqual(ReviewService.getWCRsForWorkflow('wf_diff').find((w: any) => w.wcr_id === third.wcr_id).status, 'open');
+
+  // 5. Changes proposed before a workflow exists are merged against an empty base
+  const draftA = { ...clone(ours), id: 'wf_new' };
+  const draftB = { ...clone(theirs), id: 'wf_new' };
+  const createA = await ReviewService.createWorkflowChangeRequest(wsId, ownerId, 'wf_new', 'Create', 'First draft', draftA);
+  const createB = await ReviewService.createWorkflowChangeRequest(wsId, ownerId, 'wf_new', 'Create too', 'Second draft', draftB);
+  assert.deepStrictEqual(ReviewService.getWCRDiff(createB.wcr_id).nodes.added.map((n: any) => n.name), draftB.nodes.map((n: any) => n.name));
+  await ReviewService.mergeWCR(wsId, ownerId, createA.wcr_id);
+  await assert.rejects(() => ReviewService.mergeWCR(wsId, ownerId, createB.wcr_id), /conflicts/);
+  assert.strictEqual((ReviewService.getWorkflow('wf_new') as any).nodes.find((n: any) => n.id === 'n2').parameters.options.timeout, 3000);
+
+  // 6. The base is a snapshot, so edits made in place are not lost either
+  const retitle = await ReviewService.createWorkflowChangeRequest(wsId, ownerId, 'wf_new', 'Rename', 'New title', { ...clone(draftA), name: 'Lead Sync v2' });
+  (ReviewService.getWorkflow('wf_new') as any).nodes[0].parameters.path = 'edited';
+  await ReviewService.mergeWCR(wsId, ownerId, retitle.wcr_id);
+  const retitled: any = ReviewService.getWorkflow('wf_new');
+  assert.strictEqual(retitled.name, 'Lead Sync v2');
+  assert.strictEqual(retitled.nodes[0].parameters.path, 'edited');
+
+  // 7. Nodes without an id keep their connections through a merge
+  const unnamedBase = clone(base);
+  unnamedBase.nodes.forEach((n: any) => delete n.id);
+  const unnamedOurs = clone(unnamedBase);
+  unnamedOurs.nodes[1].parameters.options.timeout = 5000;
+  const unnamedTheirs = clone(unnamedBase);
+  unnamedTheirs.nodes.push({ name: 'Log', type: 'n8n-nodes-base.noOp', typeVersion: 1, position: [600, 0], parameters: {} });
+  unnamedTheirs.connections.Store = { main: [[{ node: 'Log', type: 'main', index: 0 }]] };
+  const unnamed = Diff.mergeWorkflows(unnamedBase, unnamedOurs, unnamedTheirs);
+  assert.strictEqual(unnamed.hasConflicts, false);
+  assert.deepStrictEqual(Object.keys(unnamed.merged.connections).sort(), ['Fetch', 'Store', 'Webhook']);
+  assert.strictEqual(unnamed.merged.connections.Store.main[0][0].node, 'Log');
+
+  console.log('✅ Workflow diff & merge tests passed');
+})();
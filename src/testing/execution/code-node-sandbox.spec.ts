@@ -0,0 +1,84 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { CodeNodeSandbox } = await import('../../execution/code-node-sandbox.ts');
+
+  console.log('\n⚙️  Running Code Node Sandbox Tests');
+
+  const sandbox = new CodeNodeSandbox({ timeoutMs: 200, memoryLimitMb: 32 });
+  const contacts = [
+    { json: { vid: 1, email: 'ada@example.com', lifecycle: 'lead' } },
+    { json: { vid: 2, email: '', lifecycle: 'customer' } },
+    { json: { vid: 3, email: 'alan@example.com', lifecycle: 'customer' } }
+  ];
+  const workflow: any = {
+    name: 'Sandbox Test',
+    nodes: [{ id: 'fetch', name: 'Fetch Contacts', type: 'n8n-nodes-base.httpRequest', typeVersion: 4.1, position: [0, 0], parameters: {} }],
+    connections: {}
+  };
+  const codeNode = (jsCode: string, mode = 'runOnceForAllItems'): any => ({
+    id: 'process',
+    name: 'Process Contacts',
+    type: 'n8n-nodes-base.code',
+    typeVersion: 2,
+    position: [200, 0],
+    parameters: { mode, jsCode }
+  });
+
+  // 1. Run Once for All Items with $input, $env and $now
+  const allItems = await sandbox.runNode(
+    codeNode("return $input.all().map(item => ({ json: { email: item.json.email, region: $env.REGION, year: $now.getUTCFullYear() } }));"),
+    { items: contacts, env: { REGION: 'eu' }, now: new Date('2024-05-01T00:00:00Z') }
+  );
+  assert.ok(allItems.success, 'All-items run should succeed');
+  assert.strictEqual(allItems.items.length, 3);
+  assert.strictEqual(JSON.stringify(allItems.items[0].json), JSON.stringify({ email: 'ada@example.com', region: 'eu', year: 2024 }));
+
+  // 2. Run Once for Each Item with $json, $node and filtering via null
+  const eachItem = await sandbox.runNode(
+    codeNode("console.log('item', $json.vid); if (!$json.email) return null; return { json: { vid: $json.vid, source: $node['Fetch Contacts'].json.source } };", 'runOnceForEachItem'),
+    { items: contacts, workflow, nodeOutputs: { 'Fetch Contacts': [{ json: { source: 'hubspot' } }] } }
+  );
+  assert.ok(eachItem.success, 'Each-item run should succeed');
+  assert.strictEqual(JSON.stringify(eachItem.items.map((item: any) => item.json)), JSON.stringify([{ vid: 1, source: 'hubspot' }, { vid: 3, source: 'hubspot' }]));
+  assert.strictEqual(JSON.stringify(eachItem.items[1].pairedItem), JSON.stringify({ item: 2 }), 'Output should pair with its input item');
+  assert.strictEqual(eachItem.logs.length, 3, 'Console output should be captured');
+
+  // 3. Return-shape violations are reported as data_transformation errors
+  const arrayPerItem = await sandbox.runNode(codeNode('return [$json];', 'runOnceForEachItem'), { items: contacts });
+  assert.strictEqual(arrayPerItem.success, false);
+  assert.strictEqual(arrayPerItem.errors[0].type, 'data_transformation');
+  assert.strictEqual(arrayPerItem.errors[0].nodeId, 'process');
+
+  const badJson = await sandbox.runCode('return [{ json: [1, 2] }, { json: {}, extra: true }, 5];', 'runOnceForAllItems', { items: contacts });
+  assert.strictEqual(badJson.errors.length, 3, 'Each malformed item should be reported');
+  assert.ok(badJson.errors.every((error: any) => error.type === 'data_transformation'));
+
+  const nothing = await sandbox.runCode('const total = items.length;', 'runOnceForAllItems', { items: contacts });
+  assert.strictEqual(nothing.success, false, 'Returning nothing in all-items mode is an error');
+
+  // 4. Legacy Function node
+  const functionResult = await sandbox.runNode(
+    { id: 'fn', name: 'Legacy', type: 'n8n-nodes-base.function', typeVersion: 1, position: [0, 0], parameters: { functionCode: 'for (const item of items) { item.json.seen = true; } return items;' } },
+    { items: contacts }
+  );
+  assert.ok(functionResult.success);
+  assert.ok(functionResult.items.every((item: any) => item.json.seen === true));
+  assert.strictEqual((contacts[0].json as any).seen, undefined, 'Input items must not be mutated');
+
+  // 5. CPU and memory limits
+  const spin = await sandbox.runCode('while (true) {}', 'runOnceForAllItems', { items: contacts });
+  assert.strictEqual(spin.success, false);
+  assert.ok(spin.errors[0].message.includes('time limit'), 'Infinite loops should time out');
+
+  const hog = await sandbox.runCode('const chunks = []; while (true) { chunks.push(new Array(1e6).fill(chunks.length)); }', 'runOnceForAllItems', { items: contacts });
+  assert.strictEqual(hog.success, false);
+  assert.ok(/memory|time limit/.test(hog.errors[0].message), 'Memory hogs should be stopped');
+
+  // 6. Runtime errors are surfaced with the error name
+  const thrown = await sandbox.runCode("throw new TypeError('bad input');", 'runOnceForAllItems', { items: contacts });
+  assert.strictEqual(thrown.errors[0].message, 'TypeError: bad input');
+
+  console.log('✅ Code node sandbox tests passed');
+})();
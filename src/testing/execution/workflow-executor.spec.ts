@@ -0,0 +1,166 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { WorkflowExecutor } = await import('../../execution/workflow-executor.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { evaluateFilterConditions, evaluateLegacyConditions } = await import('../../execution/node-handlers.ts');
+
+  console.log('\n⚙️  Running Workflow Executor Tests');
+
+  const node = (name: string, type: string, parameters: any, position: [number, number], typeVersion = 1) => ({
+    id: name.toLowerCase().replace(/\s+/g, '-'),
+    name,
+    type: `n8n-nodes-base.${type}`,
+    typeVersion,
+    position,
+    parameters
+  });
+  const link = (target: string, index = 0) => ({ node: target, type: 'main', index });
+  const jsonOf = (items: any[]) => JSON.parse(JSON.stringify(items.map(item => item.json)));
+
+  const workflow: any = {
+    name: 'Executor Test',
+    nodes: [
+      node('Start', 'manualTrigger', {}, [0, 0]),
+      node('Set Orders', 'set', {
+        mode: 'raw',
+        jsonOutput: '={{ JSON.stringify({ orders: [{ id: 1, total: 50 }, { id: 2, total: 150 }] }) }}'
+      }, [200, 0], 3.3),
+      node('Split', 'itemLists', { operation: 'splitOutItems', fieldToSplitOut: 'orders' }, [400, 0], 3),
+      node('Is Large', 'if', {
+        conditions: {
+          combinator: 'and',
+          conditions: [{ leftValue: '={{ $json.total }}', rightValue: 100, operator: { type: 'number', operation: 'gt' } }]
+        }
+      }, [600, 0], 2),
+      node('Tag Large', 'set', {
+        assignments: { assignments: [{ name: 'size', value: 'large', type: 'string' }] },
+        includeOtherFields: true
+      }, [800, -100], 3.3),
+      node('Tag Small', 'set', {
+        assignments: { assignments: [{ name: 'size', value: '={{ "small-" + $json.id }}', type: 'string' }] },
+        includeOtherFields: true
+      }, [800, 100], 3.3),
+      node('Merge', 'merge', { mode: 'append' }, [1000, 0], 2.1),
+      node('Summarize', 'code', {
+        jsCode: "return [{ json: { count: $input.all().length, first: $('Split').first().json.id } }];"
+      }, [1200, 0], 2)
+    ],
+    connections: {
+      Start: { main: [[link('Set Orders')]] },
+      'Set Orders': { main: [[link('Split')]] },
+      Split: { main: [[link('Is Large')]] },
+      'Is Large': { main: [[link('Tag Large')], [link('Tag Small')]] },
+      'Tag Large': { main: [[link('Merge', 0)]] },
+      'Tag Small': { main: [[link('Merge', 1)]] },
+      Merge: { main: [[link('Summarize')]] }
+    }
+  };
+
+  const executor = new WorkflowExecutor();
+
+  // 1. Branching workflow runs end to end in v1 order
+  const result = await executor.execute(workflow);
+  assert.strictEqual(result.status, 'success', 'Workflow should succeed');
+  assert.deepStrictEqual(
+    result.executionOrder,
+    ['Start', 'Set Orders', 'Split', 'Is Large', 'Tag Large', 'Tag Small', 'Merge', 'Summarize'],
+    'Nodes should run depth-first with the true branch first'
+  );
+
+  const runData = result.data.resultData.runData;
+  assert.deepStrictEqual(jsonOf(runData['Split'][0].data.main[0]), [{ id: 1, total: 50 }, { id: 2, total: 150 }]);
+  assert.deepStrictEqual(jsonOf(runData['Is Large'][0].data.main[0]), [{ id: 2, total: 150 }], 'True branch');
+  assert.deepStrictEqual(jsonOf(runData['Is Large'][0].data.main[1]), [{ id: 1, total: 50 }], 'False branch');
+  assert.deepStrictEqual(
+    jsonOf(runData['Merge'][0].data.main[0]),
+    [{ id: 2, total: 150, size: 'large' }, { id: 1, total: 50, size: 'small-1' }],
+    'Merge should append both inputs'
+  );
+  assert.deepStrictEqual(jsonOf(runData['Summarize'][0].data.main[0]), [{ count: 2, first: 1 }]);
+  assert.strictEqual(result.data.resultData.lastNodeExecuted, 'Summarize');
+
+  // 2. Pin data replaces a node's output
+  const pinned = await executor.execute(workflow, {
+    pinData: { Split: [{ json: { id: 9, total: 999 } }] }
+  });
+  assert.deepStrictEqual(jsonOf(pinned.data.resultData.runData['Merge'][0].data.main[0]), [{ id: 9, total: 999, size: 'large' }]);
+
+  // 3. Node errors stop the run unless the node continues on fail
+  const failing: any = JSON.parse(JSON.stringify(workflow));
+  failing.nodes.find((n: any) => n.name === 'Summarize').parameters.jsCode = "throw new Error('boom');";
+  const failed = await executor.execute(failing);
+  assert.strictEqual(failed.status, 'error', 'Run should fail');
+  assert.strictEqual(failed.error?.node, 'Summarize');
+  assert.ok(failed.error?.message.includes('boom'));
+
+  failing.nodes.find((n: any) => n.name === 'Summarize').continueOnFail = true;
+  const continued = await executor.execute(failing);
+  assert.strictEqual(continued.status, 'success', 'continueOnFail should keep the run going');
+  assert.ok(jsonOf(continued.data.resultData.runData['Summarize'][0].data.main[0])[0].error.includes('boom'));
+
+  // 4. Unsupported nodes without pin data are reported
+  const unsupported: any = {
+    name: 'Unsupported',
+    nodes: [node('Start', 'manualTrigger', {}, [0, 0]), node('Fetch', 'httpRequest', { url: 'https://example.com' }, [200, 0], 4.1)],
+    connections: { Start: { main: [[link('Fetch')]] } }
+  };
+  const unsupportedResult = await executor.execute(unsupported);
+  assert.strictEqual(unsupportedResult.status, 'error');
+  assert.strictEqual(unsupportedResult.error?.node, 'Fetch');
+
+  // 5. Nodes that always output data emit one empty item; Set v3.0-3.2 reads `fields.values`
+  const emptyRun: any = {
+    name: 'Always Output',
+    nodes: [
+      node('Start', 'manualTrigger', {}, [0, 0]),
+      { ...node('Find Nothing', 'code', { jsCode: 'return [];' }, [200, 0], 2), alwaysOutputData: true },
+      node('Mark Empty', 'set', {
+        fields: { values: [{ name: 'status', type: 'stringValue', stringValue: 'empty' }] },
+        assignments: { assignments: [] }
+      }, [400, 0], 3.2)
+    ],
+    connections: {
+      Start: { main: [[link('Find Nothing')]] },
+      'Find Nothing': { main: [[link('Mark Empty')]] }
+    }
+  };
+  const emptyResult = await executor.execute(emptyRun);
+  assert.strictEqual(emptyResult.status, 'success');
+  assert.deepStrictEqual(jsonOf(emptyResult.data.resultData.runData['Find Nothing'][0].data.main[0]), [{}]);
+  assert.deepStrictEqual(jsonOf(emptyResult.data.resultData.runData['Mark Empty'][0].data.main[0]), [{ status: 'empty' }]);
+
+  emptyRun.nodes[1].alwaysOutputData = false;
+  assert.deepStrictEqual((await executor.execute(emptyRun)).executionOrder, ['Start', 'Find Nothing']);
+
+  // 6. Set rejects prototype keys; conditions compare strictly and parse dates
+  const polluting: any = {
+    name: 'Polluting',
+    nodes: [
+      node('Start', 'manualTrigger', {}, [0, 0]),
+      node('Pollute', 'set', {
+        assignments: { assignments: [{ name: '__proto__.polluted', value: 'yes', type: 'string' }] }
+      }, [200, 0], 3.3)
+    ],
+    connections: { Start: { main: [[link('Pollute')]] } }
+  };
+  const polluted = await executor.execute(polluting);
+  assert.strictEqual(polluted.status, 'error', 'Prototype keys should be rejected');
+  assert.strictEqual(polluted.error?.node, 'Pollute');
+  assert.strictEqual(({} as any).polluted, undefined, 'Object.prototype should stay untouched');
+
+  const condition = (leftValue: any, rightValue: any, operation: string) =>
+    evaluateFilterConditions({ conditions: [{ leftValue, rightValue, operator: { operation } }] });
+  assert.strictEqual(condition('5', 5, 'equals'), false, 'equals should not coerce types');
+  assert.strictEqual(condition('5', 5, 'notEquals'), true);
+  assert.strictEqual(condition(0, '', 'equals'), false);
+  assert.strictEqual(condition('2024-03-01T00:00:00Z', '2024-02-01T00:00:00Z', 'after'), true, 'after should parse date strings');
+  assert.strictEqual(condition('2024-03-01T00:00:00Z', '2024-02-01T00:00:00Z', 'before'), false);
+  assert.strictEqual(condition('2024-02-01', '2024-02-01', 'afterOrEquals'), true);
+  assert.strictEqual(evaluateLegacyConditions({
+    dateTime: [{ value1: '2023-12-31', value2: '2024-01-01', operation: 'before' }]
+  }, 'all'), true, 'Legacy dateTime conditions should parse dates');
+
+  console.log('✅ Workflow executor tests passed');
+})();
@@ -0,0 +1,108 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { LayoutEngine } = await import('../../generators/layout-engine.ts');
+
+  console.log('\n⚙️  Running Layout Engine Tests');
+
+  const node = (name: string, type = 'n8n-nodes-base.set'): any => ({
+    id: name.toLowerCase().replace(/\s+/g, '-'),
+    name,
+    type,
+    typeVersion: 1,
+    position: [0, 0],
+    parameters: {}
+  });
+  const to = (...targets: Array<string | [string, number]>) =>
+    targets.map(target => (Array.isArray(target)
+      ? { node: target[0], type: 'main', index: target[1] }
+      : { node: target, type: 'main', index: 0 }));
+  const positionsOf = (workflow: any) => Object.fromEntries(workflow.nodes.map((n: any) => [n.name, n.position]));
+  const engine = new LayoutEngine();
+
+  // 1. A linear chain is laid out left to right on one row
+  const chain: any = {
+    id: 'wf_chain', name: 'Chain', active: false,
+    nodes: [node('Trigger', 'n8n-nodes-base.manualTrigger'), node('Fetch'), node('Store')],
+    connections: {
+      Trigger: { main: [to('Fetch')] },
+      Fetch: { main: [to('Store')] }
+    }
+  };
+  const chainPositions = positionsOf(engine.layout(chain));
+  assert.deepStrictEqual(chainPositions, { Trigger: [240, 300], Fetch: [480, 300], Store: [720, 300] });
+  assert.deepStrictEqual(chain.nodes[0].position, [0, 0], 'layout returns a copy');
+
+  // 2. IF branches fan out (true above false) and the merge sits right of both branches
+  const branching: any = {
+    id: 'wf_branch', name: 'Branch', active: false,
+    nodes: [
+      node('Merge', 'n8n-nodes-base.merge'),
+      node('Trigger', 'n8n-nodes-base.manualTrigger'),
+      node('Check', 'n8n-nodes-base.if'),
+      node('Rejected'),
+      node('Approved'),
+      node('Notify'),
+      node('Done')
+    ],
+    connections: {
+      Trigger: { main: [to('Check')] },
+      Check: { main: [to('Approved'), to('Rejected')] },
+      Approved: { main: [to('Notify')] },
+      Notify: { main: [to('Merge')] },
+      Rejected: { main: [to(['Merge', 1])] },
+      Merge: { main: [to('Done')] }
+    }
+  };
+  const branchPositions = positionsOf(engine.layout(branching));
+  assert.ok(branchPositions.Approved[1] < branchPositions.Rejected[1], 'true branch is above false branch');
+  assert.strictEqual(branchPositions.Approved[0], branchPositions.Rejected[0]);
+  assert.strictEqual(branchPositions.Check[1], (branchPositions.Approved[1] + branchPositions.Rejected[1]) / 2, 'branches are centred on the IF node');
+  assert.ok(branchPositions.Merge[0] > branchPositions.Notify[0], 'merge is placed after the longest branch');
+  assert.ok(branchPositions.Done[0] > branchPositions.Merge[0]);
+  const occupied = Object.values(branchPositions).map((p: any) => p.join(','));
+  assert.strictEqual(new Set(occupied).size, occupied.length, 'no two nodes share a position');
+
+  // 3. Switch outputs keep their order and cycles do not break layering
+  const looping: any = {
+    id: 'wf_loop', name: 'Loop', active: false,
+    nodes: [node('Start', 'n8n-nodes-base.manualTrigger'), node('Route', 'n8n-nodes-base.switch'), node('A'), node('B'), node('C'), node('Retry')],
+    connections: {
+      Start: { main: [to('Route')] },
+      Route: { main: [to('C'), to('B'), to('A')] },
+      C: { main: [to('Retry')] },
+      Retry: { main: [to('Route')] }
+    }
+  };
+  const loopPositions = positionsOf(engine.layout(looping));
+  assert.ok(loopPositions.C[1] < loopPositions.B[1] && loopPositions.B[1] < loopPositions.A[1]);
+  assert.ok(loopPositions.Retry[0] > loopPositions.C[0]);
+
+  // 4. Pinned nodes keep their position and the layout is anchored to them
+  const pinnedWorkflow: any = JSON.parse(JSON.stringify(chain));
+  pinnedWorkflow.nodes[1].position = [1000, 1000];
+  const pinnedPositions = positionsOf(engine.layout(pinnedWorkflow, { pinnedNodes: ['Fetch'] }));
+  assert.deepStrictEqual(pinnedPositions.Fetch, [1000, 1000]);
+  assert.deepStrictEqual(pinnedPositions.Trigger, [760, 1000]);
+  assert.deepStrictEqual(pinnedPositions.Store, [1240, 1000]);
+
+  // Free nodes are moved off pinned nodes that sit in their slot
+  const crowded: any = JSON.parse(JSON.stringify(chain));
+  crowded.nodes.push({ ...node('Sticky'), position: [720, 300] });
+  const crowdedPositions = positionsOf(engine.layout(crowded, { pinnedNodes: ['sticky'] }));
+  assert.deepStrictEqual(crowdedPositions.Sticky, [720, 300]);
+  assert.notDeepStrictEqual(crowdedPositions.Store, [720, 300]);
+
+  // 5. Large layouts are compressed into the allowed position bounds
+  const longChain: any = { id: 'wf_long', name: 'Long', active: false, nodes: [], connections: {} };
+  for (let i = 0; i < 120; i++) {
+    longChain.nodes.push(node(`Step ${i}`));
+    if (i > 0) longChain.connections[`Step ${i - 1}`] = { main: [to(`Step ${i}`)] };
+  }
+  const longPositions: any[] = Object.values(positionsOf(engine.layout(longChain)));
+  assert.ok(longPositions.every(([x, y]) => x >= -10000 && x <= 10000 && y >= -10000 && y <= 10000));
+  assert.strictEqual(new Set(longPositions.map(p => p[0])).size, 120);
+
+  console.log('✅ Layout engine tests passed');
+})();
@@ -0,0 +1,115 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { WorkflowAssembler } = await import('../../generators/workflow-assembler.ts');
+
+  console.log('\n⚙️  Running Workflow Assembler Tests');
+
+  const assembler = new WorkflowAssembler();
+  const plan: any = {
+    estimatedComplexity: 3,
+    rationale: 'Fetch leads and route them by score',
+    nodes: [
+      { id: 'trigger', name: 'Webhook', type: 'n8n-nodes-base.webhook', parameters: { path: 'leads' }, description: 'Receive leads' },
+      { id: 'fetch', name: 'HTTP Request', type: 'n8n-nodes-base.httpRequest', parameters: { url: 'https://api.example.com/score' }, description: 'Score lead' },
+      { id: 'check', name: 'Is Hot Lead', type: 'n8n-nodes-base.if', parameters: {}, description: 'Check score' },
+      { id: 'notify', name: 'HTTP Request', type: 'n8n-nodes-base.httpRequest', parameters: { url: 'https://hooks.example.com/hot' }, description: 'Notify sales' },
+      { id: 'store', name: 'Store Lead', type: 'n8n-nodes-base.postgres', parameters: { query: 'insert ...' }, description: 'Store cold lead' },
+      { id: 'merge', name: 'Merge', type: 'n8n-nodes-base.merge', parameters: {}, description: 'Join branches' },
+      { id: 'log', name: 'Log Failure', type: 'n8n-nodes-base.noOp', parameters: {}, description: 'Record failed requests' }
+    ],
+    flow: [
+      { from: 'trigger', to: 'fetch', type: 'main' },
+      { from: 'fetch', to: 'check', type: 'main' },
+      { from: 'fetch', to: 'log', type: 'error' },
+      { from: 'check', to: 'notify', type: 'main', condition: 'true' },
+      { from: 'check', to: 'store', type: 'main', condition: 'false' },
+      { from: 'notify', to: 'merge', type: 'main' },
+      { from: 'notify', to: 'merge', type: 'main' },
+      { from: 'store', to: 'merge', type: 'main' },
+      { from: 'store', to: 'missing', type: 'main' }
+    ]
+  };
+
+  // 1. Nodes are created through NodeFactory with unique names
+  const result = await assembler.assemble(plan, { name: 'Lead Router' });
+  const { workflow } = result;
+  assert.strictEqual(workflow.name, 'Lead Router');
+  assert.deepStrictEqual(workflow.nodes.map((n: any) => n.name),
+    ['Webhook', 'HTTP Request', 'Is Hot Lead', 'HTTP Request1', 'Store Lead', 'Merge', 'Log Failure']);
+  assert.strictEqual(result.nodeNames.get('notify'), 'HTTP Request1');
+  const webhook = workflow.nodes.find((n: any) => n.name === 'Webhook');
+  assert.strictEqual(webhook.parameters.path, 'leads');
+  assert.strictEqual(webhook.parameters.httpMethod, 'POST', 'template defaults are merged in');
+  assert.ok(webhook.webhookId);
+
+  // 2. Id-based flow becomes name-keyed connections with IF outputs, merge inputs and error outputs
+  const connections: any = JSON.parse(JSON.stringify(workflow.connections));
+  assert.deepStrictEqual(connections['Is Hot Lead'].main, [
+    [{ node: 'HTTP Request1', type: 'main', index: 0 }],
+    [{ node: 'Store Lead', type: 'main', index: 0 }]
+  ]);
+  assert.deepStrictEqual(connections['HTTP Request1'].main, [[{ node: 'Merge', type: 'main', index: 0 }]]);
+  assert.deepStrictEqual(connections['Store Lead'].main, [[{ node: 'Merge', type: 'main', index: 1 }]]);
+  assert.deepStrictEqual(connections['HTTP Request'].main[1], [{ node: 'Log Failure', type: 'main', index: 0 }]);
+  assert.strictEqual(workflow.nodes.find((n: any) => n.name === 'HTTP Request').onError, 'continueErrorOutput');
+
+  // 3. Plan problems are reported, nodes are laid out and the validators run
+  assert.ok(result.issues.some((issue: string) => issue.includes('store -> missing')));
+  assert.ok(result.issues.some((issue: string) => issue.includes('renamed to "HTTP Request1"')));
+  assert.ok(workflow.nodes.find((n: any) => n.name === 'Merge').position[0] > workflow.nodes.find((n: any) => n.name === 'Store Lead').position[0]);
+  assert.strictEqual(result.validation.isValid, true, JSON.stringify(result.validation.errors));
+  assert.strictEqual(result.schemaValidation.isValid, true, JSON.stringify(result.schemaValidation.errors));
+
+  // 4. Planned positions are kept and unknown node types are still assembled
+  const partial: any = {
+    estimatedComplexity: 1,
+    rationale: 'Partial plan',
+    nodes: [
+      { id: 'start', name: 'Start', type: 'n8n-nodes-base.manualTrigger', parameters: {}, description: '', position: [100, 100] },
+      { id: 'custom', name: 'Custom', type: 'n8n-nodes-community.custom', parameters: { foo: 1 }, description: '' }
+    ],
+    flow: [{ from: 'start', to: 'custom', type: 'main' }]
+  };
+  const partialResult = await assembler.assemble(partial);
+  assert.deepStrictEqual(partialResult.workflow.nodes[0].position, [100, 100]);
+  assert.deepStrictEqual(partialResult.workflow.nodes[1].position, [340, 100]);
+  assert.deepStrictEqual(partialResult.workflow.nodes[1].parameters, { foo: 1 });
+  assert.ok(partialResult.issues.some((issue: string) => issue.includes('has no template')));
+
+  // 5. Strict mode rejects invalid workflows; empty plans are rejected
+  const broken: any = {
+    estimatedComplexity: 1,
+    rationale: 'Broken expression',
+    nodes: [{ id: 'set', name: 'Set', type: 'n8n-nodes-base.set', parameters: { value: '={{ $json.a + }}' }, description: '' }],
+    flow: []
+  };
+  await assert.rejects(() => assembler.assemble(broken, { strict: true }), /Assembled workflow is invalid/);
+  await assert.rejects(() => assembler.assemble({ nodes: [], flow: [] } as any), /at least one node/);
+
+  // 6. Connection and node compatibility findings are part of the validation
+  const overloaded: any = {
+    estimatedComplexity: 1,
+    rationale: 'Too many inputs',
+    nodes: [
+      { id: 'start', name: 'Start', type: 'n8n-nodes-base.manualTrigger', parameters: {}, description: '' },
+      { id: 'merge', name: 'Merge', type: 'n8n-nodes-base.merge', parameters: {}, description: '' },
+      { id: 'a', name: 'A', type: 'n8n-nodes-base.noOp', parameters: {}, description: '' },
+      { id: 'b', name: 'B', type: 'n8n-nodes-base.noOp', parameters: {}, description: '' },
+      { id: 'c', name: 'C', type: 'n8n-nodes-base.noOp', parameters: {}, description: '' }
+    ],
+    flow: [
+      { from: 'start', to: 'a', type: 'main' },
+      { from: 'start', to: 'b', type: 'main' },
+      { from: 'start', to: 'c', type: 'main' },
+      { from: 'a', to: 'merge', type: 'main' },
+      { from: 'b', to: 'merge', type: 'main' },
+      { from: 'c', to: 'merge', type: 'main' }
+    ]
+  };
+  const overloadedResult = await assembler.assemble(overloaded);
+  assert.ok(overloadedResult.validation.errors.some((error: any) => /too many input connections/.test(error.message)), JSON.stringify(overloadedResult.validation.errors));
+
+  console.log('✅ Workflow assembler tests passed');
+})();
@@ -0,0 +1,144 @@
+import assert from 'assert';
+import path from 'path';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { MakeBlueprintImporter } = await import('../../importers/make-blueprint-importer.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { MakeFormulaTranslator, momentToLuxonFormat } = await import('../../importers/make-formula-translator.ts');
+
+  console.log('\n⚙️  Running Make.com Blueprint Importer Tests');
+
+  // 1. Formula translation
+  const translator = new MakeFormulaTranslator(new Map([[1, 'Search Contacts'], [3, 'Array Aggregator']]));
+  assert.strictEqual(translator.translateValue('{{formatDate(now; "YYYY-MM-DD")}}').value, '={{ $now.toFormat("yyyy-MM-dd") }}');
+  assert.strictEqual(translator.translateValue('{{1.id}}').value, "={{ $('Search Contacts').item.json.id }}");
+  assert.strictEqual(translator.translateValue('{{3.array[3].count}}').value, "={{ $('Array Aggregator').item.json.array[2].count }}");
+  assert.strictEqual(translator.translateValue('Hello {{upper(1.properties.firstname)}}!').value,
+    "=Hello {{ String($('Search Contacts').item.json.properties.firstname).toUpperCase() }}!");
+  assert.strictEqual(translator.translateValue('{{if(1.count > 0; "yes"; "no")}}').value,
+    `={{ ($('Search Contacts').item.json.count > 0 ? "yes" : "no") }}`);
+  assert.strictEqual(translator.translateValue('plain text').value, 'plain text');
+  assert.strictEqual(momentToLuxonFormat('DD/MM/YYYY HH:mm'), 'dd/MM/yyyy HH:mm');
+
+  const broken = translator.translateValue('{{formatDate(now; \\"YYYY")}}');
+  assert.strictEqual(broken.translated, false);
+  assert.strictEqual(broken.value, '{{formatDate(now; \\"YYYY")}}');
+  assert.strictEqual(broken.warnings.length, 1);
+
+  // 2. Real blueprint: mapped nodes, unmapped report and a valid workflow
+  const importer = new MakeBlueprintImporter();
+  const blueprintPath = path.resolve(process.cwd(), 'workflows/skeletons/EXAMPLE SETUP MAKE.COMPage Views Monthly Sync Blueprint (2).json');
+  const { workflow, report, validation } = await importer.importFromFile(blueprintPath);
+
+  assert.strictEqual(workflow.name, 'OPTIMIZED - Page Views Monthly Sync');
+  assert.deepStrictEqual(workflow.nodes.map((n: any) => n.type), [
+    'n8n-nodes-base.manualTrigger',
+    'n8n-nodes-base.hubspot',
+    'n8n-nodes-base.noOp',
+    'n8n-nodes-base.aggregate',
+    'n8n-nodes-base.set',
+    'n8n-nodes-base.httpRequest'
+  ]);
+  assert.deepStrictEqual(report.unmapped.map((m: any) => m.module), ['mixpanel:querySegmentationReport']);
+  assert.strictEqual(report.mapped.length, 4);
+  assert.ok(report.warnings.some((w: any) => w.moduleId === 1 && w.message.startsWith('Could not translate')));
+  assert.strictEqual(validation.isValid, true, JSON.stringify(validation.errors));
+
+  const search = workflow.nodes.find((n: any) => n.type === 'n8n-nodes-base.hubspot');
+  assert.strictEqual(search.parameters.operation, 'search');
+  assert.strictEqual(search.parameters.limit, 10);
+  assert.strictEqual(search.parameters.filterGroupsUi.filterGroupsValues[0].filtersUi.filterValues[0].operator, 'HAS_PROPERTY');
+
+  const setNode = workflow.nodes.find((n: any) => n.type === 'n8n-nodes-base.set');
+  const twoMonthsAgo = setNode.parameters.assignments.assignments.find((a: any) => a.name === 'twoMonthsAgoCount');
+  assert.ok(twoMonthsAgo.value.includes("$('Array Aggregator').item.json.array[0].count"));
+
+  const update = workflow.nodes.find((n: any) => n.type === 'n8n-nodes-base.httpRequest');
+  assert.strictEqual(update.parameters.method, 'PATCH');
+  assert.strictEqual(update.parameters.url, "=https://api.hubapi.com/crm/v3/objects/contacts/{{ $('Search HubSpot Contacts').item.json.id }}");
+  assert.ok(update.parameters.jsonBody.startsWith('={{ JSON.stringify({ properties: { "page_views_current_month": '));
+
+  assert.deepStrictEqual(workflow.connections['Manual Trigger'].main[0][0].node, 'Search HubSpot Contacts');
+  assert.deepStrictEqual(workflow.connections['Set Variables'].main[0][0].node, 'Update HubSpot Contact');
+
+  // 3. Routers, route filters, module filters, iterators and HTTP modules
+  const designer = (x: number) => ({ designer: { x, y: 0 } });
+  const routed: any = {
+    name: 'Routed scenario',
+    flow: [
+      { id: 1, module: 'gateway:CustomWebHook', mapper: {}, metadata: designer(0) },
+      { id: 2, module: 'builtin:BasicFeeder', mapper: { array: '{{1.orders}}' }, metadata: designer(300) },
+      {
+        id: 3,
+        module: 'builtin:BasicRouter',
+        metadata: designer(600),
+        routes: [
+          {
+            flow: [{
+              id: 4,
+              module: 'http:ActionSendData',
+              filter: { name: 'Large orders', conditions: [[{ a: '{{2.total}}', b: '100', o: 'number:greater' }]] },
+              mapper: { url: 'https://api.example.com/orders/{{2.id}}', method: 'post', bodyType: 'raw', contentType: 'application/json', data: '{"total": {{2.total}}}' },
+              metadata: designer(900)
+            }]
+          },
+          {
+            flow: [{
+              id: 5,
+              module: 'util:SetVariable2',
+              mapper: { name: 'status', value: '{{lower(2.status)}}' },
+              metadata: designer(900)
+            }, {
+              id: 6,
+              module: 'slack:CreateMessage',
+              filter: { name: 'Has channel', conditions: [[{ a: '{{1.channel}}', o: 'exist' }], [{ a: '{{5.status}}', b: 'vip', o: 'text:equal' }]] },
+              mapper: { text: 'Order {{2.id}}' },
+              metadata: designer(1200)
+            }]
+          }
+        ]
+      }
+    ]
+  };
+
+  const routedResult = await importer.importBlueprint(routed);
+  const byName = (name: string) => routedResult.workflow.nodes.find((n: any) => n.name === name);
+  const types = routedResult.workflow.nodes.map((n: any) => n.type);
+
+  assert.ok(!types.includes('n8n-nodes-base.manualTrigger'), 'webhook scenarios keep their own trigger');
+  assert.strictEqual(byName('Iterator').parameters.fieldToSplitOut, 'orders');
+
+  const router = byName('Router');
+  assert.strictEqual(router.type, 'n8n-nodes-base.switch');
+  assert.strictEqual(router.parameters.options.allMatchingOutputs, true);
+  assert.strictEqual(router.parameters.rules.values.length, 2);
+  assert.strictEqual(router.parameters.rules.values[0].outputKey, 'Large orders');
+  assert.deepStrictEqual(router.parameters.rules.values[0].conditions.conditions[0].operator, { type: 'number', operation: 'gt' });
+  assert.strictEqual(router.parameters.rules.values[0].conditions.conditions[0].leftValue, "={{ $('Iterator').item.json.total }}");
+  assert.deepStrictEqual(JSON.parse(JSON.stringify(routedResult.workflow.connections.Router.main)), [
+    [{ node: 'HTTP Request', type: 'main', index: 0 }],
+    [{ node: 'Set Variable', type: 'main', index: 0 }]
+  ]);
+
+  const http = byName('HTTP Request');
+  assert.strictEqual(http.parameters.method, 'POST');
+  assert.strictEqual(http.parameters.url, "=https://api.example.com/orders/{{ $('Iterator').item.json.id }}");
+  assert.strictEqual(http.parameters.specifyBody, 'json');
+
+  // The module filter on the unmapped Slack module becomes an IF node in front of it
+  const filter = byName('Has channel');
+  assert.strictEqual(filter.type, 'n8n-nodes-base.if');
+  assert.strictEqual(filter.parameters.conditions.combinator, 'or');
+  assert.strictEqual(filter.parameters.conditions.conditions[0].operator.operation, 'exists');
+  assert.strictEqual(filter.parameters.conditions.conditions[1].leftValue, "={{ $('Set Variable').item.json.status }}");
+  assert.strictEqual(routedResult.workflow.connections['Set Variable'].main[0][0].node, 'Has channel');
+  assert.strictEqual(routedResult.workflow.connections['Has channel'].main[0][0].node, 'Slack Create Message');
+  assert.deepStrictEqual(routedResult.report.unmapped.map((m: any) => m.module), ['slack:CreateMessage']);
+  assert.strictEqual(routedResult.validation.isValid, true, JSON.stringify(routedResult.validation.errors));
+
+  // 4. Invalid input
+  await assert.rejects(() => importer.importBlueprint({ name: 'Empty' } as any), /flow array/);
+
+  console.log('✅ Make.com blueprint importer tests passed');
+})();
@@ -0,0 +1,157 @@
+import assert from 'assert';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { NodeTypeCatalog, NODE_TYPE_CATALOG_VERSION, NODE_TYPE_CATALOG_ENV, getDefaultNodeTypeCatalog, setDefaultNodeTypeCatalog } = await import('../../importers/node-type-catalog.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { getNodeCompatibilityDB, NodeCompatibilityValidator, NODE_COMPATIBILITY_DB } = await import('../../validation/node-compatibility-validator.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { NodeFactory } = await import('../../generators/node-factory.ts');
+
+  console.log('\n⚙️  Running Node Type Catalog Tests');
+
+  const url = { displayName: 'URL', name: 'url', type: 'string', default: '', required: true };
+  const dump: any[] = [
+    {
+      displayName: 'HTTP Request', name: 'n8n-nodes-base.httpRequest', group: ['output'], version: 1, description: 'Makes an HTTP request',
+      defaults: { name: 'HTTP Request' }, inputs: ['main'], outputs: ['main'], properties: [url], iconUrl: 'icons/http.svg'
+    },
+    {
+      displayName: 'HTTP Request', name: 'n8n-nodes-base.httpRequest', group: ['output'], version: [4, 4.1, 4.2], defaultVersion: 4.2,
+      description: 'Makes an HTTP request', defaults: { name: 'HTTP Request' }, inputs: ['main'], outputs: ['main'],
+      credentials: [{ name: 'httpBasicAuth', required: false }],
+      properties: [
+        { displayName: 'Method', name: 'method', type: 'options', default: 'GET', options: [{ name: 'GET', value: 'GET' }, { name: 'POST', value: 'POST' }] },
+        url
+      ]
+    },
+    {
+      displayName: 'Hook', name: 'test.hook', group: ['trigger'], version: 2, description: 'Starts on a call',
+      defaults: { name: 'Hook' }, inputs: [], outputs: ['main'], properties: [], webhooks: [{ name: 'default', httpMethod: 'POST', path: 'hook' }],
+      credentials: [{ name: 'hookApi', required: true }]
+    },
+    {
+      displayName: 'Merge', name: 'n8n-nodes-base.merge', group: ['transform'], version: 3, description: 'Merges inputs',
+      defaults: { name: 'Merge' }, inputs: '={{ Array($parameter.numberInputs).fill("main") }}', outputs: ['main'], properties: []
+    },
+    { displayName: 'Broken', name: 'test.broken', version: 'latest', properties: [] },
+    { displayName: 'HTTP Request', name: 'n8n-nodes-base.httpRequest', version: 4.2, properties: [] },
+    'not a node'
+  ];
+
+  // 1. Importing a dump keeps one description per version set and reports what it left out
+  const { catalog, skipped } = NodeTypeCatalog.fromDump(dump, { n8nVersion: '1.64.0' });
+  assert.deepStrictEqual(catalog.getTypes(), ['n8n-nodes-base.httpRequest', 'n8n-nodes-base.merge', 'test.hook']);
+  assert.deepStrictEqual(skipped.map((entry: any) => [entry.index, entry.reason]), [
+    [4, 'missing or invalid version'],
+    [5, 'version 4.2 already imported'],
+    [6, 'not an object']
+  ]);
+  assert.strictEqual(catalog.getDescription('n8n-nodes-base.httpRequest', 1).iconUrl, undefined);
+  assert.deepStrictEqual(NodeTypeCatalog.fromDump({ data: dump.slice(0, 1) }).catalog.getTypes(), ['n8n-nodes-base.httpRequest']);
+  assert.throws(() => NodeTypeCatalog.fromDump({ nodes: [] }), /must be an array/);
+
+  // 2. Versions, connections, credentials and properties per type version
+  assert.deepStrictEqual(catalog.getVersions('n8n-nodes-base.httpRequest'), [1, 4, 4.1, 4.2]);
+  assert.strictEqual(catalog.getDefaultVersion('n8n-nodes-base.httpRequest'), 4.2);
+  assert.strictEqual(catalog.getDefaultVersion('test.hook'), 2);
+  assert.strictEqual(catalog.getDefaultVersion('test.missing'), null);
+  assert.deepStrictEqual(catalog.getProperties('n8n-nodes-base.httpRequest', 3).map((property: any) => property.name), ['url']);
+  assert.deepStrictEqual(catalog.getProperties('n8n-nodes-base.httpRequest').map((property: any) => property.name), ['method', 'url']);
+  assert.deepStrictEqual(catalog.getConnections('test.hook'), { inputs: [], outputs: ['main'], dynamic: false });
+  assert.strictEqual(catalog.getConnections('n8n-nodes-base.merge').dynamic, true);
+  assert.deepStrictEqual(catalog.getCredentials('test.hook'), [{ name: 'hookApi', required: true }]);
+
+  // 3. Catalog files round-trip, and raw dumps load directly
+  const dir = mkdtempSync(path.join(os.tmpdir(), 'node-catalog-'));
+  try {
+    const file = path.join(dir, 'nested', 'catalog.json');
+    catalog.save(file);
+    const loaded = NodeTypeCatalog.load(file);
+    assert.strictEqual(loaded.n8nVersion, '1.64.0');
+    assert.strictEqual(loaded.importedAt, catalog.importedAt);
+    assert.deepStrictEqual(loaded.getVersions('n8n-nodes-base.httpRequest'), [1, 4, 4.1, 4.2]);
+
+    const dumpFile = path.join(dir, 'nodes.json');
+    writeFileSync(dumpFile, JSON.stringify(dump));
+    assert.strictEqual(NodeTypeCatalog.load(dumpFile).size, 3);
+
+    assert.throws(() => NodeTypeCatalog.fromJSON({ catalogVersion: NODE_TYPE_CATALOG_VERSION + 1, importedAt: '', nodeTypes: [] }), /re-import/);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  // 4. The compatibility database takes catalog types over the built-in entries
+  assert.strictEqual(getNodeCompatibilityDB(new NodeTypeCatalog()), NODE_COMPATIBILITY_DB);
+  const db = getNodeCompatibilityDB(catalog);
+  assert.strictEqual(getNodeCompatibilityDB(catalog), db);
+  assert.deepStrictEqual(db['n8n-nodes-base.httpRequest'], {
+    category: 'action',
+    supportedInputTypes: ['main'],
+    supportedOutputTypes: ['main'],
+    requiredParameters: ['url'],
+    optionalParameters: ['method'],
+    maxInputConnections: 1,
+    maxOutputConnections: 2,
+    minTypeVersion: 1,
+    maxTypeVersion: 4.2
+  });
+  assert.strictEqual(db['test.hook'].category, 'trigger');
+  assert.strictEqual(db['test.hook'].maxInputConnections, 0);
+  assert.strictEqual(db['n8n-nodes-base.merge'].maxInputConnections, NODE_COMPATIBILITY_DB['n8n-nodes-base.merge'].maxInputConnections);
+  assert.strictEqual(db['n8n-nodes-base.code'], NODE_COMPATIBILITY_DB['n8n-nodes-base.code']);
+
+  const validator = new NodeCompatibilityValidator(db);
+  const newer = validator.validateNode({ id: 'n1', name: 'Fetch', type: 'n8n-nodes-base.httpRequest', typeVersion: 4.2, position: [0, 0], parameters: { url: 'x' } });
+  assert.deepStrictEqual([...newer.errors, ...newer.warnings], []);
+  assert.ok(validator.validateNode({ id: 'n2', name: 'Hook', type: 'test.hook', typeVersion: 1, position: [0, 0], parameters: {} })
+    .errors.some((error: any) => error.message.includes('is outdated')));
+
+  // 5. The node factory uses catalog versions, keeping built-in templates for known versions
+  const factory = new NodeFactory(catalog);
+  assert.strictEqual(factory.getNodeTemplate('n8n-nodes-base.httpRequest').defaultVersion, 4.1);
+  assert.ok(Object.keys(factory.getNodeTemplate('n8n-nodes-base.httpRequest').defaultParameters).length > 0);
+  assert.strictEqual(factory.getNodeTemplate('n8n-nodes-base.merge').defaultVersion, 3);
+  assert.deepStrictEqual(factory.getNodeTemplate('n8n-nodes-base.merge').defaultParameters, { mode: 'append', options: {} }, 'the catalog has no parameters for v3');
+  const described = NodeTypeCatalog.fromDump([{ ...dump[3], inputs: ['main', 'main'], properties: [{ displayName: 'Mode', name: 'mode', type: 'string', default: 'append' }] }]).catalog;
+  assert.deepStrictEqual(new NodeFactory(described).getNodeTemplate('n8n-nodes-base.merge').defaultParameters, {});
+
+  const hook = await factory.createNode({ name: 'Hook', type: 'test.hook', parameters: {} } as any);
+  assert.strictEqual(hook.typeVersion, 2);
+  assert.deepStrictEqual(hook.credentials, {});
+  assert.ok(hook.webhookId);
+  assert.strictEqual(factory.getNodeTemplate('test.hook').category, 'trigger');
+
+  // 6. The shared catalog comes only from N8N_NODE_TYPE_CATALOG, and unreadable files fall back to the built-in tables
+  const catalogDirectory = mkdtempSync(path.join(os.tmpdir(), 'node-catalog-default-'));
+  const catalogFile = path.join(catalogDirectory, 'catalog.json');
+  const warn = console.warn;
+  const warnings: string[] = [];
+  console.warn = (message: string) => { warnings.push(message); };
+  try {
+    delete process.env[NODE_TYPE_CATALOG_ENV];
+    setDefaultNodeTypeCatalog(null);
+    assert.strictEqual(getDefaultNodeTypeCatalog().size, 0);
+
+    catalog.save(catalogFile);
+    process.env[NODE_TYPE_CATALOG_ENV] = catalogFile;
+    setDefaultNodeTypeCatalog(null);
+    assert.strictEqual(getDefaultNodeTypeCatalog().getDefaultVersion('test.hook'), 2);
+
+    writeFileSync(catalogFile, '{"catalogVersion": 1, "nodeTypes": [');
+    setDefaultNodeTypeCatalog(null);
+    assert.strictEqual(getDefaultNodeTypeCatalog().size, 0);
+    assert.strictEqual(new NodeFactory().getNodeTemplate('n8n-nodes-base.merge').defaultVersion, 2.1);
+    assert.ok(warnings[0].startsWith(`Could not load the node type catalog from ${catalogFile}`));
+  } finally {
+    console.warn = warn;
+    delete process.env[NODE_TYPE_CATALOG_ENV];
+    setDefaultNodeTypeCatalog(null);
+    rmSync(catalogDirectory, { recursive: true, force: true });
+  }
+
+  console.log('✅ Node type catalog tests passed');
+})();
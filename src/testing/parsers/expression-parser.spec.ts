@@ -0,0 +1,96 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const Parser = await import('../../parsers/expression-parser.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { StaticExpressionEvaluator } = await import('../../parsers/expression-evaluator.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { WorkflowValidator } = await import('../../validators/workflow-validator.ts');
+
+  console.log('\n⚙️  Running Expression Parser Tests');
+
+  // 1. Tokenizing keeps braces inside strings within the block
+  const segments = Parser.tokenizeExpression('Hello {{ $json.name }}, see {{ "}}" + $json.id }}!');
+  assert.deepStrictEqual(segments.map((s: any) => s.type), ['text', 'code', 'text', 'code', 'text']);
+  assert.strictEqual(segments[3].value, ' "}}" + $json.id ');
+  assert.throws(() => Parser.tokenizeExpression('{{ $json.name '), /Unterminated/);
+
+  // 2. References in the supported forms
+  const references = Parser.parseExpression(
+    "={{ $('Fetch Users').item.json.email + $node[\"Config\"].json.domain + $json.user?.['first name'] + $items(\"Lookup\")[0].json.id }}"
+  ).references;
+  assert.deepStrictEqual(
+    references.map((r: any) => [r.kind, r.nodeName, r.path.join('.')]),
+    [
+      ['node', 'Fetch Users', 'item.json.email'],
+      ['node', 'Config', 'json.domain'],
+      ['json', undefined, 'user.first name'],
+      ['node', 'Lookup', '0.json.id']
+    ]
+  );
+
+  const nested = Parser.parseExpression('={{ $input.all().map(item => item.json.id).includes($json.id) }}').references;
+  assert.deepStrictEqual(nested.map((r: any) => r.raw), ['$input.all().map(item => item.json.id).includes($json.id)', '$json.id'], 'References inside call arguments are found');
+  assert.deepStrictEqual(Parser.getReferencedNodeNames('={{ `${$node.Webhook.json.body}` }}'), ['Webhook']);
+
+  const broken = Parser.parseExpression('={{ $json.name + }}');
+  assert.strictEqual(broken.errors.length, 1, 'Syntax errors are reported');
+
+  // 3. Static evaluation
+  const evaluator = new StaticExpressionEvaluator();
+  const node: any = {
+    id: 'n1',
+    name: 'Describe',
+    type: 'n8n-nodes-base.set',
+    typeVersion: 3,
+    position: [0, 0],
+    parameters: {
+      operation: 'create',
+      resource: '={{ "con" + "tact" }}',
+      label: '={{$parameter["operation"] + ": " + $parameter["resource"]}}',
+      score: '={{ Math.random() * 100 }}',
+      email: '={{ $json.email }}'
+    }
+  };
+  assert.strictEqual(evaluator.evaluate(node.parameters.label, { node }).value, 'create: contact');
+  assert.strictEqual(evaluator.evaluate(node.parameters.score, { node }).isStatic, false);
+  assert.ok(evaluator.evaluate(node.parameters.score, { node }).reason.includes('Math.random'));
+  assert.strictEqual(evaluator.evaluate(node.parameters.email, { node }).isStatic, false);
+  assert.strictEqual(evaluator.evaluate('=https://{{ $env.HOST }}/api', { node, env: { HOST: 'example.com' } }).value, 'https://example.com/api');
+
+  // 4. WorkflowValidator flags unknown and non-upstream node references
+  const workflow: any = {
+    id: 'wf1',
+    name: 'References',
+    active: false,
+    settings: {},
+    nodes: [
+      { id: 'a', name: 'Trigger', type: 'n8n-nodes-base.manualTrigger', typeVersion: 1, position: [0, 0], parameters: {} },
+      { id: 'b', name: 'Fetch', type: 'n8n-nodes-base.set', typeVersion: 3, position: [200, 0], parameters: {} },
+      { id: 'c', name: 'Use', type: 'n8n-nodes-base.set', typeVersion: 3, position: [400, 0], parameters: {
+        assignments: { assignments: [
+          { name: 'ok', value: "={{ $('Fetch').item.json.id }}" },
+          { name: 'missing', value: "={{ $('Fetch Data').item.json.id }}" },
+          { name: 'later', value: '={{ $node["Report"].json.total }}' }
+        ] }
+      } },
+      { id: 'd', name: 'Report', type: 'n8n-nodes-base.set', typeVersion: 3, position: [600, 0], parameters: {} }
+    ],
+    connections: {
+      Trigger: { main: [[{ node: 'Fetch', type: 'main', index: 0 }]] },
+      Fetch: { main: [[{ node: 'Use', type: 'main', index: 0 }]] },
+      Use: { main: [[{ node: 'Report', type: 'main', index: 0 }]] }
+    }
+  };
+  const result = await new WorkflowValidator().validate(workflow);
+  const missing = result.errors.filter((e: any) => e.message.includes('does not exist') && e.message.includes('Expression'));
+  assert.strictEqual(missing.length, 1);
+  assert.ok(missing[0].message.includes('Fetch Data'));
+  assert.strictEqual(missing[0].field, 'assignments.assignments.1.value');
+  const notUpstream = result.warnings.filter((w: any) => w.type === 'data_flow_continuity');
+  assert.strictEqual(notUpstream.length, 1);
+  assert.ok(notUpstream[0].message.includes('"Report"'));
+
+  console.log('✅ Expression parser tests passed');
+})();
@@ -0,0 +1,126 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { WorkflowExplainer } = await import('../../parsers/workflow-explainer.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ReplayProvider } = await import('../../ai-agents/providers/replay-provider.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { AIAgent } = await import('../../ai-agents/ai-agent.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ollamaCacheManager } = await import('../../performance/ollama-cache-manager.ts');
+
+  console.log('\n⚙️  Running Workflow Explainer Tests');
+
+  const node = (name: string, type: string, parameters: any = {}, extra: any = {}) =>
+    ({ id: name, name, type, typeVersion: 1, position: [0, 0], parameters, ...extra });
+  const link = (...targets: string[]) => ({ main: targets.map(target => [{ node: target, type: 'main', index: 0 }]) });
+
+  const workflow: any = {
+    id: 'wf-orders',
+    name: 'Order routing',
+    active: true,
+    nodes: [
+      node('Save Order', 'n8n-nodes-base.googleSheets', { operation: 'append', sheetName: 'Orders' }),
+      node('Every Hour', 'n8n-nodes-base.scheduleTrigger', { rule: { interval: [{ field: 'hours', hoursInterval: 1 }] } }),
+      node('Fetch Orders', 'n8n-nodes-base.httpRequest', { method: 'GET', url: 'https://shop.example.com/api/orders' }, { onError: 'continueErrorOutput' }),
+      node('Is Paid', 'n8n-nodes-base.if', {
+        conditions: {
+          conditions: [{ leftValue: '={{ $json.status }}', rightValue: 'paid', operator: { type: 'string', operation: 'equals' } }],
+          combinator: 'and'
+        }
+      }),
+      node('Tag Order', 'n8n-nodes-base.set', { assignments: { assignments: [{ name: 'stage', value: 'fulfilment', type: 'string' }] } }),
+      node('Notify Sales', 'n8n-nodes-base.slack', { resource: 'message', operation: 'post', channel: '#sales', text: '={{ $json.id }} is unpaid' }),
+      node('Alert Ops', 'n8n-nodes-base.emailSend', { toEmail: 'ops@example.com', subject: 'Order fetch failed' }),
+      node('Combine', 'n8n-nodes-base.merge', { mode: 'append' }),
+      node('Scratch', 'n8n-nodes-base.noOp')
+    ],
+    connections: {
+      'Every Hour': link('Fetch Orders'),
+      'Fetch Orders': { main: [[{ node: 'Is Paid', type: 'main', index: 0 }], [{ node: 'Alert Ops', type: 'main', index: 0 }]] },
+      'Is Paid': { main: [[{ node: 'Tag Order', type: 'main', index: 0 }], [{ node: 'Notify Sales', type: 'main', index: 0 }]] },
+      'Tag Order': link('Combine'),
+      'Notify Sales': { main: [[{ node: 'Combine', type: 'main', index: 1 }]] },
+      'Combine': link('Save Order')
+    }
+  };
+
+  const explainer = new WorkflowExplainer();
+  const explanation = explainer.explain(workflow);
+
+  // 1. Steps walk from the trigger to the exits; a merge waits for both branches
+  const order = explanation.steps.map((step: any) => step.node);
+  assert.deepStrictEqual(explanation.triggers, ['Every Hour']);
+  assert.strictEqual(order[0], 'Every Hour');
+  assert.ok(order.indexOf('Combine') > order.indexOf('Tag Order'));
+  assert.ok(order.indexOf('Combine') > order.indexOf('Notify Sales'));
+  assert.ok(order.indexOf('Save Order') > order.indexOf('Combine'));
+  assert.deepStrictEqual(explanation.exits, ['Alert Ops', 'Save Order']);
+  assert.deepStrictEqual(explanation.unreachable, ['Scratch']);
+
+  // 2. Each step describes the node with its actual parameters
+  const step = (name: string) => explanation.steps.find((candidate: any) => candidate.node === name);
+  assert.strictEqual(step('Every Hour').description, 'Runs every hour');
+  assert.strictEqual(step('Every Hour').role, 'trigger');
+  assert.strictEqual(step('Fetch Orders').description, 'Sends a GET request to "https://shop.example.com/api/orders"');
+  assert.strictEqual(step('Tag Order').description, 'Sets stage = "fulfilment"');
+  assert.strictEqual(step('Combine').role, 'merge');
+
+  // 3. Branch conditions and error outputs are labelled
+  assert.strictEqual(step('Is Paid').description, 'Checks whether {{ $json.status }} equals "paid"');
+  assert.deepStrictEqual(step('Is Paid').branches.map((branch: any) => [branch.label, branch.targets]), [
+    ['if true', ['Tag Order']],
+    ['otherwise', ['Notify Sales']]
+  ]);
+  assert.deepStrictEqual(step('Fetch Orders').branches[1], { label: 'on error', targets: ['Alert Ops'] });
+
+  // 4. Places where data is written are collected
+  assert.deepStrictEqual(explanation.destinations, [
+    { node: 'Alert Ops', destination: 'email to "ops@example.com"' },
+    { node: 'Notify Sales', destination: 'Slack message "#sales"' },
+    { node: 'Save Order', destination: 'Google Sheets "Orders"' }
+  ]);
+
+  const text = explainer.toText(explanation);
+  assert.ok(text.includes('Is Paid: Checks whether {{ $json.status }} equals "paid". If true → Tag Order; Otherwise → Notify Sales.'), text);
+  assert.ok(text.includes('Then → Is Paid; On error → Alert Ops.'));
+  assert.ok(text.includes('Not reached from any trigger: Scratch.'));
+
+  // 5. Switch outputs are labelled with their rules
+  const switchWorkflow: any = {
+    name: 'Routing',
+    nodes: [
+      node('Start', 'n8n-nodes-base.manualTrigger'),
+      node('Route', 'n8n-nodes-base.switch', { dataType: 'string', value1: '={{ $json.region }}', rules: { rules: [{ operation: 'equal', value2: 'EU', output: 0 }, { operation: 'equal', value2: 'US', output: 1 }] } }),
+      node('EU', 'n8n-nodes-base.noOp'),
+      node('US', 'n8n-nodes-base.noOp')
+    ],
+    connections: {
+      'Start': link('Route'),
+      'Route': { main: [[{ node: 'EU', type: 'main', index: 0 }], [{ node: 'US', type: 'main', index: 0 }]] }
+    }
+  };
+  const routed = explainer.explain(switchWorkflow).steps[1];
+  assert.strictEqual(routed.role, 'branch');
+  assert.deepStrictEqual(routed.branches[1], { label: 'rule 2', condition: '{{ $json.region }} equals "US"', targets: ['US'] });
+
+  // 6. The agent polishes the narrative and falls back to it when the model fails
+  const polisher = new ReplayProvider({ fallbackResponse: '<think>keep it short</think>\nEvery hour the workflow fetches orders and routes them.' });
+  const agent = new AIAgent(undefined, undefined, false, { tasks: { explanation: polisher } });
+  const polished = await agent.explainWorkflow(workflow);
+  assert.strictEqual(polished.polished, true);
+  assert.strictEqual(polished.text, 'Every hour the workflow fetches orders and routes them.');
+  assert.ok(polisher.getPrompts()[0].includes(text));
+
+  const failing = new AIAgent(undefined, undefined, false, { tasks: { explanation: new ReplayProvider() } });
+  const originalWarn = console.warn;
+  console.warn = () => undefined;
+  const fallback = await failing.explainWorkflow(workflow);
+  console.warn = originalWarn;
+  assert.strictEqual(fallback.polished, false);
+  assert.strictEqual(fallback.text, text);
+
+  ollamaCacheManager.dispose();
+  console.log('✅ Workflow explainer tests passed');
+})();
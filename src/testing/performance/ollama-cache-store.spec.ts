@@ -0,0 +1,202 @@
+import assert from 'assert';
+import { appendFileSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { OllamaCacheStore } = await import('../../performance/ollama-cache-store.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { OllamaCacheManager, ollamaCacheManager } = await import('../../performance/ollama-cache-manager.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { OllamaCacheCLI } = await import('../../cli/ollama-cache-cli.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { AIAgent } = await import('../../ai-agents/ai-agent.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { LLMProviderRegistry } = await import('../../ai-agents/providers/provider-registry.ts');
+
+  console.log('\n⚙️  Running Ollama Cache Store Tests');
+
+  const directory = mkdtempSync(path.join(os.tmpdir(), 'ollama-cache-'));
+  const logPath = path.join(directory, 'responses.jsonl');
+  const open = (config: any = {}) => new OllamaCacheManager({ enablePerformanceTracking: false, persistToDisk: true, diskCachePath: directory, ...config });
+
+  // 1. Responses survive a restart; expired ones are dropped on load
+  const first = open({ semantic: { templates: ['analysis'] } });
+  await first.setCachedResponse('Plan a Slack digest', 'digest plan', 'model-a');
+  await first.setCachedResponse('Plan a Jira sync', 'jira plan', 'model-b');
+  await first.setCachedResponse('Short lived', 'gone soon', 'model-a', 0.3, 0.9, 2000, 1);
+  await first.setCachedResponse('Analyze: notify Slack about new Google Sheets rows', 'sheets analysis', 'model-a', 0.3, 0.9, 2000, undefined, {
+    template: 'analysis',
+    templateVersion: 1,
+    semanticText: 'description: notify Slack about new Google Sheets rows'
+  });
+  await first.flush();
+  first.dispose();
+  assert.ok(existsSync(logPath));
+
+  const second = open({ semantic: { templates: ['analysis'] } });
+  assert.strictEqual(await second.getCachedResponse('Plan a Slack digest', 'model-a'), 'digest plan');
+  assert.strictEqual(await second.getCachedResponse('Short lived', 'model-a'), null);
+  assert.strictEqual(second.getCacheStats().totalEntries, 3);
+  assert.deepStrictEqual(second.getCacheStats().disk!.liveEntries, 3);
+
+  // The semantic index is rebuilt from the stored lookup hints
+  const reworded = await second.getCachedResponse('Analyze: notify Slack about new rows in Google Sheets', 'model-a', 0.3, 0.9, 2000, {
+    template: 'analysis',
+    templateVersion: 1,
+    semanticText: 'description: notify Slack about new rows in Google Sheets'
+  });
+  assert.strictEqual(reworded, 'sheets analysis');
+  await second.flush();
+  second.dispose();
+
+  // 2. A line cut short by a crash and a compaction that died before its rename are both ignored
+  appendFileSync(logPath, '{"op":"set","key":"half');
+  writeFileSync(`${logPath}.tmp`, 'partial compaction');
+  const store = new OllamaCacheStore({ directory, minCompactionRecords: 4 });
+  const loaded = await store.load();
+  assert.strictEqual(loaded.corrupt, 1);
+  assert.strictEqual(loaded.expired, 1);
+  assert.strictEqual(loaded.entries.length, 3);
+  assert.ok(!existsSync(`${logPath}.tmp`));
+
+  // 3. Deletes make the log worth compacting; compaction keeps only live entries
+  const [digest, jira] = loaded.entries;
+  await store.append({ op: 'delete', key: jira.key });
+  assert.strictEqual(store.needsCompaction(), true);
+  assert.deepStrictEqual(await store.compact(loaded.entries.filter(persisted => persisted.key !== jira.key)), []);
+  assert.strictEqual(readFileSync(logPath, 'utf-8').trim().split('\n').length, 2);
+  assert.strictEqual(store.getStats().records, 2);
+  assert.strictEqual(store.needsCompaction(), false);
+
+  // 4. Past the size limit the least recently used entries are evicted
+  const small = new OllamaCacheStore({ directory, maxBytes: 700 });
+  const { entries } = await small.load();
+  const recent = { ...digest, entry: { ...digest.entry, lastAccessed: Date.now() + 1000 } };
+  const evicted = await small.compact([...entries.filter(persisted => persisted.key !== digest.key), recent]);
+  assert.strictEqual(evicted.length, 1);
+  assert.notStrictEqual(evicted[0], digest.key);
+  assert.deepStrictEqual((await small.load()).entries.map((persisted: any) => persisted.key), [digest.key]);
+
+  // 5. The CLI exports and prunes the log
+  const third = open();
+  await third.setCachedResponse('Plan a Jira sync', 'jira plan', 'model-b');
+  await third.flush();
+  third.dispose();
+
+  const exportPath = path.join(directory, 'export.json');
+  const log = console.log;
+  console.log = () => undefined;
+  try {
+    await new OllamaCacheCLI().run(['node', 'ollama-cache', 'export', exportPath, '-d', directory, '-s', 'jira']);
+    await new OllamaCacheCLI().run(['node', 'ollama-cache', 'prune', '-d', directory, '-m', 'model-b']);
+  } finally {
+    console.log = log;
+  }
+  const exported = JSON.parse(readFileSync(exportPath, 'utf-8'));
+  assert.deepStrictEqual(exported.map((entry: any) => [entry.model, entry.prompt, entry.response]), [['model-b', 'Plan a Jira sync', 'jira plan']]);
+  assert.deepStrictEqual((await new OllamaCacheStore({ directory }).load()).entries.map((persisted: any) => persisted.entry.model), ['model-a']);
+
+  // 6. Clearing the cache clears the log too
+  const fourth = open();
+  await fourth.flush();
+  assert.strictEqual(fourth.getCacheStats().totalEntries, 1);
+  fourth.clearCache();
+  await fourth.flush();
+  fourth.dispose();
+  assert.strictEqual((await new OllamaCacheStore({ directory }).load()).entries.length, 0);
+
+  // 7. A line cut short by a crash is removed, so the next record starts on its own line
+  const torn = new OllamaCacheStore({ directory });
+  const [kept] = loaded.entries;
+  writeFileSync(logPath, JSON.stringify({ op: 'set', ...kept }) + '\n{"op":"set","key":"half');
+  assert.strictEqual((await torn.load()).corrupt, 1);
+  await torn.append({ op: 'delete', key: kept.key });
+  assert.strictEqual(readFileSync(logPath, 'utf-8'), JSON.stringify({ op: 'set', ...kept }) + '\n' + JSON.stringify({ op: 'delete', key: kept.key }) + '\n');
+  assert.strictEqual(torn.getStats().sizeBytes, Buffer.byteLength(readFileSync(logPath, 'utf-8')));
+  const reloaded = await torn.load();
+  assert.deepStrictEqual([reloaded.corrupt, reloaded.entries.length], [0, 0]);
+
+  writeFileSync(logPath, JSON.stringify({ op: 'set', ...kept }));
+  await torn.load();
+  await torn.append({ op: 'touch', key: kept.key, hitCount: 4, lastAccessed: 42 });
+  const touched = await torn.load();
+  assert.strictEqual(touched.corrupt, 0);
+  assert.deepStrictEqual([touched.entries[0].entry.hitCount, touched.entries[0].entry.lastAccessed], [4, 42]);
+
+  // 8. Hits reach the log; entries dropped from memory stay on disk, survive compaction and are read back on a miss
+  const lruDirectory = path.join(directory, 'lru');
+  const lru = open({ diskCachePath: lruDirectory, maxEntries: 10 });
+  for (let i = 0; i < 11; i++) {
+    await lru.setCachedResponse(`Prompt ${i}`, `response ${i}`, 'model-a');
+  }
+  await lru.flush();
+  assert.strictEqual(lru.getCacheStats().totalEntries, 10);
+  assert.strictEqual(lru.getCacheStats().disk!.liveEntries, 11);
+  assert.ok(!lru.getCacheEntries().some((cached: any) => cached.entry.prompt === 'Prompt 0'), 'oldest entry left memory');
+  assert.strictEqual(await lru.getCachedResponse('Prompt 1', 'model-a'), 'response 1');
+  assert.deepStrictEqual(await lru.compactDiskCache(), []);
+  assert.strictEqual(await lru.getCachedResponse('Prompt 0', 'model-a'), 'response 0');
+  assert.strictEqual(lru.getCacheStats().totalHits, 2);
+  assert.strictEqual(lru.getCacheStats().totalEntries, 10);
+  await lru.flush();
+  lru.dispose();
+
+  const onDisk = (await new OllamaCacheStore({ directory: lruDirectory }).load()).entries;
+  assert.strictEqual(onDisk.length, 11);
+  assert.strictEqual(onDisk.find((persisted: any) => persisted.entry.prompt === 'Prompt 1').entry.hitCount, 1);
+  assert.strictEqual(onDisk.find((persisted: any) => persisted.entry.prompt === 'Prompt 0').entry.hitCount, 1);
+  assert.strictEqual(readFileSync(path.join(lruDirectory, 'responses.jsonl'), 'utf-8').includes('"op":"delete"'), false);
+
+  const restarted = open({ diskCachePath: lruDirectory, maxEntries: 10 });
+  assert.strictEqual(await restarted.getCachedResponse('Prompt 1', 'model-a'), 'response 1', 'recently hit entry is restored first');
+  await restarted.flush();
+  restarted.dispose();
+
+  // 9. An agent restarted on the same cache directory answers from disk
+  let modelCalls = 0;
+  const countingProvider: any = {
+    type: 'replay',
+    model: 'model-a',
+    complete: async () => `answer ${++modelCalls}`,
+    stream: async function* () {}
+  };
+  const agentDirectory = path.join(directory, 'agent');
+  const startAgent = (cache: any) => new AIAgent('http://localhost:11434', 'model-a', true, new LLMProviderRegistry({ default: countingProvider }), { cache });
+
+  const before = open({ diskCachePath: agentDirectory });
+  assert.strictEqual(await startAgent(before).complete('Summarize the run'), 'answer 1');
+  await before.flush();
+  before.dispose();
+
+  const after = open({ diskCachePath: agentDirectory });
+  assert.strictEqual(await startAgent(after).complete('Summarize the run'), 'answer 1');
+  assert.strictEqual(modelCalls, 1);
+  assert.strictEqual(after.getCacheStats().totalHits, 1);
+  await after.flush();
+  after.dispose();
+
+  // 10. A log that fails to load leaves memory empty and the log untouched
+  const badDirectory = path.join(directory, 'bad');
+  const badLog = JSON.stringify({ op: 'set', ...kept }) + '\n' + JSON.stringify({ op: 'set', key: 'bad', entry: null }) + '\n';
+  mkdirSync(badDirectory);
+  writeFileSync(path.join(badDirectory, 'responses.jsonl'), badLog);
+  const warn = console.warn;
+  const warnings: string[] = [];
+  console.warn = (message: string) => { warnings.push(message); };
+  try {
+    const unreadable = open({ diskCachePath: badDirectory });
+    await unreadable.flush();
+    assert.strictEqual(unreadable.getCacheStats().totalEntries, 0);
+    assert.ok(warnings[0].startsWith('Could not load the Ollama response cache from disk'));
+    unreadable.dispose();
+  } finally {
+    console.warn = warn;
+  }
+  assert.strictEqual(readFileSync(path.join(badDirectory, 'responses.jsonl'), 'utf-8'), badLog);
+
+  rmSync(directory, { recursive: true, force: true });
+  ollamaCacheManager.dispose();
+  console.log('✅ Ollama cache store tests passed');
+})();
@@ -0,0 +1,97 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { normalizeForSimilarity, minHashSignature, estimateJaccard, cosineSimilarity } = await import('../../performance/semantic-cache.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { OllamaCacheManager, ollamaCacheManager } = await import('../../performance/ollama-cache-manager.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ReplayProvider } = await import('../../ai-agents/providers/replay-provider.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { AIAgent } = await import('../../ai-agents/ai-agent.ts');
+
+  console.log('\n⚙️  Running Semantic Cache Tests');
+
+  const signature = (text: string) => minHashSignature(normalizeForSimilarity(text));
+  const original = 'Send a Slack message when a new row is added to Google Sheets';
+  const reworded = 'When a new row is added to Google Sheets, send a Slack message';
+  const unrelated = 'Create a Jira ticket for every failed GitHub Actions run';
+
+  // 1. Normalization drops punctuation, stopwords and plurals before signatures are compared
+  assert.deepStrictEqual(normalizeForSimilarity('Send the rows to Slack, please!'), ['send', 'row', 'slack']);
+  assert.strictEqual(minHashSignature([]), null);
+  assert.strictEqual(estimateJaccard(signature(original), signature(original)), 1);
+  assert.ok(estimateJaccard(signature(original), signature(reworded)) > estimateJaccard(signature(original), signature(unrelated)));
+  assert.strictEqual(cosineSimilarity([1, 0], [2, 0]), 1);
+  assert.strictEqual(cosineSimilarity([1, 0], [0, 1]), 0);
+
+  // 2. Opted-in templates serve reworded prompts; semantic stats are kept apart from exact hits
+  const cache = new OllamaCacheManager({ enablePerformanceTracking: false, semantic: { templates: ['analysis'] } });
+  const lookup = (text: string, template = 'analysis') => ({ template, templateVersion: 1, semanticText: `description: ${text}` });
+
+  await cache.setCachedResponse(`Analyze: ${original}`, '{"workflowType":"integration"}', 'model-a', 0.3, 0.9, 2000, undefined, lookup(original));
+  assert.strictEqual(await cache.getCachedResponse(`Analyze: ${reworded}`, 'model-a', 0.3, 0.9, 2000, lookup(reworded)), '{"workflowType":"integration"}');
+  assert.strictEqual(await cache.getCachedResponse(`Analyze: ${unrelated}`, 'model-a', 0.3, 0.9, 2000, lookup(unrelated)), null);
+  assert.strictEqual(await cache.getCachedResponse(`Analyze: ${original}`, 'model-a', 0.3, 0.9, 2000, lookup(original)), '{"workflowType":"integration"}');
+
+  let stats = cache.getCacheStats();
+  assert.strictEqual(stats.totalHits, 1);
+  assert.strictEqual(stats.totalMisses, 2);
+  assert.strictEqual(stats.semantic.hits, 1);
+  assert.strictEqual(stats.semantic.misses, 1);
+  assert.strictEqual(stats.semantic.indexedEntries, 1);
+  assert.ok(stats.semantic.averageSimilarity >= 0.7);
+
+  // 3. Other templates, template versions, models and prompts without a hint only match exactly
+  assert.strictEqual(await cache.getCachedResponse(`Plan: ${reworded}`, 'model-a', 0.3, 0.9, 2000, lookup(reworded, 'planning')), null);
+  assert.strictEqual(await cache.getCachedResponse(`Analyze: ${reworded}`, 'model-a', 0.3, 0.9, 2000, { ...lookup(reworded), templateVersion: 2 }), null);
+  assert.strictEqual(await cache.getCachedResponse(`Analyze: ${reworded}`, 'model-b', 0.3, 0.9, 2000, lookup(reworded)), null);
+  assert.strictEqual(await cache.getCachedResponse(`Analyze: ${reworded}`, 'model-a'), null);
+  stats = cache.getCacheStats();
+  assert.strictEqual(stats.semantic.hits, 1);
+  assert.strictEqual(stats.semantic.misses, 3);
+
+  cache.clearCache();
+  assert.deepStrictEqual(
+    [cache.getCacheStats().semantic.indexedEntries, cache.getCacheStats().semantic.hits],
+    [0, 0]
+  );
+  cache.configureSemanticCache(null);
+  assert.strictEqual(cache.getCacheStats().semantic.enabled, false);
+  cache.dispose();
+
+  // 4. Embeddings decide when both prompts have one
+  const embedded: string[] = [];
+  const embeddingCache = new OllamaCacheManager({
+    enablePerformanceTracking: false,
+    semantic: {
+      templates: ['analysis'],
+      embed: async (text: string) => {
+        embedded.push(text);
+        return text.includes('jira') ? [0, 1] : [1, 0.1];
+      }
+    }
+  });
+  await embeddingCache.setCachedResponse('a', 'slack response', 'model-a', 0.3, 0.9, 2000, undefined, lookup(original));
+  assert.strictEqual(await embeddingCache.getCachedResponse('b', 'model-a', 0.3, 0.9, 2000, lookup('Notify Slack about spreadsheet changes')), 'slack response');
+  assert.strictEqual(await embeddingCache.getCachedResponse('c', 'model-a', 0.3, 0.9, 2000, lookup(unrelated)), null);
+  assert.strictEqual(embeddingCache.getCacheStats().semantic.embeddingHits, 1);
+  assert.strictEqual(embedded[0], 'description send slack message when new row added google sheet');
+  embeddingCache.dispose();
+
+  // 5. The agent passes template variables, so reworded requirements reuse the cached analysis
+  ollamaCacheManager.configureSemanticCache({ templates: ['analysis'] });
+  const model = new ReplayProvider({ fallbackResponse: '{"workflowType":"linear","keyComponents":["slack"],"suggestedNodeTypes":["n8n-nodes-base.slack"],"estimatedComplexity":2,"dataFlow":"sheet to slack","potentialIssues":[]}' });
+  const agent = new AIAgent(undefined, undefined, true, { default: model });
+  await agent.analyzeRequirements({ description: original, type: 'integration' });
+  const analysis = await agent.analyzeRequirements({ description: reworded, type: 'integration' });
+  assert.strictEqual(model.getPrompts().length, 1);
+  assert.deepStrictEqual(analysis.keyComponents, ['slack']);
+  await agent.analyzeRequirements({ description: unrelated, type: 'integration' });
+  assert.strictEqual(model.getPrompts().length, 2);
+  assert.strictEqual(agent.getCacheStats().semantic.hits, 1);
+
+  ollamaCacheManager.configureSemanticCache(null);
+  ollamaCacheManager.dispose();
+  console.log('✅ Semantic cache tests passed');
+})();
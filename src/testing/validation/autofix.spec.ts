@@ -0,0 +1,105 @@
+import assert from 'assert';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { WorkflowAutofixer } = await import('../../validation/autofix.ts');
+
+  console.log('\n⚙️  Running Autofix Tests');
+
+  const workflow = (): any => ({
+    name: 'Messy',
+    id: 'wf1',
+    active: false,
+    settings: { executionOrder: 'v1' },
+    nodes: [
+      { id: 'a1b2c3d4-0000-4000-8000-000000000001', name: 'Manual Trigger', type: 'n8n-nodes-base.manualTrigger', typeVersion: 1, position: [0, 0], parameters: {} },
+      { id: 'a1b2c3d4-0000-4000-8000-000000000002', name: 'Transform', type: 'n8n-nodes-base.function', typeVersion: 1, position: [200, 0], parameters: { functionCode: 'return items;' } },
+      { id: 'a1b2c3d4-0000-4000-8000-000000000003', name: 'Set', type: 'n8n-nodes-base.set', position: [400, 0], parameters: {} },
+      { id: 'a1b2c3d4-0000-4000-8000-000000000003', name: 'Set', type: 'n8n-nodes-base.set', typeVersion: 3, position: [600, 25000], parameters: {} }
+    ],
+    connections: {
+      'Manual Trigger': { main: [[{ node: 'Transform', type: 'main', index: 0 }, { node: 'Ghost', type: 'main', index: 0 }]] },
+      Transform: { main: [[{ node: 'Set', type: 'main', index: 0 }, { node: 'Set', type: 'main', index: 0 }]] },
+      Removed: { main: [[{ node: 'Set', type: 'main', index: 0 }]] }
+    }
+  });
+  const rules = (findings: any[]) => new Set(findings.map(finding => finding.ruleId));
+
+  // 1. Mechanical findings are fixed on a copy
+  const autofixer = new WorkflowAutofixer();
+  const input = workflow();
+  const { workflow: fixed, changes, report } = await autofixer.fix(input);
+  assert.deepStrictEqual(input, workflow());
+
+  const changed = rules(changes);
+  for (const ruleId of ['node/duplicate-name', 'node/duplicate-id', 'connection/unknown-target', 'connection/unknown-source',
+    'connection/duplicate', 'node/position-out-of-bounds', 'node/deprecated']) {
+    assert.ok(changed.has(ruleId), `expected a fix for ${ruleId}`);
+    assert.ok(!rules(report.findings).has(ruleId), `${ruleId} should be gone`);
+  }
+  assert.ok(changed.has('node/invalid-type-version') || changed.has('node/missing-field'));
+
+  // 2. The patches themselves
+  assert.deepStrictEqual(fixed.nodes.map((node: any) => node.name), ['Manual Trigger', 'Transform', 'Set', 'Set1']);
+  assert.notStrictEqual(fixed.nodes[3].id, fixed.nodes[2].id);
+  assert.deepStrictEqual(fixed.nodes[3].position, [600, 10000]);
+  assert.strictEqual(fixed.nodes[2].typeVersion, 1);
+  assert.strictEqual(fixed.nodes[1].type, 'n8n-nodes-base.code');
+  assert.deepStrictEqual(fixed.nodes[1].parameters, { mode: 'runOnceForAllItems', jsCode: 'return items;' });
+  assert.deepStrictEqual(fixed.connections['Manual Trigger'].main, [[{ node: 'Transform', type: 'main', index: 0 }]]);
+  assert.deepStrictEqual(fixed.connections.Transform.main, [[{ node: 'Set', type: 'main', index: 0 }]]);
+  assert.ok(!('Removed' in fixed.connections));
+  assert.ok(changes.find((change: any) => change.ruleId === 'node/duplicate-name').description.includes("'Set1'"));
+
+  // 3. Suppressed and disabled findings are left alone
+  const suppressed = workflow();
+  suppressed.meta = { validation: { disable: ['node/deprecated'] } };
+  const kept = await new WorkflowAutofixer({ severities: { 'connection/*': 'off' } }).fix(suppressed);
+  assert.strictEqual(kept.workflow.nodes[1].type, 'n8n-nodes-base.function');
+  assert.ok('Removed' in kept.workflow.connections);
+  assert.ok(!rules(kept.changes).has('node/deprecated'));
+
+  // 4. Custom providers replace the defaults
+  const custom = new WorkflowAutofixer({
+    providers: [{ ruleId: 'settings/missing', fix: (target: any) => { target.settings = {}; return [{ ruleId: 'settings/missing', description: 'Added settings' }]; } }]
+  });
+  assert.deepStrictEqual(custom.getFixableRules(), ['settings/missing']);
+  const { settings, ...withoutSettings } = workflow();
+  const customResult = await custom.fix(withoutSettings);
+  assert.deepStrictEqual(customResult.workflow.settings, {});
+  assert.deepStrictEqual(customResult.changes.map((change: any) => change.description), ['Added settings']);
+
+  // 5. Files are only rewritten in apply mode, keeping their indentation
+  const directory = mkdtempSync(path.join(os.tmpdir(), 'autofix-'));
+  try {
+    const file = path.join(directory, 'messy.json');
+    const original = JSON.stringify(workflow(), null, 4) + '\n';
+    writeFileSync(file, original);
+    writeFileSync(path.join(directory, 'broken.json'), '{ nope');
+
+    const dryRun = await autofixer.fixFiles(['*.json'], { dryRun: true, cwd: directory });
+    assert.strictEqual(dryRun.length, 1);
+    assert.strictEqual(dryRun[0].file, 'messy.json');
+    assert.ok(dryRun[0].changes.length > 0);
+    assert.strictEqual(dryRun[0].written, false);
+    assert.strictEqual(readFileSync(file, 'utf-8'), original);
+
+    const [applied] = await autofixer.fixFiles([directory], { cwd: directory });
+    assert.strictEqual(applied.written, true);
+    const written = readFileSync(file, 'utf-8');
+    assert.ok(written.startsWith('{\n    "name": "Messy"'));
+    assert.ok(written.endsWith('}\n'));
+    assert.strictEqual(JSON.parse(written).nodes[3].name, 'Set1');
+
+    const [again] = await autofixer.fixFiles([file], { cwd: directory });
+    assert.strictEqual(again.changes.length, 0);
+    assert.strictEqual(again.written, false);
+  } finally {
+    rmSync(directory, { recursive: true, force: true });
+  }
+
+  console.log('✅ Autofix tests passed');
+})();
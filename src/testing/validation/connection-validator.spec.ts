@@ -0,0 +1,76 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ConnectionValidator } = await import('../../validation/connection-validator.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { NodeCompatibilityValidator, NODE_COMPATIBILITY_DB } = await import('../../validation/node-compatibility-validator.ts');
+
+  console.log('\n⚙️  Running Connection Validator Tests');
+
+  const validator = new ConnectionValidator(new NodeCompatibilityValidator(NODE_COMPATIBILITY_DB));
+  const node = (id: string, name: string, type: string): any =>
+    ({ id, name, type, typeVersion: 1, position: [0, 0], parameters: {} });
+
+  // n8n keys connections by node name and nests targets per output index
+  const workflow: any = {
+    name: 'Orders',
+    nodes: [
+      node('t1', 'Trigger', 'n8n-nodes-base.manualTrigger'),
+      node('h1', 'Fetch', 'n8n-nodes-base.httpRequest'),
+      node('s1', 'Shape', 'n8n-nodes-base.set'),
+      node('s2', 'Alert', 'n8n-nodes-base.set')
+    ],
+    connections: {
+      'Trigger': { main: [[{ node: 'Fetch', type: 'main', index: 0 }]] },
+      'Fetch': { main: [[{ node: 'Shape', type: 'main', index: 0 }], [{ node: 'Alert', type: 'main', index: 0 }]] }
+    }
+  };
+
+  // 1. Name-keyed connections resolve to their nodes
+  const result = validator.validateWorkflowConnections(workflow);
+  assert.deepStrictEqual(result.errors, []);
+  assert.ok(!result.warnings.some((warning: any) => /isolated|unreachable|Duplicate/.test(warning.message)), JSON.stringify(result.warnings));
+
+  const analysis = validator.analyzeDataFlow(workflow);
+  assert.deepStrictEqual(analysis.entryPoints, ['t1']);
+  assert.deepStrictEqual(analysis.exitPoints, ['s1', 's2']);
+  assert.deepStrictEqual(analysis.isolatedNodes, []);
+  assert.deepStrictEqual(analysis.unreachableNodes, []);
+  assert.strictEqual(analysis.maxDepth, 2);
+  assert.deepStrictEqual(analysis.connectionPaths.map((path: any) => path.path), [['t1', 'h1', 's1'], ['t1', 'h1', 's2']]);
+
+  const statistics = validator.generateConnectionStatistics(workflow);
+  assert.strictEqual(statistics.totalConnections, 3);
+  assert.deepStrictEqual(statistics.connectionsByType, { main: 3 });
+
+  // 2. Legacy ID-keyed flat lists are read as output 0
+  const legacy: any = {
+    ...workflow,
+    connections: {
+      t1: { main: [{ node: 'h1', type: 'main', index: 0 }] },
+      h1: { main: [{ node: 's1', type: 'main', index: 0 }, { node: 's2', type: 'main', index: 0 }] }
+    }
+  };
+  assert.deepStrictEqual(validator.validateWorkflowConnections(legacy).errors, []);
+  assert.deepStrictEqual(validator.analyzeDataFlow(legacy).exitPoints, ['s1', 's2']);
+
+  // 3. Unknown endpoints, repeated edges and cycles are reported
+  const broken: any = {
+    ...workflow,
+    connections: {
+      ...workflow.connections,
+      'Shape': { main: [[{ node: 'Ghost', type: 'main', index: 0 }, { node: 'Alert', type: 'main', index: 0 }, { node: 'Alert', type: 'main', index: 0 }]] },
+      'Alert': { main: [[{ node: 'Shape', type: 'main', index: 0 }]] },
+      'Missing': { main: [[{ node: 'Shape', type: 'main', index: 0 }]] }
+    }
+  };
+  const brokenResult = validator.validateWorkflowConnections(broken);
+  const messages = [...brokenResult.errors, ...brokenResult.warnings].map((finding: any) => finding.message);
+  assert.ok(messages.includes('Connection references non-existent target node: Ghost'));
+  assert.ok(messages.includes('Connection references non-existent source node: Missing'));
+  assert.ok(messages.some((message: string) => message.startsWith('Duplicate connection detected: s1->s2:main[0]->main:0 (2 instances)')));
+  assert.ok(validator.analyzeDataFlow(broken).cycles.length > 0);
+
+  console.log('✅ Connection validator tests passed');
+})();
@@ -0,0 +1,71 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { NodeCompatibilityValidator, NODE_COMPATIBILITY_DB } = await import('../../validation/node-compatibility-validator.ts');
+
+  console.log('\n⚙️  Running Node Compatibility Validator Tests');
+
+  const validator = new NodeCompatibilityValidator(NODE_COMPATIBILITY_DB);
+  const node = (id: string, name: string, type: string, typeVersion = 1, parameters: any = {}): any =>
+    ({ id, name, type, typeVersion, position: [0, 0], parameters });
+  const connectionErrors = (workflow: any) => validator.validateWorkflowNodeCompatibility(workflow).errors
+    .filter((error: any) => error.type === 'connection')
+    .map((error: any) => error.message);
+
+  // 1. One output fanning out to several nodes uses a single output slot
+  const fanOut: any = {
+    name: 'Fan out',
+    nodes: [
+      node('t1', 'Trigger', 'n8n-nodes-base.manualTrigger'),
+      node('h1', 'Fetch A', 'n8n-nodes-base.httpRequest', 4, { url: 'https://a.example.com' }),
+      node('h2', 'Fetch B', 'n8n-nodes-base.httpRequest', 4, { url: 'https://b.example.com' })
+    ],
+    connections: {
+      'Trigger': { main: [[{ node: 'Fetch A', type: 'main', index: 0 }, { node: 'Fetch B', type: 'main', index: 0 }]] }
+    }
+  };
+  assert.deepStrictEqual(connectionErrors(fanOut), []);
+
+  // 2. Several nodes feeding the same input use a single input slot
+  const fanIn: any = {
+    name: 'Fan in',
+    nodes: [...fanOut.nodes, node('s1', 'Shape', 'n8n-nodes-base.set', 3)],
+    connections: {
+      ...fanOut.connections,
+      'Fetch A': { main: [[{ node: 'Shape', type: 'main', index: 0 }]] },
+      'Fetch B': { main: [[{ node: 'Shape', type: 'main', index: 0 }]] }
+    }
+  };
+  assert.deepStrictEqual(connectionErrors(fanIn), []);
+
+  // 3. Using more slots than the node has is still reported
+  const tooMany: any = {
+    name: 'Too many slots',
+    nodes: [...fanIn.nodes, node('s2', 'Next', 'n8n-nodes-base.set', 3)],
+    connections: {
+      ...fanIn.connections,
+      'Fetch A': { main: [[{ node: 'Shape', type: 'main', index: 0 }], [{ node: 'Next', type: 'main', index: 0 }]] },
+      'Fetch B': { main: [[{ node: 'Shape', type: 'main', index: 1 }]] },
+      'Shape': { main: [[{ node: 'Next', type: 'main', index: 0 }], [{ node: 'Next', type: 'main', index: 0 }]] }
+    }
+  };
+  assert.deepStrictEqual(connectionErrors(tooMany), [
+    'Node s1 has too many input connections. Max: 1, found: 2',
+    'Node s1 has too many output connections. Max: 1, found: 2'
+  ]);
+
+  // 4. Current type versions and their parameter names are accepted
+  const findings = (candidate: any) => {
+    const result = validator.validateNode(candidate);
+    return [...result.errors, ...result.warnings].map((finding: any) => finding.message);
+  };
+  assert.deepStrictEqual(findings(node('h3', 'Fetch', 'n8n-nodes-base.httpRequest', 4.2, { url: 'https://example.com', method: 'GET' })), []);
+  assert.deepStrictEqual(findings(node('s3', 'Shape', 'n8n-nodes-base.set', 3.4, { assignments: { assignments: [] } })), []);
+  assert.deepStrictEqual(findings(node('s4', 'Legacy Shape', 'n8n-nodes-base.set', 2, { values: {} })), []);
+  assert.deepStrictEqual(findings(node('c1', 'Code', 'n8n-nodes-base.code', 2, { jsCode: 'return items;' })), []);
+  assert.deepStrictEqual(findings(node('c2', 'Python', 'n8n-nodes-base.code', 2, { language: 'python', pythonCode: 'return _input.all()' })), []);
+  assert.ok(findings(node('h4', 'Fetch', 'n8n-nodes-base.httpRequest', 4.2, { method: 'GET' })).includes('Node h4 is missing required parameter: url'));
+
+  console.log('✅ Node compatibility validator tests passed');
+})();
@@ -0,0 +1,156 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { NodeParameterValidator } = await import('../../validation/node-parameter-validator.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { WorkflowValidator } = await import('../../validators/workflow-validator.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ValidationPipeline } = await import('../../validation/validation-pipeline.ts');
+
+  console.log('\n⚙️  Running Node Parameter Validator Tests');
+
+  const request: any = {
+    displayName: 'Request',
+    name: 'test.request',
+    group: ['output'],
+    version: [1, 2],
+    description: 'Sends a request',
+    defaults: { name: 'Request' },
+    inputs: ['main'],
+    outputs: ['main'],
+    properties: [
+      { displayName: 'Method', name: 'method', type: 'options', default: 'GET', options: [{ name: 'GET', value: 'GET' }, { name: 'POST', value: 'POST' }] },
+      { displayName: 'URL', name: 'url', type: 'string', default: '', required: true },
+      { displayName: 'Send Body', name: 'sendBody', type: 'boolean', default: false, displayOptions: { show: { method: ['POST'] } } },
+      { displayName: 'Body', name: 'body', type: 'json', default: '', required: true, displayOptions: { show: { sendBody: [true] } } },
+      { displayName: 'Legacy Mode', name: 'legacy', type: 'boolean', default: false, displayOptions: { show: { '@version': [1] } } },
+      {
+        displayName: 'Options',
+        name: 'options',
+        type: 'collection',
+        default: {},
+        options: [
+          { displayName: 'Timeout', name: 'timeout', type: 'number', default: 10000, typeOptions: { minValue: 1 } },
+          { displayName: 'Proxy', name: 'proxy', type: 'string', default: '' }
+        ]
+      },
+      {
+        displayName: 'Headers',
+        name: 'headers',
+        type: 'fixedCollection',
+        default: {},
+        typeOptions: { multipleValues: true },
+        options: [{
+          displayName: 'Header',
+          name: 'parameters',
+          values: [
+            { displayName: 'Name', name: 'name', type: 'string', default: '', required: true },
+            { displayName: 'Value', name: 'value', type: 'string', default: '' }
+          ]
+        }]
+      }
+    ]
+  };
+  const node = (parameters: any, typeVersion = 2): any => ({
+    id: 'n1', name: 'Request', type: 'test.request', typeVersion, position: [0, 0], parameters
+  });
+  const validator = new NodeParameterValidator([request]);
+  const messages = (result: any) => [...result.errors, ...result.warnings].map((finding: any) => `${finding.field}: ${finding.message}`);
+
+  // 1. Descriptions are picked by version, falling back to the closest older one
+  assert.strictEqual(validator.getDescription('test.request', 2), request);
+  assert.strictEqual(validator.getDescription('test.request', 3), request);
+  assert.strictEqual(validator.getDescription('test.request', 0.5), null);
+  assert.ok(!validator.hasDescription({ ...node({}), type: 'test.other' }));
+
+  // 2. Valid parameters pass
+  const valid = validator.validateNode(node({
+    method: 'POST',
+    url: 'https://example.com',
+    sendBody: true,
+    body: '{}',
+    options: { timeout: 500 },
+    headers: { parameters: [{ name: 'Accept', value: 'application/json' }] }
+  }));
+  assert.deepStrictEqual(messages(valid), []);
+  assert.ok(valid.isValid);
+
+  // 3. Required parameters, option enums and value types
+  const invalid = validator.validateNode(node({ method: 'FETCH', url: 42 }));
+  assert.deepStrictEqual(messages(invalid), [
+    `method: Parameter 'Method' has unsupported value "FETCH"; expected one of "GET", "POST"`,
+    'url: Parameter \'URL\' should be a string, got a number'
+  ]);
+  assert.deepStrictEqual(messages(validator.validateNode(node({}))), ['url: Required parameter \'URL\' is not set']);
+
+  // 4. Display options decide what is required and what is unused
+  assert.deepStrictEqual(messages(validator.validateNode(node({ method: 'POST', url: 'x', sendBody: true }))), [
+    'body: Required parameter \'Body\' is not set'
+  ]);
+  assert.deepStrictEqual(messages(validator.validateNode(node({ url: 'x', sendBody: true }))), [
+    'sendBody: Parameter \'Send Body\' is set but not used with the current settings'
+  ]);
+  assert.deepStrictEqual(messages(validator.validateNode(node({ url: 'x', legacy: true }, 1))), []);
+  assert.strictEqual(validator.validateNode(node({ url: 'x', legacy: true })).warnings.length, 1);
+
+  // 5. Collections and fixed collections are checked entry by entry
+  assert.deepStrictEqual(messages(validator.validateNode(node({
+    url: 'x',
+    options: { timeout: 0, retries: 3 },
+    headers: { parameters: [{ value: 'a' }, { name: 'B' }], extra: {} }
+  }))), [
+    'options.timeout: Parameter \'Timeout\' must be at least 1',
+    'headers.parameters.0.name: Required parameter \'Name\' is not set',
+    'options.retries: Unknown option \'retries\' in \'Options\'',
+    'headers.extra: Unknown option \'extra\' in \'Headers\''
+  ]);
+
+  // 6. Expressions skip static checks; unknown parameters are warnings
+  const dynamic = validator.validateNode(node({ method: '={{ $json.method }}', url: '={{ $json.url }}', verbose: true }));
+  assert.deepStrictEqual(dynamic.errors, []);
+  assert.deepStrictEqual(messages(dynamic), ['verbose: Unknown parameter \'verbose\' for test.request v2']);
+
+  // 7. WorkflowValidator and the pipeline use the descriptions they are given
+  const workflow: any = {
+    name: 'Requests',
+    nodes: [node({ method: 'FETCH' })],
+    connections: {},
+    settings: { executionOrder: 'v1' }
+  };
+  const workflowResult = await new WorkflowValidator(validator).validate(workflow);
+  assert.ok(workflowResult.errors.some((error: any) => error.field === 'method'));
+
+  const report = await new ValidationPipeline({ parameterValidator: validator }).validate(workflow);
+  const parameterFindings = report.findings.filter((finding: any) => finding.ruleId.startsWith('parameter/'));
+  assert.deepStrictEqual(parameterFindings.map((finding: any) => [finding.ruleId, finding.field]), [
+    ['parameter/invalid-value', 'method'],
+    ['parameter/missing-required', 'url']
+  ]);
+  assert.deepStrictEqual(parameterFindings[0].sources, ['workflow', 'node-compatibility']);
+
+  // 8. Multiple-value scalars are checked per entry; condition objects never hide parameters
+  const listener = new NodeParameterValidator([{
+    ...request,
+    name: 'test.listener',
+    version: 1,
+    properties: [
+      { displayName: 'Tags', name: 'tags', type: 'string', default: [], typeOptions: { multipleValues: true } },
+      { displayName: 'Ports', name: 'ports', type: 'number', default: [], typeOptions: { multipleValues: true, minValue: 1 } },
+      { displayName: 'Retries', name: 'retries', type: 'number', default: 0 },
+      { displayName: 'Backoff', name: 'backoff', type: 'boolean', default: false, displayOptions: { show: { retries: [{ _cnd: { gt: 0 } }] } } },
+      { displayName: 'Fail Fast', name: 'failFast', type: 'boolean', default: false, displayOptions: { hide: { retries: [{ _cnd: { gt: 0 } }] } } }
+    ]
+  }]);
+  const listen = (parameters: any) => messages(listener.validateNode({ ...node(parameters, 1), type: 'test.listener' }));
+  assert.deepStrictEqual(listen({ tags: ['a'], ports: [80, '={{ $json.port }}'], retries: 3, backoff: true, failFast: true }), []);
+  assert.deepStrictEqual(listen({ tags: 'a', ports: [80, 0, '8080'] }), [
+    'ports.1: Parameter \'Ports\' must be at least 1',
+    'ports.2: Parameter \'Ports\' should be a number, got a string'
+  ]);
+  assert.deepStrictEqual(messages(validator.validateNode(node({ url: ['https://example.com'] }))), [
+    'url: Parameter \'URL\' should be a string, got a list'
+  ]);
+
+  console.log('✅ Node parameter validator tests passed');
+})();
@@ -0,0 +1,106 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { ValidationPipeline, createDefaultValidationSources } = await import('../../validation/validation-pipeline.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { classifyFinding, matchesRule } = await import('../../validation/validation-rules.ts');
+
+  console.log('\n⚙️  Running Validation Pipeline Tests');
+
+  const workflow = (overrides: any = {}): any => ({
+    name: 'Fetch orders',
+    id: 'wf1',
+    active: false,
+    settings: { executionOrder: 'v1' },
+    nodes: [
+      { id: 'a1b2c3d4-0000-4000-8000-000000000001', name: 'Manual Trigger', type: 'n8n-nodes-base.manualTrigger', typeVersion: 1, position: [0, 0], parameters: {} },
+      { id: 'a1b2c3d4-0000-4000-8000-000000000002', name: 'Fetch', type: 'n8n-nodes-base.httpRequest', typeVersion: 4, position: [200, 0], parameters: { url: '' } },
+      { id: 'a1b2c3d4-0000-4000-8000-000000000003', name: 'Orphan', type: 'n8n-nodes-base.set', typeVersion: 3, position: [400, 200], parameters: {}, ...overrides.orphan }
+    ],
+    connections: { 'Manual Trigger': { main: [[{ node: 'Fetch', type: 'main', index: 0 }, { node: 'Ghost', type: 'main', index: 0 }]] } },
+    ...(overrides.meta && { meta: overrides.meta })
+  });
+  const find = (findings: any[], ruleId: string, node?: string) =>
+    findings.filter(finding => finding.ruleId === ruleId && (!node || finding.node === node));
+
+  // 1. Messages map to stable rule IDs, with what they mention
+  assert.deepStrictEqual(
+    classifyFinding('connections', { message: 'Connection references non-existent target node: Ghost', severity: 'error' }),
+    { ruleId: 'connection/unknown-target', subject: 'ghost' }
+  );
+  assert.deepStrictEqual(
+    classifyFinding('node-compatibility', { message: 'Node n1 is missing required parameter: url', severity: 'error' }),
+    { ruleId: 'parameter/missing-required', field: 'url' }
+  );
+  assert.strictEqual(classifyFinding('schema', { message: 'Duplicate node ID: n1', severity: 'error', code: 'DUPLICATE_NODE_ID' }).ruleId, 'node/duplicate-id');
+  assert.strictEqual(classifyFinding('performance', { message: 'Something new', severity: 'warning' }).ruleId, 'performance/unclassified');
+  assert.ok(matchesRule('*', 'graph/cycle'));
+  assert.ok(matchesRule('graph/*', 'graph/cycle'));
+  assert.ok(!matchesRule('graph/*', 'node/deprecated'));
+
+  // 2. Every validator runs and overlapping findings are merged
+  assert.deepStrictEqual(createDefaultValidationSources().map((source: any) => source.name), [
+    'workflow', 'schema', 'connections', 'node-compatibility', 'performance', 'error-handling', 'data-flow'
+  ]);
+  const report = await new ValidationPipeline().validate(workflow());
+  assert.strictEqual(report.valid, false);
+  const [unknownTarget] = find(report.findings, 'connection/unknown-target', 'Manual Trigger');
+  assert.deepStrictEqual(unknownTarget.sources, ['workflow', 'schema', 'connections']);
+  assert.strictEqual(find(report.findings, 'connection/unknown-target').length, 1);
+  const [isolated] = find(report.findings, 'graph/isolated-node', 'Orphan');
+  assert.deepStrictEqual(isolated.sources, ['workflow', 'connections', 'data-flow']);
+  assert.ok(report.summary.duplicates >= 4);
+  assert.strictEqual(report.summary.errors, report.findings.filter((finding: any) => finding.severity === 'error').length);
+  assert.strictEqual(report.findings[0].severity, 'error');
+
+  // 3. Findings about different parameters of a node stay apart
+  const missing = find(report.findings, 'parameter/missing-required', 'Fetch').map((finding: any) => finding.field).sort();
+  assert.deepStrictEqual(missing, ['method', 'url']);
+
+  // 4. Rule defaults and overrides decide severity; `off` drops a rule
+  assert.strictEqual(find(report.findings, 'connection/uses-node-name')[0].severity, 'info');
+  const tuned = await new ValidationPipeline({
+    severities: { 'performance/*': 'off', 'graph/isolated-node': 'error', '*': 'warning' }
+  }).validate(workflow());
+  assert.strictEqual(find(tuned.findings, 'performance/high-complexity').length, 0);
+  assert.strictEqual(find(tuned.findings, 'graph/isolated-node')[0].severity, 'error');
+  assert.strictEqual(find(tuned.findings, 'connection/unknown-target')[0].severity, 'warning');
+
+  // 5. Node notes suppress rules for that node
+  const noted = await new ValidationPipeline().validate(workflow({
+    orphan: { notes: 'Kept for manual runs\nvalidation-disable graph/isolated-node, error-handling/* -- wired up later' }
+  }));
+  assert.strictEqual(find(noted.findings, 'graph/isolated-node', 'Orphan').length, 0);
+  assert.strictEqual(find(noted.findings, 'error-handling/low-resilience', 'Orphan').length, 0);
+  assert.strictEqual(find(noted.findings, 'error-handling/low-resilience', 'Manual Trigger').length, 1);
+  assert.ok(noted.suppressed.every((finding: any) => finding.node === 'Orphan' && finding.suppressedBy === 'node'));
+  assert.strictEqual(noted.summary.suppressed, noted.suppressed.length);
+
+  const silenced = await new ValidationPipeline().validate(workflow({ orphan: { notes: 'validation-disable' } }));
+  assert.strictEqual(silenced.findings.filter((finding: any) => finding.node === 'Orphan').length, 0);
+
+  // 6. Workflow meta suppresses rules everywhere or per node
+  const meta = await new ValidationPipeline().validate(workflow({
+    meta: { validation: { disable: ['connection/unknown-target', 'node/too-many-outputs'], nodes: { Fetch: ['parameter/*'] } } }
+  }));
+  assert.strictEqual(find(meta.findings, 'connection/unknown-target').length, 0);
+  assert.strictEqual(find(meta.findings, 'parameter/missing-required').length, 0);
+  assert.strictEqual(find(meta.suppressed, 'connection/unknown-target')[0].suppressedBy, 'workflow');
+  assert.strictEqual(find(meta.suppressed, 'parameter/missing-required')[0].suppressedBy, 'node');
+  assert.strictEqual(meta.valid, true);
+
+  // 7. A failing validator is reported instead of failing the pipeline
+  const partial = await new ValidationPipeline({
+    sources: [
+      { name: 'broken', run: () => { throw new Error('boom'); } },
+      { name: 'custom', run: () => [{ message: 'Looks odd', severity: 'warning' }] }
+    ]
+  }).validate(workflow());
+  assert.deepStrictEqual(partial.findings.map((finding: any) => finding.ruleId), ['custom/unclassified', 'internal/validator-failed']);
+  const [failed] = find(partial.findings, 'internal/validator-failed');
+  assert.strictEqual(failed.severity, 'warning');
+  assert.ok(failed.message.includes('boom'));
+
+  console.log('✅ Validation pipeline tests passed');
+})();
@@ -0,0 +1,131 @@
+import assert from 'assert';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { WorkflowLinter, expandWorkflowPatterns, countFailures, meetsThreshold } = await import('../../validation/workflow-lint.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { formatSarif, formatJUnit, formatText } = await import('../../validation/lint-formatters.ts');
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { WorkflowLintCLI } = await import('../../cli/workflow-lint-cli.ts');
+
+  console.log('\n⚙️  Running Workflow Lint Tests');
+
+  const directory = mkdtempSync(path.join(os.tmpdir(), 'workflow-lint-'));
+  const workflow: any = {
+    name: 'Fetch orders',
+    id: 'wf1',
+    active: false,
+    settings: { executionOrder: 'v1' },
+    nodes: [
+      { id: 'a1b2c3d4-0000-4000-8000-000000000001', name: 'Manual Trigger', type: 'n8n-nodes-base.manualTrigger', typeVersion: 1, position: [0, 0], parameters: {} },
+      { id: 'a1b2c3d4-0000-4000-8000-000000000002', name: 'Fetch', type: 'n8n-nodes-base.httpRequest', typeVersion: 4, position: [200, 0], parameters: { url: '', method: 'GET' } }
+    ],
+    connections: { 'Manual Trigger': { main: [[{ node: 'Fetch', type: 'main', index: 0 }, { node: 'Ghost', type: 'main', index: 0 }]] } }
+  };
+  const text = JSON.stringify(workflow, null, 2);
+  const lineOf = (needle: string) => text.split('\n').findIndex(line => line.includes(needle)) + 1;
+
+  // 1. Findings are located by JSON pointer and line
+  const linter = new WorkflowLinter();
+  const result = await linter.lintText('orders.json', text);
+  const [missingUrl] = result.findings.filter((finding: any) => finding.ruleId === 'parameter/missing-required');
+  assert.strictEqual(missingUrl.location.pointer, '/nodes/1/parameters/url');
+  assert.strictEqual(missingUrl.location.line, lineOf('"url"'));
+  const [unknownTarget] = result.findings.filter((finding: any) => finding.ruleId === 'connection/unknown-target');
+  assert.strictEqual(unknownTarget.location.pointer, '/connections/Manual Trigger');
+  assert.strictEqual(unknownTarget.location.line, lineOf('"Manual Trigger": {'));
+  assert.strictEqual(unknownTarget.location.column, 5);
+
+  // 2. Invalid JSON is an error finding; JSON that isn't a workflow is skipped
+  const broken = await linter.lintText('broken.json', '{\n  "nodes": [,\n}');
+  assert.strictEqual(broken.findings[0].ruleId, 'structure/invalid-json');
+  assert.strictEqual(broken.findings[0].location.line, 2);
+  assert.strictEqual(broken.findings[0].location.column, 13);
+  const locationOf = async (content: string) => (await linter.lintText('broken.json', content)).findings[0].location;
+  assert.deepStrictEqual(await locationOf('{\n  "name": "x",\n  "nodes": [\n    {"id": "a", "typeVersion": 1.}\n  ]\n}'), { pointer: '', line: 4, column: 33 });
+  assert.deepStrictEqual(await locationOf('{\n  "name": "x"\n  "nodes": []\n}'), { pointer: '', line: 3, column: 3 });
+  assert.deepStrictEqual(await locationOf('{"nodes": ["a\\qb"]}'), { pointer: '', line: 1, column: 15 });
+  assert.deepStrictEqual(await locationOf('{"nodes": []'), { pointer: '', line: 1, column: 13 });
+  assert.strictEqual(await linter.lintText('package.json', '{"name":"x"}'), null);
+
+  // 3. Files, directories and globs expand to JSON files
+  mkdirSync(path.join(directory, 'flows', 'nested'), { recursive: true });
+  mkdirSync(path.join(directory, 'node_modules'));
+  writeFileSync(path.join(directory, 'flows', 'orders.json'), text);
+  writeFileSync(path.join(directory, 'flows', 'nested', 'clean.json'), JSON.stringify({ ...workflow, connections: { 'Manual Trigger': { main: [[{ node: 'Fetch', type: 'main', index: 0 }]] } } }));
+  writeFileSync(path.join(directory, 'flows', 'nested', 'notes.txt'), 'not json');
+  writeFileSync(path.join(directory, 'node_modules', 'ignored.json'), '{}');
+  writeFileSync(path.join(directory, 'settings.json'), '{"theme":"dark"}');
+
+  const names = (files: string[]) => files.map(file => path.relative(directory, file).split(path.sep).join('/'));
+  assert.deepStrictEqual(names(expandWorkflowPatterns(['flows'], directory)), ['flows/nested/clean.json', 'flows/orders.json']);
+  assert.deepStrictEqual(names(expandWorkflowPatterns(['flows/*.json'], directory)), ['flows/orders.json']);
+  assert.deepStrictEqual(names(expandWorkflowPatterns(['**/*.json', 'flows/orders.json'], directory)), [
+    'flows/nested/clean.json', 'flows/orders.json', 'settings.json'
+  ]);
+  assert.throws(() => expandWorkflowPatterns(['missing.json'], directory), /No such file/);
+
+  const run = await linter.lintFiles(['**/*.json'], directory);
+  assert.deepStrictEqual(run.results.map((linted: any) => linted.file), ['flows/nested/clean.json', 'flows/orders.json']);
+  assert.deepStrictEqual(run.skipped, ['settings.json']);
+
+  // 4. Thresholds decide what fails
+  assert.ok(meetsThreshold('error', 'warning'));
+  assert.ok(!meetsThreshold('info', 'warning'));
+  assert.ok(!meetsThreshold('error', 'none'));
+  assert.ok(countFailures(run.results, 'error') > 0);
+  assert.strictEqual(countFailures(run.results, 'none'), 0);
+  assert.ok(formatText(run).includes('Skipped settings.json (not a workflow)'));
+
+  // 5. SARIF carries rules, levels and locations, and marks suppressed findings
+  const suppressedText = JSON.stringify({ ...workflow, meta: { validation: { disable: ['connection/unknown-target'] } } }, null, 2);
+  const suppressedResult = await linter.lintText('orders.json', suppressedText);
+  const sarif = formatSarif([suppressedResult]);
+  assert.strictEqual(sarif.version, '2.1.0');
+  const sarifRun = sarif.runs[0];
+  const ghost = sarifRun.results.find((entry: any) => entry.ruleId === 'connection/unknown-target');
+  assert.strictEqual(ghost.level, 'error');
+  assert.strictEqual(ghost.suppressions[0].kind, 'inSource');
+  assert.strictEqual(sarifRun.tool.driver.rules[ghost.ruleIndex].id, 'connection/unknown-target');
+  assert.strictEqual(ghost.locations[0].physicalLocation.artifactLocation.uri, 'orders.json');
+  assert.strictEqual(ghost.locations[0].logicalLocations[0].name, 'Manual Trigger');
+  assert.strictEqual(ghost.locations[0].logicalLocations[0].fullyQualifiedName, '/connections/Manual Trigger');
+  const nameWarning = sarifRun.results.find((entry: any) => entry.ruleId === 'connection/uses-node-name');
+  assert.strictEqual(nameWarning.level, 'note');
+
+  // 6. JUnit has a suite per file and fails findings at the threshold
+  const junit = formatJUnit(run.results, 'error');
+  assert.ok(junit.startsWith('<?xml version="1.0" encoding="UTF-8"?>'));
+  assert.strictEqual((junit.match(/<testsuite /g) || []).length, 2);
+  assert.ok(junit.includes('name="connection/unknown-target (Manual Trigger)"'));
+  assert.ok(junit.includes('flows/orders.json:'));
+  const errors = run.results.reduce((total: number, linted: any) => total + linted.summary.errors, 0);
+  assert.strictEqual((junit.match(/<failure /g) || []).length, errors);
+  assert.strictEqual((formatJUnit(run.results, 'none').match(/<failure /g) || []).length, 0);
+
+  // 7. The CLI writes reports and sets the exit code from the threshold
+  const flows = path.join(directory, 'flows');
+  try {
+    await new WorkflowLintCLI().run(['node', 'workflow-lint', 'lint', flows, '--format', 'sarif', '--output', path.join(directory, 'lint.sarif')]);
+    assert.strictEqual(process.exitCode, 1);
+    assert.strictEqual(JSON.parse(readFileSync(path.join(directory, 'lint.sarif'), 'utf-8')).version, '2.1.0');
+
+    process.exitCode = undefined;
+    await new WorkflowLintCLI().run(['node', 'workflow-lint', 'lint', flows, '--fail-on', 'none', '--format', 'junit', '-o', path.join(directory, 'lint.xml')]);
+    assert.strictEqual(process.exitCode, undefined);
+
+    await new WorkflowLintCLI().run(['node', 'workflow-lint', 'lint', path.join(flows, 'orders.json'), '--rule', 'connection/*=off', 'parameter/*=warning', 'node/*=off']);
+    assert.strictEqual(process.exitCode, undefined);
+
+    await new WorkflowLintCLI().run(['node', 'workflow-lint', 'lint', path.join(directory, 'nowhere')]);
+    assert.strictEqual(process.exitCode, 2);
+  } finally {
+    process.exitCode = undefined;
+    rmSync(directory, { recursive: true, force: true });
+  }
+
+  console.log('✅ Workflow lint tests passed');
+})();
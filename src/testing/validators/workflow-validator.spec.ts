@@ -0,0 +1,62 @@
+import assert from 'assert';
+
+(async () => {
+  // @ts-ignore - TS extension import handled by ts-node register
+  const { WorkflowValidator } = await import('../../validators/workflow-validator.ts');
+
+  console.log('\n⚙️  Running Workflow Validator Tests');
+
+  const node = (id: string, name: string, type: string, parameters: any = {}) => ({
+    id, name, type: `n8n-nodes-base.${type}`, typeVersion: 1, position: [0, 0], parameters
+  });
+  const link = (target: string) => ({ node: target, type: 'main', index: 0 });
+  const workflow = (connections: any, extraNodes: any[] = []): any => ({
+    name: 'Connections',
+    active: false,
+    settings: { executionOrder: 'v1' },
+    nodes: [
+      node('n1', 'Start', 'manualTrigger'),
+      node('n2', 'Shape', 'noOp'),
+      ...extraNodes
+    ],
+    connections
+  });
+  const validator = new WorkflowValidator();
+  const connectionErrors = (result: any) => result.errors
+    .filter((error: any) => error.type === 'connection')
+    .map((error: any) => `${error.nodeId}: ${error.message}`);
+  const isolated = (result: any) => result.warnings
+    .filter((warning: any) => warning.message === 'Node is not connected to any other nodes')
+    .map((warning: any) => warning.nodeId);
+
+  // 1. Name-keyed connections in n8n's nested output format resolve to their nodes
+  const byName = await validator.validate(workflow({ Start: { main: [[link('Shape')]] } }));
+  assert.deepStrictEqual(connectionErrors(byName), []);
+  assert.deepStrictEqual(isolated(byName), []);
+
+  // 2. ID-keyed connections from older workflows still resolve
+  const byId = await validator.validate(workflow({ n1: { main: [[link('n2')]] } }));
+  assert.deepStrictEqual(connectionErrors(byId), []);
+  assert.deepStrictEqual(isolated(byId), []);
+
+  // 3. Unknown sources and targets are errors; edges from an unknown source are reported once
+  const broken = await validator.validate(workflow({
+    Start: { main: [[link('Shape'), link('Ghost')]] },
+    Phantom: { main: [[link('Shape')]] }
+  }));
+  assert.deepStrictEqual(connectionErrors(broken), [
+    'Phantom: Connection source node does not exist: Phantom',
+    'Start: Connection target node does not exist: Ghost'
+  ]);
+  assert.strictEqual(broken.isValid, false);
+
+  // 4. Nodes no edge touches are reported as isolated
+  const loose = await validator.validate(workflow({ Start: { main: [[link('Shape')]] } }, [node('n3', 'Leftover', 'noOp')]));
+  assert.deepStrictEqual(isolated(loose), ['n3']);
+
+  // 5. A workflow without connections is a structure error, not a crash
+  const missing = await validator.validate({ ...workflow({}), connections: undefined });
+  assert.ok(missing.errors.some((error: any) => error.message === 'Workflow must have a connections object'));
+
+  console.log('✅ Workflow validator tests passed');
+})();
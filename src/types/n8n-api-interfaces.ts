@@ -64,14 +64,16 @@ export interface INodeTypeDescription {
   iconUrl?: string;
   group: string[];
   version: number | number[];
+  defaultVersion?: number;
   description: string;
   subtitle?: string;
   defaults: {
     name: string;
     color?: string;
   };
-  inputs: Array<string | INodeInputConfiguration>;
-  outputs: Array<string | INodeOutputConfiguration>;
+  // An expression string when the connections depend on the parameters
+  inputs: Array<string | INodeInputConfiguration> | string;
+  outputs: Array<string | INodeOutputConfiguration> | string;
   outputNames?: string[];
   properties: INodeProperties[];
   credentials?: INodeCredentialDescription[];
@@ -79,6 +81,7 @@ export interface INodeTypeDescription {
   polling?: boolean;
   supportsCORS?: boolean;
   webhooks?: IWebhookDescription[];
+  hidden?: boolean;
 }
 
 export interface INodeInputConfiguration {
@@ -104,9 +107,16 @@ export interface INodeProperties {
     show?: { [key: string]: Array<string | number | boolean> };
     hide?: { [key: string]: Array<string | number | boolean> };
   };
-  options?: Array<INodePropertyOptions | INodePropertyCollection>;
+  options?: Array<INodePropertyOptions | INodePropertyCollection | INodeProperties>;
   placeholder?: string;
   multipleValues?: boolean;
+  typeOptions?: {
+    multipleValues?: boolean;
+    loadOptionsMethod?: string;
+    minValue?: number;
+    maxValue?: number;
+    [key: string]: any;
+  };
   multipleValueButtonText?: string;
   required?: boolean;
 }
@@ -122,6 +132,7 @@ export type NodePropertyTypes =
   | 'notice'
   | 'number'
   | 'options'
+  | 'multiOptions'
   | 'string'
   | 'credentialsSelect'
   | 'resourceLocator'
@@ -273,6 +284,7 @@ export interface ITaskData {
     error?: NodeOperationError;
   };
   inputOverride?: IDataObject;
+  source?: Array<ISourceData | null>;
 }
 
 export interface ISourceData {
@@ -68,6 +68,17 @@ export interface WorkflowMetadata {
   instanceId?: string;
   templateId?: string;
   templateCredsSetupCompleted?: boolean;
+  validation?: WorkflowValidationMeta;
+}
+
+/**
+ * Findings suppressed for a workflow, by rule pattern (`*`, `performance/*` or a rule ID)
+ */
+export interface WorkflowValidationMeta {
+  /** Suppressed for the whole workflow */
+  disable?: string[];
+  /** Suppressed per node name */
+  nodes?: Record<string, string[]>;
 }
 
 export interface WorkflowTag {
@@ -130,6 +141,11 @@ export interface N8nExecutionData {
   resultData: {
     runData: Record<string, any[]>;
     pinData?: Record<string, any[]>;
+    lastNodeExecuted?: string;
+    error?: {
+      message: string;
+      node?: string;
+    };
   };
   executionData?: {
     contextData: Record<string, any>;
@@ -156,9 +172,10 @@ export interface ValidationError {
 }
 
 export interface ValidationWarning {
-  type: 'performance' | 'compatibility' | 'best-practice' | 'data_transformation' | 'data_flow_continuity' | 'node_data_requirements' | 'connection' | 'node';
+  type: 'performance' | 'compatibility' | 'best-practice' | 'data_transformation' | 'data_flow_continuity' | 'node_data_requirements' | 'connection' | 'node' | 'parameter';
   message: string;
   nodeId?: string;
+  field?: string;
   suggestion?: string;
 }
 
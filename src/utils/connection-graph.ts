@@ -0,0 +1,168 @@
+import { N8nWorkflow, N8nNode, N8nConnections } from '../types/n8n-workflow.js';
+
+/**
+ * A single resolved edge of the workflow connection graph
+ */
+export interface ConnectionEdge {
+  source: string;
+  outputType: string;
+  outputIndex: number;
+  target: string;
+  inputType: string;
+  inputIndex: number;
+}
+
+/**
+ * Flatten workflow connections into a list of edges.
+ *
+ * n8n stores connections as `{ [source]: { [type]: Array<Array<target>> } }` where the
+ * outer array index is the output index. Older generators in this repo emit a flat
+ * `Array<target>` instead; those targets are treated as coming from output 0.
+ */
+export function getConnectionEdges(connections: N8nConnections): ConnectionEdge[] {
+  const edges: ConnectionEdge[] = [];
+
+  for (const [source, outputs] of Object.entries(connections || {})) {
+    for (const [outputType, outputList] of Object.entries(outputs || {})) {
+      if (!Array.isArray(outputList)) continue;
+
+      (outputList as any[]).forEach((entry, position) => {
+        const group = Array.isArray(entry) ? entry : [entry];
+        const outputIndex = Array.isArray(entry) ? position : 0;
+
+        for (const connection of group) {
+          if (!connection || typeof connection.node !== 'string') continue;
+          edges.push({
+            source,
+            outputType,
+            outputIndex,
+            target: connection.node,
+            inputType: connection.type || outputType,
+            inputIndex: typeof connection.index === 'number' ? connection.index : 0
+          });
+        }
+      });
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Build n8n connections (nested output arrays) from a list of edges
+ */
+export function buildConnections(edges: ConnectionEdge[]): N8nConnections {
+  const connections: Record<string, Record<string, Array<Array<{ node: string; type: string; index: number }>>>> = {};
+
+  for (const edge of edges) {
+    const outputs = connections[edge.source] || (connections[edge.source] = {});
+    const groups = outputs[edge.outputType] || (outputs[edge.outputType] = []);
+
+    while (groups.length <= edge.outputIndex) {
+      groups.push([]);
+    }
+
+    groups[edge.outputIndex].push({
+      node: edge.target,
+      type: edge.inputType,
+      index: edge.inputIndex
+    });
+  }
+
+  return connections as unknown as N8nConnections;
+}
+
+/**
+ * Look up a node by the key used in connections (n8n uses names, some generators use IDs)
+ */
+export function findNodeByKey(workflow: N8nWorkflow, key: string): N8nNode | undefined {
+  return workflow.nodes.find(node => node.name === key) || workflow.nodes.find(node => node.id === key);
+}
+
+/**
+ * Name-keyed adjacency view over a workflow's connections
+ */
+export class ConnectionGraph {
+  readonly edges: ConnectionEdge[];
+  private readonly outgoing = new Map<string, ConnectionEdge[]>();
+  private readonly incoming = new Map<string, ConnectionEdge[]>();
+
+  constructor(private readonly workflow: N8nWorkflow) {
+    // Normalise ID-keyed connections to node names so callers only deal with names
+    this.edges = getConnectionEdges(workflow.connections).map(edge => ({
+      ...edge,
+      source: findNodeByKey(workflow, edge.source)?.name ?? edge.source,
+      target: findNodeByKey(workflow, edge.target)?.name ?? edge.target
+    }));
+
+    for (const edge of this.edges) {
+      if (!this.outgoing.has(edge.source)) this.outgoing.set(edge.source, []);
+      if (!this.incoming.has(edge.target)) this.incoming.set(edge.target, []);
+      this.outgoing.get(edge.source)!.push(edge);
+      this.incoming.get(edge.target)!.push(edge);
+    }
+  }
+
+  getNode(name: string): N8nNode | undefined {
+    return findNodeByKey(this.workflow, name);
+  }
+
+  getOutgoing(name: string, outputType?: string): ConnectionEdge[] {
+    const edges = this.outgoing.get(name) || [];
+    return outputType ? edges.filter(edge => edge.outputType === outputType) : edges;
+  }
+
+  getIncoming(name: string, inputType?: string): ConnectionEdge[] {
+    const edges = this.incoming.get(name) || [];
+    return inputType ? edges.filter(edge => edge.inputType === inputType) : edges;
+  }
+
+  getParents(name: string): string[] {
+    return [...new Set(this.getIncoming(name).map(edge => edge.source))];
+  }
+
+  getChildren(name: string): string[] {
+    return [...new Set(this.getOutgoing(name).map(edge => edge.target))];
+  }
+
+  /**
+   * Nodes without incoming connections, in workflow order
+   */
+  getRootNodes(): N8nNode[] {
+    return this.workflow.nodes.filter(node => this.getIncoming(node.name).length === 0);
+  }
+
+  /**
+   * All node names that can reach the given node
+   */
+  getAncestors(name: string): Set<string> {
+    const ancestors = new Set<string>();
+    const queue = [...this.getParents(name)];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (ancestors.has(current)) continue;
+      ancestors.add(current);
+      queue.push(...this.getParents(current));
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * All node names reachable from the given node
+   */
+  getDescendants(name: string): Set<string> {
+    const descendants = new Set<string>();
+    const queue = [...this.getChildren(name)];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (descendants.has(current)) continue;
+      descendants.add(current);
+      queue.push(...this.getChildren(current));
+    }
+
+    return descendants;
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Read a dotted path such as `options.batchSize`; undefined when any segment is missing
+ */
+export function getByPath(source: Record<string, any>, path: string): any {
+  return path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), source as any);
+}
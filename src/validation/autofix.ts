@@ -0,0 +1,314 @@
+/**
+ * Autofix for validation findings
+ *
+ * Fix providers are attached to rule IDs and patch a copy of the workflow for one finding.
+ * The engine validates, applies the providers for the findings it gets, and validates again
+ * until nothing more can be fixed. Files are only rewritten in apply mode.
+ */
+
+import { randomUUID } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
+import * as path from 'path';
+import { N8nWorkflow, N8nNode } from '../types/n8n-workflow.js';
+import { N8N_VALIDATION_RULES } from '../validators/n8n-workflow-schema.js';
+import { getNodeCompatibilityDB, NodeCompatibilityUtils, N8N_CORE_NODES } from './node-compatibility-validator.js';
+import { ValidationPipeline, ValidationPipelineOptions, ValidationFinding, ValidationReport } from './validation-pipeline.js';
+import { expandWorkflowPatterns } from './workflow-lint.js';
+import { findNodeByKey } from '../utils/connection-graph.js';
+import { getDefaultNodeTypeCatalog } from '../importers/node-type-catalog.js';
+
+export interface FixChange {
+  ruleId: string;
+  node?: string;
+  description: string;
+}
+
+/**
+ * Mechanical fix for the findings of one rule
+ */
+export interface FixProvider {
+  ruleId: string;
+  /**
+   * Patch `workflow` in place for `finding` and describe what changed. Returns an empty list
+   * when the finding no longer applies, e.g. because an earlier fix already covered it.
+   */
+  fix(workflow: N8nWorkflow, finding: ValidationFinding): FixChange[];
+}
+
+export interface AutofixResult {
+  /** Patched copy; the input workflow is never modified */
+  workflow: N8nWorkflow;
+  changes: FixChange[];
+  /** Validation of the patched workflow */
+  report: ValidationReport;
+}
+
+export interface AutofixOptions extends ValidationPipelineOptions {
+  /** Replaces the default providers */
+  providers?: FixProvider[];
+  /** Validate-and-fix rounds before giving up on findings that keep coming back (default: 3) */
+  maxPasses?: number;
+}
+
+export interface FileFixResult {
+  file: string;
+  changes: FixChange[];
+  /** Whether the file was rewritten; false in dry-run mode or when nothing changed */
+  written: boolean;
+  remaining: ValidationReport['summary'];
+}
+
+// Parameter changes needed when a deprecated node type is swapped for its replacement
+const PARAMETER_MIGRATIONS: Record<string, (parameters: Record<string, any>) => Record<string, any>> = {
+  [`${N8N_CORE_NODES.FUNCTION}>${N8N_CORE_NODES.CODE}`]: ({ functionCode, ...rest }) => ({
+    ...rest,
+    mode: 'runOnceForAllItems',
+    jsCode: functionCode ?? ''
+  })
+};
+
+export const DEFAULT_FIX_PROVIDERS: FixProvider[] = [
+  {
+    ruleId: 'node/duplicate-name',
+    fix: workflow => {
+      // The first node keeps its name, so connections and expressions keep pointing at it
+      const changes: FixChange[] = [];
+      const taken = new Set(workflow.nodes.map(node => node.name));
+      const seen = new Set<string>();
+
+      for (const node of workflow.nodes) {
+        if (!seen.has(node.name)) {
+          seen.add(node.name);
+          continue;
+        }
+        let suffix = 1;
+        while (taken.has(`${node.name}${suffix}`)) suffix++;
+        const name = `${node.name}${suffix}`;
+        changes.push({ ruleId: 'node/duplicate-name', node: name, description: `Renamed duplicate node '${node.name}' (${node.id}) to '${name}'` });
+        taken.add(name);
+        seen.add(name);
+        node.name = name;
+      }
+      return changes;
+    }
+  },
+  {
+    ruleId: 'node/duplicate-id',
+    fix: workflow => {
+      const changes: FixChange[] = [];
+      const seen = new Set<string>();
+      for (const node of workflow.nodes) {
+        if (seen.has(node.id)) {
+          const id = randomUUID();
+          changes.push({ ruleId: 'node/duplicate-id', node: node.name, description: `Gave node '${node.name}' the new ID ${id} (was ${node.id})` });
+          node.id = id;
+        }
+        seen.add(node.id);
+      }
+      return changes;
+    }
+  },
+  {
+    ruleId: 'connection/unknown-target',
+    fix: workflow => removeConnections(workflow, 'connection/unknown-target', (source, target) =>
+      findNodeByKey(workflow, target) ? null : `Removed connection from '${source}' to missing node '${target}'`)
+  },
+  {
+    ruleId: 'connection/unknown-source',
+    fix: workflow => {
+      const changes: FixChange[] = [];
+      for (const source of Object.keys(workflow.connections || {})) {
+        if (!findNodeByKey(workflow, source)) {
+          delete (workflow.connections as Record<string, any>)[source];
+          changes.push({ ruleId: 'connection/unknown-source', description: `Removed connections from missing node '${source}'` });
+        }
+      }
+      return changes;
+    }
+  },
+  {
+    ruleId: 'connection/duplicate',
+    fix: workflow => {
+      const seen = new Set<string>();
+      return removeConnections(workflow, 'connection/duplicate', (source, target, key) => {
+        if (!seen.has(key)) {
+          seen.add(key);
+          return null;
+        }
+        return `Removed repeated connection from '${source}' to '${target}'`;
+      });
+    }
+  },
+  {
+    ruleId: 'node/position-out-of-bounds',
+    fix: (workflow, finding) => {
+      const node = nodeFor(workflow, finding);
+      if (!node || !Array.isArray(node.position)) return [];
+
+      const bounds = N8N_VALIDATION_RULES.CONSTRAINTS.NODE_POSITION_BOUNDS;
+      const [x, y] = node.position;
+      const clamped: [number, number] = [
+        Math.min(Math.max(x, bounds.MIN_X), bounds.MAX_X),
+        Math.min(Math.max(y, bounds.MIN_Y), bounds.MAX_Y)
+      ];
+      if (clamped[0] === x && clamped[1] === y) return [];
+
+      node.position = clamped;
+      return [{ ruleId: finding.ruleId, node: node.name, description: `Moved '${node.name}' from [${x}, ${y}] to [${clamped.join(', ')}]` }];
+    }
+  },
+  {
+    ruleId: 'node/invalid-type-version',
+    fix: (workflow, finding) => setMissingTypeVersion(nodeFor(workflow, finding), finding.ruleId)
+  },
+  {
+    ruleId: 'node/missing-field',
+    fix: (workflow, finding) => setMissingTypeVersion(nodeFor(workflow, finding), finding.ruleId)
+  },
+  {
+    ruleId: 'node/deprecated',
+    fix: (workflow, finding) => {
+      const node = nodeFor(workflow, finding);
+      const replacement = node && NodeCompatibilityUtils.getReplacementNode(node.type);
+      if (!replacement) return [];
+
+      const migrate = PARAMETER_MIGRATIONS[`${node.type}>${replacement}`];
+      const description = `Replaced deprecated '${node.type}' with '${replacement}'` +
+        (migrate ? '' : '; parameters were kept as they are and need review');
+
+      node.parameters = migrate ? migrate(node.parameters || {}) : node.parameters;
+      node.type = replacement;
+      node.typeVersion = getDefaultNodeTypeCatalog().getDefaultVersion(replacement) ?? getNodeCompatibilityDB()[replacement]?.maxTypeVersion ?? 1;
+      return [{ ruleId: finding.ruleId, node: node.name, description }];
+    }
+  }
+];
+
+export class WorkflowAutofixer {
+  private readonly pipeline: ValidationPipeline;
+  private readonly providers = new Map<string, FixProvider>();
+  private readonly maxPasses: number;
+
+  constructor(options: AutofixOptions = {}) {
+    this.pipeline = new ValidationPipeline(options);
+    for (const provider of options.providers || DEFAULT_FIX_PROVIDERS) {
+      this.providers.set(provider.ruleId, provider);
+    }
+    this.maxPasses = options.maxPasses ?? 3;
+  }
+
+  /**
+   * Rule IDs with a fix provider
+   */
+  getFixableRules(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  async fix(workflow: N8nWorkflow): Promise<AutofixResult> {
+    const patched: N8nWorkflow = JSON.parse(JSON.stringify(workflow));
+    const changes: FixChange[] = [];
+    let report = await this.pipeline.validate(patched);
+
+    for (let pass = 0; pass < this.maxPasses; pass++) {
+      const passChanges: FixChange[] = [];
+      for (const finding of report.findings) {
+        const provider = this.providers.get(finding.ruleId);
+        if (provider) passChanges.push(...provider.fix(patched, finding));
+      }
+      if (!passChanges.length) break;
+
+      changes.push(...passChanges);
+      report = await this.pipeline.validate(patched);
+    }
+
+    return { workflow: patched, changes, report };
+  }
+
+  /**
+   * Fix every workflow matched by `patterns`. With `dryRun`, changes are reported but no file is written.
+   */
+  async fixFiles(patterns: string[], options: { dryRun?: boolean; cwd?: string } = {}): Promise<FileFixResult[]> {
+    const cwd = options.cwd || process.cwd();
+    const results: FileFixResult[] = [];
+
+    for (const file of expandWorkflowPatterns(patterns, cwd)) {
+      const text = await readFile(file, 'utf-8');
+      let workflow: N8nWorkflow;
+      try {
+        workflow = JSON.parse(text);
+      } catch {
+        continue; // Reported by lint; nothing can be fixed without a parse
+      }
+      if (!Array.isArray(workflow?.nodes) || typeof workflow.connections !== 'object') continue;
+
+      const { workflow: patched, changes, report } = await this.fix(workflow);
+      const written = !options.dryRun && changes.length > 0;
+      if (written) {
+        // Keep the file's indentation so the diff only shows the fixes
+        const indent = /^[ \t]+(?=")/m.exec(text)?.[0] ?? (text.trim().includes('\n') ? 2 : 0);
+        await writeFile(file, JSON.stringify(patched, null, indent) + (text.endsWith('\n') ? '\n' : ''));
+      }
+
+      results.push({ file: path.relative(cwd, file) || file, changes, written, remaining: report.summary });
+    }
+
+    return results;
+  }
+}
+
+function nodeFor(workflow: N8nWorkflow, finding: ValidationFinding): N8nNode | undefined {
+  return finding.node ? workflow.nodes.find(node => node.name === finding.node) : undefined;
+}
+
+function setMissingTypeVersion(node: N8nNode | undefined, ruleId: string): FixChange[] {
+  if (!node || (typeof node.typeVersion === 'number' && node.typeVersion >= 1)) return [];
+
+  // n8n reads nodes saved without a version as the oldest one
+  const version = getNodeCompatibilityDB()[node.type]?.minTypeVersion ?? 1;
+  node.typeVersion = version;
+  return [{ ruleId, node: node.name, description: `Set typeVersion of '${node.name}' to ${version}` }];
+}
+
+/**
+ * Drop connection entries for which `describe` returns a change description, keeping the
+ * layout of everything else
+ */
+function removeConnections(
+  workflow: N8nWorkflow,
+  ruleId: string,
+  describe: (source: string, target: string, key: string) => string | null
+): FixChange[] {
+  const changes: FixChange[] = [];
+
+  for (const [source, outputs] of Object.entries(workflow.connections || {})) {
+    for (const [outputType, outputList] of Object.entries(outputs || {})) {
+      if (!Array.isArray(outputList)) continue;
+
+      (outputList as any[]).forEach((entry, position) => {
+        const group: any[] = Array.isArray(entry) ? entry : [entry];
+        const kept = group.filter(connection => {
+          if (!connection || typeof connection.node !== 'string') return true;
+          const key = [source, outputType, position, connection.node, connection.type || outputType, connection.index ?? 0].join('|');
+          const description = describe(source, connection.node, key);
+          if (description) {
+            changes.push({ ruleId, node: findNodeByKey(workflow, source)?.name, description });
+          }
+          return !description;
+        });
+
+        if (Array.isArray(entry)) {
+          (outputList as any[])[position] = kept;
+        } else if (!kept.length) {
+          (outputList as any[])[position] = null;
+        }
+      });
+
+      if (!Array.isArray(outputList[0])) {
+        // Flat target lists have no output positions to preserve
+        (outputs as Record<string, any>)[outputType] = (outputList as any[]).filter(Boolean);
+      }
+    }
+  }
+
+  return changes;
+}
@@ -16,6 +16,7 @@ import {
   NodeCompatibilityValidator,
   NodeCompatibilityUtils
 } from './node-compatibility-validator.js';
+import { getConnectionEdges, findNodeByKey } from '../utils/connection-graph.js';
 
 /**
  * Connection validation types
@@ -61,6 +62,20 @@ export interface ConnectionStatistics {
   minConnectionsPerNode: number;
 }
 
+/**
+ * Connection edge with its endpoints resolved to node IDs (undefined when the node does not exist)
+ */
+interface ResolvedEdge {
+  sourceKey: string;
+  targetKey: string;
+  sourceId?: string;
+  targetId?: string;
+  outputType: string;
+  outputIndex: number;
+  inputType: string;
+  inputIndex: number;
+}
+
 /**
  * Connection Configuration Validator Class
  */
@@ -142,7 +157,6 @@ export class ConnectionValidator {
    * Generate connection statistics
    */
   generateConnectionStatistics(workflow: N8nWorkflow): ConnectionStatistics {
-    const connections = workflow.connections;
     let totalConnections = 0;
     const connectionsByType: Record<string, number> = {};
     const nodeConnectionCounts: Record<string, { inputs: number; outputs: number }> = {};
@@ -153,24 +167,18 @@ export class ConnectionValidator {
     }
 
     // Count connections
-    for (const [sourceNodeId, outputs] of Object.entries(connections)) {
-      for (const [outputType, connectionList] of Object.entries(outputs)) {
-        for (const connection of connectionList) {
-          totalConnections++;
-          
-          // Count by type
-          connectionsByType[outputType] = (connectionsByType[outputType] || 0) + 1;
-          
-          // Count outputs for source node
-          if (nodeConnectionCounts[sourceNodeId]) {
-            nodeConnectionCounts[sourceNodeId].outputs++;
-          }
-          
-          // Count inputs for target node
-          if (nodeConnectionCounts[connection.node]) {
-            nodeConnectionCounts[connection.node].inputs++;
-          }
-        }
+    for (const edge of this.getResolvedEdges(workflow)) {
+      totalConnections++;
+
+      // Count by type
+      connectionsByType[edge.outputType] = (connectionsByType[edge.outputType] || 0) + 1;
+
+      // Count outputs for source node and inputs for target node
+      if (edge.sourceId && nodeConnectionCounts[edge.sourceId]) {
+        nodeConnectionCounts[edge.sourceId].outputs++;
+      }
+      if (edge.targetId && nodeConnectionCounts[edge.targetId]) {
+        nodeConnectionCounts[edge.targetId].inputs++;
       }
     }
 
@@ -241,31 +249,27 @@ export class ConnectionValidator {
   private validateConnectionIntegrity(workflow: N8nWorkflow): { errors: ValidationError[], warnings: ValidationWarning[] } {
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
-    const nodeIds = new Set(workflow.nodes.map(n => n.id));
 
-    for (const [sourceNodeId, outputs] of Object.entries(workflow.connections)) {
+    for (const sourceKey of Object.keys(workflow.connections)) {
       // Check if source node exists
-      if (!nodeIds.has(sourceNodeId)) {
+      if (!findNodeByKey(workflow, sourceKey)) {
         errors.push({
           type: 'connection',
-          message: `Connection references non-existent source node: ${sourceNodeId}`,
-          nodeId: sourceNodeId,
+          message: `Connection references non-existent source node: ${sourceKey}`,
+          nodeId: sourceKey,
           severity: 'error'
         });
-        continue;
       }
+    }
 
-      for (const output of Object.values(outputs)) {
-          for (const connection of output) {
-              if (!nodeIds.has(connection.node)) {
-                  errors.push({
-                      type: 'connection',
-                      message: `Connection references non-existent target node: ${connection.node}`,
-                      nodeId: sourceNodeId,
-                      severity: 'error'
-                  });
-              }
-          }
+    for (const edge of this.getResolvedEdges(workflow)) {
+      if (edge.sourceId && !edge.targetId) {
+        errors.push({
+          type: 'connection',
+          message: `Connection references non-existent target node: ${edge.targetKey}`,
+          nodeId: edge.sourceId,
+          severity: 'error'
+        });
       }
     }
 
@@ -282,18 +286,9 @@ export class ConnectionValidator {
     // Check for duplicate connections
     const connectionMap = new Map<string, number>();
 
-    for (const [sourceNodeId, outputs] of Object.entries(workflow.connections)) {
-      for (const [outputType, connectionList] of Object.entries(outputs)) {
-        for (const connection of connectionList) {
-          const connectionKey = `${sourceNodeId}->${connection.node}:${outputType}->${connection.type}:${connection.index}`;
-          
-          if (connectionMap.has(connectionKey)) {
-            connectionMap.set(connectionKey, connectionMap.get(connectionKey)! + 1);
-          } else {
-            connectionMap.set(connectionKey, 1);
-          }
-        }
-      }
+    for (const edge of this.getResolvedEdges(workflow)) {
+      const connectionKey = `${edge.sourceId ?? edge.sourceKey}->${edge.targetId ?? edge.targetKey}:${edge.outputType}[${edge.outputIndex}]->${edge.inputType}:${edge.inputIndex}`;
+      connectionMap.set(connectionKey, (connectionMap.get(connectionKey) || 0) + 1);
     }
 
     // Report duplicate connections
@@ -364,26 +359,20 @@ export class ConnectionValidator {
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
 
-    for (const [sourceNodeId, outputs] of Object.entries(workflow.connections)) {
-      const sourceNode = workflow.nodes.find(n => n.id === sourceNodeId);
-      if (!sourceNode) continue;
-
-      for (const [outputType, connectionList] of Object.entries(outputs)) {
-        for (const connection of connectionList) {
-          const targetNode = workflow.nodes.find(n => n.id === connection.node);
-          if (!targetNode) continue;
+    for (const edge of this.getResolvedEdges(workflow)) {
+      const sourceNode = workflow.nodes.find(n => n.id === edge.sourceId);
+      const targetNode = workflow.nodes.find(n => n.id === edge.targetId);
+      if (!sourceNode || !targetNode) continue;
 
-          const canConnect = NodeCompatibilityUtils.canConnect(sourceNode.type, targetNode.type, outputType, connection.type);
+      const canConnect = NodeCompatibilityUtils.canConnect(sourceNode.type, targetNode.type, edge.outputType, edge.inputType);
 
-          if (!canConnect) {
-            errors.push({
-              type: 'connection',
-              message: `Incompatible connection from ${sourceNode.type} (${sourceNodeId}) to ${targetNode.type} (${connection.node}): ${outputType} -> ${connection.type}`,
-              nodeId: sourceNodeId,
-              severity: 'error'
-            });
-          }
-        }
+      if (!canConnect) {
+        errors.push({
+          type: 'connection',
+          message: `Incompatible connection from ${sourceNode.type} (${sourceNode.id}) to ${targetNode.type} (${targetNode.id}): ${edge.outputType} -> ${edge.inputType}`,
+          nodeId: sourceNode.id,
+          severity: 'error'
+        });
       }
     }
 
@@ -454,12 +443,8 @@ export class ConnectionValidator {
     const nodesWithInputs = new Set<string>();
 
     // Find all nodes that have input connections
-    for (const outputs of Object.values(workflow.connections)) {
-      for (const connectionList of Object.values(outputs)) {
-        for (const connection of connectionList) {
-          nodesWithInputs.add(connection.node);
-        }
-      }
+    for (const edge of this.getResolvedEdges(workflow)) {
+      if (edge.targetId) nodesWithInputs.add(edge.targetId);
     }
 
     // Return nodes without input connections
@@ -471,7 +456,11 @@ export class ConnectionValidator {
    */
   private findExitPoints(workflow: N8nWorkflow): string[] {
     const nodeIds = new Set(workflow.nodes.map(n => n.id));
-    const nodesWithOutputs = new Set(Object.keys(workflow.connections));
+    const nodesWithOutputs = new Set<string>();
+
+    for (const edge of this.getResolvedEdges(workflow)) {
+      if (edge.sourceId) nodesWithOutputs.add(edge.sourceId);
+    }
 
     // Return nodes without output connections
     return Array.from(nodeIds).filter(id => !nodesWithOutputs.has(id));
@@ -492,6 +481,7 @@ export class ConnectionValidator {
    * Detect cycles using DFS
    */
   private detectCycles(workflow: N8nWorkflow): string[][] {
+    const successors = this.getSuccessors(workflow);
     const visited = new Set<string>();
     const recursionStack = new Set<string>();
     const cycles: string[][] = [];
@@ -514,12 +504,8 @@ export class ConnectionValidator {
       recursionStack.add(nodeId);
 
       // Visit connected nodes
-      if (workflow.connections[nodeId]) {
-        for (const outputs of Object.values(workflow.connections[nodeId])) {
-          for (const connection of outputs) {
-            dfs(connection.node, [...path, nodeId]);
-          }
-        }
+      for (const successor of successors.get(nodeId) || []) {
+        dfs(successor, [...path, nodeId]);
       }
 
       recursionStack.delete(nodeId);
@@ -539,6 +525,7 @@ export class ConnectionValidator {
    * Find unreachable nodes from entry points
    */
   private findUnreachableNodes(workflow: N8nWorkflow, entryPoints: string[]): string[] {
+    const successors = this.getSuccessors(workflow);
     const reachable = new Set<string>();
     const visited = new Set<string>();
 
@@ -548,12 +535,8 @@ export class ConnectionValidator {
       visited.add(nodeId);
       reachable.add(nodeId);
 
-      if (workflow.connections[nodeId]) {
-        for (const outputs of Object.values(workflow.connections[nodeId])) {
-          for (const connection of outputs) {
-            dfs(connection.node);
-          }
-        }
+      for (const successor of successors.get(nodeId) || []) {
+        dfs(successor);
       }
     };
 
@@ -572,24 +555,24 @@ export class ConnectionValidator {
    * Calculate maximum depth from entry points
    */
   private calculateMaxDepth(workflow: N8nWorkflow, entryPoints: string[]): number {
+    const successors = this.getSuccessors(workflow);
     const depths = new Map<string, number>();
+    const onPath = new Set<string>();
     let maxDepth = 0;
 
     const dfs = (nodeId: string, depth: number): void => {
-      if (depths.has(nodeId) && depths.get(nodeId)! >= depth) {
-        return; // Already visited with greater or equal depth
+      if (onPath.has(nodeId) || (depths.has(nodeId) && depths.get(nodeId)! >= depth)) {
+        return; // Back edge of a cycle, or already visited with greater or equal depth
       }
 
       depths.set(nodeId, depth);
       maxDepth = Math.max(maxDepth, depth);
 
-      if (workflow.connections[nodeId]) {
-        for (const outputs of Object.values(workflow.connections[nodeId])) {
-          for (const connection of outputs) {
-            dfs(connection.node, depth + 1);
-          }
-        }
+      onPath.add(nodeId);
+      for (const successor of successors.get(nodeId) || []) {
+        dfs(successor, depth + 1);
       }
+      onPath.delete(nodeId);
     };
 
     // Start from all entry points
@@ -604,13 +587,16 @@ export class ConnectionValidator {
    * Generate connection paths from entry points
    */
   private generateConnectionPaths(workflow: N8nWorkflow, entryPoints: string[]): ConnectionPath[] {
+    const successors = this.getSuccessors(workflow);
     const paths: ConnectionPath[] = [];
 
     const dfs = (nodeId: string, currentPath: string[]): void => {
       const newPath = [...currentPath, nodeId];
       
+      const next = successors.get(nodeId) || [];
+
       // Check if this is an end point (no outputs)
-      if (!workflow.connections[nodeId] || Object.keys(workflow.connections[nodeId]).length === 0) {
+      if (next.length === 0) {
         paths.push({
           path: newPath,
           length: newPath.length,
@@ -620,15 +606,10 @@ export class ConnectionValidator {
         return;
       }
 
-      // Continue to connected nodes
-      if (workflow.connections[nodeId]) {
-        for (const outputs of Object.values(workflow.connections[nodeId])) {
-          for (const connection of outputs) {
-            // Avoid infinite loops
-            if (!currentPath.includes(connection.node)) {
-              dfs(connection.node, newPath);
-            }
-          }
+      // Continue to connected nodes, avoiding infinite loops
+      for (const successor of next) {
+        if (!currentPath.includes(successor)) {
+          dfs(successor, newPath);
         }
       }
     };
@@ -641,6 +622,35 @@ export class ConnectionValidator {
     return paths;
   }
 
+  /**
+   * Flatten connections (n8n's name-keyed nested arrays or legacy ID-keyed lists) into edges
+   */
+  private getResolvedEdges(workflow: N8nWorkflow): ResolvedEdge[] {
+    return getConnectionEdges(workflow.connections).map(edge => ({
+      sourceKey: edge.source,
+      targetKey: edge.target,
+      sourceId: findNodeByKey(workflow, edge.source)?.id,
+      targetId: findNodeByKey(workflow, edge.target)?.id,
+      outputType: edge.outputType,
+      outputIndex: edge.outputIndex,
+      inputType: edge.inputType,
+      inputIndex: edge.inputIndex
+    }));
+  }
+
+  /**
+   * Successor node IDs for every node with outgoing connections
+   */
+  private getSuccessors(workflow: N8nWorkflow): Map<string, string[]> {
+    const successors = new Map<string, string[]>();
+    for (const edge of this.getResolvedEdges(workflow)) {
+      if (!edge.sourceId || !edge.targetId) continue;
+      if (!successors.has(edge.sourceId)) successors.set(edge.sourceId, []);
+      successors.get(edge.sourceId)!.push(edge.targetId);
+    }
+    return successors;
+  }
+
   /**
    * Add custom validation rule
    */
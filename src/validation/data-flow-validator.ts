@@ -12,21 +12,28 @@ export class DataFlowValidator {
     };
   }
 
+  /**
+   * Validate that data can reach every node, with one finding per affected node
+   */
+  public validateDataFlow(workflow: N8nWorkflow): ValidationResult {
+    return this.validateDataFlowContinuity(workflow);
+  }
+
   private validateDataFlowContinuity(workflow: N8nWorkflow): ValidationResult {
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
     const analysis = new ConnectionValidator().analyzeDataFlow(workflow);
 
-    if (analysis.unreachableNodes.length > 0) {
-      const message = `Unreachable nodes detected: ${analysis.unreachableNodes.join(', ')}`;
-      errors.push({ type: 'data_flow_continuity', message, severity: 'error' });
+    for (const nodeId of analysis.unreachableNodes) {
+      const message = `Unreachable node detected: ${nodeId}`;
+      errors.push({ type: 'data_flow_continuity', message, nodeId, severity: 'error' });
     }
 
-    if (analysis.isolatedNodes.length > 0) {
-      const message = `Isolated nodes detected: ${analysis.isolatedNodes.join(', ')}`;
-      warnings.push({ type: 'data_flow_continuity', message });
+    for (const nodeId of analysis.isolatedNodes) {
+      const message = `Isolated node detected: ${nodeId}`;
+      warnings.push({ type: 'data_flow_continuity', message, nodeId });
     }
 
     return { isValid: errors.length === 0, errors, warnings };
   }
-} 
\ No newline at end of file
+}
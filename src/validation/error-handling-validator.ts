@@ -11,7 +11,7 @@ import {
   ValidationWarning
 } from '../types/n8n-workflow.js';
 
-import { ConnectionValidator } from './connection-validator';
+import { ConnectionValidator } from './connection-validator.js';
 
 /**
  * Error types in workflows
@@ -0,0 +1,163 @@
+/**
+ * Output formats for workflow lint runs: terminal text, SARIF 2.1.0 for code scanning and
+ * JUnit XML for CI test reports
+ */
+
+import { LintRun, LintFinding, LintThreshold, WorkflowLintResult, meetsThreshold } from './workflow-lint.js';
+import { FindingSeverity, VALIDATION_RULES } from './validation-rules.js';
+
+export type LintFormat = 'text' | 'json' | 'sarif' | 'junit';
+
+export const LINT_FORMATS: LintFormat[] = ['text', 'json', 'sarif', 'junit'];
+
+const TOOL_NAME = 'n8n-workflow-lint';
+const SARIF_LEVELS: Record<FindingSeverity, string> = { error: 'error', warning: 'warning', info: 'note' };
+
+export function formatLintRun(run: LintRun, format: LintFormat, threshold: LintThreshold): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(run, null, 2);
+    case 'sarif':
+      return JSON.stringify(formatSarif(run.results), null, 2);
+    case 'junit':
+      return formatJUnit(run.results, threshold);
+    default:
+      return formatText(run);
+  }
+}
+
+/**
+ * One block per file with `line:column  severity  message  rule`, then totals
+ */
+export function formatText(run: LintRun): string {
+  const lines: string[] = [];
+  const totals = { errors: 0, warnings: 0, info: 0, suppressed: 0 };
+
+  for (const result of run.results) {
+    totals.errors += result.summary.errors;
+    totals.warnings += result.summary.warnings;
+    totals.info += result.summary.info;
+    totals.suppressed += result.summary.suppressed;
+    if (!result.findings.length) continue;
+
+    lines.push(result.file);
+    for (const finding of result.findings) {
+      const position = `${finding.location.line}:${finding.location.column}`;
+      const node = finding.node ? ` [${finding.node}]` : '';
+      lines.push(`  ${position.padEnd(8)} ${finding.severity.padEnd(7)} ${finding.message}${node}  ${finding.ruleId}`);
+    }
+    lines.push('');
+  }
+
+  for (const file of run.skipped) {
+    lines.push(`Skipped ${file} (not a workflow)`);
+  }
+
+  const problems = totals.errors + totals.warnings + totals.info;
+  const suppressed = totals.suppressed ? `, ${totals.suppressed} suppressed` : '';
+  lines.push(
+    `${problems ? '✖' : '✔'} ${problems} problem${problems === 1 ? '' : 's'} ` +
+    `(${totals.errors} errors, ${totals.warnings} warnings, ${totals.info} info${suppressed}) in ${run.results.length} workflow file${run.results.length === 1 ? '' : 's'}`
+  );
+  return lines.join('\n');
+}
+
+/**
+ * SARIF log with one run. Suppressed findings are included and marked as suppressed in source,
+ * so code scanning shows them as dismissed rather than fixed.
+ */
+export function formatSarif(results: WorkflowLintResult[]): Record<string, any> {
+  const ruleIds = [...new Set(results.flatMap(result => [...result.findings, ...result.suppressed].map(finding => finding.ruleId)))].sort();
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: TOOL_NAME,
+          rules: ruleIds.map(id => ({
+            id,
+            shortDescription: { text: VALIDATION_RULES[id]?.description || id },
+            ...(VALIDATION_RULES[id]?.severity && { defaultConfiguration: { level: SARIF_LEVELS[VALIDATION_RULES[id].severity!] } })
+          }))
+        }
+      },
+      results: results.flatMap(result => [...result.findings, ...result.suppressed].map(finding => ({
+        ruleId: finding.ruleId,
+        ruleIndex: ruleIds.indexOf(finding.ruleId),
+        level: SARIF_LEVELS[finding.severity],
+        message: { text: finding.suggestion ? `${finding.message}. ${finding.suggestion}` : finding.message },
+        locations: [sarifLocation(result.file, finding)],
+        ...(finding.suppressedBy && {
+          suppressions: [{ kind: 'inSource', justification: finding.suppressedBy === 'node' ? 'Suppressed for this node' : 'Suppressed for the workflow' }]
+        })
+      })))
+    }]
+  };
+}
+
+/**
+ * One test suite per file and one test case per finding. Findings that reach the threshold
+ * are failures; the rest pass with the finding as output. Files without findings get a
+ * single passing case.
+ */
+export function formatJUnit(results: WorkflowLintResult[], threshold: LintThreshold): string {
+  const suites = results.map(result => {
+    const failures = result.findings.filter(finding => meetsThreshold(finding.severity, threshold)).length;
+    const cases = result.findings.length
+      ? result.findings.map(finding => junitCase(result.file, finding, meetsThreshold(finding.severity, threshold)))
+      : [`    <testcase classname="${escapeXml(result.file)}" name="${escapeXml(result.workflowName)}"/>`];
+
+    return [
+      `  <testsuite name="${escapeXml(result.file)}" tests="${Math.max(result.findings.length, 1)}" failures="${failures}" errors="0">`,
+      ...cases,
+      '  </testsuite>'
+    ].join('\n');
+  });
+
+  const tests = results.reduce((total, result) => total + Math.max(result.findings.length, 1), 0);
+  const failures = results.reduce((total, result) =>
+    total + result.findings.filter(finding => meetsThreshold(finding.severity, threshold)).length, 0);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${TOOL_NAME}" tests="${tests}" failures="${failures}" errors="0">`,
+    ...suites,
+    '</testsuites>',
+    ''
+  ].join('\n');
+}
+
+function sarifLocation(file: string, finding: LintFinding): Record<string, any> {
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: file.split('\\').join('/') },
+      region: { startLine: finding.location.line, startColumn: finding.location.column }
+    },
+    logicalLocations: [{
+      ...(finding.node && { name: finding.node }),
+      fullyQualifiedName: finding.location.pointer || '/',
+      kind: finding.node ? 'member' : 'module'
+    }]
+  };
+}
+
+function junitCase(file: string, finding: LintFinding, failed: boolean): string {
+  const name = `${finding.ruleId}${finding.node ? ` (${finding.node})` : ''}`;
+  const where = `${file}:${finding.location.line}:${finding.location.column} ${finding.location.pointer || '/'}`;
+  const detail = escapeXml(`${finding.message}\n${where}${finding.suggestion ? `\n${finding.suggestion}` : ''}`);
+  const body = failed
+    ? `<failure message="${escapeXml(finding.message)}" type="${finding.severity}">${detail}</failure>`
+    : `<system-out>${detail}</system-out>`;
+  return `    <testcase classname="${escapeXml(file)}" name="${escapeXml(name)}">${body}</testcase>`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
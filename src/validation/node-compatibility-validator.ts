@@ -11,6 +11,9 @@ import {
   ValidationError,
   ValidationWarning
 } from '../types/n8n-workflow.js';
+import { getConnectionEdges, findNodeByKey } from '../utils/connection-graph.js';
+import { NodeParameterValidator } from './node-parameter-validator.js';
+import { NodeTypeCatalog, getDefaultNodeTypeCatalog } from '../importers/node-type-catalog.js';
 
 /**
  * Node type categories for compatibility validation
@@ -53,7 +56,8 @@ export interface ConnectionCompatibilityInfo {
 }
 
 /**
- * Common N8N Node Types
+ * Common N8N Node Types. Only the names live here; versions, connections and parameters come
+ * from `getNodeCompatibilityDB()`.
  */
 export const N8N_CORE_NODES = {
   // Core nodes
@@ -73,6 +77,7 @@ export const N8N_CORE_NODES = {
   SWITCH: 'n8n-nodes-base.switch',
   MERGE: 'n8n-nodes-base.merge',
   SPLIT_IN_BATCHES: 'n8n-nodes-base.splitInBatches',
+  NO_OP: 'n8n-nodes-base.noOp',
   
   // HTTP and API
   HTTP_REQUEST: 'n8n-nodes-base.httpRequest',
@@ -141,25 +146,25 @@ export const NODE_COMPATIBILITY_DB: Record<string, NodeCompatibilityInfo> = {
     maxInputConnections: 1,
     maxOutputConnections: 2,
     minTypeVersion: 1,
-    maxTypeVersion: 4
+    maxTypeVersion: 4.2
   },
   [N8N_CORE_NODES.SET]: {
     category: NODE_CATEGORIES.TRANSFORM,
     supportedInputTypes: ['main'],
     supportedOutputTypes: ['main'],
-    requiredParameters: ['values'],
-    optionalParameters: ['keepOnlySet'],
+    requiredParameters: [], // 'values' before v3, 'assignments' from v3.3
+    optionalParameters: ['values', 'assignments', 'keepOnlySet', 'includeOtherFields'],
     maxInputConnections: 1,
     maxOutputConnections: 1,
     minTypeVersion: 1,
-    maxTypeVersion: 3
+    maxTypeVersion: 3.4
   },
   [N8N_CORE_NODES.CODE]: {
     category: NODE_CATEGORIES.TRANSFORM,
     supportedInputTypes: ['main'],
     supportedOutputTypes: ['main', 'error'],
-    requiredParameters: ['code'],
-    optionalParameters: ['mode', 'workflowStaticData'],
+    requiredParameters: [], // 'jsCode' or 'pythonCode' depending on the language
+    optionalParameters: ['mode', 'language', 'jsCode', 'pythonCode'],
     maxInputConnections: 1,
     maxOutputConnections: 2,
     minTypeVersion: 1,
@@ -222,6 +227,28 @@ export const NODE_COMPATIBILITY_DB: Record<string, NodeCompatibilityInfo> = {
     minTypeVersion: 1,
     maxTypeVersion: 3
   },
+  [N8N_CORE_NODES.NO_OP]: {
+    category: NODE_CATEGORIES.TRANSFORM,
+    supportedInputTypes: ['main'],
+    supportedOutputTypes: ['main'],
+    requiredParameters: [],
+    optionalParameters: [],
+    maxInputConnections: 1,
+    maxOutputConnections: 1,
+    minTypeVersion: 1,
+    maxTypeVersion: 1
+  },
+  [N8N_CORE_NODES.POSTGRES]: {
+    category: NODE_CATEGORIES.ACTION,
+    supportedInputTypes: ['main'],
+    supportedOutputTypes: ['main', 'error'],
+    requiredParameters: ['operation'],
+    optionalParameters: ['query', 'schema', 'table', 'columns', 'options'],
+    maxInputConnections: 1,
+    maxOutputConnections: 2,
+    minTypeVersion: 1,
+    maxTypeVersion: 2.5
+  },
   [N8N_CORE_NODES.OPENAI]: {
     category: NODE_CATEGORIES.ACTION,
     supportedInputTypes: ['main'],
@@ -246,6 +273,51 @@ export const NODE_COMPATIBILITY_DB: Record<string, NodeCompatibilityInfo> = {
   }
 };
 
+const catalogDBs = new WeakMap<NodeTypeCatalog, Record<string, NodeCompatibilityInfo>>();
+
+/**
+ * Compatibility database for a node type catalog (the default one unless given). Types in the
+ * catalog get their versions, connections and parameters from it; the built-in entries cover
+ * the rest and still supply categories and deprecations, which descriptions do not carry.
+ */
+export function getNodeCompatibilityDB(catalog: NodeTypeCatalog = getDefaultNodeTypeCatalog()): Record<string, NodeCompatibilityInfo> {
+  if (!catalog.size) return NODE_COMPATIBILITY_DB;
+
+  let db = catalogDBs.get(catalog);
+  if (!db) {
+    db = { ...NODE_COMPATIBILITY_DB };
+    for (const nodeType of catalog.getTypes()) {
+      db[nodeType] = compatibilityFromCatalog(catalog, nodeType, NODE_COMPATIBILITY_DB[nodeType]);
+    }
+    catalogDBs.set(catalog, db);
+  }
+  return db;
+}
+
+function compatibilityFromCatalog(catalog: NodeTypeCatalog, nodeType: string, builtIn?: NodeCompatibilityInfo): NodeCompatibilityInfo {
+  const description = catalog.getDescription(nodeType)!;
+  const versions = catalog.getVersions(nodeType);
+  const connections = catalog.getConnections(nodeType)!;
+  const trigger = description.group.includes('trigger') || (!connections.dynamic && connections.inputs.length === 0);
+  // Parameters required whatever the other parameters are set to
+  const topLevel = description.properties.filter(property => property.type !== 'notice');
+  const required = topLevel.filter(property => property.required && !property.displayOptions && [undefined, null, ''].includes(property.default));
+
+  return {
+    category: builtIn?.category ?? (trigger ? NODE_CATEGORIES.TRIGGER : description.group.includes('transform') ? NODE_CATEGORIES.TRANSFORM : NODE_CATEGORIES.ACTION),
+    supportedInputTypes: connections.dynamic ? builtIn?.supportedInputTypes ?? ['main'] : [...new Set(connections.inputs)],
+    supportedOutputTypes: connections.dynamic ? builtIn?.supportedOutputTypes ?? ['main'] : [...new Set(connections.outputs)],
+    requiredParameters: [...new Set(required.map(property => property.name))],
+    optionalParameters: [...new Set(topLevel.filter(property => !required.includes(property)).map(property => property.name))],
+    maxInputConnections: connections.dynamic ? builtIn?.maxInputConnections ?? Infinity : connections.inputs.length,
+    // Every non-trigger node can also get an error output (`onError: continueErrorOutput`)
+    maxOutputConnections: connections.dynamic ? builtIn?.maxOutputConnections ?? Infinity : connections.outputs.length + (trigger ? 0 : 1),
+    minTypeVersion: versions[0],
+    maxTypeVersion: versions[versions.length - 1],
+    ...(builtIn?.deprecatedInVersion && { deprecatedInVersion: builtIn.deprecatedInVersion, replacedBy: builtIn.replacedBy })
+  };
+}
+
 /**
  * Connection compatibility rules
  */
@@ -293,12 +365,15 @@ export const CONNECTION_COMPATIBILITY_RULES: ConnectionCompatibilityInfo[] = [
 export class NodeCompatibilityValidator {
   private compatibilityDB: Record<string, NodeCompatibilityInfo>;
   private connectionRules: ConnectionCompatibilityInfo[];
+  private parameterValidator?: NodeParameterValidator;
 
   constructor(
     customCompatibilityDB?: Record<string, NodeCompatibilityInfo>,
-    customConnectionRules?: ConnectionCompatibilityInfo[]
+    customConnectionRules?: ConnectionCompatibilityInfo[],
+    parameterValidator?: NodeParameterValidator
   ) {
-    this.compatibilityDB = customCompatibilityDB || NODE_COMPATIBILITY_DB;
+    this.parameterValidator = parameterValidator;
+    this.compatibilityDB = customCompatibilityDB || getNodeCompatibilityDB();
     this.connectionRules = customConnectionRules || CONNECTION_COMPATIBILITY_RULES;
   }
 
@@ -420,9 +495,14 @@ export class NodeCompatibilityValidator {
   }
 
   /**
-   * Validate node parameters
+   * Validate node parameters, against the node type description when there is one and
+   * otherwise against the required parameters in the compatibility database
    */
   private validateNodeParameters(node: N8nNode): ValidationResult {
+    if (this.parameterValidator?.hasDescription(node)) {
+      return this.parameterValidator.validateNode(node);
+    }
+
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
     const compatibilityInfo = this.compatibilityDB[node.type];
@@ -659,28 +739,24 @@ export class NodeCompatibilityValidator {
     return recommendations;
   }
 
+  /**
+   * Number of distinct input slots in use; several edges may feed the same slot
+   */
   private countInputConnections(nodeId: string, workflow: N8nWorkflow): number {
-    let count = 0;
-    for (const sourceNode of Object.values(workflow.connections)) {
-        for (const output of Object.values(sourceNode)) {
-            for (const connection of output) {
-                if (connection.node === nodeId) {
-                    count++;
-                }
-            }
-        }
-    }
-    return count;
+    const slots = getConnectionEdges(workflow.connections)
+      .filter(edge => findNodeByKey(workflow, edge.target)?.id === nodeId)
+      .map(edge => `${edge.inputType}:${edge.inputIndex}`);
+    return new Set(slots).size;
   }
 
+  /**
+   * Number of distinct output slots in use; one output may fan out to several nodes
+   */
   private countOutputConnections(nodeId: string, workflow: N8nWorkflow): number {
-    let count = 0;
-    if (workflow.connections[nodeId]) {
-        for (const output of Object.values(workflow.connections[nodeId])) {
-            count += output.length;
-        }
-    }
-    return count;
+    const slots = getConnectionEdges(workflow.connections)
+      .filter(edge => findNodeByKey(workflow, edge.source)?.id === nodeId)
+      .map(edge => `${edge.outputType}:${edge.outputIndex}`);
+    return new Set(slots).size;
   }
 }
 
@@ -712,7 +788,7 @@ export const NodeCompatibilityUtils = {
    * Get recommended replacement for deprecated node
    */
   getReplacementNode(nodeType: string): string | null {
-    const info = NODE_COMPATIBILITY_DB[nodeType];
+    const info = getNodeCompatibilityDB()[nodeType];
     return info?.replacedBy || null;
   },
 
@@ -720,7 +796,7 @@ export const NodeCompatibilityUtils = {
    * Check if node is deprecated
    */
   isNodeDeprecated(nodeType: string): boolean {
-    const info = NODE_COMPATIBILITY_DB[nodeType];
+    const info = getNodeCompatibilityDB()[nodeType];
     return !!info?.deprecatedInVersion;
   },
 
@@ -728,7 +804,7 @@ export const NodeCompatibilityUtils = {
    * Get node category
    */
   getNodeCategory(nodeType: string): string | null {
-    const info = NODE_COMPATIBILITY_DB[nodeType];
+    const info = getNodeCompatibilityDB()[nodeType];
     return info?.category || null;
   }
 }; 
\ No newline at end of file
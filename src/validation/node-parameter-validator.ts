@@ -0,0 +1,327 @@
+/**
+ * Node parameter validation driven by n8n node type descriptions
+ *
+ * Checks a node's parameters against the `properties` of its `INodeTypeDescription`: which
+ * parameters are shown for the current values (`displayOptions`), which are required, which
+ * values `options` allow, and the nesting of collections and fixed collections. Parameters
+ * holding expressions are only checked for presence, since their value is known at runtime.
+ */
+
+import { N8nNode, ValidationResult, ValidationError, ValidationWarning } from '../types/n8n-workflow.js';
+import { INodeTypeDescription, INodeProperties, INodePropertyOptions, INodePropertyCollection } from '../types/n8n-api-interfaces.js';
+import { isExpression } from '../parsers/expression-parser.js';
+
+type DisplayCondition = Array<string | number | boolean>;
+
+interface ValidationContext {
+  node: N8nNode;
+  /** Top-level parameters, for `/name` references in display options */
+  root: Record<string, any>;
+  rootProperties: INodeProperties[];
+  errors: ValidationError[];
+  warnings: ValidationWarning[];
+}
+
+const VALUE_TYPES: Partial<Record<INodeProperties['type'], string>> = {
+  string: 'string',
+  color: 'string',
+  dateTime: 'string',
+  number: 'number',
+  boolean: 'boolean'
+};
+
+export class NodeParameterValidator {
+  private readonly descriptions = new Map<string, INodeTypeDescription[]>();
+
+  constructor(descriptions: INodeTypeDescription[] = []) {
+    descriptions.forEach(description => this.addDescription(description));
+  }
+
+  addDescription(description: INodeTypeDescription): void {
+    const versions = this.descriptions.get(description.name) || [];
+    versions.push(description);
+    this.descriptions.set(description.name, versions);
+  }
+
+  /**
+   * Description covering `typeVersion`, or the newest one older than it. Newer descriptions
+   * are never used, since their parameters may not exist in the version the node was built with.
+   */
+  getDescription(type: string, typeVersion: number): INodeTypeDescription | null {
+    let best: { description: INodeTypeDescription; version: number } | null = null;
+
+    for (const description of this.descriptions.get(type) || []) {
+      const versions = Array.isArray(description.version) ? description.version : [description.version];
+      if (versions.includes(typeVersion)) return description;
+
+      for (const version of versions) {
+        if (version < typeVersion && (!best || version > best.version)) {
+          best = { description, version };
+        }
+      }
+    }
+
+    return best?.description || null;
+  }
+
+  hasDescription(node: N8nNode): boolean {
+    return Boolean(node?.type && this.getDescription(node.type, node.typeVersion));
+  }
+
+  /**
+   * Validate a node's parameters against its description. Nodes without one pass unchecked.
+   */
+  validateNode(node: N8nNode): ValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+    const description = this.getDescription(node.type, node.typeVersion);
+
+    if (description) {
+      const parameters = node.parameters && typeof node.parameters === 'object' ? node.parameters : {};
+      const context: ValidationContext = { node, root: parameters, rootProperties: description.properties, errors, warnings };
+      this.validateProperties(description.properties, parameters, '', context, true);
+
+      for (const key of Object.keys(parameters)) {
+        if (!description.properties.some(property => property.name === key)) {
+          warnings.push({
+            type: 'parameter',
+            message: `Unknown parameter '${key}' for ${node.type} v${node.typeVersion}`,
+            nodeId: node.id,
+            field: key,
+            suggestion: 'Remove it or check the node version'
+          });
+        }
+      }
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Validate the values of one level of parameters. Properties can share a name and differ in
+   * display options (e.g. `operation` per `resource`); the first one shown is used. n8n drops
+   * hidden parameters, so the properties after one see its default instead of its value.
+   */
+  private validateProperties(
+    properties: INodeProperties[],
+    values: Record<string, any>,
+    basePath: string,
+    context: ValidationContext,
+    checkMissing: boolean
+  ): void {
+    const effective = { ...values };
+    if (!basePath) context.root = effective;
+
+    for (const name of new Set(properties.map(property => property.name))) {
+      const candidates = properties.filter(property => property.name === name);
+      const shown = candidates.find(property => this.isDisplayed(property, effective, properties, context));
+      const path = joinPath(basePath, name);
+
+      if (!shown) {
+        delete effective[name];
+        if (name in values && !candidates.some(property => isEqual(property.default, values[name]))) {
+          context.warnings.push({
+            type: 'parameter',
+            message: `Parameter '${candidates[0].displayName}' is set but not used with the current settings`,
+            nodeId: context.node.id,
+            field: path,
+            suggestion: 'Remove it, or change the parameters that decide whether it is shown'
+          });
+        }
+        continue;
+      }
+
+      if (!(name in values)) {
+        if (checkMissing && shown.required && isEmpty(shown.default)) {
+          this.error(context, `Required parameter '${shown.displayName}' is not set`, path);
+        }
+        continue;
+      }
+
+      this.validateValue(shown, values[name], path, context);
+    }
+  }
+
+  private validateValue(property: INodeProperties, value: any, path: string, context: ValidationContext): void {
+    if (property.required && isEmpty(value)) {
+      this.error(context, `Required parameter '${property.displayName}' is not set`, path);
+      return;
+    }
+    if (isExpression(value) || value === null || value === undefined) return;
+
+    const expectedType = VALUE_TYPES[property.type];
+    if (expectedType) {
+      if (allowsMultipleValues(property) && Array.isArray(value)) {
+        value.forEach((entry, index) => this.validateScalar(property, expectedType, entry, joinPath(path, String(index)), context));
+      } else {
+        this.validateScalar(property, expectedType, value, path, context);
+      }
+      return;
+    }
+
+    switch (property.type) {
+      case 'options':
+        this.validateOption(property, value, path, context);
+        break;
+      case 'multiOptions':
+        if (!Array.isArray(value)) {
+          this.error(context, `Parameter '${property.displayName}' should be a list, got ${describeType(value)}`, path);
+          break;
+        }
+        value.forEach((entry, index) => this.validateOption(property, entry, joinPath(path, String(index)), context));
+        break;
+      case 'collection':
+        this.forEachEntry(property, value, path, context, (entry, entryPath) => {
+          const options = (property.options || []) as INodeProperties[];
+          this.reportUnknownKeys(entry, options.map(option => option.name), property, entryPath, context);
+          // Collection options are added one at a time, so unset ones are never missing
+          this.validateProperties(options, entry, entryPath, context, false);
+        });
+        break;
+      case 'fixedCollection': {
+        if (!isObject(value)) {
+          this.error(context, `Parameter '${property.displayName}' should be an object, got ${describeType(value)}`, path);
+          break;
+        }
+        const groups = (property.options || []) as INodePropertyCollection[];
+        this.reportUnknownKeys(value, groups.map(group => group.name), property, path, context);
+
+        for (const group of groups) {
+          if (!(group.name in value)) continue;
+          this.forEachEntry(property, value[group.name], joinPath(path, group.name), context, (entry, entryPath) => {
+            this.reportUnknownKeys(entry, group.values.map(option => option.name), property, entryPath, context);
+            this.validateProperties(group.values, entry, entryPath, context, true);
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  private validateScalar(property: INodeProperties, expectedType: string, value: any, path: string, context: ValidationContext): void {
+    if (isExpression(value) || value === null || value === undefined) return;
+
+    if (typeof value !== expectedType) {
+      this.error(context, `Parameter '${property.displayName}' should be a ${expectedType}, got ${describeType(value)}`, path);
+    } else if (property.type === 'number') {
+      this.validateRange(property, value, path, context);
+    }
+  }
+
+  private validateOption(property: INodeProperties, value: any, path: string, context: ValidationContext): void {
+    // Options loaded from an API at edit time can't be checked offline
+    if (property.typeOptions?.loadOptionsMethod || isExpression(value)) return;
+
+    const allowed = ((property.options || []) as INodePropertyOptions[]).map(option => option.value);
+    if (allowed.length && !allowed.includes(value)) {
+      this.error(
+        context,
+        `Parameter '${property.displayName}' has unsupported value ${JSON.stringify(value)}; expected one of ${allowed.map(option => JSON.stringify(option)).join(', ')}`,
+        path
+      );
+    }
+  }
+
+  private validateRange(property: INodeProperties, value: number, path: string, context: ValidationContext): void {
+    const { minValue, maxValue } = property.typeOptions || {};
+    if (typeof minValue === 'number' && value < minValue) {
+      this.error(context, `Parameter '${property.displayName}' must be at least ${minValue}`, path);
+    } else if (typeof maxValue === 'number' && value > maxValue) {
+      this.error(context, `Parameter '${property.displayName}' must be at most ${maxValue}`, path);
+    }
+  }
+
+  /**
+   * Call `validate` for the single object of a collection, or for each entry when it takes multiple values
+   */
+  private forEachEntry(
+    property: INodeProperties,
+    value: any,
+    path: string,
+    context: ValidationContext,
+    validate: (entry: Record<string, any>, entryPath: string) => void
+  ): void {
+    const multiple = allowsMultipleValues(property);
+    const entries: Array<[any, string]> = multiple && Array.isArray(value)
+      ? value.map((entry, index) => [entry, joinPath(path, String(index))])
+      : [[value, path]];
+
+    for (const [entry, entryPath] of entries) {
+      if (isObject(entry)) {
+        validate(entry, entryPath);
+      } else {
+        this.error(context, `Parameter '${property.displayName}' should be ${multiple ? 'a list of objects' : 'an object'}, got ${describeType(entry)}`, entryPath);
+      }
+    }
+  }
+
+  private reportUnknownKeys(value: Record<string, any>, known: string[], property: INodeProperties, path: string, context: ValidationContext): void {
+    for (const key of Object.keys(value)) {
+      if (!known.includes(key)) {
+        context.warnings.push({
+          type: 'parameter',
+          message: `Unknown option '${key}' in '${property.displayName}'`,
+          nodeId: context.node.id,
+          field: joinPath(path, key),
+          suggestion: known.length ? `Available options: ${known.join(', ')}` : undefined
+        });
+      }
+    }
+  }
+
+  /**
+   * Whether `displayOptions` show the property for the current values. Keys name a sibling
+   * parameter, a top-level one when they start with `/`, or the node version as `@version`.
+   * Unset parameters count with their default.
+   */
+  private isDisplayed(property: INodeProperties, values: Record<string, any>, siblings: INodeProperties[], context: ValidationContext): boolean {
+    const { show, hide } = property.displayOptions || {};
+    const resolve = (key: string): any => {
+      if (key === '@version') return context.node.typeVersion;
+      if (key.startsWith('/')) return valueOrDefault(context.root, context.rootProperties, key.slice(1));
+      return valueOrDefault(values, siblings, key);
+    };
+    // Condition objects (`_cnd`) need n8n's evaluator; `assumed` is their result, chosen so that
+    // they neither hide a parameter under `show` nor under `hide`
+    const matches = (expected: DisplayCondition, actual: any, assumed: boolean) => expected.some(candidate =>
+      typeof candidate === 'object' ? assumed : Array.isArray(actual) ? actual.includes(candidate) : candidate === actual);
+
+    if (show && !Object.entries(show).every(([key, expected]) => matches(expected, resolve(key), true))) return false;
+    if (hide && Object.entries(hide).some(([key, expected]) => matches(expected, resolve(key), false))) return false;
+    return true;
+  }
+
+  private error(context: ValidationContext, message: string, field: string): void {
+    context.errors.push({ type: 'parameter', message, nodeId: context.node.id, field, severity: 'error' });
+  }
+}
+
+function valueOrDefault(values: Record<string, any>, properties: INodeProperties[], name: string): any {
+  return name in values ? values[name] : properties.find(property => property.name === name)?.default;
+}
+
+function allowsMultipleValues(property: INodeProperties): boolean {
+  return Boolean(property.typeOptions?.multipleValues ?? property.multipleValues);
+}
+
+function joinPath(basePath: string, key: string): string {
+  return basePath ? `${basePath}.${key}` : key;
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isEmpty(value: any): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function isEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function describeType(value: any): string {
+  if (Array.isArray(value)) return 'a list';
+  if (value === null) return 'null';
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+}
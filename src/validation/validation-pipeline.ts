@@ -0,0 +1,278 @@
+/**
+ * Validation pipeline
+ *
+ * Runs every workflow validator, gives each finding a stable rule ID, merges findings that
+ * several validators report for the same problem, applies suppressions and returns one report.
+ */
+
+import { N8nWorkflow, N8nNode, ValidationResult, WorkflowValidationMeta } from '../types/n8n-workflow.js';
+import { WorkflowValidator } from '../validators/workflow-validator.js';
+import { N8nWorkflowSchemaValidator } from '../validators/n8n-workflow-schema.js';
+import { ConnectionValidator } from './connection-validator.js';
+import { NodeCompatibilityValidator } from './node-compatibility-validator.js';
+import { PerformanceValidator } from './performance-validator.js';
+import { ErrorHandlingValidator } from './error-handling-validator.js';
+import { DataFlowValidator } from './data-flow-validator.js';
+import { NodeParameterValidator } from './node-parameter-validator.js';
+import { getDefaultNodeTypeCatalog } from '../importers/node-type-catalog.js';
+import { findNodeByKey } from '../utils/connection-graph.js';
+import { FindingSeverity, RawFinding, VALIDATION_RULES, classifyFinding, matchesRule } from './validation-rules.js';
+
+/**
+ * One validator, adapted to report raw findings
+ */
+export interface ValidationSource {
+  name: string;
+  run(workflow: N8nWorkflow): RawFinding[] | Promise<RawFinding[]>;
+}
+
+export interface ValidationFinding {
+  ruleId: string;
+  severity: FindingSeverity;
+  message: string;
+  /** Name of the node the finding is about */
+  node?: string;
+  field?: string;
+  suggestion?: string;
+  /** Validators that reported it; more than one when overlapping findings were merged */
+  sources: string[];
+}
+
+export interface SuppressedFinding extends ValidationFinding {
+  /** Whether the suppression was scoped to the finding's node or covered the whole workflow */
+  suppressedBy: 'node' | 'workflow';
+}
+
+export interface ValidationReport {
+  workflowName: string;
+  /** True when no error is left after suppressions */
+  valid: boolean;
+  findings: ValidationFinding[];
+  suppressed: SuppressedFinding[];
+  summary: {
+    errors: number;
+    warnings: number;
+    info: number;
+    suppressed: number;
+    /** Findings dropped because another validator reported the same problem */
+    duplicates: number;
+  };
+}
+
+export interface ValidationPipelineOptions {
+  /** Validators to run (default: `createDefaultValidationSources()`) */
+  sources?: ValidationSource[];
+  /** Severity per rule pattern (`*`, `performance/*` or a rule ID); `off` drops the rule */
+  severities?: Record<string, FindingSeverity | 'off'>;
+  /** Node type descriptions for the default sources to check parameters against (default: the node type catalog) */
+  parameterValidator?: NodeParameterValidator;
+}
+
+const SEVERITY_ORDER: Record<FindingSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+// `validation-disable` alone suppresses every rule for the node; rule patterns may follow,
+// separated by commas or spaces, and anything after ` -- ` is a free-form reason
+const NOTES_DIRECTIVE = /^\s*validation-disable\b:?(.*)$/gm;
+
+/**
+ * Every validator in the repository. `SimplifiedValidationErrorIntegrator` is not listed: it
+ * only combines the connection and node compatibility validators, which run here directly.
+ * Parameters are checked against the default node type catalog unless a validator is given.
+ */
+export function createDefaultValidationSources(parameterValidator = catalogParameterValidator()): ValidationSource[] {
+  return [
+    { name: 'workflow', run: async workflow => fromValidationResult(await new WorkflowValidator(parameterValidator).validate(workflow)) },
+    {
+      name: 'schema',
+      run: workflow => {
+        const result = N8nWorkflowSchemaValidator.validateWorkflow(workflow);
+        return [...result.errors, ...result.warnings].map(finding => ({
+          message: finding.message,
+          severity: finding.severity,
+          nodeId: finding.nodeId || connectionSourceOf(workflow, finding.field),
+          code: finding.code
+        }));
+      }
+    },
+    { name: 'connections', run: workflow => fromValidationResult(new ConnectionValidator().validateWorkflowConnections(workflow)) },
+    { name: 'node-compatibility', run: workflow => fromValidationResult(new NodeCompatibilityValidator(undefined, undefined, parameterValidator).validateWorkflowNodeCompatibility(workflow)) },
+    { name: 'performance', run: workflow => fromValidationResult(new PerformanceValidator().validateWorkflowPerformance(workflow)) },
+    { name: 'error-handling', run: workflow => fromValidationResult(new ErrorHandlingValidator().validateErrorHandling(workflow)) },
+    { name: 'data-flow', run: workflow => fromValidationResult(new DataFlowValidator().validateDataFlow(workflow)) }
+  ];
+}
+
+export class ValidationPipeline {
+  private readonly sources: ValidationSource[];
+  private readonly severities: Record<string, FindingSeverity | 'off'>;
+
+  constructor(options: ValidationPipelineOptions = {}) {
+    this.sources = options.sources || createDefaultValidationSources(options.parameterValidator);
+    this.severities = options.severities || {};
+  }
+
+  async validate(workflow: N8nWorkflow): Promise<ValidationReport> {
+    const merged = new Map<string, ValidationFinding>();
+    let duplicates = 0;
+
+    for (const source of this.sources) {
+      let raw: RawFinding[];
+      try {
+        raw = await source.run(workflow);
+      } catch (error) {
+        raw = [{ message: `Validator '${source.name}' failed: ${error.message}`, severity: 'error', code: 'VALIDATOR_FAILED' }];
+      }
+
+      for (const finding of raw) {
+        const classified = finding.code === 'VALIDATOR_FAILED'
+          ? { ruleId: 'internal/validator-failed', subject: source.name }
+          : classifyFinding(source.name, finding);
+        const severity = this.resolveSeverity(classified.ruleId, finding.severity);
+        if (!severity) continue;
+
+        const node = resolveNode(workflow, classified.node || finding.nodeId);
+        const field = classified.field || (source.name === 'schema' ? undefined : finding.field);
+        const key = [classified.ruleId, node?.name ?? '', classified.subject ?? field ?? ''].join('|');
+
+        const existing = merged.get(key);
+        if (existing) {
+          duplicates++;
+          if (!existing.sources.includes(source.name)) existing.sources.push(source.name);
+          if (SEVERITY_ORDER[severity] < SEVERITY_ORDER[existing.severity]) {
+            existing.severity = severity;
+            existing.message = finding.message;
+          }
+          existing.suggestion = existing.suggestion || finding.suggestion;
+          continue;
+        }
+
+        merged.set(key, {
+          ruleId: classified.ruleId,
+          severity,
+          message: finding.message,
+          ...(node && { node: node.name }),
+          ...(field && { field }),
+          ...(finding.suggestion && { suggestion: finding.suggestion }),
+          sources: [source.name]
+        });
+      }
+    }
+
+    const findings: ValidationFinding[] = [];
+    const suppressed: SuppressedFinding[] = [];
+    const suppressions = collectSuppressions(workflow);
+
+    for (const finding of sortFindings(workflow, [...merged.values()])) {
+      const suppressedBy = suppressions.match(finding);
+      if (suppressedBy) {
+        suppressed.push({ ...finding, suppressedBy });
+      } else {
+        findings.push(finding);
+      }
+    }
+
+    const count = (severity: FindingSeverity) => findings.filter(finding => finding.severity === severity).length;
+    return {
+      workflowName: workflow.name,
+      valid: count('error') === 0,
+      findings,
+      suppressed,
+      summary: {
+        errors: count('error'),
+        warnings: count('warning'),
+        info: count('info'),
+        suppressed: suppressed.length,
+        duplicates
+      }
+    };
+  }
+
+  /**
+   * Severity after overrides: an exact rule ID wins over a category, which wins over `*`
+   */
+  private resolveSeverity(ruleId: string, reported: FindingSeverity): FindingSeverity | null {
+    const override = Object.keys(this.severities)
+      .filter(pattern => matchesRule(pattern, ruleId))
+      .sort((a, b) => specificity(b) - specificity(a))[0];
+    const severity = override ? this.severities[override] : VALIDATION_RULES[ruleId]?.severity || reported;
+    return severity === 'off' ? null : severity;
+  }
+}
+
+function catalogParameterValidator(): NodeParameterValidator | undefined {
+  const catalog = getDefaultNodeTypeCatalog();
+  return catalog.size ? new NodeParameterValidator(catalog.getDescriptions()) : undefined;
+}
+
+function fromValidationResult(result: ValidationResult): RawFinding[] {
+  return [
+    ...result.errors.map(error => ({
+      message: error.message,
+      severity: error.severity === 'warning' ? 'warning' as const : 'error' as const,
+      nodeId: error.nodeId,
+      field: error.field
+    })),
+    ...result.warnings.map(warning => ({
+      message: warning.message,
+      severity: 'warning' as const,
+      nodeId: warning.nodeId,
+      field: warning.field,
+      suggestion: warning.suggestion
+    }))
+  ];
+}
+
+/**
+ * Source node key from a schema field path such as `connections.HTTP Request.main[0][0].node`
+ */
+function connectionSourceOf(workflow: N8nWorkflow, field: string): string | undefined {
+  if (!field.startsWith('connections.')) return undefined;
+  const path = field.slice('connections.'.length);
+  return Object.keys(workflow.connections || {})
+    .filter(key => path === key || path.startsWith(`${key}.`))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+function resolveNode(workflow: N8nWorkflow, key?: string): N8nNode | undefined {
+  return key && Array.isArray(workflow.nodes) ? findNodeByKey(workflow, key) : undefined;
+}
+
+function specificity(pattern: string): number {
+  if (pattern.trim() === '*') return 0;
+  return pattern.trim().endsWith('/*') ? 1 : 2;
+}
+
+function sortFindings(workflow: N8nWorkflow, findings: ValidationFinding[]): ValidationFinding[] {
+  const order = new Map((Array.isArray(workflow.nodes) ? workflow.nodes : []).map((node, index) => [node.name, index]));
+  return findings.sort((a, b) =>
+    SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+    (a.node ? order.get(a.node) ?? 0 : -1) - (b.node ? order.get(b.node) ?? 0 : -1) ||
+    a.ruleId.localeCompare(b.ruleId)
+  );
+}
+
+/**
+ * Rule patterns suppressed by `validation-disable` lines in node notes and by `meta.validation`
+ */
+function collectSuppressions(workflow: N8nWorkflow): { match(finding: ValidationFinding): SuppressedFinding['suppressedBy'] | null } {
+  const meta: WorkflowValidationMeta = workflow.meta?.validation || {};
+  const workflowPatterns = meta.disable || [];
+  const nodePatterns = new Map<string, string[]>(Object.entries(meta.nodes || {}));
+
+  for (const node of Array.isArray(workflow.nodes) ? workflow.nodes : []) {
+    if (typeof node.notes !== 'string') continue;
+    for (const [, rest] of node.notes.matchAll(NOTES_DIRECTIVE)) {
+      const rules = rest.split(' -- ')[0].split(/[\s,]+/).filter(Boolean);
+      nodePatterns.set(node.name, [...(nodePatterns.get(node.name) || []), ...(rules.length ? rules : ['*'])]);
+    }
+  }
+
+  return {
+    match(finding) {
+      if (finding.node && (nodePatterns.get(finding.node) || []).some(pattern => matchesRule(pattern, finding.ruleId))) {
+        return 'node';
+      }
+      return workflowPatterns.some(pattern => matchesRule(pattern, finding.ruleId)) ? 'workflow' : null;
+    }
+  };
+}
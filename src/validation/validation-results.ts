@@ -0,0 +1,50 @@
+/**
+ * Helpers for combining the results of several validators into one error and warning list
+ */
+
+import { ValidationError, ValidationWarning } from '../types/n8n-workflow.js';
+import { WorkflowValidationResult } from '../validators/n8n-workflow-schema.js';
+
+export interface CombinedValidation {
+  errors: ValidationError[];
+  warnings: ValidationWarning[];
+}
+
+/**
+ * Identity of a finding across validation runs: validators that report the same problem
+ * produce the same key, and so does one validator on an unchanged workflow
+ */
+export function validationFindingKey(finding: ValidationError | ValidationWarning): string {
+  return `${finding.type}|${finding.nodeId ?? ''}|${finding.message}`;
+}
+
+export function dedupeValidationFindings<T extends ValidationError | ValidationWarning>(items: T[]): T[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = validationFindingKey(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Merge validator results, reporting schema errors as structure errors and dropping duplicates
+ */
+export function combineValidationResults(
+  schemaValidation: WorkflowValidationResult | null,
+  ...results: CombinedValidation[]
+): CombinedValidation {
+  const schemaErrors: ValidationError[] = (schemaValidation?.errors || []).map(error => ({
+    type: 'structure',
+    message: error.message,
+    nodeId: error.nodeId,
+    field: error.field,
+    severity: 'error'
+  }));
+
+  return {
+    errors: dedupeValidationFindings([...(results[0]?.errors || []), ...schemaErrors, ...results.slice(1).flatMap(result => result.errors)]),
+    warnings: dedupeValidationFindings(results.flatMap(result => result.warnings))
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * Stable rule IDs for validator findings
+ *
+ * The validators report free-form messages; these tables give every message a rule ID that
+ * suppressions, severity overrides and reports can refer to. Rule IDs are `category/name` and
+ * never change meaning once published.
+ */
+
+export type FindingSeverity = 'error' | 'warning' | 'info';
+
+export interface ValidationRule {
+  description: string;
+  /** Severity used instead of the one the validator reported */
+  severity?: FindingSeverity;
+}
+
+/**
+ * A validator finding before it is classified
+ */
+export interface RawFinding {
+  message: string;
+  severity: 'error' | 'warning';
+  /** Node ID or name the validator reported */
+  nodeId?: string;
+  field?: string;
+  /** Machine-readable code, for validators that have them */
+  code?: string;
+  suggestion?: string;
+}
+
+/**
+ * Maps findings of a source to a rule. Named groups in `pattern` fill in what the message
+ * mentions: `node` (ID or name), `subject` (what else tells two findings of the rule apart)
+ * and `field`.
+ */
+interface RuleMatcher {
+  ruleId: string;
+  sources: string[];
+  code?: string;
+  pattern?: RegExp;
+}
+
+export interface ClassifiedFinding {
+  ruleId: string;
+  node?: string;
+  subject?: string;
+  field?: string;
+}
+
+export const VALIDATION_RULES: Record<string, ValidationRule> = {
+  'structure/invalid-json': { description: 'The workflow file is not valid JSON' },
+  'structure/invalid-field': { description: 'A required workflow field is missing or has the wrong type' },
+  'structure/name-too-long': { description: 'The workflow name is longer than n8n allows' },
+  'structure/invalid-id-format': { description: 'The workflow ID contains characters n8n does not accept' },
+  'structure/no-nodes': { description: 'The workflow has no nodes' },
+  'node/missing-field': { description: 'A node is missing a required field' },
+  'node/duplicate-name': { description: 'Two nodes share a name, so connections and expressions are ambiguous' },
+  'node/duplicate-id': { description: 'Two nodes share an ID' },
+  'node/invalid-id-characters': { description: 'A node ID contains characters n8n does not accept' },
+  'node/non-uuid-id': { description: 'A node ID is not a UUID' },
+  'node/invalid-position': { description: 'A node position is not a pair of numbers' },
+  'node/position-out-of-bounds': { description: 'A node is placed outside the editor canvas' },
+  'node/invalid-type-version': { description: 'A node typeVersion is not a positive number' },
+  'node/invalid-parameters': { description: 'Node parameters are not an object' },
+  'node/invalid-type-format': { description: 'A node type does not follow the "package.nodeName" format' },
+  'node/unknown-type': { description: 'A node type is not recognized' },
+  'node/outdated-version': { description: 'A node typeVersion is older than the minimum supported version' },
+  'node/unsupported-version': { description: 'A node typeVersion is newer than the latest known version' },
+  'node/deprecated': { description: 'A node type is deprecated' },
+  'node/too-many-inputs': { description: 'A node has more input connections than its type accepts' },
+  'node/too-many-outputs': { description: 'A node has more output connections than its type accepts' },
+  'node/invalid-retry': { description: 'A node retry setting is out of range' },
+  'node/invalid-on-error': { description: 'A node onError setting is not one n8n knows' },
+  'parameter/missing-required': { description: 'A node is missing a required parameter' },
+  'parameter/invalid-value': { description: 'A node parameter has a value the node does not accept' },
+  'parameter/invalid-type': { description: 'A node parameter has a value of the wrong type' },
+  'parameter/unknown': { description: 'A node has a parameter its type does not define' },
+  'parameter/not-displayed': { description: 'A node parameter is set but hidden by the values of other parameters' },
+  'best-practice/start-node-parameters': { description: 'The Start node has parameters it does not use' },
+  'connection/unknown-source': { description: 'A connection starts at a node that does not exist' },
+  'connection/unknown-target': { description: 'A connection points at a node that does not exist' },
+  'connection/uses-node-name': { description: 'A connection refers to a node by name rather than ID', severity: 'info' },
+  'connection/unusual-type': { description: 'A connection uses a connection type n8n rarely uses' },
+  'connection/invalid-structure': { description: 'A connection entry is malformed' },
+  'connection/duplicate': { description: 'The same connection is defined more than once' },
+  'connection/too-many-groups': { description: 'A node has so many output groups that the workflow may slow down' },
+  'connection/incompatible': { description: 'A connection joins node types that cannot exchange data' },
+  'expression/syntax': { description: 'An expression does not parse' },
+  'expression/unknown-node': { description: 'An expression references a node that does not exist' },
+  'expression/not-upstream': { description: 'An expression references a node that does not run before it' },
+  'graph/isolated-node': { description: 'A node has no connections' },
+  'graph/unreachable-node': { description: 'A node cannot be reached from any entry point' },
+  'graph/no-trigger': { description: 'The workflow has no entry point' },
+  'graph/cycle': { description: 'Connections form a loop' },
+  'settings/missing': { description: 'The workflow has no settings' },
+  'settings/invalid-value': { description: 'A workflow setting has an invalid value' },
+  'performance/bottleneck-risk': { description: 'A node is likely to hold up the rest of the workflow' },
+  'performance/high-complexity': { description: 'A node is more complex than the configured limit' },
+  'performance/execution-time': { description: 'Estimated execution time exceeds the configured limit' },
+  'performance/memory-usage': { description: 'Estimated memory usage exceeds the configured limit' },
+  'performance/low-scalability': { description: 'The workflow is unlikely to scale with larger inputs' },
+  'error-handling/missing-retry': { description: 'A node that calls the network does not retry on failure' },
+  'error-handling/low-resilience': { description: 'A node has little protection against failures' },
+  'error-handling/low-coverage': { description: 'Few nodes in the workflow handle errors' },
+  'error-handling/cascading-failure-risk': { description: 'One failing node is likely to fail the nodes after it' },
+  'internal/validator-failed': { description: 'A validator threw while checking the workflow', severity: 'warning' }
+};
+
+const WORKFLOW = ['workflow'];
+const SCHEMA = ['schema'];
+const CONNECTIONS = ['connections'];
+const COMPATIBILITY = ['node-compatibility', 'connections'];
+// Both validators report NodeParameterValidator findings
+const PARAMETERS = ['workflow', 'node-compatibility'];
+
+const RULE_MATCHERS: RuleMatcher[] = [
+  // NodeParameterValidator
+  { ruleId: 'parameter/missing-required', sources: PARAMETERS, pattern: /^Required parameter '.+' is not set$/ },
+  { ruleId: 'parameter/invalid-value', sources: PARAMETERS, pattern: /^Parameter '.+' (?:has unsupported value|must be at (?:least|most)) / },
+  { ruleId: 'parameter/invalid-type', sources: PARAMETERS, pattern: /^Parameter '.+' should be / },
+  { ruleId: 'parameter/not-displayed', sources: PARAMETERS, pattern: /^Parameter '.+' is set but not used / },
+  { ruleId: 'parameter/unknown', sources: PARAMETERS, pattern: /^Unknown (?:parameter|option) '.+'/ },
+
+  // WorkflowValidator
+  { ruleId: 'structure/invalid-field', sources: WORKFLOW, pattern: /^Workflow must have a (?:valid )?(?<subject>name|ID|nodes|connections)\b/ },
+  { ruleId: 'structure/invalid-field', sources: WORKFLOW, pattern: /^Workflow (?<subject>active) status must be a boolean/ },
+  { ruleId: 'node/duplicate-name', sources: WORKFLOW, pattern: /^Duplicate node name: (?<subject>.+)$/ },
+  { ruleId: 'node/duplicate-id', sources: WORKFLOW, pattern: /^Duplicate node ID: (?<subject>.+)$/ },
+  { ruleId: 'node/missing-field', sources: WORKFLOW, pattern: /^Node must have a valid (?<subject>name|type|ID)$/ },
+  { ruleId: 'node/non-uuid-id', sources: WORKFLOW, pattern: /^Node ID should be a valid UUID/ },
+  { ruleId: 'node/invalid-position', sources: WORKFLOW, pattern: /^Node position / },
+  { ruleId: 'node/invalid-type-version', sources: WORKFLOW, pattern: /^Node typeVersion / },
+  { ruleId: 'node/invalid-parameters', sources: WORKFLOW, pattern: /^Node parameters must be an object/ },
+  { ruleId: 'node/invalid-type-format', sources: WORKFLOW, pattern: /^Node type should follow the format/ },
+  { ruleId: 'parameter/missing-required', sources: WORKFLOW, pattern: / node must have /i },
+  { ruleId: 'parameter/invalid-value', sources: WORKFLOW, pattern: /^Invalid (?:HTTP method|code execution mode)/ },
+  { ruleId: 'best-practice/start-node-parameters', sources: WORKFLOW, pattern: /^Start node typically should not have parameters/ },
+  { ruleId: 'connection/unknown-source', sources: WORKFLOW, pattern: /^Connection source node does not exist: (?<subject>.+)$/ },
+  { ruleId: 'connection/unknown-target', sources: WORKFLOW, pattern: /^Connection target node does not exist: (?<subject>.+)$/ },
+  { ruleId: 'expression/syntax', sources: WORKFLOW, pattern: /^Invalid expression: / },
+  { ruleId: 'expression/unknown-node', sources: WORKFLOW, pattern: /^Expression references node "(?<subject>.+)" which does not exist/ },
+  { ruleId: 'expression/not-upstream', sources: WORKFLOW, pattern: /^Expression references node "(?<subject>.+)" which is not upstream/ },
+  { ruleId: 'graph/isolated-node', sources: WORKFLOW, pattern: /^Node is not connected to any other nodes/ },
+  { ruleId: 'settings/missing', sources: WORKFLOW, pattern: /^Workflow should have settings defined/ },
+  { ruleId: 'settings/invalid-value', sources: WORKFLOW, pattern: /^(?:Invalid execution order setting|Execution timeout must be)/ },
+
+  // N8nWorkflowSchemaValidator
+  { ruleId: 'structure/invalid-field', sources: SCHEMA, code: 'REQUIRED_FIELD_MISSING', pattern: /'(?<subject>[^']+)'/ },
+  { ruleId: 'structure/invalid-field', sources: SCHEMA, code: 'INVALID_NODES_TYPE', pattern: /(?<subject>nodes)/i },
+  { ruleId: 'structure/name-too-long', sources: SCHEMA, code: 'NAME_TOO_LONG' },
+  { ruleId: 'structure/invalid-id-format', sources: SCHEMA, code: 'INVALID_ID_PATTERN' },
+  { ruleId: 'structure/no-nodes', sources: SCHEMA, code: 'NO_NODES' },
+  { ruleId: 'node/missing-field', sources: SCHEMA, code: 'REQUIRED_NODE_FIELD_MISSING', pattern: /'(?<subject>[^']+)'/ },
+  { ruleId: 'node/duplicate-id', sources: SCHEMA, code: 'DUPLICATE_NODE_ID', pattern: /: (?<subject>.+)$/ },
+  { ruleId: 'node/invalid-id-characters', sources: SCHEMA, code: 'INVALID_NODE_ID_PATTERN' },
+  { ruleId: 'node/invalid-type-format', sources: SCHEMA, code: 'INVALID_NODE_TYPE_FORMAT' },
+  { ruleId: 'node/position-out-of-bounds', sources: SCHEMA, code: 'POSITION_OUT_OF_BOUNDS' },
+  { ruleId: 'node/invalid-retry', sources: SCHEMA, code: 'INVALID_MAX_TRIES' },
+  { ruleId: 'node/invalid-on-error', sources: SCHEMA, code: 'INVALID_ERROR_HANDLING' },
+  { ruleId: 'connection/unknown-source', sources: SCHEMA, code: 'INVALID_SOURCE_NODE', pattern: /source node: (?<subject>.+)$/ },
+  { ruleId: 'connection/unknown-target', sources: SCHEMA, code: 'INVALID_TARGET_NODE', pattern: /target node: (?<subject>.+)$/ },
+  { ruleId: 'connection/uses-node-name', sources: SCHEMA, code: 'CONNECTION_USES_NAME' },
+  { ruleId: 'connection/uses-node-name', sources: SCHEMA, code: 'TARGET_USES_NAME' },
+  { ruleId: 'connection/unusual-type', sources: SCHEMA, code: 'UNUSUAL_CONNECTION_TYPE', pattern: /: (?<subject>.+)$/ },
+  { ruleId: 'connection/invalid-structure', sources: SCHEMA, code: 'INVALID_CONNECTION_GROUP' },
+  { ruleId: 'connection/invalid-structure', sources: SCHEMA, code: 'INVALID_CONNECTION_INDEX' },
+  { ruleId: 'connection/invalid-structure', sources: SCHEMA, code: 'INVALID_CONNECTION_TYPE' },
+  { ruleId: 'connection/too-many-groups', sources: SCHEMA, code: 'TOO_MANY_CONNECTIONS' },
+
+  // ConnectionValidator, which also reports NodeCompatibilityValidator's connection limits
+  { ruleId: 'internal/validator-failed', sources: CONNECTIONS, pattern: /^Validation rule '(?<subject>[^']+)' failed/ },
+  { ruleId: 'connection/unknown-source', sources: CONNECTIONS, pattern: /non-existent source node: (?<subject>.+)$/ },
+  { ruleId: 'connection/unknown-target', sources: CONNECTIONS, pattern: /non-existent target node: (?<subject>.+)$/ },
+  { ruleId: 'connection/duplicate', sources: CONNECTIONS, pattern: /^Duplicate connection detected: (?<subject>.+) \(\d+ instances\)$/ },
+  { ruleId: 'connection/incompatible', sources: CONNECTIONS, pattern: /^Incompatible connection from .+ to .+ \((?<subject>[^)]+)\):/ },
+  { ruleId: 'graph/unreachable-node', sources: CONNECTIONS, pattern: /^Node .+ is unreachable from entry points/ },
+  { ruleId: 'graph/isolated-node', sources: CONNECTIONS, pattern: /^Node .+ is (?:isolated|orphaned)/ },
+  { ruleId: 'graph/no-trigger', sources: CONNECTIONS, pattern: /^Workflow has no entry points/ },
+  { ruleId: 'graph/cycle', sources: CONNECTIONS, pattern: /^Circular dependency detected: (?<subject>.+)$/ },
+
+  // NodeCompatibilityValidator
+  { ruleId: 'node/unknown-type', sources: COMPATIBILITY, pattern: /^Node .+ has an invalid type$/ },
+  { ruleId: 'node/unknown-type', sources: COMPATIBILITY, pattern: /^Node type '.+' is not supported or recognized/ },
+  { ruleId: 'node/outdated-version', sources: COMPATIBILITY, pattern: /^Node type '.+' version .+ is outdated/ },
+  { ruleId: 'node/unsupported-version', sources: COMPATIBILITY, pattern: /^Node type '.+' version .+ is newer than supported/ },
+  { ruleId: 'node/deprecated', sources: COMPATIBILITY, pattern: /^Node type '.+' is deprecated/ },
+  { ruleId: 'parameter/missing-required', sources: COMPATIBILITY, pattern: /is missing required parameter: (?<field>.+)$/ },
+  { ruleId: 'node/too-many-inputs', sources: COMPATIBILITY, pattern: /has too many input connections/ },
+  { ruleId: 'node/too-many-outputs', sources: COMPATIBILITY, pattern: /has too many output connections/ },
+
+  // PerformanceValidator
+  { ruleId: 'performance/bottleneck-risk', sources: ['performance'], pattern: /^High bottleneck risk/ },
+  { ruleId: 'performance/high-complexity', sources: ['performance'], pattern: /^High complexity/ },
+  { ruleId: 'performance/execution-time', sources: ['performance'], pattern: /^Estimated execution time/ },
+  { ruleId: 'performance/memory-usage', sources: ['performance'], pattern: /^Estimated memory usage/ },
+  { ruleId: 'performance/low-scalability', sources: ['performance'], pattern: /^Low scalability score/ },
+
+  // ErrorHandlingValidator
+  { ruleId: 'error-handling/missing-retry', sources: ['error-handling'], pattern: /lacks retry logic/ },
+  { ruleId: 'error-handling/low-resilience', sources: ['error-handling'], pattern: /has low error resilience/ },
+  { ruleId: 'error-handling/low-coverage', sources: ['error-handling'], pattern: /^Low error handling coverage/ },
+  { ruleId: 'error-handling/cascading-failure-risk', sources: ['error-handling'], pattern: /^High cascading failure risk/ },
+
+  // DataFlowValidator
+  { ruleId: 'graph/unreachable-node', sources: ['data-flow'], pattern: /^Unreachable node detected/ },
+  { ruleId: 'graph/isolated-node', sources: ['data-flow'], pattern: /^Isolated node detected/ }
+];
+
+/**
+ * Rule a finding belongs to. Findings no matcher knows get `<source>/unclassified`, so new
+ * validator messages still show up, just without a stable ID.
+ */
+export function classifyFinding(source: string, finding: RawFinding): ClassifiedFinding {
+  for (const matcher of RULE_MATCHERS) {
+    if (!matcher.sources.includes(source)) continue;
+    if (matcher.code && matcher.code !== finding.code) continue;
+
+    const match = matcher.pattern ? matcher.pattern.exec(finding.message) : null;
+    if (matcher.pattern && !match) continue;
+
+    const groups = match?.groups || {};
+    return {
+      ruleId: matcher.ruleId,
+      ...(groups.node && { node: groups.node }),
+      ...(groups.subject && { subject: groups.subject.toLowerCase() }),
+      ...(groups.field && { field: groups.field })
+    };
+  }
+
+  return { ruleId: `${source}/unclassified` };
+}
+
+/**
+ * Whether a rule pattern covers a rule ID: `*`, a category such as `performance/*`, or an exact ID
+ */
+export function matchesRule(pattern: string, ruleId: string): boolean {
+  const trimmed = pattern.trim();
+  if (trimmed === '*') return true;
+  if (trimmed.endsWith('/*')) return ruleId.startsWith(trimmed.slice(0, -1));
+  return trimmed === ruleId;
+}
@@ -0,0 +1,383 @@
+/**
+ * Workflow linting
+ *
+ * Runs the validation pipeline over workflow JSON files and locates each finding in the file,
+ * as a JSON pointer and a line and column, for CI reports.
+ */
+
+import { existsSync, statSync, readdirSync } from 'fs';
+import { readFile } from 'fs/promises';
+import * as path from 'path';
+import { N8nWorkflow } from '../types/n8n-workflow.js';
+import { ValidationPipeline, ValidationPipelineOptions, ValidationFinding, ValidationReport, SuppressedFinding } from './validation-pipeline.js';
+import { FindingSeverity } from './validation-rules.js';
+
+export interface FindingLocation {
+  /** JSON pointer to the node, parameter or section the finding is about; empty for the whole workflow */
+  pointer: string;
+  line: number;
+  column: number;
+}
+
+export interface LintFinding extends ValidationFinding {
+  location: FindingLocation;
+  suppressedBy?: SuppressedFinding['suppressedBy'];
+}
+
+export interface WorkflowLintResult {
+  file: string;
+  workflowName: string;
+  findings: LintFinding[];
+  suppressed: LintFinding[];
+  summary: ValidationReport['summary'];
+}
+
+export interface LintRun {
+  results: WorkflowLintResult[];
+  /** JSON files that matched but are not workflows */
+  skipped: string[];
+}
+
+/** Findings at or above this severity fail the run; `none` never fails */
+export type LintThreshold = FindingSeverity | 'none';
+
+const SEVERITY_RANK: Record<FindingSeverity, number> = { info: 0, warning: 1, error: 2 };
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', 'dist']);
+
+export class WorkflowLinter {
+  private readonly pipeline: ValidationPipeline;
+
+  constructor(options: ValidationPipelineOptions = {}) {
+    this.pipeline = new ValidationPipeline(options);
+  }
+
+  /**
+   * Lint every workflow among the files matched by `patterns` (files, directories or globs)
+   */
+  async lintFiles(patterns: string[], cwd = process.cwd()): Promise<LintRun> {
+    const run: LintRun = { results: [], skipped: [] };
+
+    for (const file of expandWorkflowPatterns(patterns, cwd)) {
+      const result = await this.lintText(path.relative(cwd, file) || file, await readFile(file, 'utf-8'));
+      if (result) {
+        run.results.push(result);
+      } else {
+        run.skipped.push(path.relative(cwd, file));
+      }
+    }
+
+    return run;
+  }
+
+  /**
+   * Lint one file's content. Returns null for JSON that is not a workflow.
+   */
+  async lintText(file: string, text: string): Promise<WorkflowLintResult | null> {
+    let workflow: N8nWorkflow;
+    try {
+      workflow = JSON.parse(text);
+    } catch (error) {
+      const offset = syntaxErrorOffset(text);
+      const finding: LintFinding = {
+        ruleId: 'structure/invalid-json',
+        severity: 'error',
+        message: `Invalid JSON: ${error.message}`,
+        sources: ['parser'],
+        location: { pointer: '', ...positionAt(text, offset) }
+      };
+      return {
+        file,
+        workflowName: path.basename(file, '.json'),
+        findings: [finding],
+        suppressed: [],
+        summary: { errors: 1, warnings: 0, info: 0, suppressed: 0, duplicates: 0 }
+      };
+    }
+
+    if (!isWorkflowLike(workflow)) return null;
+
+    const report = await this.pipeline.validate(workflow);
+    const offsets = indexJsonPointers(text);
+    const locate = (finding: ValidationFinding): FindingLocation => {
+      const pointer = findingPointer(workflow, finding);
+      return { pointer, ...positionAt(text, resolveOffset(offsets, pointer)) };
+    };
+
+    return {
+      file,
+      workflowName: report.workflowName,
+      findings: report.findings.map(finding => ({ ...finding, location: locate(finding) })),
+      suppressed: report.suppressed.map(finding => ({ ...finding, location: locate(finding) })),
+      summary: report.summary
+    };
+  }
+}
+
+/**
+ * Whether a finding of this severity reaches the threshold
+ */
+export function meetsThreshold(severity: FindingSeverity, threshold: LintThreshold): boolean {
+  return threshold !== 'none' && SEVERITY_RANK[severity] >= SEVERITY_RANK[threshold];
+}
+
+/**
+ * Findings in the run that reach the threshold
+ */
+export function countFailures(results: WorkflowLintResult[], threshold: LintThreshold): number {
+  return results.reduce((total, result) =>
+    total + result.findings.filter(finding => meetsThreshold(finding.severity, threshold)).length, 0);
+}
+
+/**
+ * Absolute paths of the JSON files matched by files, directories (searched recursively) and
+ * globs with `*`, `**` and `?`, sorted and without duplicates
+ */
+export function expandWorkflowPatterns(patterns: string[], cwd = process.cwd()): string[] {
+  const files = new Set<string>();
+
+  for (const pattern of patterns) {
+    if (!/[*?]/.test(pattern)) {
+      const target = path.resolve(cwd, pattern);
+      if (!existsSync(target)) {
+        throw new Error(`No such file or directory: ${pattern}`);
+      }
+      if (statSync(target).isDirectory()) {
+        walk(target).filter(file => file.endsWith('.json')).forEach(file => files.add(file));
+      } else {
+        files.add(target);
+      }
+      continue;
+    }
+
+    // Walk from the deepest directory without wildcards and match the rest of the pattern
+    const segments = pattern.split(/[\\/]/);
+    const firstWildcard = segments.findIndex(segment => /[*?]/.test(segment));
+    const base = path.resolve(cwd, ...segments.slice(0, firstWildcard));
+    const matcher = globToRegExp(segments.slice(firstWildcard).join('/'));
+
+    if (!existsSync(base) || !statSync(base).isDirectory()) continue;
+    for (const file of walk(base)) {
+      if (matcher.test(path.relative(base, file).split(path.sep).join('/'))) files.add(file);
+    }
+  }
+
+  return [...files].sort();
+}
+
+/**
+ * JSON pointer for a finding: the parameter or connections of its node, the node itself, or
+ * the workflow section a workflow-level rule is about
+ */
+export function findingPointer(workflow: N8nWorkflow, finding: ValidationFinding): string {
+  const [category] = finding.ruleId.split('/');
+
+  if (finding.node) {
+    const index = workflow.nodes.findIndex(node => node.name === finding.node);
+    const node = workflow.nodes[index];
+
+    if (category === 'connection' && workflow.connections) {
+      const key = [node.name, node.id].find(candidate => candidate in workflow.connections);
+      if (key) return `/connections/${escapePointer(key)}`;
+    }
+    if (finding.field) {
+      return `/nodes/${index}/parameters/${finding.field.split('.').map(escapePointer).join('/')}`;
+    }
+    return `/nodes/${index}`;
+  }
+
+  if (category === 'settings') return '/settings';
+  if (category === 'connection' || category === 'graph') return '/connections';
+  return '';
+}
+
+function isWorkflowLike(value: any): value is N8nWorkflow {
+  return Boolean(value) && typeof value === 'object' && Array.isArray(value.nodes) && typeof value.connections === 'object';
+}
+
+function walk(directory: string): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(directory, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRECTORIES.has(entry.name)) files.push(...walk(path.join(directory, entry.name)));
+    } else if (entry.isFile()) {
+      files.push(path.join(directory, entry.name));
+    }
+  }
+  return files;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+    if (char === '*' && glob[index + 1] === '*') {
+      // `**/` matches any number of directories, including none
+      source += glob[index + 2] === '/' ? '(?:.*/)?' : '.*';
+      index += glob[index + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function escapePointer(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Start offset of every value in well-formed JSON, by JSON pointer. Object members point at
+ * their key, so a location shows the line that names them.
+ */
+function indexJsonPointers(text: string): Map<string, number> {
+  const offsets = new Map<string, number>();
+  let position = 0;
+
+  const skipWhitespace = () => {
+    while (position < text.length && /\s/.test(text[position])) position++;
+  };
+  const readString = (): string => {
+    const start = position++;
+    while (position < text.length && text[position] !== '"') {
+      position += text[position] === '\\' ? 2 : 1;
+    }
+    position++;
+    return JSON.parse(text.slice(start, position));
+  };
+  const readValue = (pointer: string): void => {
+    skipWhitespace();
+    if (!offsets.has(pointer)) offsets.set(pointer, position);
+    const char = text[position];
+
+    if (char === '{' || char === '[') {
+      const close = char === '{' ? '}' : ']';
+      let index = 0;
+      position++;
+      skipWhitespace();
+      while (position < text.length && text[position] !== close) {
+        if (char === '{') {
+          const keyOffset = position;
+          const key = readString();
+          offsets.set(`${pointer}/${escapePointer(key)}`, keyOffset);
+          skipWhitespace();
+          position++; // colon
+          readValue(`${pointer}/${escapePointer(key)}`);
+        } else {
+          readValue(`${pointer}/${index++}`);
+        }
+        skipWhitespace();
+        if (text[position] === ',') position++;
+        skipWhitespace();
+      }
+      position++;
+    } else if (char === '"') {
+      readString();
+    } else {
+      while (position < text.length && !/[\s,\]}]/.test(text[position])) position++;
+    }
+  };
+
+  readValue('');
+  return offsets;
+}
+
+/**
+ * Offset of the first character that makes the text invalid JSON. JSON.parse only reports it
+ * in its message on some Node versions.
+ */
+function syntaxErrorOffset(text: string): number {
+  const literal = /true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+  let position = 0;
+
+  const fail = (): never => {
+    throw new SyntaxError(`Unexpected input at position ${position}`);
+  };
+  const skipWhitespace = () => {
+    while (position < text.length && ' \t\n\r'.includes(text[position])) position++;
+  };
+  const expect = (char: string) => {
+    if (text[position] !== char) fail();
+    position++;
+  };
+  const readString = () => {
+    expect('"');
+    while (text[position] !== '"') {
+      if (position >= text.length || text[position] < ' ') fail();
+      if (text[position] === '\\') {
+        position++;
+        if (text[position] === 'u') {
+          if (!/^[\da-fA-F]{4}$/.test(text.slice(position + 1, position + 5))) fail();
+          position += 4;
+        } else if (position >= text.length || !'"\\/bfnrt'.includes(text[position])) {
+          fail();
+        }
+      }
+      position++;
+    }
+    position++;
+  };
+  const readValue = (): void => {
+    skipWhitespace();
+    const char = text[position];
+
+    if (char === '{' || char === '[') {
+      const close = char === '{' ? '}' : ']';
+      position++;
+      skipWhitespace();
+      if (text[position] === close) {
+        position++;
+        return;
+      }
+      for (;;) {
+        if (char === '{') {
+          readString();
+          skipWhitespace();
+          expect(':');
+        }
+        readValue();
+        skipWhitespace();
+        if (text[position] === close) {
+          position++;
+          return;
+        }
+        expect(',');
+        skipWhitespace();
+      }
+    } else if (char === '"') {
+      readString();
+    } else {
+      literal.lastIndex = position;
+      if (!literal.test(text)) fail();
+      position = literal.lastIndex;
+    }
+  };
+
+  try {
+    readValue();
+    skipWhitespace();
+    if (position < text.length) fail();
+  } catch {
+    return Math.min(position, text.length);
+  }
+  return 0;
+}
+
+/**
+ * Offset of the pointer, or of its closest ancestor present in the file
+ */
+function resolveOffset(offsets: Map<string, number>, pointer: string): number {
+  let current = pointer;
+  while (current && !offsets.has(current)) {
+    current = current.slice(0, current.lastIndexOf('/'));
+  }
+  return offsets.get(current) ?? 0;
+}
+
+function positionAt(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
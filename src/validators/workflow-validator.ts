@@ -1,10 +1,18 @@
 import { N8nWorkflow, N8nNode, ValidationResult, ValidationError, ValidationWarning } from '../types/n8n-workflow.js';
+import { ConnectionGraph, getConnectionEdges, findNodeByKey } from '../utils/connection-graph.js';
+import { findParameterExpressions, parseExpression } from '../parsers/expression-parser.js';
+import { NodeParameterValidator } from '../validation/node-parameter-validator.js';
 
 /**
  * Validates n8n workflow structure and identifies issues
  */
 export class WorkflowValidator {
-  
+  /**
+   * @param parameterValidator Node type descriptions to check parameters against; node types
+   * it has no description for fall back to the built-in checks below
+   */
+  constructor(private readonly parameterValidator?: NodeParameterValidator) {}
+
   /**
    * Validate a complete workflow
    */
@@ -21,6 +29,9 @@ export class WorkflowValidator {
     // Validate connections
     this.validateConnections(workflow, errors, warnings);
 
+    // Validate expressions and the nodes they reference
+    this.validateExpressions(workflow, errors, warnings);
+
     // Validate workflow settings
     this.validateSettings(workflow, errors, warnings);
 
@@ -208,6 +219,13 @@ export class WorkflowValidator {
    * Validate node based on its type
    */
   private validateNodeByType(node: N8nNode, errors: ValidationError[], warnings: ValidationWarning[]): void {
+    if (this.parameterValidator?.hasDescription(node)) {
+      const result = this.parameterValidator.validateNode(node);
+      errors.push(...result.errors);
+      warnings.push(...result.warnings);
+      return;
+    }
+
     switch (node.type) {
       case 'n8n-nodes-base.httpRequest':
         this.validateHttpRequestNode(node, errors, warnings);
@@ -305,30 +323,81 @@ export class WorkflowValidator {
    * Validate connections between nodes
    */
   private validateConnections(workflow: N8nWorkflow, errors: ValidationError[], _warnings: ValidationWarning[]): void {
-    const nodeIds = new Set(workflow.nodes.map(node => node.id));
+    if (!Array.isArray(workflow.nodes) || !workflow.connections || typeof workflow.connections !== 'object') {
+      return; // Already handled in basic structure validation
+    }
 
-    for (const sourceNodeId of Object.keys(workflow.connections)) {
-      if (!nodeIds.has(sourceNodeId)) {
+    // Connections are keyed by node name in n8n exports; older workflows key them by node ID
+    for (const sourceKey of Object.keys(workflow.connections)) {
+      if (!findNodeByKey(workflow, sourceKey)) {
         errors.push({
           type: 'connection',
-          message: `Connection source node does not exist: ${sourceNodeId}`,
-          nodeId: sourceNodeId,
+          message: `Connection source node does not exist: ${sourceKey}`,
+          nodeId: sourceKey,
           severity: 'error'
         });
-        continue;
       }
+    }
+
+    for (const edge of getConnectionEdges(workflow.connections)) {
+      if (findNodeByKey(workflow, edge.source) && !findNodeByKey(workflow, edge.target)) {
+        errors.push({
+          type: 'connection',
+          message: `Connection target node does not exist: ${edge.target}`,
+          nodeId: edge.source,
+          severity: 'error'
+        });
+      }
+    }
+  }
+
+  /**
+   * Validate parameter expressions: syntax, and that referenced nodes exist and run before the node
+   */
+  private validateExpressions(workflow: N8nWorkflow, errors: ValidationError[], warnings: ValidationWarning[]): void {
+    if (!Array.isArray(workflow.nodes) || !workflow.connections || typeof workflow.connections !== 'object') {
+      return; // Already handled in basic structure validation
+    }
+
+    const nodeNames = new Set(workflow.nodes.map(node => node.name));
+    const graph = new ConnectionGraph(workflow);
+
+    for (const node of workflow.nodes) {
+      const upstream = graph.getAncestors(node.name);
 
-      const outputs = workflow.connections[sourceNodeId];
-      for (const outputType of Object.keys(outputs)) {
-        const connectionArray = outputs[outputType];
-        for (const connection of connectionArray) {
-          if (!nodeIds.has(connection.node)) {
+      for (const { path, value } of findParameterExpressions(node.parameters)) {
+        const parsed = parseExpression(value);
+
+        for (const message of parsed.errors) {
+          errors.push({
+            type: 'parameter',
+            message: `Invalid expression: ${message}`,
+            nodeId: node.id,
+            field: path,
+            severity: 'error'
+          });
+        }
+
+        const referencedNodes = new Set(parsed.references
+          .filter(reference => reference.kind === 'node' && reference.nodeName !== undefined)
+          .map(reference => reference.nodeName as string));
+
+        for (const referencedNode of referencedNodes) {
+          if (!nodeNames.has(referencedNode)) {
             errors.push({
-              type: 'connection',
-              message: `Connection target node does not exist: ${connection.node}`,
-              nodeId: sourceNodeId,
+              type: 'parameter',
+              message: `Expression references node "${referencedNode}" which does not exist`,
+              nodeId: node.id,
+              field: path,
               severity: 'error'
             });
+          } else if (referencedNode !== node.name && !upstream.has(referencedNode)) {
+            warnings.push({
+              type: 'data_flow_continuity',
+              message: `Expression references node "${referencedNode}" which is not upstream of "${node.name}"`,
+              nodeId: node.id,
+              suggestion: `Connect "${referencedNode}" before "${node.name}" or reference a node that runs earlier`
+            });
           }
         }
       }
@@ -341,13 +410,10 @@ export class WorkflowValidator {
   private checkForIsolatedNodes(workflow: N8nWorkflow, warnings: ValidationWarning[]): void {
     const connectedNodes = new Set<string>();
 
-    Object.keys(workflow.connections).forEach(sourceNodeId => {
-      connectedNodes.add(sourceNodeId);
-      const outputs = workflow.connections[sourceNodeId];
-      Object.values(outputs).forEach(connectionArray => {
-        connectionArray.forEach(connection => {
-          connectedNodes.add(connection.node);
-        });
+    getConnectionEdges(workflow.connections).forEach(edge => {
+      [edge.source, edge.target].forEach(key => {
+        const node = findNodeByKey(workflow, key);
+        if (node) connectedNodes.add(node.id);
       });
     });
 